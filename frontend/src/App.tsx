@@ -5,6 +5,7 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth as useClerkAuth } from '@clerk/clerk-react';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { WorkspaceProvider } from './context/WorkspaceContext';
 import { Layout } from './components/Layout';
 import { LoginPage } from './pages/LoginPage';
 import { ListPage } from './pages/ListPage';
@@ -12,6 +13,9 @@ import { ViewPage } from './pages/ViewPage';
 import { EditPage } from './pages/EditPage';
 import { AdminPage } from './pages/AdminPage';
 import { KeysPage } from './pages/KeysPage';
+import { TrashPage } from './pages/TrashPage';
+import { TeamsPage } from './pages/TeamsPage';
+import { SharedPage } from './pages/SharedPage';
 import { SetupPage } from './pages/SetupPage';
 import { MarketingPage } from './pages/MarketingPage';
 import { PrivacyPolicyPage } from './pages/PrivacyPolicyPage';
@@ -92,6 +96,7 @@ function AppRoutes() {
       <Route path="/" element={<MarketingPage />} />
       <Route path="/privacy-policy" element={<PrivacyPolicyPage />} />
       <Route path="/terms-of-use" element={<TermsOfUsePage />} />
+      <Route path="/s/:token" element={<SharedPage />} />
       <Route
         path="/login"
         element={
@@ -161,6 +166,26 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/app/trash"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <TrashPage />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/app/teams"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <TeamsPage />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/app/admin"
         element={
@@ -180,7 +205,9 @@ export default function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <AppRoutes />
+        <WorkspaceProvider>
+          <AppRoutes />
+        </WorkspaceProvider>
       </AuthProvider>
     </BrowserRouter>
   );
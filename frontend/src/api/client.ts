@@ -2,32 +2,191 @@
  * API client for communicating with the backend using Clerk JWT tokens
  */
 
+// Namespace used when none is specified (matches backend DEFAULT_NAMESPACE)
+export const DEFAULT_NAMESPACE = 'default';
+
 // Types matching backend response formats
 export interface ContextKeyInfo {
   key: string;
+  tags: string[];
+  expires_at: string | null;
   updated_at: string;
 }
 
 export interface ContextEntry {
   key: string;
+  namespace: string;
   content: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  // Set for entries that delete themselves (TTL)
+  expires_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface ListResponse {
   entries: ContextKeyInfo[];
+  namespace: string;
   count: number;
   limit: number;
+  // Pass back as cursor to get the next page; null on the last page
+  next_cursor: string | null;
   search?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
 }
 
 export interface AllContextResponse {
   entries: ContextEntry[];
+  namespace: string;
+  count: number;
+  limit: number;
+  next_cursor: string | null;
+}
+
+// Tag/metadata filters for listing (all tags must match)
+export interface ContextFilter {
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface TagInfo {
+  tag: string;
+  entry_count: number;
+}
+
+export interface TagsResponse {
+  tags: TagInfo[];
+  namespace: string;
+  count: number;
+}
+
+// Marker around matched words in search snippets (matches backend SEARCH_HIGHLIGHT)
+export const SEARCH_HIGHLIGHT = '**';
+
+export interface SearchHit {
+  key: string;
+  tags: string[];
+  rank: number;
+  snippet: string;
+  updated_at: string;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  query: string;
+  namespace: string;
+  // 'any' when no entry matched every word and looser matches were returned
+  match: 'all' | 'any';
+  count: number;
+}
+
+// Options for saveContext
+export interface SaveOptions {
+  // Fail with code CONFLICT if the item changed since this version (0 = must not exist yet)
+  expectedVersion?: number;
+  // Replace the item's tags/metadata (kept when omitted)
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+// Options for renameContext; content/tags are saved in the same request as the rename
+export interface RenameOptions {
+  overwrite?: boolean;
+  expectedVersion?: number;
+  content?: string;
+  tags?: string[];
+}
+
+export interface NamespaceInfo {
+  namespace: string;
+  entry_count: number;
+  updated_at: string | null;
+}
+
+export interface NamespacesResponse {
+  namespaces: NamespaceInfo[];
+  count: number;
+}
+
+export type ContextHistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'rename' | 'copy' | 'expire';
+
+export interface ContextVersion {
+  history_id: number;
+  action: ContextHistoryAction;
+  content: string;
+  restored_from: number | null;
+  source_namespace: string | null;
+  source_key: string | null;
+  changed_at: string;
+}
+
+export interface HistoryResponse {
+  key: string;
+  namespace: string;
+  versions: ContextVersion[];
   count: number;
   limit: number;
 }
 
+export type GrantPermission = 'read' | 'write';
+
+// Someone (a user or a team) an entry is shared with
+export interface ContextGrant {
+  id: number;
+  grantee_type: 'user' | 'team';
+  grantee: string;
+  grantee_name: string | null;
+  permission: GrantPermission;
+  created_at: string;
+}
+
+export interface GrantsResponse {
+  key: string;
+  namespace: string;
+  grants: ContextGrant[];
+  count: number;
+}
+
+// Who to share with: a user's email or a team's slug
+export type ShareTarget = { email: string } | { team: string };
+
+// A public read-only link to an entry
+export interface ShareLink {
+  id: number;
+  created_by: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  access_count: number;
+  last_accessed_at: string | null;
+}
+
+export interface ShareLinksResponse {
+  key: string;
+  namespace: string;
+  links: ShareLink[];
+  count: number;
+}
+
+// A newly created link; the token is only ever returned here
+export interface CreatedShareLink extends ShareLink {
+  token: string;
+  path: string;
+}
+
+// An entry as served to anyone with a share link
+export interface SharedEntry {
+  key: string;
+  namespace: string;
+  content: string;
+  updated_at: string;
+  // When the link expires
+  expires_at: string | null;
+}
+
 export interface AuthMeResponse {
   userId: string;
   email: string | null;
@@ -52,12 +211,37 @@ export interface AdminListUsersResponse {
   count: number;
 }
 
+export type ApiKeyScope = 'context:read' | 'context:write' | 'admin';
+
 export interface AdminApiKey {
   name: string;
+  scopes: ApiKeyScope[];
+  // Key globs and namespaces the key is limited to (null: any)
+  keys: string[] | null;
+  namespaces: string[] | null;
+  expires_at: string | null;
+  request_count: number;
+  last_used_ip: string | null;
+  rotated_at: string | null;
+  // Until when the secret replaced by the last rotation still works
+  previous_key_expires_at: string | null;
   created_at: string;
   last_used_at: string | null;
 }
 
+export interface CreateApiKeyOptions {
+  scopes: ApiKeyScope[];
+  keys?: string[];
+  namespaces?: string[];
+  ttl_seconds?: number;
+}
+
+export interface RotatedApiKey {
+  apiKey: string;
+  keyName: string;
+  previousKeyExpiresAt: string;
+}
+
 export interface AdminListKeysResponse {
   userId: string;
   keys: AdminApiKey[];
@@ -85,16 +269,108 @@ export interface SaveResponse extends ContextEntry {
   action: 'created' | 'updated';
 }
 
+export interface RestoreResponse extends ContextEntry {
+  restored_from: number;
+}
+
+export interface RelocateResponse extends ContextEntry {
+  from_key: string;
+  from_namespace: string;
+  overwritten: boolean;
+}
+
+export interface TrashEntry {
+  id: number;
+  key: string;
+  namespace: string;
+  version: number;
+  tags: string[];
+  preview: string;
+  deleted_at: string;
+  // When the entry is deleted for good
+  purge_at: string;
+}
+
+export interface TrashResponse {
+  entries: TrashEntry[];
+  count: number;
+  retention_days: number;
+  namespace?: string;
+}
+
+export type TeamRole = 'owner' | 'editor' | 'viewer';
+
+// A team workspace, with the current user's role in it
+export interface Team {
+  slug: string;
+  name: string;
+  role: TeamRole;
+  created_at: string;
+}
+
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  role: TeamRole;
+  joined_at: string;
+}
+
+export interface TeamMembersResponse {
+  team: Team;
+  members: TeamMember[];
+  count: number;
+}
+
+export type ExportFormat = 'json' | 'ndjson' | 'tar';
+
+// How an import treats keys that already exist
+export type ImportStrategy = 'skip' | 'overwrite' | 'rename';
+
+export type ImportAction = 'create' | 'overwrite' | 'rename' | 'skip' | 'unchanged' | 'expired';
+
+export interface ImportResultEntry {
+  namespace: string;
+  key: string;
+  action: ImportAction;
+  // Key the entry was written to (rename)
+  new_key?: string;
+  // Fields that differ from the existing entry (overwrite, rename, skip)
+  changes?: Array<'content' | 'tags' | 'metadata'>;
+  version?: number;
+}
+
+export interface ImportResponse {
+  results: ImportResultEntry[];
+  summary: Record<ImportAction, number>;
+  count: number;
+  strategy: ImportStrategy;
+  dry_run: boolean;
+}
+
 export interface ApiError {
   success: false;
   error: string;
   code: string;
+  details?: Record<string, unknown>;
 }
 
+// Details of a CONFLICT error from saveContext
+export interface ConflictDetails {
+  current: ContextEntry | null;
+}
+
+// Error thrown by API methods (code and details mirror the ApiError body)
+export type ApiRequestError = Error & {
+  code?: string;
+  details?: Record<string, unknown>;
+};
+
 type TokenGetter = () => Promise<string | null>;
 
 class ApiClient {
   private getToken: TokenGetter | null = null;
+  // Team slug sent as X-Workspace; null for the personal workspace
+  private workspace: string | null = null;
 
   /**
    * Set the Clerk token getter function
@@ -105,12 +381,27 @@ class ApiClient {
   }
 
   /**
-   * Make an authenticated API request using Clerk JWT
+   * Select the workspace that context and trash requests act on
+   * Called by WorkspaceProvider when the user switches workspaces
    */
-  private async fetch<T>(
-    path: string,
-    options: RequestInit = {}
-  ): Promise<T> {
+  setWorkspace(workspace: string | null): void {
+    this.workspace = workspace;
+  }
+
+  /**
+   * Headers for authenticated requests (Authorization, plus X-Workspace for a team)
+   */
+  private async authHeaders(): Promise<Record<string, string>> {
+    return {
+      Authorization: await this.authorization(),
+      ...(this.workspace && { 'X-Workspace': this.workspace }),
+    };
+  }
+
+  /**
+   * Get the Authorization header value for the current Clerk session
+   */
+  private async authorization(): Promise<string> {
     if (!this.getToken) {
       throw new Error('Token getter not configured');
     }
@@ -120,11 +411,31 @@ class ApiClient {
       throw new Error('Not authenticated');
     }
 
+    return `Bearer ${token}`;
+  }
+
+  /**
+   * Turn an API error body into a thrown ApiRequestError
+   */
+  private toError(data: ApiError): ApiRequestError {
+    const error = new Error(data.error || 'API error') as ApiRequestError;
+    error.code = data.code;
+    error.details = data.details;
+    return error;
+  }
+
+  /**
+   * Make an authenticated API request using Clerk JWT
+   */
+  private async fetch<T>(
+    path: string,
+    options: RequestInit = {}
+  ): Promise<T> {
     const response = await fetch(`/api${path}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
+        ...(await this.authHeaders()),
         ...options.headers,
       },
     });
@@ -132,11 +443,7 @@ class ApiClient {
     const data = await response.json();
 
     if (!data.success) {
-      const error = new Error(data.error || 'API error') as Error & {
-        code?: string;
-      };
-      error.code = data.code;
-      throw error;
+      throw this.toError(data);
     }
 
     return data.data;
@@ -150,55 +457,346 @@ class ApiClient {
   }
 
   /**
-   * List context items
+   * Base path for context routes in a namespace (default namespace lives at the root)
+   */
+  private contextPath(namespace = DEFAULT_NAMESPACE): string {
+    return namespace === DEFAULT_NAMESPACE
+      ? '/context'
+      : `/context/ns/${encodeURIComponent(namespace)}`;
+  }
+
+  /**
+   * List namespaces that contain context items
+   */
+  async listNamespaces(): Promise<NamespacesResponse> {
+    return this.fetch<NamespacesResponse>('/context/namespaces');
+  }
+
+  /**
+   * Add tag/metadata filter query params
    */
-  async listContext(limit?: number, search?: string): Promise<ListResponse> {
+  private addFilterParams(params: URLSearchParams, filter: ContextFilter): void {
+    for (const tag of filter.tags ?? []) {
+      params.append('tag', tag);
+    }
+    if (filter.metadata && Object.keys(filter.metadata).length > 0) {
+      params.set('metadata', JSON.stringify(filter.metadata));
+    }
+  }
+
+  /**
+   * List the tags used in a namespace
+   */
+  async listTags(namespace = DEFAULT_NAMESPACE): Promise<TagsResponse> {
+    return this.fetch<TagsResponse>(`${this.contextPath(namespace)}/tags`);
+  }
+
+  /**
+   * List context items (one page; pass next_cursor to get the following one)
+   */
+  async listContext(
+    limit?: number,
+    search?: string,
+    namespace = DEFAULT_NAMESPACE,
+    filter: ContextFilter = {},
+    cursor?: string
+  ): Promise<ListResponse> {
     const params = new URLSearchParams();
     if (limit) params.set('limit', String(limit));
     if (search) params.set('search', search);
+    this.addFilterParams(params, filter);
+    if (cursor) params.set('cursor', cursor);
 
     const queryString = params.toString();
-    return this.fetch<ListResponse>(`/context${queryString ? `?${queryString}` : ''}`);
+    return this.fetch<ListResponse>(`${this.contextPath(namespace)}${queryString ? `?${queryString}` : ''}`);
   }
 
   /**
-   * Get all context items with content
+   * Get context items with content (one page; pass next_cursor to get the following one)
    */
-  async getAllContext(limit?: number): Promise<AllContextResponse> {
+  async getAllContext(
+    limit?: number,
+    namespace = DEFAULT_NAMESPACE,
+    filter: ContextFilter = {},
+    cursor?: string
+  ): Promise<AllContextResponse> {
     const params = new URLSearchParams();
     if (limit) params.set('limit', String(limit));
+    this.addFilterParams(params, filter);
+    if (cursor) params.set('cursor', cursor);
 
     const queryString = params.toString();
-    return this.fetch<AllContextResponse>(`/context/all${queryString ? `?${queryString}` : ''}`);
+    return this.fetch<AllContextResponse>(
+      `${this.contextPath(namespace)}/all${queryString ? `?${queryString}` : ''}`
+    );
+  }
+
+  /**
+   * Full-text search over keys and content, ranked with highlighted snippets
+   */
+  async searchContext(
+    query: string,
+    limit?: number,
+    namespace = DEFAULT_NAMESPACE,
+    filter: ContextFilter = {}
+  ): Promise<SearchResponse> {
+    const params = new URLSearchParams({ q: query });
+    if (limit) params.set('limit', String(limit));
+    this.addFilterParams(params, filter);
+
+    return this.fetch<SearchResponse>(`${this.contextPath(namespace)}/search?${params.toString()}`);
   }
 
   /**
    * Get a single context item
    */
-  async getContext(key: string): Promise<ContextEntry> {
-    return this.fetch<ContextEntry>(`/context/${encodeURIComponent(key)}`);
+  async getContext(key: string, namespace = DEFAULT_NAMESPACE): Promise<ContextEntry> {
+    return this.fetch<ContextEntry>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}`);
   }
 
   /**
    * Save (create or update) a context item
+   * When options.expectedVersion is given the save fails with code CONFLICT if
+   * the item changed in the meantime (0 means the item must not exist yet)
    */
-  async saveContext(key: string, content: string): Promise<SaveResponse> {
-    return this.fetch<SaveResponse>(`/context/${encodeURIComponent(key)}`, {
+  async saveContext(
+    key: string,
+    content: string,
+    namespace = DEFAULT_NAMESPACE,
+    options: SaveOptions = {}
+  ): Promise<SaveResponse> {
+    const { expectedVersion, tags, metadata } = options;
+    const headers: Record<string, string> = {};
+    if (expectedVersion === 0) {
+      headers['If-None-Match'] = '*';
+    } else if (expectedVersion !== undefined) {
+      headers['If-Match'] = `"${expectedVersion}"`;
+    }
+
+    return this.fetch<SaveResponse>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}`, {
       method: 'PUT',
-      body: JSON.stringify({ content }),
+      headers,
+      body: JSON.stringify({ content, tags, metadata }),
     });
   }
 
   /**
    * Delete a context item
    */
-  async deleteContext(key: string): Promise<{ key: string; deleted: boolean }> {
+  async deleteContext(key: string, namespace = DEFAULT_NAMESPACE): Promise<{ key: string; deleted: boolean }> {
     return this.fetch<{ key: string; deleted: boolean }>(
-      `/context/${encodeURIComponent(key)}`,
+      `${this.contextPath(namespace)}/${encodeURIComponent(key)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * Get previous versions of a context item, most recent first
+   */
+  async getContextHistory(key: string, limit?: number, namespace = DEFAULT_NAMESPACE): Promise<HistoryResponse> {
+    const params = new URLSearchParams();
+    if (limit) params.set('limit', String(limit));
+
+    const queryString = params.toString();
+    return this.fetch<HistoryResponse>(
+      `${this.contextPath(namespace)}/${encodeURIComponent(key)}/history${queryString ? `?${queryString}` : ''}`
+    );
+  }
+
+  /**
+   * List who a context item is shared with
+   */
+  async listGrants(key: string, namespace = DEFAULT_NAMESPACE): Promise<GrantsResponse> {
+    return this.fetch<GrantsResponse>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}/grants`);
+  }
+
+  /**
+   * Share a context item with a user or team (or change the permission of an existing grant)
+   */
+  async shareContext(
+    key: string,
+    target: ShareTarget,
+    permission: GrantPermission,
+    namespace = DEFAULT_NAMESPACE
+  ): Promise<ContextGrant> {
+    return this.fetch<ContextGrant>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}/grants`, {
+      method: 'POST',
+      body: JSON.stringify({ ...target, permission }),
+    });
+  }
+
+  /**
+   * Revoke a grant on a context item
+   */
+  async revokeGrant(key: string, grantId: number, namespace = DEFAULT_NAMESPACE): Promise<{ id: number; revoked: boolean }> {
+    return this.fetch<{ id: number; revoked: boolean }>(
+      `${this.contextPath(namespace)}/${encodeURIComponent(key)}/grants/${grantId}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * List the public share links of a context item
+   */
+  async listShareLinks(key: string, namespace = DEFAULT_NAMESPACE): Promise<ShareLinksResponse> {
+    return this.fetch<ShareLinksResponse>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}/share`);
+  }
+
+  /**
+   * Create a public read-only link to a context item
+   * @param ttlSeconds - Seconds until the link expires; omit for a link that doesn't expire
+   */
+  async createShareLink(key: string, ttlSeconds?: number, namespace = DEFAULT_NAMESPACE): Promise<CreatedShareLink> {
+    return this.fetch<CreatedShareLink>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ ttl_seconds: ttlSeconds }),
+    });
+  }
+
+  /**
+   * Revoke a public share link
+   */
+  async revokeShareLink(key: string, linkId: number, namespace = DEFAULT_NAMESPACE): Promise<{ id: number; revoked: boolean }> {
+    return this.fetch<{ id: number; revoked: boolean }>(
+      `${this.contextPath(namespace)}/${encodeURIComponent(key)}/share/${linkId}`,
       { method: 'DELETE' }
     );
   }
 
+  /**
+   * Open a share link (no auth - used by the public share page)
+   */
+  async getSharedEntry(token: string): Promise<SharedEntry> {
+    const response = await fetch(`/s/${encodeURIComponent(token)}/json`);
+    const data = await response.json();
+
+    if (!data.success) {
+      throw this.toError(data);
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Restore a context item to a previous version
+   */
+  async restoreContextVersion(key: string, historyId: number, namespace = DEFAULT_NAMESPACE): Promise<RestoreResponse> {
+    return this.fetch<RestoreResponse>(
+      `${this.contextPath(namespace)}/${encodeURIComponent(key)}/restore/${historyId}`,
+      { method: 'POST' }
+    );
+  }
+
+  /**
+   * Rename a context item (and/or move it to another namespace), keeping its history
+   * Fails with code CONFLICT if the new key exists (unless overwrite is set) or,
+   * with the item's current version, if it changed since expectedVersion
+   */
+  async renameContext(
+    key: string,
+    newKey: string,
+    namespace = DEFAULT_NAMESPACE,
+    newNamespace = namespace,
+    options: RenameOptions = {}
+  ): Promise<RelocateResponse> {
+    const { overwrite = false, expectedVersion, content, tags } = options;
+    const headers: Record<string, string> = {};
+    if (expectedVersion !== undefined) {
+      headers['If-Match'] = `"${expectedVersion}"`;
+    }
+
+    return this.fetch<RelocateResponse>(`${this.contextPath(namespace)}/${encodeURIComponent(key)}/rename`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ new_key: newKey, new_namespace: newNamespace, overwrite, content, tags }),
+    });
+  }
+
+  /**
+   * Download context items as an export file
+   */
+  async exportContext(format: ExportFormat, namespace?: string): Promise<{ blob: Blob; filename: string }> {
+    const params = new URLSearchParams({ format });
+    if (namespace) params.set('namespace', namespace);
+
+    const response = await fetch(`/api/context/export?${params}`, {
+      headers: await this.authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw this.toError(await response.json());
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `context-export.${format}`;
+    return { blob: await response.blob(), filename };
+  }
+
+  /**
+   * Import an export file; with dryRun, only report what would change
+   */
+  async importContext(
+    file: File,
+    strategy: ImportStrategy,
+    dryRun: boolean,
+    namespace?: string
+  ): Promise<ImportResponse> {
+    const params = new URLSearchParams({ strategy });
+    if (dryRun) params.set('dry_run', 'true');
+    if (namespace) params.set('namespace', namespace);
+
+    const name = file.name.toLowerCase();
+    const contentType = name.endsWith('.tar')
+      ? 'application/x-tar'
+      : name.endsWith('.ndjson')
+        ? 'application/x-ndjson'
+        : 'application/json';
+
+    return this.fetch<ImportResponse>(`/context/import?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: file,
+    });
+  }
+
+  // ============================================
+  // Trash Methods
+  // ============================================
+
+  /**
+   * List deleted context items that can still be restored
+   */
+  async listTrash(namespace?: string, limit?: number): Promise<TrashResponse> {
+    const params = new URLSearchParams();
+    if (namespace) params.set('namespace', namespace);
+    if (limit) params.set('limit', String(limit));
+
+    const queryString = params.toString();
+    return this.fetch<TrashResponse>(`/trash${queryString ? `?${queryString}` : ''}`);
+  }
+
+  /**
+   * Restore a trashed item to the key it was deleted from
+   * Fails with code CONFLICT if that key has been reused
+   */
+  async restoreFromTrash(id: number): Promise<ContextEntry> {
+    return this.fetch<ContextEntry>(`/trash/${id}/restore`, { method: 'POST' });
+  }
+
+  /**
+   * Permanently delete a trashed item
+   */
+  async deleteFromTrash(id: number): Promise<{ id: number; deleted: boolean }> {
+    return this.fetch<{ id: number; deleted: boolean }>(`/trash/${id}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<{ deleted: number }> {
+    return this.fetch<{ deleted: number }>('/trash', { method: 'DELETE' });
+  }
+
   // ============================================
   // Self-Service API Key Methods
   // ============================================
@@ -211,12 +809,23 @@ class ApiClient {
   }
 
   /**
-   * Create a new API key for self
+   * Create a new API key for self, optionally limited to some scopes, keys and
+   * namespaces and expiring after ttl_seconds
    */
-  async createMyKey(name: string): Promise<{ apiKey: string; keyName: string }> {
+  async createMyKey(name: string, options?: CreateApiKeyOptions): Promise<{ apiKey: string; keyName: string }> {
     return this.fetch<{ apiKey: string; keyName: string }>('/keys', {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, ...options }),
+    });
+  }
+
+  /**
+   * Issue a new secret for own API key; the old one keeps working for the grace period
+   */
+  async rotateMyKey(keyName: string, graceSeconds?: number): Promise<RotatedApiKey> {
+    return this.fetch<RotatedApiKey>(`/keys/${encodeURIComponent(keyName)}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ grace_seconds: graceSeconds }),
     });
   }
 
@@ -230,6 +839,73 @@ class ApiClient {
     );
   }
 
+  // ============================================
+  // Team Methods
+  // ============================================
+
+  /**
+   * List the teams the current user belongs to
+   */
+  async listTeams(): Promise<{ teams: Team[]; count: number }> {
+    return this.fetch<{ teams: Team[]; count: number }>('/teams');
+  }
+
+  /**
+   * Create a team owned by the current user
+   */
+  async createTeam(slug: string, name: string): Promise<Team> {
+    return this.fetch<Team>('/teams', {
+      method: 'POST',
+      body: JSON.stringify({ slug, name }),
+    });
+  }
+
+  /**
+   * Delete a team and all of its context (owners only)
+   */
+  async deleteTeam(slug: string): Promise<{ slug: string; deleted: boolean }> {
+    return this.fetch<{ slug: string; deleted: boolean }>(`/teams/${encodeURIComponent(slug)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * List a team's members
+   */
+  async listTeamMembers(slug: string): Promise<TeamMembersResponse> {
+    return this.fetch<TeamMembersResponse>(`/teams/${encodeURIComponent(slug)}/members`);
+  }
+
+  /**
+   * Add a user to a team by email (owners only)
+   */
+  async addTeamMember(slug: string, email: string, role: TeamRole): Promise<TeamMember> {
+    return this.fetch<TeamMember>(`/teams/${encodeURIComponent(slug)}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  /**
+   * Change a member's role (owners only)
+   */
+  async updateTeamMemberRole(slug: string, userId: string, role: TeamRole): Promise<{ user_id: string; role: TeamRole }> {
+    return this.fetch<{ user_id: string; role: TeamRole }>(
+      `/teams/${encodeURIComponent(slug)}/members/${encodeURIComponent(userId)}`,
+      { method: 'PATCH', body: JSON.stringify({ role }) }
+    );
+  }
+
+  /**
+   * Remove a member (owners), or leave the team (own user id)
+   */
+  async removeTeamMember(slug: string, userId: string): Promise<{ user_id: string; removed: boolean }> {
+    return this.fetch<{ user_id: string; removed: boolean }>(
+      `/teams/${encodeURIComponent(slug)}/members/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
   // ============================================
   // Admin API Methods
   // ============================================
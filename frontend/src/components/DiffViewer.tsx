@@ -0,0 +1,93 @@
+/**
+ * Diff viewer that picks a line diff (markdown) or structural diff (JSON)
+ * based on the detected content type of both versions
+ */
+
+import { useMemo } from 'react';
+import { detectContentType } from '../utils/contentDetection';
+import { diffLines, diffJson } from '../utils/diff';
+import type { JsonChange } from '../utils/diff';
+
+interface DiffViewerProps {
+  before: string;
+  after: string;
+}
+
+const jsonChangeStyles: Record<JsonChange['type'], string> = {
+  added: 'text-green-700 bg-green-50',
+  removed: 'text-red-700 bg-red-50',
+  changed: 'text-amber-700 bg-amber-50',
+};
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+function JsonDiff({ before, after }: DiffViewerProps) {
+  const changes = useMemo(() => diffJson(before, after), [before, after]);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No structural changes.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 font-mono text-sm">
+      {changes.map((change) => (
+        <li key={`${change.type}:${change.path}`} className={`rounded px-3 py-1.5 ${jsonChangeStyles[change.type]}`}>
+          <span className="font-semibold">{change.type === 'added' ? '+' : change.type === 'removed' ? '−' : '~'}</span>{' '}
+          <span>{change.path}</span>
+          {change.type === 'changed' && (
+            <span className="block pl-4 text-gray-600 break-all">
+              {formatValue(change.before)} → {formatValue(change.after)}
+            </span>
+          )}
+          {change.type === 'added' && (
+            <span className="block pl-4 text-gray-600 break-all">{formatValue(change.after)}</span>
+          )}
+          {change.type === 'removed' && (
+            <span className="block pl-4 text-gray-600 break-all">{formatValue(change.before)}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function LineDiffView({ before, after }: DiffViewerProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  if (before === after) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  return (
+    <pre className="overflow-x-auto rounded-md text-sm bg-gray-50">
+      <code className="table w-full">
+        {lines.map((line, i) => (
+          <div
+            key={i}
+            className={`table-row ${
+              line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-800' : 'text-gray-700'
+            }`}
+          >
+            <span className="table-cell w-10 pl-2 pr-2 text-right text-gray-400 select-none">{line.oldLine ?? ''}</span>
+            <span className="table-cell w-10 pr-2 text-right text-gray-400 select-none">{line.newLine ?? ''}</span>
+            <span className="table-cell w-4 select-none">
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+            </span>
+            <span className="table-cell pr-4 whitespace-pre-wrap break-all">{line.text}</span>
+          </div>
+        ))}
+      </code>
+    </pre>
+  );
+}
+
+export function DiffViewer({ before, after }: DiffViewerProps) {
+  if (detectContentType(before) === 'json' && detectContentType(after) === 'json') {
+    return <JsonDiff before={before} after={after} />;
+  }
+
+  return <LineDiffView before={before} after={after} />;
+}
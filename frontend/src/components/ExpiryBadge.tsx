@@ -0,0 +1,45 @@
+/**
+ * Expiry badge - live countdown until a context item expires
+ */
+
+import { useState, useEffect } from 'react';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Two most significant units, e.g. "2d 4h", "12m 5s"
+function formatRemaining(ms: number): string {
+  if (ms >= DAY) return `${Math.floor(ms / DAY)}d ${Math.floor((ms % DAY) / HOUR)}h`;
+  if (ms >= HOUR) return `${Math.floor(ms / HOUR)}h ${Math.floor((ms % HOUR) / MINUTE)}m`;
+  if (ms >= MINUTE) return `${Math.floor(ms / MINUTE)}m ${Math.floor((ms % MINUTE) / SECOND)}s`;
+  return `${Math.ceil(ms / SECOND)}s`;
+}
+
+interface ExpiryBadgeProps {
+  expiresAt: string;
+}
+
+export function ExpiryBadge({ expiresAt }: ExpiryBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = new Date(expiresAt).getTime() - now;
+
+  // Tick every second in the last hour, every minute before that, and stop once expired
+  const tickMs = remaining <= 0 ? null : remaining < HOUR ? SECOND : MINUTE;
+  useEffect(() => {
+    if (tickMs === null) return;
+    const timer = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(timer);
+  }, [tickMs]);
+
+  const className = `inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full border ${
+    remaining < HOUR ? 'text-red-700 bg-red-50 border-red-200' : 'text-amber-700 bg-amber-50 border-amber-200'
+  }`;
+
+  return (
+    <span className={className} title={`Expires ${new Date(expiresAt).toLocaleString()}`}>
+      {remaining > 0 ? `Expires in ${formatRemaining(remaining)}` : 'Expired'}
+    </span>
+  );
+}
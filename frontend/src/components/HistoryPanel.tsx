@@ -0,0 +1,178 @@
+/**
+ * History panel - timeline of a context item's versions with diff and restore
+ */
+
+import { useState, useEffect } from 'react';
+import { usePostHog } from 'posthog-js/react';
+import { api } from '../api/client';
+import type { ContextEntry, ContextHistoryAction, ContextVersion } from '../api/client';
+import { DiffViewer } from './DiffViewer';
+
+// The API caps history at 50 versions per request
+const HISTORY_LIMIT = 50;
+
+const actionStyles: Record<ContextHistoryAction, string> = {
+  create: 'text-green-700 bg-green-100',
+  update: 'text-blue-700 bg-blue-100',
+  delete: 'text-red-700 bg-red-100',
+  restore: 'text-purple-700 bg-purple-100',
+  rename: 'text-amber-700 bg-amber-100',
+  copy: 'text-teal-700 bg-teal-100',
+  expire: 'text-gray-700 bg-gray-100',
+};
+
+interface HistoryPanelProps {
+  item: ContextEntry;
+  onRestored: (entry: ContextEntry) => void;
+}
+
+export function HistoryPanel({ item, onRestored }: HistoryPanelProps) {
+  const posthog = usePostHog();
+  const [versions, setVersions] = useState<ContextVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  // Refetch whenever the item changes (including after a restore)
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await api.getContextHistory(item.key, HISTORY_LIMIT, item.namespace);
+        setVersions(data.versions);
+        // Default to comparing the latest version against the one before it
+        setCompareId(data.versions[0]?.history_id ?? null);
+        setBaseId(data.versions[1]?.history_id ?? data.versions[0]?.history_id ?? null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [item.key, item.namespace, item.updated_at]);
+
+  const handleRestore = async (version: ContextVersion) => {
+    try {
+      setRestoringId(version.history_id);
+      setError(null);
+      const entry = await api.restoreContextVersion(item.key, version.history_id, item.namespace);
+      posthog?.capture('context_version_restored');
+      onRestored(entry);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const base = versions.find((v) => v.history_id === baseId);
+  const compare = versions.find((v) => v.history_id === compareId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-900">History</h2>
+        <p className="mt-1 text-xs text-gray-500">
+          Pick two versions to compare (A = older, B = newer). Restoring adds a new version; nothing is lost.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 rounded-md px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3">
+        {/* Timeline */}
+        <ol className="md:border-r border-gray-200 divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+          {versions.map((version) => (
+            <li key={version.history_id} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded ${actionStyles[version.action]}`}>
+                    {version.action}
+                  </span>
+                  <span className="text-xs text-gray-400">#{version.history_id}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setBaseId(version.history_id)}
+                    className={`px-1.5 py-0.5 text-xs rounded border cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                      baseId === version.history_id ? 'bg-red-50 border-red-300 text-red-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                    }`}
+                    title="Compare from this version"
+                  >
+                    A
+                  </button>
+                  <button
+                    onClick={() => setCompareId(version.history_id)}
+                    className={`px-1.5 py-0.5 text-xs rounded border cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                      compareId === version.history_id ? 'bg-green-50 border-green-300 text-green-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                    }`}
+                    title="Compare to this version"
+                  >
+                    B
+                  </button>
+                </div>
+              </div>
+              <div className="mt-1 text-xs text-gray-500">
+                {new Date(version.changed_at).toLocaleString()}
+                {version.restored_from !== null && <> · from #{version.restored_from}</>}
+                {version.source_key !== null && (
+                  <>
+                    {' '}· from {version.source_namespace === item.namespace ? '' : `${version.source_namespace}/`}
+                    {version.source_key}
+                  </>
+                )}
+              </div>
+              <div className="mt-2 flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-400">
+                  {version.content.length.toLocaleString()} characters
+                </span>
+                {version.content !== item.content && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                             focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+                  >
+                    {restoringId === version.history_id ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {/* Diff */}
+        <div className="md:col-span-2 p-4 min-w-0">
+          {base && compare ? (
+            <>
+              <div className="mb-3 text-xs text-gray-500">
+                Comparing <span className="font-medium text-red-700">#{base.history_id}</span> →{' '}
+                <span className="font-medium text-green-700">#{compare.history_id}</span>
+              </div>
+              <DiffViewer before={base.content} after={compare.content} />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">No history recorded for this item yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Import dialog - previews what importing an export file would change
+ * (a dry run) and applies it with the chosen conflict strategy
+ */
+
+import { useState, useEffect } from 'react';
+import { api, DEFAULT_NAMESPACE } from '../api/client';
+import type { ImportAction, ImportResponse, ImportStrategy } from '../api/client';
+
+const STRATEGIES: Array<{ value: ImportStrategy; label: string; description: string }> = [
+  { value: 'skip', label: 'Skip', description: 'Keep existing items' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace existing items' },
+  { value: 'rename', label: 'Rename', description: 'Import as a new key (key-imported)' },
+];
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'text-green-700 bg-green-50' },
+  overwrite: { label: 'Overwrite', className: 'text-amber-700 bg-amber-50' },
+  rename: { label: 'Rename', className: 'text-blue-700 bg-blue-50' },
+  skip: { label: 'Skip', className: 'text-gray-700 bg-gray-100' },
+  unchanged: { label: 'Unchanged', className: 'text-gray-500 bg-gray-50' },
+  expired: { label: 'Expired', className: 'text-gray-500 bg-gray-50' },
+};
+
+interface ImportDialogProps {
+  file: File;
+  onClose: () => void;
+  onImported: (result: ImportResponse) => void;
+}
+
+export function ImportDialog({ file, onClose, onImported }: ImportDialogProps) {
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip');
+  const [report, setReport] = useState<ImportResponse | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [itemErrors, setItemErrors] = useState<Array<{ index: number; key?: string; error: string }>>([]);
+
+  // Dry run whenever the strategy changes
+  useEffect(() => {
+    let cancelled = false;
+    const checkImport = async () => {
+      try {
+        setIsChecking(true);
+        setError(null);
+        setItemErrors([]);
+        const result = await api.importContext(file, strategy, true);
+        if (cancelled) return;
+        setReport(result);
+      } catch (err) {
+        if (cancelled) return;
+        const apiError = err as Error & { details?: { errors?: Array<{ index: number; key?: string; error: string }> } };
+        setReport(null);
+        setError(apiError.message || 'Failed to read import file');
+        setItemErrors(apiError.details?.errors ?? []);
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    };
+
+    checkImport();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, strategy]);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const result = await api.importContext(file, strategy, false);
+      onImported(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import');
+      setIsImporting(false);
+    }
+  };
+
+  const changeCount = report ? report.summary.create + report.summary.overwrite + report.summary.rename : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 cursor-pointer"
+        onClick={isImporting ? undefined : onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-medium text-gray-900">Import {file.name}</h3>
+
+        {/* Strategy selector */}
+        <fieldset className="mt-4">
+          <legend className="text-sm font-medium text-gray-700">When a key already exists</legend>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {STRATEGIES.map((s) => (
+              <label key={s.value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer" title={s.description}>
+                <input
+                  type="radio"
+                  name="import-strategy"
+                  value={s.value}
+                  checked={strategy === s.value}
+                  onChange={() => setStrategy(s.value)}
+                  disabled={isImporting}
+                  className="cursor-pointer"
+                />
+                {s.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <p>{error}</p>
+            {itemErrors.length > 0 && (
+              <ul className="mt-2 list-disc list-inside space-y-1">
+                {itemErrors.slice(0, 10).map((e) => (
+                  <li key={e.index}>
+                    {e.key ?? `Entry ${e.index + 1}`}: {e.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Dry-run report */}
+        {isChecking ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+          </div>
+        ) : report && (
+          <>
+            <p className="mt-4 text-sm text-gray-500">
+              {report.count} item{report.count === 1 ? '' : 's'} in file:{' '}
+              {(Object.keys(ACTION_STYLES) as ImportAction[])
+                .filter((action) => report.summary[action] > 0)
+                .map((action) => `${report.summary[action]} ${ACTION_STYLES[action].label.toLowerCase()}`)
+                .join(', ')}
+            </p>
+            <ul className="mt-3 flex-1 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {report.results.map((r) => (
+                <li key={`${r.namespace}/${r.key}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="min-w-0 truncate text-gray-900">
+                    {r.namespace !== DEFAULT_NAMESPACE && <span className="text-gray-400">{r.namespace}/</span>}
+                    {r.key}
+                    {r.new_key && <span className="text-gray-500"> → {r.new_key}</span>}
+                    {r.changes && r.changes.length > 0 && (
+                      <span className="ml-2 text-xs text-gray-400">({r.changes.join(', ')} differ)</span>
+                    )}
+                  </span>
+                  <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded-full ${ACTION_STYLES[r.action].className}`}>
+                    {ACTION_STYLES[r.action].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                     hover:bg-gray-50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                     focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isChecking || isImporting || !report || changeCount === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md
+                     hover:bg-blue-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                     focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+          >
+            {isImporting ? 'Importing...' : `Import ${changeCount} item${changeCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
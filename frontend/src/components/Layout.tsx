@@ -6,6 +6,8 @@ import { useState, useEffect, useRef, type ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { UserButton } from '@clerk/clerk-react';
 import { useAuth } from '../context/AuthContext';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 interface LayoutProps {
   children: ReactNode;
@@ -15,10 +17,13 @@ const NAV_LINKS = [
   { to: '/app', label: 'My Context' },
   { to: '/app/setup', label: 'Setup' },
   { to: '/app/keys', label: 'API Keys' },
+  { to: '/app/trash', label: 'Trash' },
+  { to: '/app/teams', label: 'Teams' },
 ];
 
 export function Layout({ children }: LayoutProps) {
   const { isAdmin } = useAuth();
+  const { workspace } = useWorkspace();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const headerRef = useRef<HTMLElement>(null);
@@ -57,6 +62,7 @@ export function Layout({ children }: LayoutProps) {
 
             {/* Desktop navigation */}
             <div className="hidden md:flex items-center gap-4">
+              <WorkspaceSwitcher />
               {NAV_LINKS.map((link) => (
                 <Link
                   key={link.to}
@@ -79,6 +85,7 @@ export function Layout({ children }: LayoutProps) {
 
             {/* Mobile: user button + hamburger */}
             <div className="flex md:hidden items-center gap-3">
+              <WorkspaceSwitcher />
               <UserButton />
               <button
                 onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
@@ -125,8 +132,8 @@ export function Layout({ children }: LayoutProps) {
         </div>
       </header>
 
-      {/* Main content */}
-      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Main content (remounted when the workspace changes so pages refetch) */}
+      <main key={workspace ?? 'personal'} className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {children}
       </main>
     </div>
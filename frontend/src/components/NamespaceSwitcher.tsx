@@ -0,0 +1,59 @@
+/**
+ * Namespace switcher dropdown for the list page
+ */
+
+import type { NamespaceInfo } from '../api/client';
+
+// Namespace validation pattern (must match backend)
+const NAMESPACE_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const MAX_NAMESPACE_LENGTH = 64;
+const NEW_NAMESPACE_OPTION = '__new__';
+
+interface NamespaceSwitcherProps {
+  namespaces: NamespaceInfo[];
+  value: string;
+  onChange: (namespace: string) => void;
+}
+
+export function NamespaceSwitcher({ namespaces, value, onChange }: NamespaceSwitcherProps) {
+  // Keep the current namespace selectable even if it has no entries yet
+  const options = namespaces.some((ns) => ns.namespace === value)
+    ? namespaces
+    : [...namespaces, { namespace: value, entry_count: 0, updated_at: null }];
+
+  const handleChange = (selected: string) => {
+    if (selected !== NEW_NAMESPACE_OPTION) {
+      onChange(selected);
+      return;
+    }
+
+    const name = window.prompt('New namespace name (letters, numbers, dashes, underscores):');
+    if (!name) return;
+    const trimmed = name.trim();
+    if (!NAMESPACE_PATTERN.test(trimmed) || trimmed.length > MAX_NAMESPACE_LENGTH) {
+      window.alert(`Namespace must be 1-${MAX_NAMESPACE_LENGTH} letters, numbers, dashes, or underscores`);
+      return;
+    }
+    onChange(trimmed);
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor="namespace-switcher" className="sr-only">Namespace</label>
+      <select
+        id="namespace-switcher"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        className="pl-3 pr-8 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer
+                 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {options.map((ns) => (
+          <option key={ns.namespace} value={ns.namespace}>
+            {ns.namespace} ({ns.entry_count})
+          </option>
+        ))}
+        <option value={NEW_NAMESPACE_OPTION}>+ New namespace...</option>
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Search snippet - renders a search excerpt with the matched words highlighted
+ */
+
+import { SEARCH_HIGHLIGHT } from '../api/client';
+
+interface SearchSnippetProps {
+  snippet: string;
+}
+
+export function SearchSnippet({ snippet }: SearchSnippetProps) {
+  // Matches sit between pairs of markers, so every odd part is a match
+  const parts = snippet.split(SEARCH_HIGHLIGHT);
+
+  return (
+    <p className="mt-1 text-sm text-gray-500 line-clamp-3 whitespace-pre-line">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
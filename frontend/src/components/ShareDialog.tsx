@@ -0,0 +1,257 @@
+/**
+ * Share dialog - shares a single context item with a user or team,
+ * read-only or with write access, and revokes existing grants; public
+ * links are managed below (ShareLinks)
+ */
+
+import { useState, useEffect } from 'react';
+import { usePostHog } from 'posthog-js/react';
+import { api } from '../api/client';
+import type { ContextGrant, GrantPermission, ShareTarget } from '../api/client';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { ShareLinks } from './ShareLinks';
+
+const PERMISSIONS: Array<{ value: GrantPermission; label: string }> = [
+  { value: 'read', label: 'Can read' },
+  { value: 'write', label: 'Can edit' },
+];
+
+type GranteeType = 'user' | 'team';
+
+interface ShareDialogProps {
+  itemKey: string;
+  namespace: string;
+  onClose: () => void;
+}
+
+/**
+ * The share target that re-creates an existing grant (to change its permission)
+ */
+function grantTarget(grant: ContextGrant): ShareTarget {
+  return grant.grantee_type === 'user' ? { email: grant.grantee } : { team: grant.grantee };
+}
+
+export function ShareDialog({ itemKey, namespace, onClose }: ShareDialogProps) {
+  const posthog = usePostHog();
+  const { teams } = useWorkspace();
+  const [grants, setGrants] = useState<ContextGrant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [granteeType, setGranteeType] = useState<GranteeType>('user');
+  const [grantee, setGrantee] = useState('');
+  const [permission, setPermission] = useState<GrantPermission>('read');
+  const [isSharing, setIsSharing] = useState(false);
+  const [busyGrant, setBusyGrant] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadGrants = async () => {
+      try {
+        const result = await api.listGrants(itemKey, namespace);
+        if (cancelled) return;
+        setGrants(result.grants);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load sharing');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadGrants();
+    return () => {
+      cancelled = true;
+    };
+  }, [itemKey, namespace]);
+
+  // Add a grant, or replace the one for the same grantee
+  const upsertGrant = (grant: ContextGrant) => {
+    setGrants((prev) =>
+      prev.some((g) => g.id === grant.id)
+        ? prev.map((g) => (g.id === grant.id ? grant : g))
+        : [...prev, grant]
+    );
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = grantee.trim();
+    if (!value) return;
+
+    setIsSharing(true);
+    setError(null);
+
+    try {
+      const target: ShareTarget = granteeType === 'user' ? { email: value } : { team: value };
+      const grant = await api.shareContext(itemKey, target, permission, namespace);
+      posthog?.capture('context_shared', { grantee_type: granteeType, permission });
+      upsertGrant(grant);
+      setGrantee('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handlePermissionChange = async (grant: ContextGrant, next: GrantPermission) => {
+    setBusyGrant(grant.id);
+    setError(null);
+
+    try {
+      upsertGrant(await api.shareContext(itemKey, grantTarget(grant), next, namespace));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change permission');
+    } finally {
+      setBusyGrant(null);
+    }
+  };
+
+  const handleRevoke = async (grant: ContextGrant) => {
+    setBusyGrant(grant.id);
+    setError(null);
+
+    try {
+      await api.revokeGrant(itemKey, grant.id, namespace);
+      posthog?.capture('context_share_revoked');
+      setGrants((prev) => prev.filter((g) => g.id !== grant.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    } finally {
+      setBusyGrant(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 cursor-pointer"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-medium text-gray-900">Share {itemKey}</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          People you share with see it under "shared with me" in list_context. Revoking takes effect immediately.
+        </p>
+
+        {/* Share form */}
+        <form onSubmit={handleShare} className="mt-4 flex flex-col sm:flex-row gap-2">
+          <label htmlFor="share-grantee-type" className="sr-only">Share with</label>
+          <select
+            id="share-grantee-type"
+            value={granteeType}
+            onChange={(e) => setGranteeType(e.target.value as GranteeType)}
+            className="px-2 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="user">User</option>
+            <option value="team">Team</option>
+          </select>
+          <label htmlFor="share-grantee" className="sr-only">
+            {granteeType === 'user' ? 'Email' : 'Team slug'}
+          </label>
+          <input
+            id="share-grantee"
+            type={granteeType === 'user' ? 'email' : 'text'}
+            value={grantee}
+            onChange={(e) => setGrantee(e.target.value)}
+            placeholder={granteeType === 'user' ? 'colleague@example.com' : 'team-slug'}
+            list={granteeType === 'team' ? 'share-team-options' : undefined}
+            required
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <datalist id="share-team-options">
+            {teams.map((team) => (
+              <option key={team.slug} value={team.slug}>{team.name}</option>
+            ))}
+          </datalist>
+          <label htmlFor="share-permission" className="sr-only">Permission</label>
+          <select
+            id="share-permission"
+            value={permission}
+            onChange={(e) => setPermission(e.target.value as GrantPermission)}
+            className="px-2 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {PERMISSIONS.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isSharing || !grantee.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+          >
+            {isSharing ? 'Sharing...' : 'Share'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Existing grants */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+          </div>
+        ) : grants.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">Not shared with anyone yet.</p>
+        ) : (
+          <ul className="mt-4 flex-1 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {grants.map((grant) => (
+              <li key={grant.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <span className="min-w-0 truncate text-gray-900">
+                  {grant.grantee_type === 'team' ? (
+                    <>
+                      {grant.grantee_name} <span className="text-gray-400 font-mono">team:{grant.grantee}</span>
+                    </>
+                  ) : (
+                    grant.grantee
+                  )}
+                </span>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <select
+                    value={grant.permission}
+                    onChange={(e) => handlePermissionChange(grant, e.target.value as GrantPermission)}
+                    disabled={busyGrant === grant.id}
+                    aria-label={`Permission for ${grant.grantee}`}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white cursor-pointer disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {PERMISSIONS.map((p) => (
+                      <option key={p.value} value={p.value}>{p.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRevoke(grant)}
+                    disabled={busyGrant === grant.id}
+                    className="text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer disabled:opacity-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <ShareLinks itemKey={itemKey} namespace={namespace} />
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                     hover:bg-gray-50 cursor-pointer
+                     focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
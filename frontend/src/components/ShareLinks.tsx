@@ -0,0 +1,182 @@
+/**
+ * Public share links of a context item - creates read-only links (optionally
+ * expiring) for people without an account, and revokes them
+ */
+
+import { useState, useEffect } from 'react';
+import { usePostHog } from 'posthog-js/react';
+import { api } from '../api/client';
+import type { ShareLink } from '../api/client';
+import { CopyButton } from './CopyButton';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const EXPIRY_OPTIONS: Array<{ label: string; seconds?: number }> = [
+  { label: 'Never expires' },
+  { label: 'Expires in 1 day', seconds: DAY_SECONDS },
+  { label: 'Expires in 7 days', seconds: 7 * DAY_SECONDS },
+  { label: 'Expires in 30 days', seconds: 30 * DAY_SECONDS },
+];
+
+interface ShareLinksProps {
+  itemKey: string;
+  namespace: string;
+}
+
+/**
+ * Status of a link for display: active, revoked or expired
+ */
+function linkStatus(link: ShareLink): string | null {
+  if (link.revoked_at) return 'Revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) return 'Expired';
+  return null;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString();
+}
+
+export function ShareLinks({ itemKey, namespace }: ShareLinksProps) {
+  const posthog = usePostHog();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiry, setExpiry] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  // URL of the link created last; the token can't be shown again later
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [busyLink, setBusyLink] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadLinks = async () => {
+      try {
+        const result = await api.listShareLinks(itemKey, namespace);
+        if (cancelled) return;
+        setLinks(result.links);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load share links');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadLinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [itemKey, namespace]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const { seconds } = EXPIRY_OPTIONS[expiry];
+      const link = await api.createShareLink(itemKey, seconds, namespace);
+      posthog?.capture('share_link_created', { expires: seconds !== undefined });
+      setLinks((prev) => [link, ...prev]);
+      setCreatedUrl(`${window.location.origin}${link.path}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    setBusyLink(link.id);
+    setError(null);
+
+    try {
+      await api.revokeShareLink(itemKey, link.id, namespace);
+      posthog?.capture('share_link_revoked');
+      setLinks((prev) => prev.map((l) => (l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke link');
+    } finally {
+      setBusyLink(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200">
+      <h4 className="text-sm font-medium text-gray-900">Public links</h4>
+      <p className="mt-1 text-sm text-gray-500">
+        Anyone with a link can read this item without signing in.
+      </p>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-2">
+        <label htmlFor="share-link-expiry" className="sr-only">Link expiry</label>
+        <select
+          id="share-link-expiry"
+          value={expiry}
+          onChange={(e) => setExpiry(Number(e.target.value))}
+          className="flex-1 px-2 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+        >
+          {isCreating ? 'Creating...' : 'Create link'}
+        </button>
+      </div>
+
+      {createdUrl && (
+        <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-xs text-green-800">Copy this link now - it won't be shown again.</p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs font-mono text-gray-900">{createdUrl}</code>
+            <CopyButton text={createdUrl} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600" />
+        </div>
+      ) : links.length > 0 && (
+        <ul className="mt-3 max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {links.map((link) => {
+            const status = linkStatus(link);
+            return (
+              <li key={link.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <span className={`min-w-0 truncate ${status ? 'text-gray-400' : 'text-gray-900'}`}>
+                  Created {formatDate(link.created_at)}
+                  {' · '}
+                  {link.expires_at ? `expires ${formatDate(link.expires_at)}` : 'no expiry'}
+                  {' · '}
+                  {link.access_count} {link.access_count === 1 ? 'view' : 'views'}
+                </span>
+                {status ? (
+                  <span className="flex-shrink-0 text-xs text-gray-500">{status}</span>
+                ) : (
+                  <button
+                    onClick={() => handleRevoke(link)}
+                    disabled={busyLink === link.id}
+                    className="flex-shrink-0 text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer disabled:opacity-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Tag chip - a small pill for a context tag, optionally clickable to toggle a filter
+ */
+
+interface TagChipProps {
+  tag: string;
+  count?: number;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+export function TagChip({ tag, count, active = false, onClick }: TagChipProps) {
+  const className = `inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border ${
+    active ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-600 bg-gray-50 border-gray-200'
+  }`;
+
+  const label = (
+    <>
+      <span>#{tag}</span>
+      {count !== undefined && <span className="text-gray-400">{count}</span>}
+    </>
+  );
+
+  if (!onClick) {
+    return <span className={className}>{label}</span>;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`${className} cursor-pointer hover:border-blue-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Workspace switcher dropdown for the header (personal or a team workspace)
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { usePostHog } from 'posthog-js/react';
+import { useWorkspace } from '../hooks/useWorkspace';
+
+const PERSONAL_OPTION = '';
+
+export function WorkspaceSwitcher() {
+  const { workspace, teams, setWorkspace } = useWorkspace();
+  const navigate = useNavigate();
+  const posthog = usePostHog();
+
+  if (teams.length === 0) return null;
+
+  const handleChange = (selected: string) => {
+    setWorkspace(selected === PERSONAL_OPTION ? null : selected);
+    posthog?.capture('workspace_switched', { team: selected !== PERSONAL_OPTION });
+    // Keys from the previous workspace don't exist in the new one
+    navigate('/app');
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor="workspace-switcher" className="sr-only">Workspace</label>
+      <select
+        id="workspace-switcher"
+        value={workspace ?? PERSONAL_OPTION}
+        onChange={(e) => handleChange(e.target.value)}
+        className="pl-3 pr-8 py-1.5 text-sm border border-gray-300 rounded-md bg-white cursor-pointer
+                 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value={PERSONAL_OPTION}>Personal</option>
+        {teams.map((team) => (
+          <option key={team.slug} value={team.slug}>
+            {team.name}{team.role === 'viewer' ? ' (read-only)' : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
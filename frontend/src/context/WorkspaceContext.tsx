@@ -0,0 +1,83 @@
+/**
+ * Workspace provider: tracks the selected workspace (personal or a team)
+ * and the teams the user belongs to. The selection is remembered in
+ * localStorage and sent with every context request as X-Workspace.
+ */
+
+import type { ReactNode } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../api/client';
+import type { Team } from '../api/client';
+import { useAuth } from './AuthContext';
+import { WorkspaceContext } from './workspace';
+
+const STORAGE_KEY = 'shared-context:workspace';
+
+/**
+ * Read the saved workspace and point the API client at it
+ */
+function loadSavedWorkspace(): string | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  api.setWorkspace(saved);
+  return saved;
+}
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
+  const { isAuthenticated } = useAuth();
+  const [workspace, setWorkspaceState] = useState<string | null>(loadSavedWorkspace);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  // Update the API client before state so remounted pages fetch from the new workspace
+  const setWorkspace = useCallback((next: string | null) => {
+    api.setWorkspace(next);
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, next);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setWorkspaceState(next);
+  }, []);
+
+  // Store the user's teams, falling back to personal if the selected team is gone
+  // (left, removed or deleted)
+  const applyTeams = useCallback((result: { teams: Team[] }) => {
+    setTeams(result.teams);
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && !result.teams.some((team) => team.slug === saved)) {
+      setWorkspace(null);
+    }
+  }, [setWorkspace]);
+
+  const reloadTeams = useCallback(async () => {
+    applyTeams(await api.listTeams());
+  }, [applyTeams]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    api.listTeams()
+      .then(applyTeams)
+      .catch((err) => console.error('[workspace] Failed to load teams:', err));
+  }, [isAuthenticated, applyTeams]);
+
+  const currentTeam = teams.find((team) => team.slug === workspace) ?? null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspace,
+        currentTeam,
+        teams,
+        canWrite: currentTeam?.role !== 'viewer',
+        setWorkspace,
+        reloadTeams,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
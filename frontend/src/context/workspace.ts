@@ -0,0 +1,21 @@
+/**
+ * Workspace context definition (personal or team workspace)
+ * The provider lives in WorkspaceContext.tsx and the hook in hooks/useWorkspace.ts
+ */
+
+import { createContext } from 'react';
+import type { Team } from '../api/client';
+
+export interface WorkspaceContextValue {
+  // Selected team slug, or null for the personal workspace
+  workspace: string | null;
+  // The selected team, or null for the personal workspace
+  currentTeam: Team | null;
+  teams: Team[];
+  // False for viewers of the selected team
+  canWrite: boolean;
+  setWorkspace: (workspace: string | null) => void;
+  reloadTeams: () => Promise<void>;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Custom hook that calls onLoadMore whenever the returned sentinel element
+ * comes near the viewport, while enabled. Disable it while a page is loading
+ * or when there are no more pages; re-enabling re-checks the sentinel, so
+ * short pages keep loading until the screen is filled.
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean, rootMargin = '200px') {
+  const ref = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!enabled || !el) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return ref;
+}
@@ -3,18 +3,30 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { usePostHog } from 'posthog-js/react';
 import { api } from '../api/client';
-import type { ContextEntry } from '../api/client';
+import type { ApiRequestError, ConflictDetails, ContextEntry, NamespaceInfo } from '../api/client';
+import { DiffViewer } from '../components/DiffViewer';
 import { MarkdownEditor } from '../components/MarkdownEditor';
 import type { MarkdownEditorRef } from '../components/MarkdownEditor';
 import { usePageTitle } from '../hooks/usePageTitle';
+import { getNamespaceParam, withNamespace } from '../utils/namespace';
+import { PROMPT_TAG, extractPromptArguments } from '../utils/prompt';
 
 // Key validation pattern (must match backend)
 const KEY_PATTERN = /^[a-zA-Z0-9_\-\.]+$/;
 const MAX_KEY_LENGTH = 255;
 
+// Namespace validation pattern (must match backend)
+const NAMESPACE_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const MAX_NAMESPACE_LENGTH = 64;
+
+// Tag validation (must match backend)
+const TAG_PATTERN = /^[a-zA-Z0-9_\-.:/]+$/;
+const MAX_TAG_LENGTH = 50;
+const MAX_TAGS = 20;
+
 function validateKey(key: string): string | null {
   if (!key.trim()) {
     return 'Key is required';
@@ -28,8 +40,39 @@ function validateKey(key: string): string | null {
   return null;
 }
 
+function validateNamespace(namespace: string): string | null {
+  if (!namespace.trim()) {
+    return 'Namespace is required';
+  }
+  if (namespace.length > MAX_NAMESPACE_LENGTH) {
+    return `Namespace must be ${MAX_NAMESPACE_LENGTH} characters or less`;
+  }
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    return 'Namespace can only contain letters, numbers, dashes, and underscores';
+  }
+  return null;
+}
+
+// Split a comma/space separated tag list, dropping blanks and duplicates
+function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[\s,]+/).map((t) => t.replace(/^#/, '')).filter(Boolean))];
+}
+
+function validateTags(tags: string[]): string | null {
+  if (tags.length > MAX_TAGS) {
+    return `At most ${MAX_TAGS} tags are allowed`;
+  }
+  const invalid = tags.find((tag) => tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag));
+  if (invalid) {
+    return `Invalid tag "${invalid}": use letters, numbers, dashes, underscores, dots, colons, or slashes (max ${MAX_TAG_LENGTH} characters)`;
+  }
+  return null;
+}
+
 export function EditPage() {
   const { key: existingKey } = useParams<{ key: string }>();
+  const [searchParams] = useSearchParams();
+  const initialNamespace = getNamespaceParam(searchParams);
   const navigate = useNavigate();
   const posthog = usePostHog();
   const editorRef = useRef<MarkdownEditorRef>(null);
@@ -38,12 +81,21 @@ export function EditPage() {
   usePageTitle(isNew ? 'New Item' : existingKey ? `Edit ${existingKey}` : undefined);
 
   const [key, setKey] = useState(existingKey || '');
+  const [namespace, setNamespace] = useState(initialNamespace);
+  const [namespaces, setNamespaces] = useState<NamespaceInfo[]>([]);
   const [item, setItem] = useState<ContextEntry | null>(null);
   const [isLoading, setIsLoading] = useState(!isNew);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [keyError, setKeyError] = useState<string | null>(null);
+  const [namespaceError, setNamespaceError] = useState<string | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [tagsError, setTagsError] = useState<string | null>(null);
+  // {{argument}} placeholders in the current content, shown for prompt templates
+  const [promptArguments, setPromptArguments] = useState<string[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
+  // Set when a save lost a race with another writer; holds their version and ours
+  const [conflict, setConflict] = useState<(ConflictDetails & { mine: string; tags: string[] }) | null>(null);
 
   // Fetch existing item if editing
   useEffect(() => {
@@ -53,9 +105,12 @@ export function EditPage() {
       try {
         setIsLoading(true);
         setError(null);
-        const data = await api.getContext(existingKey);
+        const data = await api.getContext(existingKey, initialNamespace);
         setItem(data);
         setKey(data.key);
+        setNamespace(data.namespace);
+        setTagsInput(data.tags.join(', '));
+        setPromptArguments(extractPromptArguments(data.content));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load item');
       } finally {
@@ -64,10 +119,27 @@ export function EditPage() {
     };
 
     fetchItem();
-  }, [existingKey, isNew]);
+  }, [existingKey, initialNamespace, isNew]);
+
+  // Fetch existing namespaces for the namespace suggestions on new items
+  useEffect(() => {
+    if (!isNew) return;
+
+    const fetchNamespaces = async () => {
+      try {
+        const response = await api.listNamespaces();
+        setNamespaces(response.namespaces);
+      } catch (err) {
+        console.error('[edit] Failed to load namespaces:', err);
+      }
+    };
+
+    fetchNamespaces();
+  }, [isNew]);
 
   // Track changes in editor
-  const handleEditorChange = useCallback(() => {
+  const handleEditorChange = useCallback((markdown: string) => {
+    setPromptArguments(extractPromptArguments(markdown));
     setHasChanges(true);
   }, []);
 
@@ -78,16 +150,49 @@ export function EditPage() {
     setHasChanges(true);
   };
 
+  const handleNamespaceChange = (value: string) => {
+    setNamespace(value);
+    setNamespaceError(null);
+    setHasChanges(true);
+  };
+
+  const handleTagsChange = (value: string) => {
+    setTagsInput(value);
+    setTagsError(null);
+    setHasChanges(true);
+  };
+
+  // Publishing as an MCP prompt is just the prompt tag
+  const isPrompt = parseTags(tagsInput).includes(PROMPT_TAG);
+  const handlePromptToggle = (checked: boolean) => {
+    const tags = parseTags(tagsInput).filter((tag) => tag !== PROMPT_TAG);
+    handleTagsChange((checked ? [...tags, PROMPT_TAG] : tags).join(', '));
+  };
+
   // Save handler
   const handleSave = async () => {
-    // Validate key for new items
-    if (isNew) {
+    // Validate the key for new and renamed items, and the namespace for new items
+    if (isNew || key !== existingKey) {
       const keyValidationError = validateKey(key);
       if (keyValidationError) {
         setKeyError(keyValidationError);
         return;
       }
     }
+    if (isNew) {
+      const namespaceValidationError = validateNamespace(namespace);
+      if (namespaceValidationError) {
+        setNamespaceError(namespaceValidationError);
+        return;
+      }
+    }
+
+    const tags = parseTags(tagsInput);
+    const tagsValidationError = validateTags(tags);
+    if (tagsValidationError) {
+      setTagsError(tagsValidationError);
+      return;
+    }
 
     // Get content from editor
     const content = editorRef.current?.getMarkdown() || '';
@@ -97,33 +202,80 @@ export function EditPage() {
       return;
     }
 
+    // Only overwrite the version we loaded (new items must not exist yet)
+    await saveContent(content, tags, isNew ? 0 : item?.version);
+  };
+
+  const saveContent = async (content: string, tags: string[], expectedVersion?: number) => {
     try {
       setIsSaving(true);
       setError(null);
+      setConflict(null);
 
-      const targetKey = isNew ? key : existingKey!;
-      const result = await api.saveContext(targetKey, content);
-
-      const eventName = result.action === 'created' ? 'context_created' : 'context_updated';
-      posthog?.capture(eventName, { key_length: targetKey.length });
+      // A renamed item is saved and renamed in one request, so neither happens without the other
+      if (!isNew && key !== existingKey) {
+        await api.renameContext(existingKey!, key, namespace, namespace, { expectedVersion, content, tags });
+        posthog?.capture('context_renamed');
+      } else {
+        const result = await api.saveContext(key, content, namespace, { expectedVersion, tags });
+        const eventName = result.action === 'created' ? 'context_created' : 'context_updated';
+        posthog?.capture(eventName, { key_length: key.length });
+      }
 
       // Navigate to view page
-      navigate(`/app/view/${encodeURIComponent(targetKey)}`);
+      navigate(withNamespace(`/app/view/${encodeURIComponent(key)}`, namespace));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save item');
+      const apiError = err as ApiRequestError;
+      const current = (apiError.details as unknown as ConflictDetails | undefined)?.current;
+      if (apiError.code === 'CONFLICT' && key !== existingKey && current?.key === key) {
+        // The new key is taken by another item
+        setKeyError(`"${key}" already exists. Choose another key.`);
+      } else if (apiError.code === 'CONFLICT') {
+        posthog?.capture('context_save_conflict');
+        setConflict({ ...(apiError.details as unknown as ConflictDetails), mine: content, tags });
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save item');
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  // Resolve a conflict by saving our content over the other writer's version
+  const handleOverwrite = () => {
+    if (!conflict) return;
+    saveContent(conflict.mine, conflict.tags, conflict.current?.version ?? 0);
+  };
+
+  // Resolve a conflict by dropping our changes in favour of the other writer's version
+  const handleDiscard = () => {
+    if (!conflict) return;
+    const current = conflict.current;
+    setConflict(null);
+    if (!current) {
+      navigate(withNamespace('/app', namespace));
+    } else if (isNew) {
+      navigate(withNamespace(`/app/view/${encodeURIComponent(current.key)}`, current.namespace));
+    } else {
+      setItem(current);
+      setTagsInput(current.tags.join(', '));
+      setPromptArguments(extractPromptArguments(current.content));
+      setHasChanges(false);
+    }
+  };
+
   // Handle navigation with unsaved changes
   const handleCancel = () => {
+    const backPath = withNamespace(
+      isNew ? '/app' : `/app/view/${encodeURIComponent(existingKey!)}`,
+      initialNamespace
+    );
     if (hasChanges) {
       if (window.confirm('You have unsaved changes. Are you sure you want to leave?')) {
-        navigate(isNew ? '/app' : `/app/view/${encodeURIComponent(existingKey!)}`);
+        navigate(backPath);
       }
     } else {
-      navigate(isNew ? '/app' : `/app/view/${encodeURIComponent(existingKey!)}`);
+      navigate(backPath);
     }
   };
 
@@ -142,7 +294,7 @@ export function EditPage() {
           {error}
         </div>
         <div className="mt-4">
-          <Link to="/app" className="text-sm text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 rounded">
+          <Link to={withNamespace('/app', initialNamespace)} className="text-sm text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 rounded">
             Back to list
           </Link>
         </div>
@@ -178,6 +330,11 @@ export function EditPage() {
           <h1 className="text-xl font-semibold text-gray-900">
             {isNew ? 'New Item' : `Edit ${existingKey}`}
           </h1>
+          {!isNew && (
+            <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+              {namespace}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -230,36 +387,159 @@ export function EditPage() {
         </div>
       )}
 
-      {/* Key input for new items */}
+      {/* Conflict with another writer */}
+      {conflict && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md px-4 py-3 mb-6">
+          <p className="text-sm font-medium text-amber-800">
+            {conflict.current
+              ? isNew
+                ? `"${conflict.current.key}" already exists in namespace "${conflict.current.namespace}".`
+                : `This item was changed elsewhere since you opened it (now version ${conflict.current.version}, updated ${new Date(conflict.current.updated_at).toLocaleString()}).`
+              : 'This item was deleted elsewhere since you opened it.'}
+          </p>
+          <p className="mt-1 text-xs text-amber-700">
+            Your changes have not been saved. Review the difference between their version and yours below.
+          </p>
+          <div className="mt-3 max-h-80 overflow-y-auto bg-white rounded border border-amber-200 p-2">
+            <DiffViewer before={conflict.current?.content ?? ''} after={conflict.mine} />
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              onClick={handleDiscard}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                       hover:bg-gray-50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                       focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+            >
+              {conflict.current ? 'Discard mine, keep theirs' : 'Discard mine'}
+            </button>
+            <button
+              onClick={handleOverwrite}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md
+                       hover:bg-amber-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                       focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-500 focus-visible:ring-offset-2"
+            >
+              {conflict.current ? 'Overwrite with mine' : 'Recreate with mine'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Namespace input for new items */}
       {isNew && (
         <div className="mb-6">
           <label
-            htmlFor="key"
+            htmlFor="namespace"
             className="block text-sm font-medium text-gray-700 mb-1"
           >
-            Key
+            Namespace
           </label>
           <input
             type="text"
-            id="key"
-            value={key}
-            onChange={(e) => handleKeyChange(e.target.value)}
-            placeholder="my-context-key"
+            id="namespace"
+            list="namespace-options"
+            value={namespace}
+            onChange={(e) => handleNamespaceChange(e.target.value)}
+            placeholder="default"
             className={`w-full px-3 py-2 text-sm border rounded-md
                      placeholder:text-gray-400
                      focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
-                     ${keyError ? 'border-red-300' : 'border-gray-300'}`}
+                     ${namespaceError ? 'border-red-300' : 'border-gray-300'}`}
             disabled={isSaving}
           />
-          {keyError && (
-            <p className="mt-1 text-sm text-red-600">{keyError}</p>
+          <datalist id="namespace-options">
+            {namespaces.map((ns) => (
+              <option key={ns.namespace} value={ns.namespace} />
+            ))}
+          </datalist>
+          {namespaceError && (
+            <p className="mt-1 text-sm text-red-600">{namespaceError}</p>
           )}
           <p className="mt-1 text-xs text-gray-500">
-            Only letters, numbers, dashes, underscores, and dots allowed
+            Group related items by project. Only letters, numbers, dashes, and underscores allowed
           </p>
         </div>
       )}
 
+      {/* Key input (renaming an existing item keeps its history) */}
+      <div className="mb-6">
+        <label
+          htmlFor="key"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Key
+        </label>
+        <input
+          type="text"
+          id="key"
+          value={key}
+          onChange={(e) => handleKeyChange(e.target.value)}
+          placeholder="my-context-key"
+          className={`w-full px-3 py-2 text-sm border rounded-md
+                   placeholder:text-gray-400
+                   focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+                   ${keyError ? 'border-red-300' : 'border-gray-300'}`}
+          disabled={isSaving}
+        />
+        {keyError && (
+          <p className="mt-1 text-sm text-red-600">{keyError}</p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          Only letters, numbers, dashes, underscores, and dots allowed
+          {!isNew && '. Renaming keeps the item\'s version history'}
+        </p>
+      </div>
+
+      {/* Tags */}
+      <div className="mb-6">
+        <label
+          htmlFor="tags"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Tags
+        </label>
+        <input
+          type="text"
+          id="tags"
+          value={tagsInput}
+          onChange={(e) => handleTagsChange(e.target.value)}
+          placeholder="architecture, status:draft"
+          className={`w-full px-3 py-2 text-sm border rounded-md
+                   placeholder:text-gray-400
+                   focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+                   ${tagsError ? 'border-red-300' : 'border-gray-300'}`}
+          disabled={isSaving}
+        />
+        {tagsError && (
+          <p className="mt-1 text-sm text-red-600">{tagsError}</p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          Separate tags with commas or spaces
+        </p>
+      </div>
+
+      {/* Prompt template */}
+      <div className="mb-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isPrompt}
+            onChange={(e) => handlePromptToggle(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            disabled={isSaving}
+          />
+          Use as MCP prompt
+        </label>
+        {isPrompt && (
+          <p className="mt-1 text-xs text-gray-500">
+            {promptArguments.length > 0
+              ? `Arguments: ${promptArguments.join(', ')}`
+              : 'Add {{argument}} placeholders to the content to declare prompt arguments'}
+          </p>
+        )}
+      </div>
+
       {/* Editor */}
       <div className="mb-4">
         <label className="block text-sm font-medium text-gray-700 mb-2">
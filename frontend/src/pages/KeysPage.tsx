@@ -5,10 +5,48 @@
 import { useState, useEffect, useCallback } from 'react';
 import { usePostHog } from 'posthog-js/react';
 import { api } from '../api/client';
-import type { AdminApiKey } from '../api/client';
+import type { AdminApiKey, ApiKeyScope } from '../api/client';
+import { useAuth } from '../context/AuthContext';
 import { usePageTitle } from '../hooks/usePageTitle';
 import { CliSetupInstructions } from '../components/SetupInstructions';
 
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'context:read': 'Read',
+  'context:write': 'Write',
+  admin: 'Admin',
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Keys unused for this long are flagged as stale
+const STALE_AFTER_DAYS = 30;
+
+const EXPIRY_OPTIONS: Array<{ label: string; seconds?: number }> = [
+  { label: 'Never expires' },
+  { label: 'Expires in 30 days', seconds: 30 * DAY_SECONDS },
+  { label: 'Expires in 90 days', seconds: 90 * DAY_SECONDS },
+  { label: 'Expires in 1 year', seconds: 365 * DAY_SECONDS },
+];
+
+/**
+ * Status of a key for display: expired, stale (unused for a while) or fine
+ */
+function keyStatus(key: AdminApiKey): 'expired' | 'stale' | null {
+  const now = Date.now();
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now) return 'expired';
+  const lastActivity = new Date(key.last_used_at ?? key.created_at).getTime();
+  if (now - lastActivity > STALE_AFTER_DAYS * DAY_SECONDS * 1000) return 'stale';
+  return null;
+}
+
+/**
+ * Split a comma-separated list of key patterns or namespaces (undefined when empty)
+ */
+function parseList(value: string): string[] | undefined {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
 // Reuse Modal and ConfirmDialog patterns from AdminPage
 
 function Modal({
@@ -64,6 +102,7 @@ function ConfirmDialog({
   title,
   message,
   confirmText = 'Revoke',
+  loadingText = 'Revoking...',
   isLoading = false,
 }: {
   isOpen: boolean;
@@ -72,6 +111,7 @@ function ConfirmDialog({
   title: string;
   message: string;
   confirmText?: string;
+  loadingText?: string;
   isLoading?: boolean;
 }) {
   return (
@@ -90,7 +130,7 @@ function ConfirmDialog({
           disabled={isLoading}
           className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
         >
-          {isLoading ? 'Revoking...' : confirmText}
+          {isLoading ? loadingText : confirmText}
         </button>
       </div>
     </Modal>
@@ -135,15 +175,24 @@ function CliSetupAccordion() {
 export function KeysPage() {
   usePageTitle('API Keys');
   const posthog = usePostHog();
+  const { isAdmin } = useAuth();
   const [keys, setKeys] = useState<AdminApiKey[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['context:read', 'context:write']);
+  const [newKeyPatterns, setNewKeyPatterns] = useState('');
+  const [newKeyNamespaces, setNewKeyNamespaces] = useState('');
+  const [newKeyExpiry, setNewKeyExpiry] = useState(0);
   const [isCreating, setIsCreating] = useState(false);
   const [createdKey, setCreatedKey] = useState<string | null>(null);
+  // When the secret replaced by a rotation stops working, shown with the new key
+  const [previousKeyExpiresAt, setPreviousKeyExpiresAt] = useState<string | null>(null);
   const [copiedKey, setCopiedKey] = useState(false);
   const [revokeConfirm, setRevokeConfirm] = useState<string | null>(null);
   const [isRevoking, setIsRevoking] = useState(false);
+  const [rotateConfirm, setRotateConfirm] = useState<string | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
 
   const loadKeys = useCallback(async () => {
     setIsLoading(true);
@@ -165,16 +214,33 @@ export function KeysPage() {
 
   const handleCreateKey = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newKeyName.trim()) return;
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return;
 
     setIsCreating(true);
     setError(null);
 
     try {
-      const result = await api.createMyKey(newKeyName.trim());
-      posthog?.capture('api_key_created');
+      const keyPatterns = parseList(newKeyPatterns);
+      const namespaces = parseList(newKeyNamespaces);
+      const { seconds } = EXPIRY_OPTIONS[newKeyExpiry];
+      const result = await api.createMyKey(newKeyName.trim(), {
+        scopes: newKeyScopes,
+        keys: keyPatterns,
+        namespaces,
+        ttl_seconds: seconds,
+      });
+      posthog?.capture('api_key_created', {
+        scopes: newKeyScopes,
+        restricted: keyPatterns !== undefined || namespaces !== undefined,
+        expires: seconds !== undefined,
+      });
       setCreatedKey(result.apiKey);
+      setPreviousKeyExpiresAt(null);
       setNewKeyName('');
+      setNewKeyScopes(['context:read', 'context:write']);
+      setNewKeyPatterns('');
+      setNewKeyNamespaces('');
+      setNewKeyExpiry(0);
       await loadKeys();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create API key');
@@ -183,6 +249,10 @@ export function KeysPage() {
     }
   };
 
+  const toggleScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
   const handleRevokeKey = async () => {
     if (!revokeConfirm) return;
 
@@ -199,6 +269,24 @@ export function KeysPage() {
     }
   };
 
+  const handleRotateKey = async () => {
+    if (!rotateConfirm) return;
+
+    setIsRotating(true);
+    try {
+      const result = await api.rotateMyKey(rotateConfirm);
+      posthog?.capture('api_key_rotated');
+      setCreatedKey(result.apiKey);
+      setPreviousKeyExpiresAt(result.previousKeyExpiresAt);
+      setRotateConfirm(null);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate API key');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
   const handleCopyCreatedKey = async () => {
     if (createdKey) {
       try {
@@ -248,6 +336,11 @@ export function KeysPage() {
           <p className="text-sm text-yellow-800 font-medium mb-2">
             Save this API key now — it won't be shown again!
           </p>
+          {previousKeyExpiresAt && (
+            <p className="text-sm text-yellow-800 mb-2">
+              The old key keeps working until {formatDate(previousKeyExpiresAt)}.
+            </p>
+          )}
           <div className="flex gap-2">
             <input
               type="text"
@@ -275,29 +368,98 @@ export function KeysPage() {
       {/* Create new key form */}
       <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4">
         <h2 className="text-sm font-semibold text-gray-900 mb-3">Create New Key</h2>
-        <form onSubmit={handleCreateKey} className="flex gap-2">
-          <label htmlFor="new-key-name" className="sr-only">Key name</label>
-          <input
-            id="new-key-name"
-            type="text"
-            value={newKeyName}
-            onChange={(e) => setNewKeyName(e.target.value)}
-            placeholder="Key name (e.g., laptop, work-machine)"
-            pattern="^[a-zA-Z0-9_-]+$"
-            required
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          />
-          <button
-            type="submit"
-            disabled={isCreating || !newKeyName.trim()}
-            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
-          >
-            {isCreating ? 'Creating...' : 'Create Key'}
-          </button>
+        <form onSubmit={handleCreateKey}>
+          <div className="flex gap-2">
+            <label htmlFor="new-key-name" className="sr-only">Key name</label>
+            <input
+              id="new-key-name"
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="Key name (e.g., laptop, work-machine)"
+              pattern="^[a-zA-Z0-9_-]+$"
+              required
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !newKeyName.trim() || newKeyScopes.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+            >
+              {isCreating ? 'Creating...' : 'Create Key'}
+            </button>
+          </div>
+          <p className="mt-1.5 text-xs text-gray-500">
+            Alphanumeric, dashes, and underscores only
+          </p>
+
+          <fieldset className="mt-4">
+            <legend className="text-xs font-medium text-gray-700">Scopes</legend>
+            <div className="mt-1.5 flex flex-wrap gap-4">
+              {(Object.keys(SCOPE_LABELS) as ApiKeyScope[])
+                .filter((scope) => scope !== 'admin' || isAdmin)
+                .map((scope) => (
+                  <label key={scope} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={newKeyScopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 cursor-pointer focus:ring-blue-500"
+                    />
+                    {SCOPE_LABELS[scope]}
+                  </label>
+                ))}
+            </div>
+          </fieldset>
+
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="new-key-patterns" className="block text-xs font-medium text-gray-700">
+                Limit to keys
+              </label>
+              <input
+                id="new-key-patterns"
+                type="text"
+                value={newKeyPatterns}
+                onChange={(e) => setNewKeyPatterns(e.target.value)}
+                placeholder="e.g. docs.*, readme"
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="new-key-namespaces" className="block text-xs font-medium text-gray-700">
+                Limit to namespaces
+              </label>
+              <input
+                id="new-key-namespaces"
+                type="text"
+                value={newKeyNamespaces}
+                onChange={(e) => setNewKeyNamespaces(e.target.value)}
+                placeholder="e.g. default, project-a"
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <p className="mt-1.5 text-xs text-gray-500">
+            Comma-separated; leave empty for all keys or namespaces. Patterns can use * and ?.
+          </p>
+
+          <div className="mt-4">
+            <label htmlFor="new-key-expiry" className="block text-xs font-medium text-gray-700">
+              Expiry
+            </label>
+            <select
+              id="new-key-expiry"
+              value={newKeyExpiry}
+              onChange={(e) => setNewKeyExpiry(Number(e.target.value))}
+              className="mt-1 px-2 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {EXPIRY_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </div>
         </form>
-        <p className="mt-1.5 text-xs text-gray-500">
-          Alphanumeric, dashes, and underscores only
-        </p>
       </div>
 
       {/* Keys list */}
@@ -318,39 +480,83 @@ export function KeysPage() {
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Name
                   </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Scopes
+                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Created
                   </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Last Used
                   </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expires
+                  </th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {keys.map((key) => (
-                  <tr key={key.name} className="hover:bg-gray-50">
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <span className="font-medium text-gray-900">{key.name}</span>
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
-                      {formatDate(key.created_at)}
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
-                      {formatDate(key.last_used_at)}
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-right">
-                      <button
-                        onClick={() => setRevokeConfirm(key.name)}
-                        className="text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
-                      >
-                        Revoke
-                      </button>
-                    </td>
-                  </tr>
-                ))}
+                {keys.map((key) => {
+                  const status = keyStatus(key);
+                  return (
+                    <tr key={key.name} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className="font-medium text-gray-900">{key.name}</span>
+                        {status === 'expired' && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-medium text-red-700 bg-red-100 rounded">
+                            Expired
+                          </span>
+                        )}
+                        {status === 'stale' && (
+                          <span
+                            className="ml-2 px-2 py-0.5 text-xs font-medium text-yellow-800 bg-yellow-100 rounded"
+                            title={`Not used in the last ${STALE_AFTER_DAYS} days - consider revoking it`}
+                          >
+                            Stale
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        <div>{key.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')}</div>
+                        {key.keys && (
+                          <div className="text-xs text-gray-500">Keys: <span className="font-mono">{key.keys.join(', ')}</span></div>
+                        )}
+                        {key.namespaces && (
+                          <div className="text-xs text-gray-500">Namespaces: {key.namespaces.join(', ')}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {formatDate(key.created_at)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        <div>{formatDate(key.last_used_at)}</div>
+                        <div className="text-xs text-gray-500">
+                          {key.request_count} {key.request_count === 1 ? 'request' : 'requests'}
+                          {key.last_used_ip && <> · {key.last_used_ip}</>}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {key.expires_at ? formatDate(key.expires_at) : 'Never'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => setRotateConfirm(key.name)}
+                          className="mr-3 text-sm text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 rounded"
+                        >
+                          Rotate
+                        </button>
+                        <button
+                          onClick={() => setRevokeConfirm(key.name)}
+                          className="text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+                        >
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -370,6 +576,18 @@ export function KeysPage() {
         confirmText="Revoke"
         isLoading={isRevoking}
       />
+
+      {/* Rotate confirmation dialog */}
+      <ConfirmDialog
+        isOpen={!!rotateConfirm}
+        onClose={() => setRotateConfirm(null)}
+        onConfirm={handleRotateKey}
+        title="Rotate API Key"
+        message={`Issue a new secret for "${rotateConfirm}"? The current key keeps working for 24 hours so you can update your clients.`}
+        confirmText="Rotate"
+        loadingText="Rotating..."
+        isLoading={isRotating}
+      />
     </div>
   );
 }
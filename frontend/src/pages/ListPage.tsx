@@ -2,30 +2,100 @@
  * List page - shows all context items
  */
 
-import { useState, useEffect, useMemo, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { usePostHog } from 'posthog-js/react';
-import { api } from '../api/client';
-import type { ContextEntry } from '../api/client';
+import { api, DEFAULT_NAMESPACE } from '../api/client';
+import type { ContextEntry, ExportFormat, ImportResponse, NamespaceInfo, SearchResponse, TagInfo } from '../api/client';
 import { usePageTitle } from '../hooks/usePageTitle';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { NamespaceSwitcher } from '../components/NamespaceSwitcher';
+import { TagChip } from '../components/TagChip';
+import { ExpiryBadge } from '../components/ExpiryBadge';
+import { SearchSnippet } from '../components/SearchSnippet';
+import { ImportDialog } from '../components/ImportDialog';
+import { getNamespaceParam, withNamespace } from '../utils/namespace';
+
+// Items fetched per page of the list
+const PAGE_SIZE = 50;
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'json', label: 'JSON' },
+  { format: 'tar', label: 'Files (.tar)' },
+  { format: 'ndjson', label: 'NDJSON with history' },
+];
 
 export function ListPage() {
-  usePageTitle('My Context');
+  const { currentTeam, canWrite } = useWorkspace();
+  const title = currentTeam?.name ?? 'My Context';
+  usePageTitle(title);
   const posthog = usePostHog();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const namespace = getNamespaceParam(searchParams);
+  const selectedTags = searchParams.getAll('tag');
+  const selectedTagsKey = selectedTags.join(',');
+  const [namespaces, setNamespaces] = useState<NamespaceInfo[]>([]);
+  const [tags, setTags] = useState<TagInfo[]>([]);
   const [items, setItems] = useState<ContextEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped whenever the list is reloaded so late pages of an old list are dropped
+  const listGeneration = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const searchTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const isSearchActive = searchQuery.trim() !== '';
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Bumped after an import so namespaces and items are fetched again
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Fetch namespaces on mount
+  useEffect(() => {
+    const fetchNamespaces = async () => {
+      try {
+        const response = await api.listNamespaces();
+        setNamespaces(response.namespaces);
+      } catch (err) {
+        console.error('[list] Failed to load namespaces:', err);
+      }
+    };
+
+    fetchNamespaces();
+  }, [reloadCount]);
 
-  // Fetch all items on mount
+  // Fetch the tags used in the selected namespace
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await api.listTags(namespace);
+        setTags(response.tags);
+      } catch (err) {
+        console.error('[list] Failed to load tags:', err);
+      }
+    };
+
+    fetchTags();
+  }, [namespace]);
+
+  // Fetch the first page of items in the selected namespace matching the selected tags
   useEffect(() => {
     const fetchItems = async () => {
+      const generation = ++listGeneration.current;
       try {
         setIsLoading(true);
         setError(null);
-        const response = await api.getAllContext(50);
+        const tagFilter = selectedTagsKey ? selectedTagsKey.split(',') : [];
+        const response = await api.getAllContext(PAGE_SIZE, namespace, { tags: tagFilter });
+        if (generation !== listGeneration.current) return;
         setItems(response.entries);
+        setNextCursor(response.next_cursor);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load items');
       } finally {
@@ -34,28 +104,133 @@ export function ListPage() {
     };
 
     fetchItems();
-  }, []);
-
-  // Filter items based on search query
-  const filteredItems = useMemo(() => {
-    if (!searchQuery.trim()) return items;
-    const query = searchQuery.toLowerCase();
-    return items.filter(
-      (item) =>
-        item.key.toLowerCase().includes(query) ||
-        item.content.toLowerCase().includes(query)
-    );
-  }, [items, searchQuery]);
+  }, [namespace, selectedTagsKey, reloadCount]);
+
+  // Append the next page when the end of the list scrolls into view
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    const generation = listGeneration.current;
+    try {
+      setIsLoadingMore(true);
+      const tagFilter = selectedTagsKey ? selectedTagsKey.split(',') : [];
+      const response = await api.getAllContext(PAGE_SIZE, namespace, { tags: tagFilter }, nextCursor);
+      if (generation !== listGeneration.current) return;
+      setItems((current) => [...current, ...response.entries]);
+      setNextCursor(response.next_cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more items');
+      setNextCursor(null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [namespace, selectedTagsKey, nextCursor]);
+
+  const loadMoreRef = useInfiniteScroll(loadMore, !isSearchActive && nextCursor !== null && !isLoadingMore);
+
+  const handleNamespaceChange = (selected: string) => {
+    posthog?.capture('namespace_switched');
+    setSearchQuery('');
+    setSearchParams(selected === DEFAULT_NAMESPACE ? {} : { namespace: selected });
+  };
+
+  // Toggle a tag in the filter (kept in the URL so filtered views can be shared)
+  const handleTagToggle = (tag: string) => {
+    const nextTags = selectedTags.includes(tag)
+      ? selectedTags.filter((t) => t !== tag)
+      : [...selectedTags, tag];
+    const next = new URLSearchParams(searchParams);
+    next.delete('tag');
+    for (const t of nextTags) {
+      next.append('tag', t);
+    }
+    posthog?.capture('tag_filter_toggled');
+    setSearchParams(next);
+  };
 
-  // Track search usage with 1s debounce
+  const handleClearTags = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('tag');
+    setSearchParams(next);
+  };
+
+  // Full-text search on the server (debounced), within the selected namespace and tags
   useEffect(() => {
-    if (!searchQuery.trim()) return;
-    clearTimeout(searchTimerRef.current);
-    searchTimerRef.current = setTimeout(() => {
-      posthog?.capture('context_searched', { has_results: filteredItems.length > 0 });
-    }, 1000);
-    return () => clearTimeout(searchTimerRef.current);
-  }, [searchQuery, filteredItems.length, posthog]);
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const tagFilter = selectedTagsKey ? selectedTagsKey.split(',') : [];
+        const response = await api.searchContext(query, 50, namespace, { tags: tagFilter });
+        if (cancelled) return;
+        setSearchResults(response);
+        setError(null);
+        posthog?.capture('context_searched', { has_results: response.count > 0, match: response.match });
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, namespace, selectedTagsKey, posthog]);
+
+  // Download the selected namespace in an export format
+  const handleExport = async (format: ExportFormat) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const { blob, filename } = await api.exportContext(format, namespace);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      posthog?.capture('context_exported', { format });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+    setImportSummary(null);
+    setImportFile(file);
+  };
+
+  const handleImported = (result: ImportResponse) => {
+    posthog?.capture('context_imported', { strategy: result.strategy, count: result.count });
+    const { create, overwrite, rename, skip, unchanged, expired } = result.summary;
+    setImportSummary(
+      `Imported ${create + overwrite + rename} item${create + overwrite + rename === 1 ? '' : 's'}` +
+        (skip + unchanged > 0 ? ` (${skip + unchanged} skipped or unchanged)` : '') +
+        (expired > 0 ? `; ${expired} had expired and ${expired === 1 ? 'was' : 'were'} left out` : '') +
+        '.'
+    );
+    setImportFile(null);
+    setReloadCount((count) => count + 1);
+  };
 
   // Format relative time
   const formatRelativeTime = (dateString: string) => {
@@ -91,7 +266,14 @@ export function ListPage() {
     <div>
       {/* Header with search and new button */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
-        <h1 className="text-xl font-semibold text-gray-900">My Context</h1>
+        <div className="flex items-center gap-3">
+          <h1 className="text-xl font-semibold text-gray-900">{title}</h1>
+          <NamespaceSwitcher
+            namespaces={namespaces}
+            value={namespace}
+            onChange={handleNamespaceChange}
+          />
+        </div>
         <div className="flex items-center gap-3">
           {/* Search input */}
           <div className="relative flex-1 sm:flex-none">
@@ -119,31 +301,112 @@ export function ListPage() {
             </svg>
           </div>
 
-          {/* New item button */}
-          <Link
-            to="/app/new"
-            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md
-                     hover:bg-blue-700 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2
-                     transition-colors whitespace-nowrap"
-          >
-            <svg
-              className="h-4 w-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          {/* Export menu */}
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowExportMenu((open) => !open)}
+              disabled={isExporting}
+              aria-haspopup="menu"
+              aria-expanded={showExportMenu}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                       hover:bg-gray-50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap
+                       focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 4v16m8-8H4"
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+            {showExportMenu && (
+              <div
+                role="menu"
+                className="absolute right-0 z-10 mt-1 w-48 bg-white border border-gray-200 rounded-md shadow-lg py-1"
+              >
+                {EXPORT_OPTIONS.map((option) => (
+                  <button
+                    key={option.format}
+                    type="button"
+                    role="menuitem"
+                    onClick={() => handleExport(option.format)}
+                    className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Import and new item buttons (hidden for team viewers) */}
+          {canWrite && (
+            <>
+              <button
+                type="button"
+                onClick={() => importInputRef.current?.click()}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                         hover:bg-gray-50 cursor-pointer whitespace-nowrap
+                         focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+              >
+                Import
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.ndjson,.tar,application/json,application/x-ndjson,application/x-tar"
+                onChange={handleImportFileChange}
+                className="hidden"
               />
-            </svg>
-            New
-          </Link>
+
+              {/* New item button */}
+              <Link
+                to={withNamespace('/app/new', namespace)}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md
+                         hover:bg-blue-700 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2
+                         transition-colors whitespace-nowrap"
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                New
+              </Link>
+            </>
+          )}
         </div>
       </div>
 
+      {/* Tag filters */}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-xs text-gray-500">Filter by tag:</span>
+          {tags.map((t) => (
+            <TagChip
+              key={t.tag}
+              tag={t.tag}
+              count={t.entry_count}
+              active={selectedTags.includes(t.tag)}
+              onClick={() => handleTagToggle(t.tag)}
+            />
+          ))}
+          {selectedTags.length > 0 && (
+            <button
+              type="button"
+              onClick={handleClearTags}
+              className="text-xs text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Error state */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 rounded-md px-4 py-3 mb-6">
@@ -151,8 +414,24 @@ export function ListPage() {
         </div>
       )}
 
+      {/* Import result */}
+      {importSummary && (
+        <div className="bg-green-50 border border-green-200 text-green-700 rounded-md px-4 py-3 mb-6">
+          {importSummary}
+        </div>
+      )}
+
+      {/* No results for tag filter */}
+      {!error && items.length === 0 && selectedTags.length > 0 && (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">
+            No items tagged {selectedTags.map((t) => `#${t}`).join(' + ')}
+          </p>
+        </div>
+      )}
+
       {/* Empty state */}
-      {!error && items.length === 0 && (
+      {!error && items.length === 0 && selectedTags.length === 0 && (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
           <svg
             className="mx-auto h-12 w-12 text-gray-400"
@@ -175,7 +454,7 @@ export function ListPage() {
           </p>
           <div className="mt-6">
             <Link
-              to="/app/new"
+              to={withNamespace('/app/new', namespace)}
               className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md
                        hover:bg-blue-700 cursor-pointer transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
             >
@@ -198,22 +477,75 @@ export function ListPage() {
         </div>
       )}
 
-      {/* No results for search */}
-      {!error && items.length > 0 && filteredItems.length === 0 && (
-        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
-          <p className="text-sm text-gray-500">
-            No items match "{searchQuery}"
-          </p>
-        </div>
+      {/* Search results */}
+      {!error && isSearchActive && items.length > 0 && (
+        <>
+          {isSearching && !searchResults && (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+            </div>
+          )}
+
+          {searchResults && searchResults.count === 0 && (
+            <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+              <p className="text-sm text-gray-500">
+                No items match "{searchResults.query}"
+              </p>
+            </div>
+          )}
+
+          {searchResults && searchResults.count > 0 && (
+            <>
+              {searchResults.match === 'any' && (
+                <p className="mb-3 text-xs text-gray-500">
+                  No item contains every word; showing items that match some of them.
+                </p>
+              )}
+              <div className={`space-y-3 ${isSearching ? 'opacity-60' : ''}`}>
+                {searchResults.hits.map((hit) => (
+                  <Link
+                    key={hit.key}
+                    to={withNamespace(`/app/view/${encodeURIComponent(hit.key)}`, namespace)}
+                    className="block bg-white rounded-lg border border-gray-200 p-4
+                             hover:border-gray-300 hover:shadow-sm transition-all cursor-pointer
+                             focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <h3 className="text-sm font-medium text-gray-900 truncate">
+                          {hit.key}
+                        </h3>
+                        <SearchSnippet snippet={hit.snippet} />
+                        {hit.tags.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {hit.tags.map((tag) => (
+                              <TagChip key={tag} tag={tag} active={selectedTags.includes(tag)} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <span className="flex-shrink-0 text-xs text-gray-400">
+                        {formatRelativeTime(hit.updated_at)}
+                      </span>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+              <p className="mt-4 text-xs text-gray-400 text-center">
+                {searchResults.count} result{searchResults.count === 1 ? '' : 's'}, best matches first
+              </p>
+            </>
+          )}
+        </>
       )}
 
       {/* Item list */}
-      {filteredItems.length > 0 && (
+      {!isSearchActive && items.length > 0 && (
         <div className="space-y-3">
-          {filteredItems.map((item) => (
+          {items.map((item) => (
             <Link
               key={item.key}
-              to={`/app/view/${encodeURIComponent(item.key)}`}
+              to={withNamespace(`/app/view/${encodeURIComponent(item.key)}`, namespace)}
               className="block bg-white rounded-lg border border-gray-200 p-4
                        hover:border-gray-300 hover:shadow-sm transition-all cursor-pointer
                        focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
@@ -228,25 +560,51 @@ export function ListPage() {
                   <p className="mt-1 text-sm text-gray-500 line-clamp-2">
                     {truncateContent(item.content)}
                   </p>
+                  {/* Tags */}
+                  {item.tags.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {item.tags.map((tag) => (
+                        <TagChip key={tag} tag={tag} active={selectedTags.includes(tag)} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {/* Timestamp and expiry countdown */}
+                <div className="flex-shrink-0 flex flex-col items-end gap-1">
+                  <span className="text-xs text-gray-400">
+                    {formatRelativeTime(item.updated_at)}
+                  </span>
+                  {item.expires_at && <ExpiryBadge expiresAt={item.expires_at} />}
                 </div>
-                {/* Timestamp */}
-                <span className="flex-shrink-0 text-xs text-gray-400">
-                  {formatRelativeTime(item.updated_at)}
-                </span>
               </div>
             </Link>
           ))}
         </div>
       )}
 
+      {/* Infinite scroll sentinel */}
+      {!isSearchActive && nextCursor && (
+        <div ref={loadMoreRef} className="flex items-center justify-center py-6">
+          {isLoadingMore && (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+          )}
+        </div>
+      )}
+
       {/* Item count */}
-      {items.length > 0 && (
+      {!isSearchActive && items.length > 0 && !nextCursor && (
         <p className="mt-4 text-xs text-gray-400 text-center">
-          {filteredItems.length === items.length
-            ? `${items.length} item${items.length === 1 ? '' : 's'}`
-            : `${filteredItems.length} of ${items.length} items`}
+          {`${items.length} item${items.length === 1 ? '' : 's'}`}
         </p>
       )}
+
+      {importFile && (
+        <ImportDialog
+          file={importFile}
+          onClose={() => setImportFile(null)}
+          onImported={handleImported}
+        />
+      )}
     </div>
   );
 }
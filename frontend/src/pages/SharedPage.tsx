@@ -0,0 +1,110 @@
+/**
+ * Shared page - public, read-only view of an entry opened through a share link
+ */
+
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ContentRenderer } from '../components/ContentRenderer';
+import { api, DEFAULT_NAMESPACE } from '../api/client';
+import type { SharedEntry } from '../api/client';
+import { usePageTitle } from '../hooks/usePageTitle';
+
+export function SharedPage() {
+  const { token } = useParams<{ token: string }>();
+  const [entry, setEntry] = useState<SharedEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  usePageTitle(entry?.key);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    const loadEntry = async () => {
+      try {
+        const data = await api.getSharedEntry(token);
+        if (!cancelled) setEntry(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load shared item');
+      }
+    };
+
+    loadEntry();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 h-14 flex items-center justify-between">
+          <Link
+            to="/"
+            className="text-lg font-semibold text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          >
+            Shared Context MCP
+          </Link>
+          <span className="text-xs text-gray-500">Read-only shared link</span>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+            {error}
+          </div>
+        ) : !entry ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div className="flex items-center justify-between gap-4 mb-6">
+              <div className="flex items-center gap-4 min-w-0">
+                <h1 className="text-xl font-semibold text-gray-900 truncate">{entry.key}</h1>
+                {entry.namespace !== DEFAULT_NAMESPACE && (
+                  <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                    {entry.namespace}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <a
+                  href={`/s/${encodeURIComponent(token!)}/raw`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline cursor-pointer"
+                >
+                  Raw
+                </a>
+                <a
+                  href={`/s/${encodeURIComponent(token!)}/json`}
+                  className="text-blue-600 hover:text-blue-800 hover:underline cursor-pointer"
+                >
+                  JSON
+                </a>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="bg-white rounded-lg border border-gray-200">
+              <div className="p-6">
+                <ContentRenderer content={entry.content} />
+              </div>
+
+              <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+                  <span>Updated: {formatDate(entry.updated_at)}</span>
+                  {entry.expires_at && <span>Link expires: {formatDate(entry.expires_at)}</span>}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
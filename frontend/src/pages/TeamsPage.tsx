@@ -0,0 +1,447 @@
+/**
+ * Team management page: create teams, manage members and roles, leave or delete teams
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePostHog } from 'posthog-js/react';
+import { api } from '../api/client';
+import type { TeamMember, TeamRole } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { usePageTitle } from '../hooks/usePageTitle';
+
+const ROLES: { value: TeamRole; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+// Team slug pattern (must match backend)
+const SLUG_PATTERN = '^[a-z0-9][a-z0-9\\-]*$';
+
+/**
+ * Suggest a slug from a team name ("Acme Corp" -> "acme-corp")
+ */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+type PendingAction = { type: 'leave' | 'delete'; slug: string; name: string };
+
+export function TeamsPage() {
+  usePageTitle('Teams');
+  const posthog = usePostHog();
+  const navigate = useNavigate();
+  const { userId } = useAuth();
+  const { teams, workspace, setWorkspace, reloadTeams } = useWorkspace();
+  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newTeamSlug, setNewTeamSlug] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<TeamRole>('editor');
+  const [isAdding, setIsAdding] = useState(false);
+  const [busyMember, setBusyMember] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  // Default to the current workspace's team, then the first team
+  const selected =
+    teams.find((team) => team.slug === selectedSlug) ??
+    teams.find((team) => team.slug === workspace) ??
+    teams[0] ??
+    null;
+  const selectedTeamSlug = selected?.slug ?? null;
+  const isOwner = selected?.role === 'owner';
+
+  const loadMembers = useCallback(async (slug: string) => {
+    setIsLoadingMembers(true);
+    setError(null);
+
+    try {
+      const result = await api.listTeamMembers(slug);
+      setMembers(result.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team members');
+    } finally {
+      setIsLoadingMembers(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedTeamSlug) {
+      loadMembers(selectedTeamSlug);
+    }
+  }, [selectedTeamSlug, loadMembers]);
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTeamName.trim();
+    const slug = newTeamSlug.trim() || slugify(name);
+    if (!name || !slug) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      await api.createTeam(slug, name);
+      posthog?.capture('team_created');
+      setNewTeamName('');
+      setNewTeamSlug('');
+      await reloadTeams();
+      setSelectedSlug(slug);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create team');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !newMemberEmail.trim()) return;
+
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      await api.addTeamMember(selected.slug, newMemberEmail.trim(), newMemberRole);
+      posthog?.capture('team_member_added', { role: newMemberRole });
+      setNewMemberEmail('');
+      await loadMembers(selected.slug);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    if (!selected) return;
+
+    setBusyMember(member.user_id);
+    setError(null);
+
+    try {
+      await api.updateTeamMemberRole(selected.slug, member.user_id, role);
+      posthog?.capture('team_member_role_changed', { role });
+      await loadMembers(selected.slug);
+      // Our own role may have changed
+      if (member.user_id === userId) {
+        await reloadTeams();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setBusyMember(null);
+    }
+  };
+
+  const handleRemoveMember = async (member: TeamMember) => {
+    if (!selected) return;
+
+    setBusyMember(member.user_id);
+    setError(null);
+
+    try {
+      await api.removeTeamMember(selected.slug, member.user_id);
+      posthog?.capture('team_member_removed');
+      setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    } finally {
+      setBusyMember(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction || !userId) return;
+
+    setIsConfirming(true);
+    setError(null);
+
+    try {
+      if (pendingAction.type === 'delete') {
+        await api.deleteTeam(pendingAction.slug);
+        posthog?.capture('team_deleted');
+      } else {
+        await api.removeTeamMember(pendingAction.slug, userId);
+        posthog?.capture('team_left');
+      }
+      setSelectedSlug(null);
+      await reloadTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${pendingAction.type} team`);
+    } finally {
+      setPendingAction(null);
+      setIsConfirming(false);
+    }
+  };
+
+  const handleOpenWorkspace = (slug: string) => {
+    setWorkspace(slug);
+    navigate('/app');
+  };
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">Teams</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Teams share a workspace of context. Owners manage members, editors can read and write,
+        viewers can only read.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700">{error}</p>
+          <button
+            onClick={() => setError(null)}
+            className="mt-2 text-sm text-red-600 hover:text-red-800 underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Create team form */}
+      <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4">
+        <h2 className="text-sm font-semibold text-gray-900 mb-3">Create Team</h2>
+        <form onSubmit={handleCreateTeam} className="flex flex-col sm:flex-row gap-2">
+          <label htmlFor="new-team-name" className="sr-only">Team name</label>
+          <input
+            id="new-team-name"
+            type="text"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            placeholder="Team name (e.g., Acme Engineering)"
+            maxLength={100}
+            required
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <label htmlFor="new-team-slug" className="sr-only">Team slug</label>
+          <input
+            id="new-team-slug"
+            type="text"
+            value={newTeamSlug}
+            onChange={(e) => setNewTeamSlug(e.target.value)}
+            placeholder={slugify(newTeamName) || 'slug'}
+            pattern={SLUG_PATTERN}
+            maxLength={64}
+            className="sm:w-48 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newTeamName.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+          >
+            {isCreating ? 'Creating...' : 'Create Team'}
+          </button>
+        </form>
+        <p className="mt-1.5 text-xs text-gray-500">
+          The slug is how tools and the API refer to the team: lowercase letters, numbers, and dashes
+        </p>
+      </div>
+
+      {teams.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <p className="text-gray-500">You're not in any teams yet. Create one above to share context.</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* Team list */}
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 self-start">
+            {teams.map((team) => (
+              <button
+                key={team.slug}
+                onClick={() => setSelectedSlug(team.slug)}
+                className={`w-full text-left px-4 py-3 cursor-pointer transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-inset ${
+                  team.slug === selected?.slug ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="block font-medium text-gray-900">{team.name}</span>
+                <span className="block text-xs text-gray-500">
+                  <span className="font-mono">{team.slug}</span> · {team.role}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Selected team */}
+          {selected && (
+            <div className="md:col-span-2 bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                  <p className="text-xs text-gray-500">
+                    Use <code className="px-1 py-0.5 bg-gray-100 rounded font-mono">workspace: "{selected.slug}"</code> in MCP tools
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleOpenWorkspace(selected.slug)}
+                  className="shrink-0 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                >
+                  Open workspace
+                </button>
+              </div>
+
+              {/* Members */}
+              {isLoadingMembers ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-md">
+                  {members.map((member) => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <span className="text-sm text-gray-900 truncate">
+                        {member.email}
+                        {member.user_id === userId && <span className="ml-1 text-gray-500">(you)</span>}
+                      </span>
+                      <div className="flex items-center gap-3 shrink-0">
+                        {isOwner ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                            disabled={busyMember === member.user_id}
+                            aria-label={`Role for ${member.email}`}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white cursor-pointer disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role.value} value={role.value}>{role.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-500 capitalize">{member.role}</span>
+                        )}
+                        {isOwner && member.user_id !== userId && (
+                          <button
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={busyMember === member.user_id}
+                            className="text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer disabled:opacity-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Add member form (owners only) */}
+              {isOwner && (
+                <form onSubmit={handleAddMember} className="mt-4 flex flex-col sm:flex-row gap-2">
+                  <label htmlFor="new-member-email" className="sr-only">Member email</label>
+                  <input
+                    id="new-member-email"
+                    type="email"
+                    value={newMemberEmail}
+                    onChange={(e) => setNewMemberEmail(e.target.value)}
+                    placeholder="teammate@example.com"
+                    required
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <label htmlFor="new-member-role" className="sr-only">Member role</label>
+                  <select
+                    id="new-member-role"
+                    value={newMemberRole}
+                    onChange={(e) => setNewMemberRole(e.target.value as TeamRole)}
+                    className="px-2 py-2 text-sm border border-gray-300 rounded-md bg-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isAdding || !newMemberEmail.trim()}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                  >
+                    {isAdding ? 'Adding...' : 'Add Member'}
+                  </button>
+                </form>
+              )}
+              {isOwner && (
+                <p className="mt-1.5 text-xs text-gray-500">
+                  People need to sign in once before they can be added.
+                </p>
+              )}
+
+              {/* Leave / delete */}
+              <div className="mt-6 pt-4 border-t border-gray-100 flex gap-4">
+                <button
+                  onClick={() => setPendingAction({ type: 'leave', slug: selected.slug, name: selected.name })}
+                  className="text-sm text-gray-600 hover:text-gray-900 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2 rounded"
+                >
+                  Leave team
+                </button>
+                {isOwner && (
+                  <button
+                    onClick={() => setPendingAction({ type: 'delete', slug: selected.slug, name: selected.name })}
+                    className="text-sm text-red-600 hover:text-red-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 rounded"
+                  >
+                    Delete team
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Leave / delete confirmation modal */}
+      {pendingAction && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/50 cursor-pointer"
+            onClick={() => setPendingAction(null)}
+            aria-hidden="true"
+          />
+
+          {/* Modal */}
+          <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900">
+              {pendingAction.type === 'delete' ? 'Delete team?' : 'Leave team?'}
+            </h3>
+            <p className="mt-2 text-sm text-gray-500">
+              {pendingAction.type === 'delete'
+                ? `"${pendingAction.name}" and all of its context, history and trash will be deleted for good. This action cannot be undone.`
+                : `You will lose access to "${pendingAction.name}" until an owner adds you again.`}
+            </p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setPendingAction(null)}
+                disabled={isConfirming}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                         hover:bg-gray-50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                         focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isConfirming}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md
+                         hover:bg-red-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                         focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+              >
+                {isConfirming
+                  ? (pendingAction.type === 'delete' ? 'Deleting...' : 'Leaving...')
+                  : (pendingAction.type === 'delete' ? 'Delete team' : 'Leave team')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Trash page - deleted context items that can still be restored
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { usePostHog } from 'posthog-js/react';
+import { api, DEFAULT_NAMESPACE } from '../api/client';
+import type { TrashEntry, ApiRequestError } from '../api/client';
+import { usePageTitle } from '../hooks/usePageTitle';
+import { withNamespace } from '../utils/namespace';
+
+// Format relative time
+function formatRelativeTime(dateString: string): string {
+  const diffMs = Date.now() - new Date(dateString).getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${diffDays}d ago`;
+}
+
+export function TrashPage() {
+  usePageTitle('Trash');
+  const posthog = usePostHog();
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restored, setRestored] = useState<{ key: string; namespace: string } | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [showEmptyModal, setShowEmptyModal] = useState(false);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await api.listTrash(undefined, 200);
+      setEntries(result.entries);
+      setRetentionDays(result.retention_days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    setError(null);
+    setRestored(null);
+
+    try {
+      await api.restoreFromTrash(entry.id);
+      posthog?.capture('context_restored_from_trash');
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      setRestored({ key: entry.key, namespace: entry.namespace });
+    } catch (err) {
+      const apiError = err as ApiRequestError;
+      setError(
+        apiError.code === 'CONFLICT'
+          ? `"${entry.key}" exists again. Rename or delete it before restoring this copy.`
+          : apiError.message || 'Failed to restore item'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    setError(null);
+
+    try {
+      await api.deleteFromTrash(entry.id);
+      posthog?.capture('context_deleted_from_trash');
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setIsEmptying(true);
+    setError(null);
+
+    try {
+      await api.emptyTrash();
+      posthog?.capture('trash_emptied');
+      setEntries([]);
+      setShowEmptyModal(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+      setShowEmptyModal(false);
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+          {retentionDays !== null && (
+            <p className="mt-1 text-sm text-gray-500">
+              Deleted items are kept for {retentionDays} days before they are removed for good.
+            </p>
+          )}
+        </div>
+        {entries.length > 0 && (
+          <button
+            onClick={() => setShowEmptyModal(true)}
+            className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-md
+                     hover:bg-red-50 transition-colors cursor-pointer
+                     focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {restored && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">
+            Restored{' '}
+            <Link
+              to={withNamespace(`/app/view/${encodeURIComponent(restored.key)}`, restored.namespace)}
+              className="font-medium underline hover:text-green-900"
+            >
+              {restored.key}
+            </Link>
+            .
+          </p>
+        </div>
+      )}
+
+      {/* Trash list */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <p className="text-gray-500">The trash is empty.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <div key={entry.id} className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-medium text-gray-900 truncate">
+                    {entry.namespace !== DEFAULT_NAMESPACE && (
+                      <span className="text-gray-400">{entry.namespace}/</span>
+                    )}
+                    {entry.key}
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500 line-clamp-2">{entry.preview}</p>
+                  <p className="mt-2 text-xs text-gray-400">
+                    Deleted {formatRelativeTime(entry.deleted_at)} · removed for good on{' '}
+                    {new Date(entry.purge_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex-shrink-0 flex gap-2">
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    disabled={busyId === entry.id}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md
+                             hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                             focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteForever(entry)}
+                    disabled={busyId === entry.id}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 bg-white border border-gray-300 rounded-md
+                             hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                             focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Empty trash confirmation modal */}
+      {showEmptyModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/50 cursor-pointer"
+            onClick={() => setShowEmptyModal(false)}
+            aria-hidden="true"
+          />
+
+          {/* Modal */}
+          <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+            <h3 className="text-lg font-medium text-gray-900">Empty trash?</h3>
+            <p className="mt-2 text-sm text-gray-500">
+              All {entries.length} items in the trash will be deleted for good. This action cannot be undone.
+            </p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setShowEmptyModal(false)}
+                disabled={isEmptying}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md
+                         hover:bg-gray-50 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                         focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleEmptyTrash}
+                disabled={isEmptying}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md
+                         hover:bg-red-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                         focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+              >
+                {isEmptying ? 'Emptying...' : 'Empty trash'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
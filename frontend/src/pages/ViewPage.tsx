@@ -3,28 +3,38 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { usePostHog } from 'posthog-js/react';
 import { ContentRenderer } from '../components/ContentRenderer';
-import { api } from '../api/client';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { ShareDialog } from '../components/ShareDialog';
+import { TagChip } from '../components/TagChip';
+import { api, DEFAULT_NAMESPACE } from '../api/client';
 import type { ContextEntry } from '../api/client';
 import { usePageTitle } from '../hooks/usePageTitle';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { getNamespaceParam, tagFilterPath, withNamespace } from '../utils/namespace';
 
 export function ViewPage() {
   const { key } = useParams<{ key: string }>();
+  const [searchParams] = useSearchParams();
+  const namespace = getNamespaceParam(searchParams);
   const navigate = useNavigate();
   const posthog = usePostHog();
+  const { canWrite } = useWorkspace();
   const [item, setItem] = useState<ContextEntry | null>(null);
   usePageTitle(key);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
 
   // Fetch item on mount
   useEffect(() => {
     if (!key) {
-      navigate('/app');
+      navigate(withNamespace('/app', namespace));
       return;
     }
 
@@ -32,7 +42,7 @@ export function ViewPage() {
       try {
         setIsLoading(true);
         setError(null);
-        const data = await api.getContext(key);
+        const data = await api.getContext(key, namespace);
         setItem(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load item');
@@ -42,16 +52,16 @@ export function ViewPage() {
     };
 
     fetchItem();
-  }, [key, navigate]);
+  }, [key, namespace, navigate]);
 
   const handleDelete = async () => {
     if (!key) return;
 
     try {
       setIsDeleting(true);
-      await api.deleteContext(key);
+      await api.deleteContext(key, namespace);
       posthog?.capture('context_deleted');
-      navigate('/app');
+      navigate(withNamespace('/app', namespace));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete item');
       setShowDeleteModal(false);
@@ -79,7 +89,7 @@ export function ViewPage() {
           {error || 'Item not found'}
         </div>
         <div className="mt-4">
-          <Link to="/app" className="text-sm text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 rounded">
+          <Link to={withNamespace('/app', namespace)} className="text-sm text-blue-600 hover:text-blue-800 hover:underline cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 rounded">
             Back to list
           </Link>
         </div>
@@ -93,7 +103,7 @@ export function ViewPage() {
       <div className="flex items-center justify-between gap-4 mb-6">
         <div className="flex items-center gap-4 min-w-0">
           <Link
-            to="/app"
+            to={withNamespace('/app', namespace)}
             className="flex-shrink-0 p-2 -ml-2 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2 rounded"
             title="Back to list"
             aria-label="Back to list"
@@ -115,33 +125,21 @@ export function ViewPage() {
           <h1 className="text-xl font-semibold text-gray-900 truncate">
             {item.key}
           </h1>
+          {item.namespace !== DEFAULT_NAMESPACE && (
+            <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+              {item.namespace}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
-          <Link
-            to={`/app/edit/${encodeURIComponent(item.key)}`}
-            className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md
-                     hover:bg-gray-50 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
-          >
-            <svg
-              className="h-4 w-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-              />
-            </svg>
-            Edit
-          </Link>
           <button
-            onClick={() => setShowDeleteModal(true)}
-            className="inline-flex items-center gap-2 px-3 py-2 text-sm text-red-600 bg-white border border-gray-300 rounded-md
-                     hover:bg-red-50 hover:border-red-300 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+            onClick={() => setShowHistory((show) => !show)}
+            aria-pressed={showHistory}
+            className={`inline-flex items-center gap-2 px-3 py-2 text-sm border rounded-md transition-colors cursor-pointer
+                     focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2 ${
+                       showHistory ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+                     }`}
           >
             <svg
               className="h-4 w-4"
@@ -153,14 +151,94 @@ export function ViewPage() {
                 strokeLinecap="round"
                 strokeLinejoin="round"
                 strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
               />
             </svg>
-            Delete
+            History
           </button>
+          {canWrite && (
+            <>
+              <button
+                onClick={() => setShowShareDialog(true)}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md
+                         hover:bg-gray-50 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
+                  />
+                </svg>
+                Share
+              </button>
+              <Link
+                to={withNamespace(`/app/edit/${encodeURIComponent(item.key)}`, item.namespace)}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md
+                         hover:bg-gray-50 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 focus-visible:ring-offset-2"
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+                Edit
+              </Link>
+              <button
+                onClick={() => setShowDeleteModal(true)}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-red-600 bg-white border border-gray-300 rounded-md
+                         hover:bg-red-50 hover:border-red-300 transition-colors cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2"
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+                Delete
+              </button>
+            </>
+          )}
         </div>
       </div>
 
+      {/* Tags */}
+      {item.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 -mt-3 mb-4">
+          {item.tags.map((tag) => (
+            <Link
+              key={tag}
+              to={tagFilterPath(item.namespace, tag)}
+              className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              title={`Show items tagged #${tag}`}
+            >
+              <TagChip tag={tag} />
+            </Link>
+          ))}
+        </div>
+      )}
+
       {/* Content */}
       <div className="bg-white rounded-lg border border-gray-200">
         <div className="p-6">
@@ -170,13 +248,35 @@ export function ViewPage() {
         {/* Footer with metadata */}
         <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 rounded-b-lg">
           <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+            <span>Namespace: {item.namespace}</span>
             <span>Created: {formatDate(item.created_at)}</span>
             <span>Updated: {formatDate(item.updated_at)}</span>
             <span>{item.content.length.toLocaleString()} characters</span>
+            {Object.entries(item.metadata).map(([field, value]) => (
+              <span key={field}>
+                {field}: {typeof value === 'string' ? value : JSON.stringify(value)}
+              </span>
+            ))}
           </div>
         </div>
       </div>
 
+      {/* Version history */}
+      {showHistory && (
+        <div className="mt-6">
+          <HistoryPanel item={item} onRestored={setItem} />
+        </div>
+      )}
+
+      {/* Share dialog */}
+      {showShareDialog && (
+        <ShareDialog
+          itemKey={item.key}
+          namespace={item.namespace}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
+
       {/* Delete confirmation modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -191,8 +291,8 @@ export function ViewPage() {
           <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
             <h3 className="text-lg font-medium text-gray-900">Delete item?</h3>
             <p className="mt-2 text-sm text-gray-500">
-              Are you sure you want to delete "{item.key}"? This action cannot
-              be undone.
+              Are you sure you want to delete "{item.key}"? It will be moved to
+              the trash, where you can restore it for a while.
             </p>
             <div className="mt-6 flex justify-end gap-3">
               <button
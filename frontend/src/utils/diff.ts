@@ -0,0 +1,163 @@
+/**
+ * Diff utilities for comparing context versions
+ * Line-level diff for markdown, structural diff for JSON
+ */
+
+export type LineDiffType = 'equal' | 'added' | 'removed';
+
+export interface LineDiff {
+  type: LineDiffType;
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export type JsonChangeType = 'added' | 'removed' | 'changed';
+
+export interface JsonChange {
+  type: JsonChangeType;
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Largest LCS table diffLines builds (16 MB of Uint32); bigger changed regions
+// are shown as one removed block followed by one added block
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff based on the longest common subsequence.
+ * Common leading and trailing lines are matched up front so the
+ * LCS table only covers the region that actually changed.
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  const result: LineDiff[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'equal', text: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (let i = 0; i < n; i++) {
+      result.push({ type: 'removed', text: a[start + i], oldLine: start + i + 1 });
+    }
+    for (let j = 0; j < m; j++) {
+      result.push({ type: 'added', text: b[start + j], newLine: start + j + 1 });
+    }
+  } else {
+    appendLcsDiff(a, b, start, n, m, result);
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+
+  return result;
+}
+
+/**
+ * Diff the changed region a[start..start + n) / b[start..start + m) with an
+ * LCS table, appending the lines to result
+ */
+function appendLcsDiff(a: string[], b: string[], start: number, n: number, m: number, result: LineDiff[]): void {
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..start + n) and b[start + j..start + m)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      result.push({ type: 'equal', text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      result.push({ type: 'removed', text: a[start + i], oldLine: start + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[start + j], newLine: start + j + 1 });
+      j++;
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[a-zA-Z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function collectJsonChanges(before: unknown, after: unknown, path: string, changes: JsonChange[]): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      if (i >= before.length) {
+        changes.push({ type: 'added', path: childPath(path, i), after: after[i] });
+      } else if (i >= after.length) {
+        changes.push({ type: 'removed', path: childPath(path, i), before: before[i] });
+      } else {
+        collectJsonChanges(before[i], after[i], childPath(path, i), changes);
+      }
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!Object.hasOwn(after, key)) {
+        changes.push({ type: 'removed', path: childPath(path, key), before: before[key] });
+      } else {
+        collectJsonChanges(before[key], after[key], childPath(path, key), changes);
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!Object.hasOwn(before, key)) {
+        changes.push({ type: 'added', path: childPath(path, key), after: after[key] });
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ type: 'changed', path, before, after });
+  }
+}
+
+/**
+ * Structural diff between two JSON documents.
+ * Reports added, removed and changed values by path (e.g. $.servers[0].port).
+ * Both inputs must be valid JSON (see detectContentType).
+ */
+export function diffJson(before: string, after: string): JsonChange[] {
+  const changes: JsonChange[] = [];
+  collectJsonChanges(JSON.parse(before), JSON.parse(after), '$', changes);
+  return changes;
+}
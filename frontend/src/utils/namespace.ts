@@ -0,0 +1,30 @@
+/**
+ * Helpers for carrying the selected namespace through app URLs
+ */
+
+import { DEFAULT_NAMESPACE } from '../api/client';
+
+/**
+ * Read the namespace from URL search params, falling back to the default
+ */
+export function getNamespaceParam(searchParams: URLSearchParams): string {
+  return searchParams.get('namespace') || DEFAULT_NAMESPACE;
+}
+
+/**
+ * Append ?namespace= to an app path when the namespace is not the default
+ */
+export function withNamespace(path: string, namespace: string): string {
+  if (namespace === DEFAULT_NAMESPACE) return path;
+  return `${path}?namespace=${encodeURIComponent(namespace)}`;
+}
+
+/**
+ * List page path filtered to a single tag, within a namespace
+ */
+export function tagFilterPath(namespace: string, tag: string): string {
+  const params = new URLSearchParams();
+  if (namespace !== DEFAULT_NAMESPACE) params.set('namespace', namespace);
+  params.set('tag', tag);
+  return `/app?${params.toString()}`;
+}
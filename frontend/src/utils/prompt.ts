@@ -0,0 +1,20 @@
+/**
+ * Helpers for entries used as MCP prompt templates
+ */
+
+// Tag that publishes an entry as an MCP prompt (matches backend PROMPT_TAG)
+export const PROMPT_TAG = 'prompt';
+
+// {{name}} placeholders (must match backend)
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Argument names used by a template, in order of first appearance
+ */
+export function extractPromptArguments(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
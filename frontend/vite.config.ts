@@ -21,6 +21,11 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      // Share link variants; /s/:token itself is the SharedPage route
+      '^/s/[^/]+/(json|raw)$': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
 })
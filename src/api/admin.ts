@@ -8,6 +8,7 @@ import {
   listAllUsers,
   createUserWithApiKey,
   deleteUser,
+  TeamMembershipError,
   listApiKeysForUser,
   createApiKey,
   revokeApiKeyByName,
@@ -15,6 +16,7 @@ import {
   logAdminAction,
   countUserApiKeys,
 } from '../db/queries.js';
+import { validateApiKeyScopes, validateExpiry } from '../tools/validators.js';
 
 const MAX_API_KEYS_PER_USER = 10;
 
@@ -193,6 +195,14 @@ router.delete('/users/:userId', async (req: Request, res: Response): Promise<voi
       },
     });
   } catch (error) {
+    if (error instanceof TeamMembershipError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+        code: 'CONFLICT',
+      });
+      return;
+    }
     console.error('[admin] Delete user error:', error);
     res.status(500).json({
       success: false,
@@ -243,12 +253,13 @@ router.get('/users/:userId/keys', async (req: Request, res: Response): Promise<v
 /**
  * POST /api/admin/users/:userId/keys
  * Create a new API key for a user
- * Body: { name: string }
+ * Body: { name: string, scopes?: string[], keys?: string[], namespaces?: string[],
+ *         expires_at?: string, ttl_seconds?: number }
  */
 router.post('/users/:userId/keys', async (req: Request, res: Response): Promise<void> => {
   try {
     const { userId } = req.params;
-    const { name } = req.body;
+    const { name, scopes, keys, namespaces, expires_at, ttl_seconds } = req.body;
 
     // Validate required fields
     if (!name || typeof name !== 'string') {
@@ -260,6 +271,28 @@ router.post('/users/:userId/keys', async (req: Request, res: Response): Promise<
       return;
     }
 
+    const scopesValidation = validateApiKeyScopes(scopes, keys, namespaces);
+    if (!scopesValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: scopesValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    const keyScopes = scopesValidation.keyScopes!;
+
+    const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+    if (!expiryValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: expiryValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    const expiresAt = expiryValidation.expiresAt ?? null;
+
     // Check if user exists
     if (!(await userExists(userId))) {
       res.status(404).json({
@@ -282,14 +315,14 @@ router.post('/users/:userId/keys', async (req: Request, res: Response): Promise<
     }
 
     // Create API key
-    const { plainKey } = await createApiKey(userId, name);
+    const { plainKey } = await createApiKey(userId, name, keyScopes, expiresAt);
 
     // Log admin action
     await logAdminAction(
       req.authenticatedUserId!,
       'create_api_key',
       userId,
-      { keyName: name }
+      { keyName: name, scopes: keyScopes.scopes, keys: keyScopes.keys, namespaces: keyScopes.namespaces, expiresAt }
     );
 
     res.status(201).json({
@@ -298,6 +331,10 @@ router.post('/users/:userId/keys', async (req: Request, res: Response): Promise<
         userId,
         apiKey: plainKey,
         keyName: name,
+        scopes: keyScopes.scopes,
+        keys: keyScopes.keys,
+        namespaces: keyScopes.namespaces,
+        expiresAt,
       },
     });
   } catch (error) {
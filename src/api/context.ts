@@ -1,141 +1,1621 @@
 /**
  * REST API routes for context CRUD operations
  * Thin wrapper around existing database queries
+ *
+ * Every context route is served twice: at the root (default namespace) and
+ * under /ns/:namespace, e.g. GET /api/context/my-key and GET /api/context/ns/work/my-key.
+ *
+ * Routes act on the workspace resolved by workspaceMiddleware (req.workspaceOwnerId):
+ * the user's own context, or a team's when X-Workspace names one.
  */
 
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import {
   getContext,
   setContext,
   deleteContext,
-  listContextKeys,
-  getAllContext,
+  listContextKeysPage,
+  getAllContextPage,
+  readManyContext,
+  writeManyContext,
+  deleteManyContext,
+  ContextWrite,
+  InvalidCursorError,
+  listNamespaces,
+  listTags,
+  searchContext,
+  getContextHistory,
+  restoreContextVersion,
+  editContext,
+  ContextConflictError,
+  ContextExistsError,
+  renameContext,
+  copyContext,
+  importContext,
+  exportContext,
+  exportContextHistory,
+  ContextImport,
+  ImportAction,
+  ImportStrategy,
   ContextEntry,
+  ContextHistoryAction,
   ContextKeyInfo,
+  DEFAULT_NAMESPACE,
+  WritePrecondition,
+  ContextFilter,
+  SearchMatchMode,
+  grantContextAccess,
+  listContextGrants,
+  revokeContextGrant,
+  getUserByEmail,
+  getTeamBySlug,
+  teamOwnerId,
+  ContextGrant,
+  ContextGrantee,
+  GrantPermission,
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  ShareLink,
 } from '../db/queries.js';
-import { validateKey, validateContent, validateLimit } from '../tools/validators.js';
+import { buildPatchEdit, ContextEdit, ContextEditError } from '../db/edits.js';
+import {
+  validateKey,
+  isReservedRestKey,
+  validateContent,
+  validateLimit,
+  validateNamespace,
+  validateTags,
+  validateMetadata,
+  validateSearchQuery,
+  validateKeySelectors,
+  validateBatchWrites,
+  validateBatchKeys,
+  validateExpiry,
+  validateImportEntries,
+  validateEmail,
+  validateGrantPermission,
+} from '../tools/validators.js';
+import { buildExport, parseImport, ExportFormat, EXPORT_FORMATS, ImportFormatError } from '../archive/formats.js';
 
 const router = Router();
 
+// Routes shared by the default and namespaced mounts (mergeParams exposes :namespace)
+const scopedRouter = Router({ mergeParams: true });
+
 // Response types
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
   code?: string;
+  details?: Record<string, unknown>;
 }
 
 interface ListResponse {
   entries: Array<{
     key: string;
+    tags: string[];
+    expires_at: string | null;
     updated_at: string;
   }>;
+  namespace: string;
   count: number;
   limit: number;
+  next_cursor: string | null;
   search?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+interface ImportResponse {
+  results: Array<{
+    namespace: string;
+    key: string;
+    action: ImportAction;
+    new_key?: string;
+    changes?: string[];
+    version?: number;
+  }>;
+  summary: Record<ImportAction, number>;
+  count: number;
+  strategy: ImportStrategy;
+  dry_run: boolean;
+}
+
+const IMPORT_STRATEGIES: ImportStrategy[] = ['skip', 'overwrite', 'rename'];
+
+// Imports carry a whole export: a larger limit, and raw bodies for NDJSON/tar uploads
+// (mounted on the route so only authenticated requests are buffered)
+const MAX_IMPORT_BODY_SIZE = '50mb';
+const importBodyParsers = [
+  express.json({ limit: MAX_IMPORT_BODY_SIZE }),
+  express.raw({ type: ['application/x-ndjson', 'application/x-tar'], limit: MAX_IMPORT_BODY_SIZE }),
+];
+
+interface GrantResponse {
+  id: number;
+  grantee_type: 'user' | 'team';
+  grantee: string;
+  grantee_name: string | null;
+  permission: GrantPermission;
+  created_at: string;
+}
+
+function toGrantResponse(grant: ContextGrant): GrantResponse {
+  return {
+    id: grant.id,
+    grantee_type: grant.grantee_type,
+    grantee: grant.grantee,
+    grantee_name: grant.grantee_name,
+    permission: grant.permission,
+    created_at: grant.created_at.toISOString(),
+  };
+}
+
+interface ShareLinkResponse {
+  id: number;
+  created_by: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  access_count: number;
+  last_accessed_at: string | null;
+}
+
+function toShareLinkResponse(link: ShareLink): ShareLinkResponse {
+  return {
+    id: link.id,
+    created_by: link.created_by,
+    expires_at: link.expires_at?.toISOString() ?? null,
+    revoked_at: link.revoked_at?.toISOString() ?? null,
+    created_at: link.created_at.toISOString(),
+    access_count: link.access_count,
+    last_accessed_at: link.last_accessed_at?.toISOString() ?? null,
+  };
+}
+
+interface ContextResponse {
+  key: string;
+  namespace: string;
+  content: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TagResponse {
+  tag: string;
+  entry_count: number;
+}
+
+interface SearchResponse {
+  hits: Array<{
+    key: string;
+    tags: string[];
+    rank: number;
+    snippet: string;
+    updated_at: string;
+  }>;
+  query: string;
+  namespace: string;
+  match: SearchMatchMode;
+  count: number;
+}
+
+interface BatchGetResponse {
+  entries: ContextResponse[];
+  namespace: string;
+  count: number;
+  missing: string[];
+  omitted: string[];
+  truncated: boolean;
+  total_bytes: number;
+  max_bytes: number;
+}
+
+interface BatchWriteResponse {
+  results: Array<{
+    key: string;
+    action: 'created' | 'updated';
+    version: number;
+  }>;
+  namespace: string;
+  count: number;
+  dry_run: boolean;
+}
+
+interface BatchDeleteResponse {
+  deleted: string[];
+  missing: string[];
+  namespace: string;
+  count: number;
+  dry_run: boolean;
+}
+
+interface HistoryVersionResponse {
+  history_id: number;
+  action: ContextHistoryAction;
+  content: string;
+  restored_from: number | null;
+  source_namespace: string | null;
+  source_key: string | null;
+  changed_at: string;
+}
+
+interface RelocateResponse extends ContextResponse {
+  from_key: string;
+  from_namespace: string;
+  overwritten: boolean;
+}
+
+interface NamespaceResponse {
+  namespace: string;
+  entry_count: number;
+  updated_at: string | null;
+}
+
+/**
+ * Resolve the namespace for a request (default when mounted at the root)
+ */
+function getNamespace(req: Request): string {
+  return req.params.namespace ?? DEFAULT_NAMESPACE;
+}
+
+/**
+ * Strong ETag for a context entry, derived from its version counter
+ */
+function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Build a write precondition from If-Match / If-None-Match headers.
+ * If-Match: "<version>" requires that version; If-None-Match: * requires the
+ * key not to exist. If-Match: * requires it to exist at any version.
+ * @returns The precondition (undefined when none), or null if a header is malformed
+ */
+function getWritePrecondition(req: Request): WritePrecondition | undefined | null {
+  const ifNoneMatch = req.get('If-None-Match');
+  if (ifNoneMatch !== undefined) {
+    return ifNoneMatch.trim() === '*' ? { expectedVersion: 0 } : null;
+  }
+
+  const ifMatch = req.get('If-Match');
+  if (ifMatch === undefined) {
+    return undefined;
+  }
+  if (ifMatch.trim() === '*') {
+    return { mustExist: true };
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch.trim());
+  return match ? { expectedVersion: parseInt(match[1], 10) } : null;
+}
+
+/**
+ * Parse tag/metadata filters from the query string
+ * tag may repeat or be comma-separated (?tag=a&tag=b or ?tag=a,b); metadata is a JSON object
+ * @returns The filter, or an error message if a parameter is invalid
+ */
+function getContextFilter(req: Request): { filter?: ContextFilter; error?: string } {
+  const filter: ContextFilter = {};
+
+  const tagParam = req.query.tag;
+  if (tagParam !== undefined) {
+    const tags = (Array.isArray(tagParam) ? tagParam : [tagParam])
+      .flatMap((t) => String(t).split(','))
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const tagsValidation = validateTags(tags);
+    if (!tagsValidation.valid) {
+      return { error: tagsValidation.error };
+    }
+    filter.tags = tags;
+  }
+
+  const metadataParam = req.query.metadata;
+  if (metadataParam !== undefined) {
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(String(metadataParam));
+    } catch {
+      return { error: 'metadata must be a JSON object' };
+    }
+    const metadataValidation = validateMetadata(metadata);
+    if (!metadataValidation.valid) {
+      return { error: metadataValidation.error };
+    }
+    filter.metadata = metadata as Record<string, unknown>;
+  }
+
+  return { filter };
+}
+
+/**
+ * Respond 412 with the entry as it currently exists after a failed precondition
+ */
+function sendConflict(res: Response, key: string, error: ContextConflictError): void {
+  const current = error.current;
+  res.status(412).json({
+    success: false,
+    error: current
+      ? `Context item '${key}' was modified (now at version ${current.version})`
+      : `Context item '${key}' does not exist`,
+    code: 'CONFLICT',
+    details: {
+      current: current && {
+        key: current.key,
+        namespace: current.namespace,
+        content: current.content,
+        version: current.version,
+        tags: current.tags,
+        metadata: current.metadata,
+        expires_at: current.expires_at?.toISOString() ?? null,
+        created_at: current.created_at.toISOString(),
+        updated_at: current.updated_at.toISOString(),
+      },
+    },
+  });
+}
+
+/**
+ * Reject requests whose :namespace path segment is not a valid namespace
+ */
+function validateNamespaceParam(req: Request, res: Response, next: NextFunction): void {
+  const namespaceValidation = validateNamespace(req.params.namespace);
+  if (!namespaceValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: namespaceValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/context/namespaces
+ * List the namespaces the user has entries in
+ */
+router.get('/namespaces', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const namespaces = await listNamespaces(req.workspaceOwnerId!);
+
+    const response: ApiResponse<{ namespaces: NamespaceResponse[]; count: number }> = {
+      success: true,
+      data: {
+        namespaces: namespaces.map((ns) => ({
+          namespace: ns.namespace,
+          entry_count: ns.entry_count,
+          updated_at: ns.updated_at ? ns.updated_at.toISOString() : null,
+        })),
+        count: namespaces.length,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error listing namespaces:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list namespaces',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/export
+ * Download all context items as a file
+ * Query params: format (json | ndjson | tar, default json; ndjson includes history),
+ *   namespace (optional, default all namespaces)
+ */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const format = (req.query.format ?? 'json') as ExportFormat;
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+      res.status(400).json({
+        success: false,
+        error: 'format must be json, ndjson or tar',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const namespace = typeof req.query.namespace === 'string' ? req.query.namespace : undefined;
+    if (namespace !== undefined) {
+      const namespaceValidation = validateNamespace(namespace);
+      if (!namespaceValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: namespaceValidation.error,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+    }
+
+    const entries = await exportContext(ownerId, namespace);
+    const history = format === 'ndjson' ? await exportContextHistory(ownerId, namespace) : [];
+    const exportedAt = new Date();
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const filename = `context-export-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+
+    res.set('Content-Type', contentType);
+    res.set('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buildExport(format, entries, history, exportedAt));
+  } catch (error) {
+    console.error('[api] Error exporting context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export context',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/context/import
+ * Import context items from an export
+ * Body: a json export (Content-Type: application/json), an ndjson export
+ *   (application/x-ndjson) or a tar export (application/x-tar)
+ * Query params: strategy (skip | overwrite | rename, for keys that already exist; default skip),
+ *   dry_run (true to only report what would change), namespace (optional, import everything into it)
+ * Entries are validated like PUT /api/context/:key; if any is invalid nothing is imported.
+ * Entries whose expires_at has passed are reported as expired and not imported.
+ */
+router.post('/import', importBodyParsers, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const strategy = (req.query.strategy ?? 'skip') as ImportStrategy;
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      res.status(400).json({
+        success: false,
+        error: 'strategy must be skip, overwrite or rename',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    const dryRun = req.query.dry_run === 'true';
+    const namespace = typeof req.query.namespace === 'string' ? req.query.namespace : undefined;
+
+    let entries: unknown[];
+    try {
+      entries = parseImport(req.body, req.get('Content-Type'));
+    } catch (error) {
+      if (error instanceof ImportFormatError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+      throw error;
+    }
+
+    const entriesValidation = validateImportEntries(entries, namespace);
+    if (!entriesValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: entriesValidation.error,
+        code: 'INVALID_INPUT',
+        ...(entriesValidation.itemErrors && { details: { errors: entriesValidation.itemErrors } }),
+      });
+      return;
+    }
+
+    const imports: ContextImport[] = (entries as Array<Record<string, unknown>>).map((entry) => ({
+      namespace: namespace ?? (entry.namespace as string | undefined) ?? DEFAULT_NAMESPACE,
+      key: entry.key as string,
+      content: entry.content as string,
+      tags: entry.tags ? [...new Set(entry.tags as string[])] : undefined,
+      metadata: entry.metadata as Record<string, unknown> | undefined,
+      expiresAt: validateExpiry(entry.expires_at, undefined, true).expiresAt,
+    }));
+
+    const results = await importContext(ownerId, imports, strategy, { dryRun });
+
+    const summary: Record<ImportAction, number> = { create: 0, overwrite: 0, rename: 0, skip: 0, unchanged: 0, expired: 0 };
+    for (const result of results) {
+      summary[result.action]++;
+    }
+
+    const response: ApiResponse<ImportResponse> = {
+      success: true,
+      data: {
+        results: results.map((r) => ({
+          namespace: r.namespace,
+          key: r.key,
+          action: r.action,
+          ...(r.newKey && { new_key: r.newKey }),
+          ...(r.changes && { changes: r.changes }),
+          ...(r.version !== undefined && { version: r.version }),
+        })),
+        summary,
+        count: results.length,
+        strategy,
+        dry_run: dryRun,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error importing context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import context; no changes were made',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context
+ * GET /api/context/ns/:namespace
+ * List context items with optional search and tag/metadata filters
+ * Query params: limit (default 50, max 200), search (optional), tag (optional, repeatable),
+ *   metadata (optional JSON object), cursor (next_cursor of the previous page)
+ */
+async function listContextHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const limit = validateLimit(
+      parseInt(req.query.limit as string) || 50,
+      200,
+      50
+    );
+    const search = req.query.search as string | undefined;
+    const namespace = getNamespace(req);
+
+    const { filter, error: filterError } = getContextFilter(req);
+    if (!filter) {
+      res.status(400).json({
+        success: false,
+        error: filterError,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const cursor = req.query.cursor as string | undefined;
+    const { entries, nextCursor } = await listContextKeysPage(ownerId, limit, search, namespace, filter, cursor);
+
+    const response: ApiResponse<ListResponse> = {
+      success: true,
+      data: {
+        entries: entries.map((e: ContextKeyInfo) => ({
+          key: e.key,
+          tags: e.tags,
+          expires_at: e.expires_at?.toISOString() ?? null,
+          updated_at: e.updated_at.toISOString(),
+        })),
+        namespace,
+        count: entries.length,
+        limit,
+        next_cursor: nextCursor,
+        ...(search && { search }),
+        ...(filter.tags && { tags: filter.tags }),
+        ...(filter.metadata && { metadata: filter.metadata }),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    console.error('[api] Error listing context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list context items',
+      code: 'DATABASE_ERROR',
+    });
+  }
 }
 
-interface ContextResponse {
-  key: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
+scopedRouter.get('/', listContextHandler);
+
+/**
+ * GET /api/context/all
+ * GET /api/context/ns/:namespace/all
+ * Get all context items with full content (for list page preview)
+ * Query params: limit (default 50, max 50), tag (optional, repeatable), metadata (optional JSON object),
+ *   cursor (next_cursor of the previous page)
+ */
+scopedRouter.get('/all', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const limit = validateLimit(
+      parseInt(req.query.limit as string) || 50,
+      50,
+      50
+    );
+
+    const namespace = getNamespace(req);
+
+    const { filter, error: filterError } = getContextFilter(req);
+    if (!filter) {
+      res.status(400).json({
+        success: false,
+        error: filterError,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const cursor = req.query.cursor as string | undefined;
+    const { entries, nextCursor } = await getAllContextPage(ownerId, limit, namespace, filter, cursor);
+
+    const response: ApiResponse<{
+      entries: ContextResponse[];
+      namespace: string;
+      count: number;
+      limit: number;
+      next_cursor: string | null;
+    }> = {
+      success: true,
+      data: {
+        entries: entries.map((e: ContextEntry) => ({
+          key: e.key,
+          namespace: e.namespace,
+          content: e.content,
+          version: e.version,
+          tags: e.tags,
+          metadata: e.metadata,
+          expires_at: e.expires_at?.toISOString() ?? null,
+          created_at: e.created_at.toISOString(),
+          updated_at: e.updated_at.toISOString(),
+        })),
+        namespace,
+        count: entries.length,
+        limit,
+        next_cursor: nextCursor,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    console.error('[api] Error getting all context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get context items',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/search
+ * GET /api/context/ns/:namespace/search
+ * Full-text search over keys and content, ranked, with highlighted snippets
+ * Query params: q (required), limit (default 10, max 50), tag (optional, repeatable), metadata (optional JSON object)
+ */
+scopedRouter.get('/search', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const searchQuery = req.query.q;
+
+    const queryValidation = validateSearchQuery(searchQuery);
+    if (!queryValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: queryValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const limit = validateLimit(
+      parseInt(req.query.limit as string) || 10,
+      50,
+      10
+    );
+
+    const namespace = getNamespace(req);
+
+    const { filter, error: filterError } = getContextFilter(req);
+    if (!filter) {
+      res.status(400).json({
+        success: false,
+        error: filterError,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const result = await searchContext(ownerId, searchQuery as string, namespace, limit, filter);
+
+    const response: ApiResponse<SearchResponse> = {
+      success: true,
+      data: {
+        hits: result.hits.map((hit) => ({
+          key: hit.key,
+          tags: hit.tags,
+          rank: hit.rank,
+          snippet: hit.snippet,
+          updated_at: hit.updated_at.toISOString(),
+        })),
+        query: searchQuery as string,
+        namespace,
+        match: result.match,
+        count: result.hits.length,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error searching context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search context items',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/tags
+ * GET /api/context/ns/:namespace/tags
+ * List the tags used in a namespace with entry counts
+ */
+scopedRouter.get('/tags', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const namespace = getNamespace(req);
+    const tags = await listTags(req.workspaceOwnerId!, namespace);
+
+    const response: ApiResponse<{ tags: TagResponse[]; namespace: string; count: number }> = {
+      success: true,
+      data: {
+        tags,
+        namespace,
+        count: tags.length,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error listing tags:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list tags',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/context/batch-get
+ * POST /api/context/ns/:namespace/batch-get
+ * Read several context items by key or glob pattern (e.g. "arch.*") within a byte budget
+ * Body: { keys: string[] (max 100), max_bytes?: number (default 102400, max 1048576) }
+ */
+scopedRouter.post('/batch-get', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { keys, max_bytes } = req.body ?? {};
+
+    const keysValidation = validateKeySelectors(keys);
+    if (!keysValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: keysValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const maxBytes = validateLimit(max_bytes ?? 102400, 1048576, 102400);
+    const namespace = getNamespace(req);
+
+    const result = await readManyContext(ownerId, [...new Set(keys as string[])], namespace, maxBytes);
+
+    const response: ApiResponse<BatchGetResponse> = {
+      success: true,
+      data: {
+        entries: result.entries.map((e: ContextEntry) => ({
+          key: e.key,
+          namespace: e.namespace,
+          content: e.content,
+          version: e.version,
+          tags: e.tags,
+          metadata: e.metadata,
+          expires_at: e.expires_at?.toISOString() ?? null,
+          created_at: e.created_at.toISOString(),
+          updated_at: e.updated_at.toISOString(),
+        })),
+        namespace,
+        count: result.entries.length,
+        missing: result.missing,
+        omitted: result.omitted,
+        truncated: result.truncated,
+        total_bytes: result.totalBytes,
+        max_bytes: maxBytes,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error batch-reading context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get context items',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/context/batch-write
+ * POST /api/context/ns/:namespace/batch-write
+ * Create or update several context items in one all-or-nothing transaction
+ * Body: { entries: [{ key, content, tags?, metadata? }] (max 100), dry_run?: boolean }
+ */
+scopedRouter.post('/batch-write', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { entries, dry_run } = req.body ?? {};
+
+    const entriesValidation = validateBatchWrites(entries);
+    if (!entriesValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: entriesValidation.error,
+        code: 'INVALID_INPUT',
+        ...(entriesValidation.itemErrors && { details: { errors: entriesValidation.itemErrors } }),
+      });
+      return;
+    }
+
+    const namespace = getNamespace(req);
+    const dryRun = dry_run === true;
+    const writes = (entries as ContextWrite[]).map(({ key, content, tags, metadata }) => ({
+      key,
+      content,
+      tags: tags && [...new Set(tags)],
+      metadata,
+    }));
+
+    const results = await writeManyContext(ownerId, writes, namespace, { dryRun });
+
+    const response: ApiResponse<BatchWriteResponse> = {
+      success: true,
+      data: {
+        results: results.map(({ entry, action }) => ({
+          key: entry.key,
+          action: action === 'create' ? 'created' : 'updated',
+          version: entry.version,
+        })),
+        namespace,
+        count: results.length,
+        dry_run: dryRun,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error batch-writing context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to write context items; no changes were made',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/context/batch-delete
+ * POST /api/context/ns/:namespace/batch-delete
+ * Delete several context items in one all-or-nothing transaction (they move to the trash)
+ * Body: { keys: string[] (max 100), dry_run?: boolean }
+ */
+scopedRouter.post('/batch-delete', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { keys, dry_run } = req.body ?? {};
+
+    const keysValidation = validateBatchKeys(keys);
+    if (!keysValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: keysValidation.error,
+        code: 'INVALID_INPUT',
+        ...(keysValidation.itemErrors && { details: { errors: keysValidation.itemErrors } }),
+      });
+      return;
+    }
+
+    const namespace = getNamespace(req);
+    const dryRun = dry_run === true;
+
+    const result = await deleteManyContext(ownerId, keys as string[], namespace, { dryRun });
+
+    const response: ApiResponse<BatchDeleteResponse> = {
+      success: true,
+      data: {
+        deleted: result.deleted,
+        missing: result.missing,
+        namespace,
+        count: result.deleted.length,
+        dry_run: dryRun,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error batch-deleting context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete context items; no changes were made',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/:key
+ * GET /api/context/ns/:namespace/:key
+ * Get a single context item by key
+ */
+scopedRouter.get('/:key', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+
+    // Validate key format
+    const keyValidation = validateKey(key);
+    if (!keyValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: keyValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const entry = await getContext(ownerId, key, getNamespace(req));
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const response: ApiResponse<ContextResponse> = {
+      success: true,
+      data: {
+        key: entry.key,
+        namespace: entry.namespace,
+        content: entry.content,
+        version: entry.version,
+        tags: entry.tags,
+        metadata: entry.metadata,
+        expires_at: entry.expires_at?.toISOString() ?? null,
+        created_at: entry.created_at.toISOString(),
+        updated_at: entry.updated_at.toISOString(),
+      },
+    };
+
+    res.set('ETag', formatETag(entry.version));
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error getting context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get context item',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/:key/history
+ * GET /api/context/ns/:namespace/:key/history
+ * Get previous versions of a context item, most recent first
+ * Query params: limit (default 10, max 50)
+ */
+scopedRouter.get('/:key/history', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+
+    // Validate key format
+    const keyValidation = validateKey(key);
+    if (!keyValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: keyValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const limit = validateLimit(
+      parseInt(req.query.limit as string) || 10,
+      50,
+      10
+    );
+
+    const namespace = getNamespace(req);
+    const history = await getContextHistory(ownerId, key, limit, namespace);
+
+    if (history.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: `No history found for '${key}'`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const response: ApiResponse<{
+      key: string;
+      namespace: string;
+      versions: HistoryVersionResponse[];
+      count: number;
+      limit: number;
+    }> = {
+      success: true,
+      data: {
+        key,
+        namespace,
+        versions: history.map((h) => ({
+          history_id: h.id,
+          action: h.action,
+          content: h.content,
+          restored_from: h.restored_from,
+          source_namespace: h.source_namespace,
+          source_key: h.source_key,
+          changed_at: h.changed_at.toISOString(),
+        })),
+        count: history.length,
+        limit,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('[api] Error getting context history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get context history',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/context/:key/grants
+ * GET /api/context/ns/:namespace/:key/grants
+ * List who an entry is shared with
+ */
+scopedRouter.get('/:key/grants', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const namespace = getNamespace(req);
+
+    const entry = await getContext(ownerId, key, namespace);
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const grants = await listContextGrants(ownerId, key, namespace);
+
+    res.json({
+      success: true,
+      data: {
+        key,
+        namespace,
+        grants: grants.map(toGrantResponse),
+        count: grants.length,
+      },
+    });
+  } catch (error) {
+    console.error('[api] Error listing grants:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list grants',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/context/:key/grants
+ * POST /api/context/ns/:namespace/:key/grants
+ * Share an entry with a user (by email) or a team (by slug), or change the
+ * permission of an existing grant
+ * Body: { email: string } or { team: string }, plus permission?: 'read' | 'write' (default read)
+ */
+scopedRouter.post('/:key/grants', async (req: Request, res: Response): Promise<void> => {
+  const { email, team, permission = 'read' } = req.body ?? {};
+
+  if ((email === undefined) === (team === undefined)) {
+    res.status(400).json({
+      success: false,
+      error: 'Provide either email or team',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  if (email !== undefined) {
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: emailValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+  } else if (typeof team !== 'string' || team.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Team must be a team slug',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  const permissionValidation = validateGrantPermission(permission);
+  if (!permissionValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: permissionValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const namespace = getNamespace(req);
+
+    let grantee: ContextGrantee;
+    if (email !== undefined) {
+      const user = await getUserByEmail(email);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: `No user with email ${email}; they need to sign in once before you can share with them`,
+          code: 'NOT_FOUND',
+        });
+        return;
+      }
+      grantee = { userId: user.id };
+    } else {
+      const found = await getTeamBySlug(team);
+      if (!found) {
+        res.status(404).json({
+          success: false,
+          error: `Team '${team}' not found`,
+          code: 'NOT_FOUND',
+        });
+        return;
+      }
+      grantee = { teamId: found.id };
+    }
+
+    // Whoever owns the workspace has full access already
+    if (('userId' in grantee ? grantee.userId : teamOwnerId(grantee.teamId)) === ownerId) {
+      res.status(400).json({
+        success: false,
+        error: 'The entry already belongs to this workspace',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const grant = await grantContextAccess(ownerId, key, namespace, grantee, permission, req.authenticatedUserId!);
+    if (!grant) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: toGrantResponse(grant) });
+  } catch (error) {
+    console.error('[api] Error sharing context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to share context item',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/context/:key/grants/:grantId
+ * DELETE /api/context/ns/:namespace/:key/grants/:grantId
+ * Revoke a grant; open MCP sessions lose access on their next call
+ */
+scopedRouter.delete('/:key/grants/:grantId', async (req: Request, res: Response): Promise<void> => {
+  const grantId = Number(req.params.grantId);
+  if (!Number.isInteger(grantId) || grantId <= 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Grant id must be a positive integer',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const namespace = getNamespace(req);
+
+    const revoked = await revokeContextGrant(ownerId, key, namespace, grantId);
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: `Grant ${grantId} not found on '${key}'`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { id: grantId, revoked: true } });
+  } catch (error) {
+    console.error('[api] Error revoking grant:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke grant',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
 
 /**
- * GET /api/context
- * List context items with optional search
- * Query params: limit (default 50, max 200), search (optional)
+ * GET /api/context/:key/share
+ * GET /api/context/ns/:namespace/:key/share
+ * List the public share links of an entry, with how often each was opened
  */
-router.get('/', async (req: Request, res: Response): Promise<void> => {
+scopedRouter.get('/:key/share', async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.authenticatedUserId!;
-    const limit = validateLimit(
-      parseInt(req.query.limit as string) || 50,
-      200,
-      50
-    );
-    const search = req.query.search as string | undefined;
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const namespace = getNamespace(req);
+
+    const entry = await getContext(ownerId, key, namespace);
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
 
-    const entries = await listContextKeys(userId, limit, search);
+    const links = await listShareLinks(ownerId, key, namespace);
 
-    const response: ApiResponse<ListResponse> = {
+    res.json({
       success: true,
       data: {
-        entries: entries.map((e: ContextKeyInfo) => ({
-          key: e.key,
-          updated_at: e.updated_at.toISOString(),
-        })),
-        count: entries.length,
-        limit,
-        ...(search && { search }),
+        key,
+        namespace,
+        links: links.map(toShareLinkResponse),
+        count: links.length,
       },
-    };
-
-    res.json(response);
+    });
   } catch (error) {
-    console.error('[api] Error listing context:', error);
+    console.error('[api] Error listing share links:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to list context items',
+      error: 'Failed to list share links',
       code: 'DATABASE_ERROR',
     });
   }
 });
 
 /**
- * GET /api/context/all
- * Get all context items with full content (for list page preview)
- * Query params: limit (default 50, max 50)
+ * POST /api/context/:key/share
+ * POST /api/context/ns/:namespace/:key/share
+ * Create a public read-only link to an entry, served at /s/:token without auth.
+ * The token is only returned here; it is stored hashed.
+ * Body (optional): { expires_at?: ISO 8601 timestamp, ttl_seconds?: number } - default: never expires
  */
-router.get('/all', async (req: Request, res: Response): Promise<void> => {
+scopedRouter.post('/:key/share', async (req: Request, res: Response): Promise<void> => {
+  const { expires_at, ttl_seconds } = req.body ?? {};
+
+  const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+  if (!expiryValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: expiryValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
   try {
-    const userId = req.authenticatedUserId!;
-    const limit = validateLimit(
-      parseInt(req.query.limit as string) || 50,
-      50,
-      50
-    );
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const namespace = getNamespace(req);
 
-    const entries = await getAllContext(userId, limit);
+    const created = await createShareLink(ownerId, key, namespace, expiryValidation.expiresAt ?? null, req.authenticatedUserId!);
+    if (!created) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
 
-    const response: ApiResponse<{
-      entries: ContextResponse[];
-      count: number;
-      limit: number;
-    }> = {
+    res.status(201).json({
       success: true,
       data: {
-        entries: entries.map((e: ContextEntry) => ({
-          key: e.key,
-          content: e.content,
-          created_at: e.created_at.toISOString(),
-          updated_at: e.updated_at.toISOString(),
-        })),
-        count: entries.length,
-        limit,
+        ...toShareLinkResponse(created.link),
+        token: created.token,
+        path: `/s/${created.token}`,
       },
-    };
-
-    res.json(response);
+    });
   } catch (error) {
-    console.error('[api] Error getting all context:', error);
+    console.error('[api] Error creating share link:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get context items',
+      error: 'Failed to create share link',
       code: 'DATABASE_ERROR',
     });
   }
 });
 
 /**
- * GET /api/context/:key
- * Get a single context item by key
+ * DELETE /api/context/:key/share/:linkId
+ * DELETE /api/context/ns/:namespace/:key/share/:linkId
+ * Revoke a share link; it stops working immediately
  */
-router.get('/:key', async (req: Request, res: Response): Promise<void> => {
+scopedRouter.delete('/:key/share/:linkId', async (req: Request, res: Response): Promise<void> => {
+  const linkId = Number(req.params.linkId);
+  if (!Number.isInteger(linkId) || linkId <= 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Link id must be a positive integer',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
   try {
-    const userId = req.authenticatedUserId!;
+    const ownerId = req.workspaceOwnerId!;
     const { key } = req.params;
+    const namespace = getNamespace(req);
+
+    const revoked = await revokeShareLink(ownerId, key, namespace, linkId, req.authenticatedUserId!);
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: `No active share link ${linkId} on '${key}'`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { id: linkId, revoked: true } });
+  } catch (error) {
+    console.error('[api] Error revoking share link:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke share link',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * Handler for the rename and copy routes (same body and responses)
+ * Body: { new_key: string, new_namespace?: string (default: same namespace), overwrite?: boolean,
+ *         content?: string, tags?: string[] (replace the source's in the same transaction) }
+ * Headers: If-Match: "<version>" (optional) guards the source entry
+ * Responds 409 with code CONFLICT and the existing entry when the target is taken and overwrite isn't set,
+ * and 412 when If-Match doesn't match the source
+ */
+function relocateHandler(mode: 'rename' | 'copy') {
+  const relocate = mode === 'rename' ? renameContext : copyContext;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ownerId = req.workspaceOwnerId!;
+      const { key } = req.params;
+      const { new_key: newKey, new_namespace, overwrite, content, tags } = req.body ?? {};
+      const namespace = getNamespace(req);
+      const newNamespace = new_namespace ?? namespace;
+
+      for (const k of [key, newKey]) {
+        const keyValidation = validateKey(k);
+        if (!keyValidation.valid) {
+          res.status(400).json({
+            success: false,
+            error: keyValidation.error,
+            code: 'INVALID_INPUT',
+          });
+          return;
+        }
+      }
+
+      const namespaceValidation = validateNamespace(newNamespace);
+      if (!namespaceValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: namespaceValidation.error,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+
+      if (key === newKey && namespace === newNamespace) {
+        res.status(400).json({
+          success: false,
+          error: 'Target key and namespace must differ from the source item',
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+
+      if (content !== undefined) {
+        const contentValidation = validateContent(content);
+        if (!contentValidation.valid) {
+          res.status(400).json({
+            success: false,
+            error: contentValidation.error,
+            code: 'INVALID_INPUT',
+          });
+          return;
+        }
+      }
+      if (tags !== undefined) {
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+          res.status(400).json({
+            success: false,
+            error: tagsValidation.error,
+            code: 'INVALID_INPUT',
+          });
+          return;
+        }
+      }
+
+      const precondition = getWritePrecondition(req);
+      if (precondition === null) {
+        res.status(400).json({
+          success: false,
+          error: 'If-Match must be an ETag returned by this API (e.g. "3") or *',
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+
+      const result = await relocate(ownerId, key, newKey, namespace, newNamespace, {
+        overwrite: overwrite === true,
+        expectedVersion: precondition?.expectedVersion,
+        content,
+        tags: tags && [...new Set<string>(tags)],
+      });
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: `Context item '${key}' not found`,
+          code: 'NOT_FOUND',
+        });
+        return;
+      }
+
+      const { entry } = result;
+      const response: ApiResponse<RelocateResponse> = {
+        success: true,
+        data: {
+          key: entry.key,
+          namespace: entry.namespace,
+          content: entry.content,
+          version: entry.version,
+          tags: entry.tags,
+          metadata: entry.metadata,
+          expires_at: entry.expires_at?.toISOString() ?? null,
+          created_at: entry.created_at.toISOString(),
+          updated_at: entry.updated_at.toISOString(),
+          from_key: key,
+          from_namespace: namespace,
+          overwritten: result.overwritten,
+        },
+      };
+
+      res.set('ETag', formatETag(entry.version));
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ContextExistsError) {
+        const current = error.current;
+        res.status(409).json({
+          success: false,
+          error: `Context item '${current.key}' already exists`,
+          code: 'CONFLICT',
+          details: {
+            current: {
+              key: current.key,
+              namespace: current.namespace,
+              content: current.content,
+              version: current.version,
+              tags: current.tags,
+              metadata: current.metadata,
+              expires_at: current.expires_at?.toISOString() ?? null,
+              created_at: current.created_at.toISOString(),
+              updated_at: current.updated_at.toISOString(),
+            },
+          },
+        });
+        return;
+      }
+      if (error instanceof ContextConflictError) {
+        sendConflict(res, req.params.key, error);
+        return;
+      }
+      console.error(`[api] Error during context ${mode}:`, error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to ${mode} context item`,
+        code: 'DATABASE_ERROR',
+      });
+    }
+  };
+}
+
+/**
+ * POST /api/context/:key/rename
+ * POST /api/context/ns/:namespace/:key/rename
+ * Rename a context item (and/or move it to another namespace), keeping its history
+ */
+scopedRouter.post('/:key/rename', relocateHandler('rename'));
+
+/**
+ * POST /api/context/:key/copy
+ * POST /api/context/ns/:namespace/:key/copy
+ * Copy a context item to a new key and/or namespace
+ */
+scopedRouter.post('/:key/copy', relocateHandler('copy'));
+
+/**
+ * POST /api/context/:key/restore/:historyId
+ * POST /api/context/ns/:namespace/:key/restore/:historyId
+ * Restore a context item to a previous version (also recovers deleted items)
+ */
+scopedRouter.post('/:key/restore/:historyId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key, historyId } = req.params;
 
     // Validate key format
     const keyValidation = validateKey(key);
@@ -148,33 +1628,51 @@ router.get('/:key', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const entry = await getContext(userId, key);
+    // Validate history id
+    const id = Number(historyId);
+    if (!Number.isInteger(id) || id <= 0) {
+      res.status(400).json({
+        success: false,
+        error: 'History id must be a positive integer',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const entry = await restoreContextVersion(ownerId, key, id, getNamespace(req));
 
     if (!entry) {
       res.status(404).json({
         success: false,
-        error: `Context item '${key}' not found`,
+        error: `History version ${id} not found for '${key}'`,
         code: 'NOT_FOUND',
       });
       return;
     }
 
-    const response: ApiResponse<ContextResponse> = {
+    const response: ApiResponse<ContextResponse & { restored_from: number }> = {
       success: true,
       data: {
         key: entry.key,
+        namespace: entry.namespace,
         content: entry.content,
+        version: entry.version,
+        tags: entry.tags,
+        metadata: entry.metadata,
+        expires_at: entry.expires_at?.toISOString() ?? null,
         created_at: entry.created_at.toISOString(),
         updated_at: entry.updated_at.toISOString(),
+        restored_from: id,
       },
     };
 
+    res.set('ETag', formatETag(entry.version));
     res.json(response);
   } catch (error) {
-    console.error('[api] Error getting context:', error);
+    console.error('[api] Error restoring context version:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get context item',
+      error: 'Failed to restore context version',
       code: 'DATABASE_ERROR',
     });
   }
@@ -182,14 +1680,18 @@ router.get('/:key', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * PUT /api/context/:key
+ * PUT /api/context/ns/:namespace/:key
  * Create or update a context item
- * Body: { content: string }
+ * Body: { content: string, tags?: string[], metadata?: object, expires_at?: string | null, ttl_seconds?: number }
+ *   (omitted tags/metadata/expiry are kept; expires_at null removes the expiry)
+ * Headers: If-Match: "<version>" (optional) or If-None-Match: * (optional)
+ * Responds 412 with code CONFLICT and the current entry when the precondition fails
  */
-router.put('/:key', async (req: Request, res: Response): Promise<void> => {
+scopedRouter.put('/:key', async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.authenticatedUserId!;
+    const ownerId = req.workspaceOwnerId!;
     const { key } = req.params;
-    const { content } = req.body;
+    const { content, tags, metadata, expires_at, ttl_seconds } = req.body;
 
     // Validate key format
     const keyValidation = validateKey(key);
@@ -213,23 +1715,95 @@ router.put('/:key', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Validate tags and metadata
+    if (tags !== undefined) {
+      const tagsValidation = validateTags(tags);
+      if (!tagsValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: tagsValidation.error,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+    }
+    if (metadata !== undefined) {
+      const metadataValidation = validateMetadata(metadata);
+      if (!metadataValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: metadataValidation.error,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+    }
+
+    // Optional optimistic concurrency precondition
+    const precondition = getWritePrecondition(req);
+    if (precondition === null) {
+      res.status(400).json({
+        success: false,
+        error: 'If-Match must be an ETag returned by this API (e.g. "3") or *',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    // Validate expiry
+    const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+    if (!expiryValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: expiryValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
     // Check if item exists to determine if create or update
-    const existing = await getContext(userId, key);
-    const entry = await setContext(userId, key, content);
+    const namespace = getNamespace(req);
+    const existing = await getContext(ownerId, key, namespace);
+    if (!existing && isReservedRestKey(key)) {
+      res.status(400).json({
+        success: false,
+        error: `Key '${key}' is reserved by the REST API; create it with the write_context tool`,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const entry = await setContext(ownerId, key, content, namespace, {
+      precondition,
+      tags: tags && [...new Set<string>(tags)],
+      metadata,
+      expiresAt: expiryValidation.expiresAt,
+    });
 
     const response: ApiResponse<ContextResponse & { action: 'created' | 'updated' }> = {
       success: true,
       data: {
         key: entry.key,
+        namespace: entry.namespace,
         content: entry.content,
+        version: entry.version,
+        tags: entry.tags,
+        metadata: entry.metadata,
+        expires_at: entry.expires_at?.toISOString() ?? null,
         created_at: entry.created_at.toISOString(),
         updated_at: entry.updated_at.toISOString(),
         action: existing ? 'updated' : 'created',
       },
     };
 
+    res.set('ETag', formatETag(entry.version));
     res.status(existing ? 200 : 201).json(response);
   } catch (error) {
+    if (error instanceof ContextConflictError) {
+      sendConflict(res, req.params.key, error);
+      return;
+    }
+
     console.error('[api] Error saving context:', error);
     res.status(500).json({
       success: false,
@@ -239,13 +1813,140 @@ router.put('/:key', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * PATCH /api/context/:key
+ * PATCH /api/context/ns/:namespace/:key
+ * Edit part of a context item in place (mirrors append_context / patch_context)
+ * Body: one of
+ *   { append: string, separator?: string } / { prepend: string, separator?: string }
+ *   { section: string, content: string }
+ *   { start_line: number, end_line?: number, content: string }
+ *   { search: string, replace: string, replace_all?: boolean }
+ *   { json_patch: JsonPatchOperation[] }
+ * Headers: If-Match: "<version>" (optional)
+ */
+scopedRouter.patch('/:key', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const { key } = req.params;
+    const body = req.body ?? {};
+
+    // Validate key format
+    const keyValidation = validateKey(key);
+    if (!keyValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: keyValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    // Build the edit from the body
+    let edit: ContextEdit | undefined;
+    let editError: string | undefined;
+    const appendText = body.append ?? body.prepend;
+    if (appendText !== undefined) {
+      if (body.append !== undefined && body.prepend !== undefined) {
+        editError = 'Provide either append or prepend, not both';
+      } else {
+        const textValidation = validateContent(appendText);
+        edit = textValidation.valid
+          ? {
+              type: body.append !== undefined ? 'append' : 'prepend',
+              text: appendText,
+              separator: typeof body.separator === 'string' ? body.separator : '\n',
+            }
+          : undefined;
+        editError = textValidation.error;
+      }
+    } else {
+      ({ edit, error: editError } = buildPatchEdit(body));
+    }
+
+    if (!edit) {
+      res.status(400).json({
+        success: false,
+        error: editError,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    // Optional optimistic concurrency precondition
+    const precondition = getWritePrecondition(req);
+    if (precondition === null) {
+      res.status(400).json({
+        success: false,
+        error: 'If-Match must be an ETag returned by this API (e.g. "3") or *',
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const entry = await editContext(ownerId, key, edit, getNamespace(req), {
+      precondition,
+      validate: validateContent,
+    });
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: `Context item '${key}' not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const response: ApiResponse<ContextResponse> = {
+      success: true,
+      data: {
+        key: entry.key,
+        namespace: entry.namespace,
+        content: entry.content,
+        version: entry.version,
+        tags: entry.tags,
+        metadata: entry.metadata,
+        expires_at: entry.expires_at?.toISOString() ?? null,
+        created_at: entry.created_at.toISOString(),
+        updated_at: entry.updated_at.toISOString(),
+      },
+    };
+
+    res.set('ETag', formatETag(entry.version));
+    res.json(response);
+  } catch (error) {
+    if (error instanceof ContextEditError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    if (error instanceof ContextConflictError) {
+      sendConflict(res, req.params.key, error);
+      return;
+    }
+
+    console.error('[api] Error patching context:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to patch context item',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
 /**
  * DELETE /api/context/:key
- * Delete a context item
+ * DELETE /api/context/ns/:namespace/:key
+ * Delete a context item (it moves to the trash, see /api/trash)
  */
-router.delete('/:key', async (req: Request, res: Response): Promise<void> => {
+scopedRouter.delete('/:key', async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.authenticatedUserId!;
+    const ownerId = req.workspaceOwnerId!;
     const { key } = req.params;
 
     // Validate key format
@@ -259,7 +1960,8 @@ router.delete('/:key', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const deleted = await deleteContext(userId, key);
+    const namespace = getNamespace(req);
+    const deleted = await deleteContext(ownerId, key, namespace);
 
     if (!deleted) {
       res.status(404).json({
@@ -274,6 +1976,7 @@ router.delete('/:key', async (req: Request, res: Response): Promise<void> => {
       success: true,
       data: {
         key,
+        namespace,
         deleted: true,
       },
     });
@@ -287,4 +1990,9 @@ router.delete('/:key', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Namespaced routes sit under a fixed /ns prefix so a namespace is never mistaken for a key
+// ('ns' is a reserved key name, see isReservedRestKey)
+router.use('/ns/:namespace', validateNamespaceParam, scopedRouter);
+router.use(scopedRouter);
+
 export default router;
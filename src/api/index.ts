@@ -5,10 +5,15 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { getAuth } from '@clerk/express';
 import { provisionClerkUser } from '../auth/provision.js';
+import { resolveWorkspace, WorkspaceAccessError } from '../auth/workspace.js';
+import { listTeamMemberships } from '../db/queries.js';
 import contextRouter from './context.js';
 import adminRouter from './admin.js';
 import keysRouter from './keys.js';
+import trashRouter from './trash.js';
+import teamsRouter from './teams.js';
 import waitlistRouter from './waitlist.js';
+import shareLinksRouter from './share-links.js';
 
 const router = Router();
 
@@ -84,6 +89,51 @@ async function authMiddleware(
   }
 }
 
+/**
+ * Workspace middleware for context and trash routes (after authMiddleware)
+ * Resolves the X-Workspace header (or ?workspace=) to the owner id of the
+ * team's context, or the user's own id when absent. Reads (GET, and
+ * POST .../batch-get) need any team role; everything else needs editor or owner.
+ */
+async function workspaceMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const header = req.get('X-Workspace');
+  const workspace = header || (typeof req.query.workspace === 'string' ? req.query.workspace : undefined);
+
+  if (!workspace) {
+    req.workspaceOwnerId = req.authenticatedUserId;
+    next();
+    return;
+  }
+
+  const isRead = req.method === 'GET' || req.method === 'HEAD' || req.path.endsWith('/batch-get');
+
+  try {
+    const memberships = await listTeamMemberships(req.authenticatedUserId!);
+    const principal = { userId: req.authenticatedUserId!, isAdmin: req.isAdmin ?? false, memberships };
+    req.workspaceOwnerId = resolveWorkspace(principal, workspace, isRead ? 'read' : 'write').ownerId;
+    next();
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      res.status(error.code === 'NOT_FOUND' ? 404 : 403).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+    console.error('[api] Workspace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve workspace',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
 /**
  * Rate limiter middleware for API endpoints
  */
@@ -191,7 +241,13 @@ function waitlistRateLimiter(req: Request, res: Response, next: NextFunction): v
 router.use('/waitlist', waitlistRateLimiter, waitlistRouter);
 
 // Apply auth and rate limiting to all /api/context routes
-router.use('/context', rateLimiter, authMiddleware, contextRouter);
+router.use('/context', rateLimiter, authMiddleware, workspaceMiddleware, contextRouter);
+
+// Apply auth and rate limiting to all /api/trash routes
+router.use('/trash', rateLimiter, authMiddleware, workspaceMiddleware, trashRouter);
+
+// Apply auth and rate limiting to all /api/teams routes
+router.use('/teams', rateLimiter, authMiddleware, teamsRouter);
 
 // Apply auth and rate limiting to all /api/keys routes (self-service)
 router.use('/keys', rateLimiter, authMiddleware, keysRouter);
@@ -199,4 +255,8 @@ router.use('/keys', rateLimiter, authMiddleware, keysRouter);
 // Apply auth and rate limiting to all /api/admin routes
 router.use('/admin', rateLimiter, authMiddleware, adminRouter);
 
+// Public share links (no auth), mounted at /s by the HTTP transport
+export const shareLinkRouter = Router();
+shareLinkRouter.use(rateLimiter, shareLinksRouter);
+
 export default router;
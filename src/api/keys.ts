@@ -4,10 +4,15 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { listApiKeysForUser, createApiKey, revokeApiKeyByName, countUserApiKeys } from '../db/queries.js';
+import { listApiKeysForUser, createApiKey, rotateApiKey, revokeApiKeyByName, countUserApiKeys } from '../db/queries.js';
+import { validateApiKeyScopes, validateExpiry } from '../tools/validators.js';
 
 const MAX_API_KEYS_PER_USER = 10;
 
+// How long a rotated-out secret keeps working by default, and at most
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+const MAX_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
 const router = Router();
 
 /**
@@ -38,11 +43,14 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
 /**
  * POST /api/keys
  * Create a new API key for the authenticated user
- * Body: { name: string }
+ * Body: { name: string, scopes?: string[], keys?: string[], namespaces?: string[],
+ *         expires_at?: string, ttl_seconds?: number }
+ * (scopes default to context:read and context:write; only admins can grant admin;
+ * keys without an expiry never expire)
  */
 router.post('/', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name } = req.body;
+    const { name, scopes, keys, namespaces, expires_at, ttl_seconds } = req.body;
 
     if (!name || typeof name !== 'string') {
       res.status(400).json({
@@ -72,6 +80,37 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const scopesValidation = validateApiKeyScopes(scopes, keys, namespaces);
+    if (!scopesValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: scopesValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    const keyScopes = scopesValidation.keyScopes!;
+
+    const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+    if (!expiryValidation.valid) {
+      res.status(400).json({
+        success: false,
+        error: expiryValidation.error,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+    const expiresAt = expiryValidation.expiresAt ?? null;
+
+    if (keyScopes.scopes.includes('admin') && !req.isAdmin) {
+      res.status(403).json({
+        success: false,
+        error: 'Only admins can create keys with the admin scope',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
     // Enforce API key count limit
     const keyCount = await countUserApiKeys(req.authenticatedUserId!);
     if (keyCount >= MAX_API_KEYS_PER_USER) {
@@ -83,13 +122,17 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { plainKey } = await createApiKey(req.authenticatedUserId!, trimmed);
+    const { plainKey } = await createApiKey(req.authenticatedUserId!, trimmed, keyScopes, expiresAt);
 
     res.status(201).json({
       success: true,
       data: {
         apiKey: plainKey,
         keyName: trimmed,
+        scopes: keyScopes.scopes,
+        keys: keyScopes.keys,
+        namespaces: keyScopes.namespaces,
+        expiresAt,
       },
     });
   } catch (error) {
@@ -102,6 +145,59 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * POST /api/keys/:keyName/rotate
+ * Issue a new secret for an API key; the old one keeps working for the grace period
+ * Body: { grace_seconds?: number } (default: 1 day, max: 30 days, 0: stop the old secret now)
+ */
+router.post('/:keyName/rotate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { keyName } = req.params;
+    const graceSeconds = req.body?.grace_seconds ?? DEFAULT_ROTATION_GRACE_SECONDS;
+
+    if (
+      typeof graceSeconds !== 'number' ||
+      !Number.isInteger(graceSeconds) ||
+      graceSeconds < 0 ||
+      graceSeconds > MAX_ROTATION_GRACE_SECONDS
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `grace_seconds must be an integer between 0 and ${MAX_ROTATION_GRACE_SECONDS}`,
+        code: 'INVALID_INPUT',
+      });
+      return;
+    }
+
+    const rotated = await rotateApiKey(req.authenticatedUserId!, keyName, graceSeconds);
+
+    if (!rotated) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        apiKey: rotated.plainKey,
+        keyName,
+        previousKeyExpiresAt: rotated.previousKeyExpiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('[keys] Rotate key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rotate API key',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+});
+
 /**
  * DELETE /api/keys/:keyName
  * Revoke an API key by name for the authenticated user
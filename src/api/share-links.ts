@@ -0,0 +1,102 @@
+/**
+ * Public share link endpoints (no auth required)
+ *
+ * Mounted at /s. A browser opening /s/:token gets the web app, which renders
+ * the entry from /s/:token/json; /s/:token/raw serves the bare content for
+ * pasting into other tools. Every access is recorded in share_link_events.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { openShareLink, SharedLinkEntry } from '../db/queries.js';
+
+const router = Router();
+
+const NOT_FOUND_MESSAGE = 'Share link not found, revoked or expired';
+
+interface SharedEntryResponse {
+  key: string;
+  namespace: string;
+  content: string;
+  updated_at: string;
+  expires_at: string | null;
+}
+
+function toSharedEntryResponse(entry: SharedLinkEntry): SharedEntryResponse {
+  return {
+    key: entry.key,
+    namespace: entry.namespace,
+    content: entry.content,
+    updated_at: entry.updated_at.toISOString(),
+    expires_at: entry.expires_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Open a share link for a request, recording the access
+ */
+function openForRequest(req: Request, format: string): Promise<SharedLinkEntry | null> {
+  return openShareLink(req.params.token, {
+    ip: req.ip ?? null,
+    userAgent: req.get('User-Agent') ?? null,
+    format,
+  });
+}
+
+/**
+ * Links can be revoked at any time, so responses must not be cached or indexed
+ */
+function noStore(_req: Request, res: Response, next: NextFunction): void {
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Robots-Tag', 'noindex');
+  next();
+}
+
+router.use(noStore);
+
+/**
+ * GET /s/:token/json
+ * The shared entry as JSON
+ */
+router.get('/:token/json', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const entry = await openForRequest(req, 'json');
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: NOT_FOUND_MESSAGE,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: toSharedEntryResponse(entry) });
+  } catch (error) {
+    console.error('[share] Error opening share link:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to open share link',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /s/:token/raw
+ * The shared entry's content as plain text
+ */
+router.get('/:token/raw', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const entry = await openForRequest(req, 'raw');
+    if (!entry) {
+      res.status(404).type('text/plain').send(NOT_FOUND_MESSAGE);
+      return;
+    }
+
+    res.type('text/plain').send(entry.content);
+  } catch (error) {
+    console.error('[share] Error opening share link:', error);
+    res.status(500).type('text/plain').send('Failed to open share link');
+  }
+});
+
+export default router;
@@ -0,0 +1,364 @@
+/**
+ * REST API routes for teams (shared workspaces) and their members
+ * Any member can list a team's members; only owners can change them.
+ * Members can always remove themselves (leave), as long as an owner remains.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  createTeam,
+  listTeamMemberships,
+  listTeamMembers,
+  addTeamMember,
+  updateTeamMemberRole,
+  removeTeamMember,
+  deleteTeam,
+  TeamMember,
+  TeamMembership,
+  TeamMembershipError,
+  TeamRole,
+} from '../db/queries.js';
+import { resolveWorkspace, WorkspaceAccess, WorkspaceAccessError } from '../auth/workspace.js';
+import { validateTeamSlug, validateTeamName, validateTeamRole, validateEmail } from '../tools/validators.js';
+
+const router = Router();
+
+// Response types
+interface TeamResponse {
+  slug: string;
+  name: string;
+  role: TeamRole;
+  created_at: string;
+}
+
+interface MemberResponse {
+  user_id: string;
+  email: string;
+  role: TeamRole;
+  joined_at: string;
+}
+
+function toTeamResponse(team: TeamMembership): TeamResponse {
+  return {
+    slug: team.slug,
+    name: team.name,
+    role: team.role,
+    created_at: team.created_at.toISOString(),
+  };
+}
+
+function toMemberResponse(member: TeamMember): MemberResponse {
+  return {
+    user_id: member.user_id,
+    email: member.email,
+    role: member.role,
+    joined_at: member.joined_at.toISOString(),
+  };
+}
+
+/**
+ * Look up the :slug team for the authenticated user and check their access
+ * Sends the error response and returns null if they can't use it
+ */
+async function requireTeam(req: Request, res: Response, access: WorkspaceAccess): Promise<TeamMembership | null> {
+  const memberships = await listTeamMemberships(req.authenticatedUserId!);
+  const principal = { userId: req.authenticatedUserId!, isAdmin: req.isAdmin ?? false, memberships };
+
+  try {
+    return resolveWorkspace(principal, req.params.slug, access).team;
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      res.status(error.code === 'NOT_FOUND' ? 404 : 403).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a 409 for a membership change that isn't allowed
+ */
+function sendMembershipConflict(res: Response, error: TeamMembershipError): void {
+  res.status(409).json({
+    success: false,
+    error: error.message,
+    code: 'CONFLICT',
+  });
+}
+
+/**
+ * GET /api/teams
+ * List the teams the authenticated user belongs to, with their role
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const teams = await listTeamMemberships(req.authenticatedUserId!);
+
+    res.json({
+      success: true,
+      data: {
+        teams: teams.map(toTeamResponse),
+        count: teams.length,
+      },
+    });
+  } catch (error) {
+    console.error('[teams] List teams error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list teams',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/teams
+ * Create a team owned by the authenticated user
+ * Body: { slug: string, name: string }
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  const { slug, name } = req.body ?? {};
+
+  const slugValidation = validateTeamSlug(slug);
+  if (!slugValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: slugValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  const nameValidation = validateTeamName(name);
+  if (!nameValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: nameValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const team = await createTeam(req.authenticatedUserId!, slug, name.trim());
+
+    if (!team) {
+      res.status(409).json({
+        success: false,
+        error: `Team slug '${slug}' is already taken`,
+        code: 'CONFLICT',
+      });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: toTeamResponse(team) });
+  } catch (error) {
+    console.error('[teams] Create team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create team',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/teams/:slug
+ * Delete a team with all of its context (owners only)
+ */
+router.delete('/:slug', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const team = await requireTeam(req, res, 'manage');
+    if (!team) return;
+
+    await deleteTeam(team.id);
+
+    res.json({ success: true, data: { slug: team.slug, deleted: true } });
+  } catch (error) {
+    console.error('[teams] Delete team error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete team',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/teams/:slug/members
+ * List a team's members (any member)
+ */
+router.get('/:slug/members', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const team = await requireTeam(req, res, 'read');
+    if (!team) return;
+
+    const members = await listTeamMembers(team.id);
+
+    res.json({
+      success: true,
+      data: {
+        team: toTeamResponse(team),
+        members: members.map(toMemberResponse),
+        count: members.length,
+      },
+    });
+  } catch (error) {
+    console.error('[teams] List members error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list team members',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/teams/:slug/members
+ * Add an existing user to a team by email (owners only)
+ * Body: { email: string, role?: 'owner' | 'editor' | 'viewer' (default editor) }
+ */
+router.post('/:slug/members', async (req: Request, res: Response): Promise<void> => {
+  const { email, role = 'editor' } = req.body ?? {};
+
+  const emailValidation = validateEmail(email);
+  if (!emailValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: emailValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  const roleValidation = validateTeamRole(role);
+  if (!roleValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: roleValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const team = await requireTeam(req, res, 'manage');
+    if (!team) return;
+
+    const member = await addTeamMember(team.id, email, role);
+
+    if (!member) {
+      res.status(404).json({
+        success: false,
+        error: `No user with email ${email}; they need to sign in once before they can be added`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: toMemberResponse(member) });
+  } catch (error) {
+    if (error instanceof TeamMembershipError) {
+      sendMembershipConflict(res, error);
+      return;
+    }
+    console.error('[teams] Add member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add team member',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * PATCH /api/teams/:slug/members/:userId
+ * Change a member's role (owners only)
+ * Body: { role: 'owner' | 'editor' | 'viewer' }
+ * Responds 409 if this would leave the team without an owner
+ */
+router.patch('/:slug/members/:userId', async (req: Request, res: Response): Promise<void> => {
+  const { role } = req.body ?? {};
+
+  const roleValidation = validateTeamRole(role);
+  if (!roleValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: roleValidation.error,
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const team = await requireTeam(req, res, 'manage');
+    if (!team) return;
+
+    const updated = await updateTeamMemberRole(team.id, req.params.userId, role);
+
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        error: `User '${req.params.userId}' is not a member of this team`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { user_id: req.params.userId, role } });
+  } catch (error) {
+    if (error instanceof TeamMembershipError) {
+      sendMembershipConflict(res, error);
+      return;
+    }
+    console.error('[teams] Update member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update team member',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/teams/:slug/members/:userId
+ * Remove a member (owners), or leave the team (any member removing themselves)
+ * Responds 409 if this would leave the team without an owner
+ */
+router.delete('/:slug/members/:userId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const isSelf = req.params.userId === req.authenticatedUserId;
+    const team = await requireTeam(req, res, isSelf ? 'read' : 'manage');
+    if (!team) return;
+
+    const removed = await removeTeamMember(team.id, req.params.userId);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: `User '${req.params.userId}' is not a member of this team`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { user_id: req.params.userId, removed: true } });
+  } catch (error) {
+    if (error instanceof TeamMembershipError) {
+      sendMembershipConflict(res, error);
+      return;
+    }
+    console.error('[teams] Remove member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove team member',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+export default router;
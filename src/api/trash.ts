@@ -0,0 +1,239 @@
+/**
+ * REST API routes for the trash (deleted context entries)
+ * Entries stay restorable until the trash purger removes them after the
+ * retention window (TRASH_RETENTION_DAYS).
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  listTrash,
+  restoreTrashedContext,
+  deleteTrashedContext,
+  emptyTrash,
+  ContextExistsError,
+} from '../db/queries.js';
+import { validateLimit, validateNamespace } from '../tools/validators.js';
+import { trashRetentionDays, trashPurgeAt } from '../jobs/trash-purger.js';
+
+const router = Router();
+
+// Response types
+interface TrashListResponse {
+  entries: Array<{
+    id: number;
+    key: string;
+    namespace: string;
+    version: number;
+    tags: string[];
+    preview: string;
+    deleted_at: string;
+    purge_at: string;
+  }>;
+  count: number;
+  retention_days: number;
+  namespace?: string;
+}
+
+interface RestoredResponse {
+  key: string;
+  namespace: string;
+  content: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Parse the :id route parameter
+ * @returns The trash id, or null if it isn't a positive integer
+ */
+function parseTrashId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/trash
+ * List trashed entries, most recently deleted first
+ * Query params: namespace (optional, default all), limit (default 50, max 200)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ownerId = req.workspaceOwnerId!;
+    const limit = validateLimit(parseInt(req.query.limit as string, 10), 200, 50);
+    const namespace = typeof req.query.namespace === 'string' && req.query.namespace.length > 0
+      ? req.query.namespace
+      : undefined;
+
+    if (namespace !== undefined) {
+      const namespaceValidation = validateNamespace(namespace);
+      if (!namespaceValidation.valid) {
+        res.status(400).json({
+          success: false,
+          error: namespaceValidation.error,
+          code: 'INVALID_INPUT',
+        });
+        return;
+      }
+    }
+
+    const entries = await listTrash(ownerId, namespace, limit);
+
+    const data: TrashListResponse = {
+      entries: entries.map((e) => ({
+        id: e.id,
+        key: e.key,
+        namespace: e.namespace,
+        version: e.version,
+        tags: e.tags,
+        preview: e.preview,
+        deleted_at: e.deleted_at.toISOString(),
+        purge_at: trashPurgeAt(e.deleted_at).toISOString(),
+      })),
+      count: entries.length,
+      retention_days: trashRetentionDays(),
+    };
+    if (namespace !== undefined) {
+      data.namespace = namespace;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('[trash] List trash error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list trash',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/trash/:id/restore
+ * Restore a trashed entry to the key it was deleted from
+ * Responds 409 with code CONFLICT and the current entry if the key is taken
+ */
+router.post('/:id/restore', async (req: Request, res: Response): Promise<void> => {
+  const id = parseTrashId(req);
+  if (id === null) {
+    res.status(400).json({
+      success: false,
+      error: 'Trash id must be a positive integer',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const entry = await restoreTrashedContext(req.workspaceOwnerId!, id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: `Trash entry ${id} not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    const data: RestoredResponse = {
+      key: entry.key,
+      namespace: entry.namespace,
+      content: entry.content,
+      version: entry.version,
+      tags: entry.tags,
+      metadata: entry.metadata,
+      expires_at: entry.expires_at?.toISOString() ?? null,
+      created_at: entry.created_at.toISOString(),
+      updated_at: entry.updated_at.toISOString(),
+    };
+
+    res.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof ContextExistsError) {
+      const current = error.current;
+      res.status(409).json({
+        success: false,
+        error: `Context item '${current.key}' already exists in namespace '${current.namespace}'`,
+        code: 'CONFLICT',
+        details: {
+          current: {
+            key: current.key,
+            namespace: current.namespace,
+            version: current.version,
+            updated_at: current.updated_at.toISOString(),
+          },
+        },
+      });
+      return;
+    }
+    console.error('[trash] Restore error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore trash entry',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/trash/:id
+ * Permanently delete one trashed entry
+ */
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  const id = parseTrashId(req);
+  if (id === null) {
+    res.status(400).json({
+      success: false,
+      error: 'Trash id must be a positive integer',
+      code: 'INVALID_INPUT',
+    });
+    return;
+  }
+
+  try {
+    const deleted = await deleteTrashedContext(req.workspaceOwnerId!, id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: `Trash entry ${id} not found`,
+        code: 'NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { id, deleted: true } });
+  } catch (error) {
+    console.error('[trash] Delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete trash entry',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/trash
+ * Empty the trash
+ */
+router.delete('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const count = await emptyTrash(req.workspaceOwnerId!);
+
+    res.json({ success: true, data: { deleted: count } });
+  } catch (error) {
+    console.error('[trash] Empty trash error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to empty trash',
+      code: 'DATABASE_ERROR',
+    });
+  }
+});
+
+export default router;
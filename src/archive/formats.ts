@@ -0,0 +1,230 @@
+/**
+ * Export and import formats for a user's context
+ *
+ * - json:   { format_version, exported_at, entries: [...] }
+ * - ndjson: a header line, then one line per entry followed by its history
+ * - tar:    <namespace>/<key>.md or .json files plus a manifest.json with
+ *           tags, metadata and timestamps
+ *
+ * Imports accept all three; the entries they yield are validated by the caller.
+ */
+
+import { ContextEntry, ContextHistoryEntry, DEFAULT_NAMESPACE } from '../db/queries.js';
+import { detectContentType } from '../resources/content-type.js';
+import { createTar, readTar } from './tar.js';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'ndjson' | 'tar';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  tar: { contentType: 'application/x-tar', extension: 'tar' },
+};
+
+const MANIFEST_PATH = 'manifest.json';
+
+// An entry as it appears in an export
+export interface ExportedEntry {
+  namespace: string;
+  key: string;
+  content: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Thrown when an import body can't be read in the format it claims to be
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+function toExportedEntry(entry: ContextEntry): ExportedEntry {
+  return {
+    namespace: entry.namespace,
+    key: entry.key,
+    content: entry.content,
+    tags: entry.tags,
+    metadata: entry.metadata,
+    expires_at: entry.expires_at?.toISOString() ?? null,
+    created_at: entry.created_at.toISOString(),
+    updated_at: entry.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Path of an entry's file in a tar export
+ */
+function entryFilePath(entry: ContextEntry): string {
+  const extension = detectContentType(entry.content) === 'json' ? 'json' : 'md';
+  return `${entry.namespace}/${entry.key}.${extension}`;
+}
+
+/**
+ * Serialize entries (and, for ndjson, their history) in an export format
+ */
+export function buildExport(
+  format: ExportFormat,
+  entries: ContextEntry[],
+  history: ContextHistoryEntry[] = [],
+  exportedAt = new Date()
+): Buffer {
+  const header = { format_version: EXPORT_FORMAT_VERSION, exported_at: exportedAt.toISOString() };
+
+  if (format === 'json') {
+    return Buffer.from(JSON.stringify({ ...header, entries: entries.map(toExportedEntry) }, null, 2));
+  }
+
+  if (format === 'ndjson') {
+    // History rows follow the entry they belong to (deleted entries' history comes last)
+    const historyByEntry = new Map<string, ContextHistoryEntry[]>();
+    for (const row of history) {
+      const id = `${row.namespace}/${row.key}`;
+      historyByEntry.set(id, [...(historyByEntry.get(id) ?? []), row]);
+    }
+
+    const lines = [JSON.stringify({ type: 'header', ...header })];
+    const historyLine = (row: ContextHistoryEntry) => JSON.stringify({
+      type: 'history',
+      namespace: row.namespace,
+      key: row.key,
+      action: row.action,
+      content: row.content,
+      source_namespace: row.source_namespace,
+      source_key: row.source_key,
+      changed_at: row.changed_at.toISOString(),
+    });
+    for (const entry of entries) {
+      const id = `${entry.namespace}/${entry.key}`;
+      lines.push(JSON.stringify({ type: 'entry', ...toExportedEntry(entry) }));
+      lines.push(...(historyByEntry.get(id) ?? []).map(historyLine));
+      historyByEntry.delete(id);
+    }
+    for (const rows of historyByEntry.values()) {
+      lines.push(...rows.map(historyLine));
+    }
+    return Buffer.from(lines.join('\n') + '\n');
+  }
+
+  const manifest = {
+    ...header,
+    entries: entries.map((entry) => {
+      const { content: _content, ...rest } = toExportedEntry(entry);
+      return { ...rest, file: entryFilePath(entry) };
+    }),
+  };
+  return createTar([
+    { path: MANIFEST_PATH, content: Buffer.from(JSON.stringify(manifest, null, 2)), mtime: exportedAt },
+    ...entries.map((entry) => ({
+      path: entryFilePath(entry),
+      content: Buffer.from(entry.content),
+      mtime: entry.updated_at,
+    })),
+  ]);
+}
+
+/**
+ * Entries of an NDJSON export (history and header lines are ignored)
+ */
+function parseNdjson(body: string): unknown[] {
+  const entries: unknown[] = [];
+  body.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new ImportFormatError(`Line ${index + 1} is not valid JSON`);
+    }
+    if (typeof record === 'object' && record !== null && (record as { type?: unknown }).type === 'entry') {
+      const { type: _type, ...entry } = record as Record<string, unknown>;
+      entries.push(entry);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Entries of a tar export. Without a manifest, every .md/.json file becomes an
+ * entry keyed by its name, in the namespace of its directory (or the default).
+ */
+function parseTar(archive: Buffer): unknown[] {
+  let files;
+  try {
+    files = readTar(archive);
+  } catch (error) {
+    throw new ImportFormatError(error instanceof Error ? error.message : 'Invalid tar archive');
+  }
+  const contents = new Map(files.map((file) => [file.path.replace(/^\.\//, ''), file.content.toString('utf8')]));
+
+  const manifestFile = contents.get(MANIFEST_PATH);
+  if (manifestFile !== undefined) {
+    let manifest: { entries?: unknown };
+    try {
+      manifest = JSON.parse(manifestFile);
+    } catch {
+      throw new ImportFormatError('manifest.json is not valid JSON');
+    }
+    if (!Array.isArray(manifest.entries)) {
+      throw new ImportFormatError('manifest.json must list entries');
+    }
+    return manifest.entries.map((item) => {
+      const { file, ...entry } = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      const content = typeof file === 'string' ? contents.get(file) : undefined;
+      if (content === undefined) {
+        throw new ImportFormatError(`File '${String(file)}' listed in manifest.json is missing`);
+      }
+      return { ...entry, content };
+    });
+  }
+
+  const entries: unknown[] = [];
+  for (const [path, content] of contents) {
+    const match = /^(?:([^/]+)\/)?([^/]+)\.(md|json)$/.exec(path);
+    if (match) {
+      entries.push({ namespace: match[1] ?? DEFAULT_NAMESPACE, key: match[2], content });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Extract the entries of an import body
+ * @param body - Parsed JSON (object with entries, or an array), or the raw bytes of an NDJSON or tar upload
+ * @param contentType - The request's Content-Type
+ * @throws ImportFormatError if the body can't be read
+ */
+export function parseImport(body: unknown, contentType: string | undefined): unknown[] {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+
+  if (Buffer.isBuffer(body) && type === EXPORT_FORMATS.ndjson.contentType) {
+    return parseNdjson(body.toString('utf8'));
+  }
+  if (Buffer.isBuffer(body) && type === EXPORT_FORMATS.tar.contentType) {
+    return parseTar(body);
+  }
+  if (type === EXPORT_FORMATS.json.contentType) {
+    if (Array.isArray(body)) {
+      return body;
+    }
+    const entries = (body as { entries?: unknown } | undefined)?.entries;
+    if (Array.isArray(entries)) {
+      return entries;
+    }
+    throw new ImportFormatError('JSON imports must be an export document with an entries array');
+  }
+
+  throw new ImportFormatError(
+    `Unsupported Content-Type '${type}'; use application/json, application/x-ndjson or application/x-tar`
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Minimal tar (ustar) reader and writer for context exports
+ *
+ * Only regular files are written. Paths longer than the 100-byte ustar name
+ * field get a PAX extended header, which the reader understands as well.
+ */
+
+const BLOCK_SIZE = 512;
+
+export interface TarFile {
+  path: string;
+  content: Buffer;
+  mtime?: Date;
+}
+
+/**
+ * Write a string into a header field, NUL-padded
+ */
+function writeField(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+/**
+ * Write a number into a header field as zero-padded octal
+ */
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  writeField(header, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+}
+
+/**
+ * Build one 512-byte ustar header
+ */
+function buildHeader(name: string, size: number, mtime: Date, typeflag: string): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeField(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+  header.fill(' ', 148, 156); // Checksum is computed with its own field as spaces
+  writeField(header, 156, 1, typeflag);
+  writeField(header, 257, 6, 'ustar\0');
+  writeField(header, 263, 2, '00');
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  writeField(header, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+  return header;
+}
+
+/**
+ * Pad file data to a whole number of blocks
+ */
+function padToBlock(data: Buffer): Buffer {
+  const remainder = data.length % BLOCK_SIZE;
+  return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(BLOCK_SIZE - remainder)]);
+}
+
+/**
+ * One PAX record: "<length> <key>=<value>\n", where length counts the whole record
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * Create a tar archive from a list of files
+ */
+export function createTar(files: TarFile[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const file of files) {
+    const mtime = file.mtime ?? new Date();
+    let name = file.path;
+
+    if (Buffer.byteLength(name) > 100) {
+      const pax = Buffer.from(paxRecord('path', file.path));
+      blocks.push(buildHeader('PaxHeader', pax.length, mtime, 'x'), padToBlock(pax));
+      name = name.slice(-100);
+    }
+
+    blocks.push(buildHeader(name, file.content.length, mtime, '0'), padToBlock(file.content));
+  }
+
+  // End of archive: two zero blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Read a NUL-terminated string from a header field
+ */
+function readField(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+/**
+ * Parse PAX records into key/value pairs
+ */
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.subarray(offset, space).toString('utf8'), 10);
+    if (space === -1 || !Number.isInteger(length) || length <= 0) {
+      break;
+    }
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Read the regular files of a tar archive
+ * @throws Error if the archive is truncated or a header checksum doesn't match
+ */
+export function readTar(archive: Buffer): TarFile[] {
+  const files: TarFile[] = [];
+  let paxPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const storedChecksum = parseInt(readField(header, 148, 8).trim(), 8);
+    let checksum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      checksum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    if (storedChecksum !== checksum) {
+      throw new Error('Invalid tar header checksum');
+    }
+
+    const size = parseInt(readField(header, 124, 12).trim() || '0', 8);
+    const typeflag = readField(header, 156, 1);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > archive.length) {
+      throw new Error('Truncated tar archive');
+    }
+    const data = archive.subarray(dataStart, dataStart + size);
+
+    if (typeflag === 'x') {
+      paxPath = parsePax(data).path;
+    } else if (typeflag === '0' || typeflag === '') {
+      const prefix = readField(header, 345, 155);
+      const name = readField(header, 0, 100);
+      files.push({
+        path: paxPath ?? (prefix ? `${prefix}/${name}` : name),
+        content: Buffer.from(data),
+        mtime: new Date(parseInt(readField(header, 136, 12).trim() || '0', 8) * 1000),
+      });
+      paxPath = undefined;
+    } else {
+      paxPath = undefined;
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return files;
+}
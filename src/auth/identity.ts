@@ -5,11 +5,16 @@
  * Supports two auth paths:
  * 1. Clerk OAuth: authInfo.extra.userId → database user lookup
  * 2. API key sessions: sessionId → session context store lookup
+ *
+ * resolvePrincipal adds the user's team memberships, which decide which
+ * team workspaces a request may read or write (see workspace.ts), and
+ * resolveKeyScopes what an API key session may do (see scopes.ts).
  */
 
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
-import { getUserByClerkId, getUserById, User } from '../db/queries.js';
-import { getUserIdFromSession, isSessionAdmin } from './session-context.js';
+import { getUserByClerkId, getUserById, listTeamMemberships, TeamMembership, User } from '../db/queries.js';
+import { getUserIdFromSession, getSessionScopes, isSessionAdmin } from './session-context.js';
+import { NO_KEY_SCOPES, type KeyScopes } from './scopes.js';
 
 /**
  * The extra parameter passed to MCP tool handlers.
@@ -75,3 +80,52 @@ export async function resolveIsAdmin(extra: ToolHandlerExtra): Promise<boolean>
   // API key session path (in-memory, no DB query)
   return isSessionAdmin(extra.sessionId);
 }
+
+/**
+ * Resolve the scopes of the API key behind the tool handler's extra parameter.
+ * Clerk OAuth requests have no key and are not restricted; any other request
+ * without an API key session context is allowed nothing.
+ *
+ * @returns The key's scopes, or null if unrestricted
+ */
+export function resolveKeyScopes(extra: ToolHandlerExtra): KeyScopes | null {
+  if (typeof extra.authInfo?.extra?.userId === 'string') {
+    return null;
+  }
+  return getSessionScopes(extra.sessionId) ?? NO_KEY_SCOPES;
+}
+
+/**
+ * An authenticated user together with the teams they belong to
+ */
+export interface Principal {
+  userId: string;
+  isAdmin: boolean;
+  memberships: TeamMembership[];
+}
+
+/**
+ * Resolve the principal (user, admin flag and team memberships) from the
+ * tool handler's extra parameter.
+ *
+ * @returns The principal, or null if not authenticated
+ */
+export async function resolvePrincipal(extra: ToolHandlerExtra): Promise<Principal | null> {
+  let userId: string | null;
+  let isAdmin: boolean;
+
+  // Clerk OAuth path
+  const clerkUserId = extra.authInfo?.extra?.userId;
+  if (typeof clerkUserId === 'string') {
+    const user = await getUserByClerkId(clerkUserId);
+    userId = user?.id ?? null;
+    isAdmin = user?.is_admin ?? false;
+  } else {
+    // API key session path (in-memory)
+    userId = getUserIdFromSession(extra.sessionId);
+    isAdmin = isSessionAdmin(extra.sessionId);
+  }
+
+  if (!userId) return null;
+  return { userId, isAdmin, memberships: await listTeamMemberships(userId) };
+}
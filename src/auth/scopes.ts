@@ -0,0 +1,83 @@
+/**
+ * API Key Scopes
+ *
+ * An API key carries the operations it allows (context:read, context:write,
+ * admin) and can be limited to some namespaces and to keys matching globs.
+ * The scopes are stored with the key's hash and copied into the session
+ * context; tools a session's key can't use are not registered for it, and
+ * every tool handler checks them again.
+ *
+ * Sessions without an API key (Clerk OAuth) have no scopes (null) and are
+ * not restricted. Admin tools still require an admin user either way.
+ */
+
+export type ApiKeyScope = 'context:read' | 'context:write' | 'admin';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['context:read', 'context:write', 'admin'];
+
+// Scopes of keys created without any: full context access, no admin tools
+export const DEFAULT_API_KEY_SCOPES: readonly ApiKeyScope[] = ['context:read', 'context:write'];
+
+export interface KeyScopes {
+  scopes: ApiKeyScope[];
+  // Globs (* and ?) that keys must match; null for any key
+  keys: string[] | null;
+  // Namespaces the key can use; null for any namespace
+  namespaces: string[] | null;
+}
+
+// Scopes of a request that isn't Clerk OAuth but has no API key session context: nothing allowed
+export const NO_KEY_SCOPES: KeyScopes = { scopes: [], keys: [], namespaces: [] };
+
+/**
+ * Translate a key glob into an anchored regular expression
+ */
+export function keyGlobToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\-]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Check whether the scopes include an operation (always true without scopes)
+ */
+export function hasScope(keyScopes: KeyScopes | null, scope: ApiKeyScope): boolean {
+  return keyScopes === null || keyScopes.scopes.includes(scope);
+}
+
+/**
+ * Check whether the scopes allow a namespace
+ */
+export function allowsNamespace(keyScopes: KeyScopes | null, namespace: string): boolean {
+  return keyScopes?.namespaces == null || keyScopes.namespaces.includes(namespace);
+}
+
+/**
+ * Check whether the scopes allow a key, in whichever namespace
+ */
+export function allowsKey(keyScopes: KeyScopes | null, key: string): boolean {
+  return keyScopes?.keys == null || keyScopes.keys.some((glob) => keyGlobToRegExp(glob).test(key));
+}
+
+/**
+ * Check whether the scopes allow an entry (its namespace and key)
+ */
+export function allowsEntry(keyScopes: KeyScopes | null, namespace: string, key: string): boolean {
+  return allowsNamespace(keyScopes, namespace) && allowsKey(keyScopes, key);
+}
+
+/**
+ * Describe the restrictions of scopes, for error messages
+ */
+export function describeKeyRestrictions(keyScopes: KeyScopes): string {
+  const parts: string[] = [];
+  if (keyScopes.namespaces) {
+    parts.push(`namespaces ${keyScopes.namespaces.join(', ')}`);
+  }
+  if (keyScopes.keys) {
+    parts.push(`keys matching ${keyScopes.keys.join(', ')}`);
+  }
+  return parts.join(' and ');
+}
@@ -6,11 +6,15 @@
  * and MCP tool handlers, which only receive session IDs.
  */
 
+import type { KeyScopes } from './scopes.js';
+
 export interface SessionContext {
   userId: string;
   apiKeyHash: string;
   authenticatedAt: Date;
   isAdmin: boolean;
+  // What the session's API key may do (see scopes.ts)
+  scopes: KeyScopes;
 }
 
 // In-memory store (sessions are ephemeral)
@@ -40,6 +44,15 @@ export function getUserIdFromSession(sessionId: string | undefined): string | nu
   return sessionContextMap.get(sessionId)?.userId ?? null;
 }
 
+/**
+ * Get the API key scopes of a session
+ * @returns The scopes, or null if the session has no API key context
+ */
+export function getSessionScopes(sessionId: string | undefined): KeyScopes | null {
+  if (!sessionId) return null;
+  return sessionContextMap.get(sessionId)?.scopes ?? null;
+}
+
 /**
  * Remove session context (called when session closes)
  */
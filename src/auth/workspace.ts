@@ -0,0 +1,77 @@
+/**
+ * Workspace Resolver
+ *
+ * Context lives in a workspace: the user's personal one, or a team's.
+ * Tools take a `workspace` argument and REST requests an X-Workspace header
+ * (or ?workspace=) naming a team slug; omitted means personal.
+ *
+ * Team roles:
+ * - viewer: read
+ * - editor: read and write
+ * - owner:  read, write and manage members
+ */
+
+import { teamOwnerId, TeamMembership, TeamRole } from '../db/queries.js';
+import type { Principal } from './identity.js';
+
+export type WorkspaceAccess = 'read' | 'write' | 'manage';
+
+// Roles allowed each kind of access
+const ACCESS_ROLES: Record<WorkspaceAccess, TeamRole[]> = {
+  read: ['owner', 'editor', 'viewer'],
+  write: ['owner', 'editor'],
+  manage: ['owner'],
+};
+
+export interface Workspace {
+  // Value of the user_id column for the workspace's context
+  ownerId: string;
+  // The team, or null for the personal workspace
+  team: TeamMembership | null;
+}
+
+/**
+ * Thrown when a principal can't use a workspace. NOT_FOUND for teams they
+ * don't belong to (so team slugs don't leak), FORBIDDEN when their role is
+ * not enough.
+ */
+export class WorkspaceAccessError extends Error {
+  public readonly code: 'NOT_FOUND' | 'FORBIDDEN';
+
+  constructor(code: 'NOT_FOUND' | 'FORBIDDEN', message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+/**
+ * Resolve the workspace a request targets and check the principal's access
+ * @param workspace - Team slug, or undefined/empty for the personal workspace
+ * @throws WorkspaceAccessError if the principal isn't a member or their role is not enough
+ */
+export function resolveWorkspace(
+  principal: Principal,
+  workspace: string | undefined,
+  access: WorkspaceAccess
+): Workspace {
+  if (!workspace) {
+    return { ownerId: principal.userId, team: null };
+  }
+
+  const team = principal.memberships.find((m) => m.slug === workspace);
+  if (!team) {
+    throw new WorkspaceAccessError('NOT_FOUND', `Workspace '${workspace}' not found`);
+  }
+
+  if (!ACCESS_ROLES[access].includes(team.role)) {
+    throw new WorkspaceAccessError(
+      'FORBIDDEN',
+      access === 'manage'
+        ? `Only owners can manage workspace '${workspace}'`
+        : `Your role in workspace '${workspace}' (${team.role}) is read-only`
+    );
+  }
+
+  return { ownerId: teamOwnerId(team.id), team };
+}
@@ -0,0 +1,95 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CompleteRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { completeContextKeys, listNamespaces } from '../db/queries.js';
+import { resolveUserId, resolveKeyScopes } from '../auth/identity.js';
+import { hasScope, allowsNamespace, KeyScopes } from '../auth/scopes.js';
+import { validateNamespace } from '../tools/validators.js';
+import { keyScopeFilter } from '../tools/workspace.js';
+import { CONTEXT_URI_TEMPLATE } from '../resources/context-resource.js';
+
+// completion/complete may return at most 100 values
+const MAX_COMPLETIONS = 100;
+
+interface Completion {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+const NO_COMPLETIONS: Completion = { values: [], total: 0, hasMore: false };
+
+/**
+ * Complete a `key` or `namespace` argument for a user. Keys are limited to
+ * the namespace already chosen in the other arguments, if it is valid, and
+ * both to what the session's API key scopes allow.
+ */
+async function completeArgument(
+  userId: string,
+  scopes: KeyScopes | null,
+  name: string,
+  value: string,
+  otherArguments: Record<string, string>
+): Promise<Completion> {
+  if (!hasScope(scopes, 'context:read')) {
+    return NO_COMPLETIONS;
+  }
+
+  if (name === 'namespace') {
+    const namespaces = (await listNamespaces(userId))
+      .map(ns => ns.namespace)
+      .filter(ns => ns.toLowerCase().startsWith(value.toLowerCase()) && allowsNamespace(scopes, ns));
+    return {
+      values: namespaces.slice(0, MAX_COMPLETIONS),
+      total: namespaces.length,
+      hasMore: namespaces.length > MAX_COMPLETIONS,
+    };
+  }
+
+  if (name === 'key') {
+    const chosen = otherArguments.namespace;
+    const namespace = chosen !== undefined && validateNamespace(chosen).valid ? chosen : undefined;
+
+    // Keys outside the API key's scope are left out by the query, before the limit
+    const { keys, total } = await completeContextKeys(userId, value, namespace, MAX_COMPLETIONS, keyScopeFilter(scopes));
+    return { values: keys, total, hasMore: total > keys.length };
+  }
+
+  return NO_COMPLETIONS;
+}
+
+/**
+ * Register completion/complete for the context://{namespace}/{key} resource
+ * template variables and for `key`/`namespace` prompt arguments.
+ * Must run before any transport connects.
+ */
+export function registerContextCompletions(server: McpServer): void {
+  server.server.registerCapabilities({
+    completions: {},
+  });
+
+  server.server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const userId = await resolveUserId(extra);
+    if (!userId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+    }
+
+    const { ref, argument, context } = request.params;
+    if (ref.type === 'ref/resource' && ref.uri !== CONTEXT_URI_TEMPLATE) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+    }
+
+    try {
+      const completion = await completeArgument(
+        userId,
+        resolveKeyScopes(extra),
+        argument.name,
+        argument.value,
+        context?.arguments ?? {}
+      );
+      return { completion };
+    } catch (error) {
+      console.error('[completions] Database error completing argument:', error);
+      throw new McpError(ErrorCode.InternalError, 'Failed to complete argument');
+    }
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Completion registration hub
+ * Registers MCP argument completion with the server
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerContextCompletions } from './context-completions.js';
+
+/**
+ * Register all MCP completions with the server
+ */
+export function registerAllCompletions(server: McpServer): void {
+  registerContextCompletions(server);
+  console.log('[completions] Registered: completion/complete (context keys and namespaces)');
+}
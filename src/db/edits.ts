@@ -0,0 +1,359 @@
+/**
+ * In-place edits for context entries (append, sections, line ranges,
+ * search/replace and JSON Patch). Pure functions: editContext in queries.ts
+ * applies them to the locked row inside a transaction.
+ */
+
+// JSON Patch operation (RFC 6902)
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+export type ContextEdit =
+  | { type: 'append'; text: string; separator: string }
+  | { type: 'prepend'; text: string; separator: string }
+  | { type: 'replace_section'; heading: string; content: string }
+  | { type: 'replace_lines'; startLine: number; endLine: number; content: string }
+  | { type: 'search_replace'; search: string; replace: string; replaceAll: boolean }
+  | { type: 'json_patch'; operations: JsonPatchOperation[] };
+
+// Arguments accepted by patch_context and PATCH /api/context/:key
+export interface PatchInput {
+  section?: string;
+  start_line?: number;
+  end_line?: number;
+  content?: string;
+  search?: string;
+  replace?: string;
+  replace_all?: boolean;
+  json_patch?: JsonPatchOperation[];
+}
+
+/**
+ * Thrown when an edit can't be applied to the current content
+ * (e.g. search text not found, JSON Patch test failed)
+ */
+export class ContextEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContextEditError';
+  }
+}
+
+/**
+ * Turn patch_context style arguments into a single edit.
+ * Exactly one of section, start_line/end_line, search or json_patch must be given.
+ * @returns The edit, or an error message describing the invalid input
+ */
+export function buildPatchEdit(input: PatchInput): { edit?: ContextEdit; error?: string } {
+  const modes = [
+    input.section !== undefined,
+    input.start_line !== undefined || input.end_line !== undefined,
+    input.search !== undefined,
+    input.json_patch !== undefined,
+  ].filter(Boolean).length;
+
+  if (modes !== 1) {
+    return { error: 'Provide exactly one of: section, start_line/end_line, search, json_patch' };
+  }
+
+  if (input.section !== undefined) {
+    if (input.content === undefined) {
+      return { error: 'content is required when replacing a section' };
+    }
+    if (!input.section.trim()) {
+      return { error: 'section must be a non-empty heading' };
+    }
+    return { edit: { type: 'replace_section', heading: input.section, content: input.content } };
+  }
+
+  if (input.search !== undefined) {
+    if (input.replace === undefined) {
+      return { error: 'replace is required with search' };
+    }
+    if (input.search === '') {
+      return { error: 'search must not be empty' };
+    }
+    return {
+      edit: { type: 'search_replace', search: input.search, replace: input.replace, replaceAll: input.replace_all ?? false },
+    };
+  }
+
+  if (input.json_patch !== undefined) {
+    if (!Array.isArray(input.json_patch) || input.json_patch.length === 0) {
+      return { error: 'json_patch must be a non-empty array of operations' };
+    }
+    return { edit: { type: 'json_patch', operations: input.json_patch } };
+  }
+
+  const startLine = input.start_line;
+  const endLine = input.end_line ?? input.start_line;
+  if (startLine === undefined || endLine === undefined || !Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    return { error: 'start_line (and optionally end_line) must be integers' };
+  }
+  if (startLine < 1 || endLine < startLine) {
+    return { error: 'Line range must satisfy 1 <= start_line <= end_line' };
+  }
+  if (input.content === undefined) {
+    return { error: 'content is required when replacing lines' };
+  }
+  return { edit: { type: 'replace_lines', startLine, endLine, content: input.content } };
+}
+
+/**
+ * Apply an edit to the current content of an entry
+ * @throws ContextEditError if the edit doesn't apply
+ */
+export function applyContextEdit(content: string, edit: ContextEdit): string {
+  switch (edit.type) {
+    case 'append':
+      return content ? `${content}${edit.separator}${edit.text}` : edit.text;
+    case 'prepend':
+      return content ? `${edit.text}${edit.separator}${content}` : edit.text;
+    case 'replace_section':
+      return replaceSection(content, edit.heading, edit.content);
+    case 'replace_lines':
+      return replaceLines(content, edit.startLine, edit.endLine, edit.content);
+    case 'search_replace':
+      return searchReplace(content, edit.search, edit.replace, edit.replaceAll);
+    case 'json_patch':
+      return applyJsonPatchToContent(content, edit.operations);
+  }
+}
+
+// ============================================
+// Text edits
+// ============================================
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Replace the body of a markdown section (everything up to the next heading
+ * of the same or higher level). The heading may be given with or without #'s.
+ */
+function replaceSection(content: string, heading: string, body: string): string {
+  const lines = content.split('\n');
+  const wanted = heading.replace(/^#+\s*/, '').trim();
+
+  const start = lines.findIndex((line) => {
+    const match = HEADING_PATTERN.exec(line);
+    return match !== null && match[2] === wanted;
+  });
+  if (start === -1) {
+    throw new ContextEditError(`Section '${wanted}' not found`);
+  }
+
+  const level = HEADING_PATTERN.exec(lines[start])![1].length;
+  let end = start + 1;
+  let inFence = false;
+  for (; end < lines.length; end++) {
+    if (/^\s*(```|~~~)/.test(lines[end])) {
+      inFence = !inFence;
+    }
+    const match = inFence ? null : HEADING_PATTERN.exec(lines[end]);
+    if (match && match[1].length <= level) {
+      break;
+    }
+  }
+
+  // Keep a blank line before the next heading
+  const replacement = body.split('\n');
+  if (end < lines.length && replacement[replacement.length - 1] !== '') {
+    replacement.push('');
+  }
+
+  return [...lines.slice(0, start + 1), ...replacement, ...lines.slice(end)].join('\n');
+}
+
+/**
+ * Replace lines start..end (1-based, inclusive)
+ */
+function replaceLines(content: string, startLine: number, endLine: number, replacement: string): string {
+  const lines = content.split('\n');
+  if (startLine > lines.length) {
+    throw new ContextEditError(`start_line ${startLine} is past the end of the content (${lines.length} lines)`);
+  }
+
+  const end = Math.min(endLine, lines.length);
+  return [...lines.slice(0, startLine - 1), ...replacement.split('\n'), ...lines.slice(end)].join('\n');
+}
+
+function searchReplace(content: string, search: string, replace: string, replaceAll: boolean): string {
+  const occurrences = content.split(search).length - 1;
+  if (occurrences === 0) {
+    throw new ContextEditError('Search text not found');
+  }
+  if (occurrences > 1 && !replaceAll) {
+    throw new ContextEditError(`Search text matches ${occurrences} times; make it unique or set replace_all`);
+  }
+
+  return replaceAll ? content.split(search).join(replace) : content.replace(search, () => replace);
+}
+
+// ============================================
+// JSON Patch (RFC 6902)
+// ============================================
+
+function applyJsonPatchToContent(content: string, operations: JsonPatchOperation[]): string {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new ContextEditError('json_patch can only be applied to entries containing valid JSON');
+  }
+
+  return JSON.stringify(applyJsonPatch(document, operations), null, 2);
+}
+
+/**
+ * Apply JSON Patch operations to a document. All-or-nothing: the input is
+ * not modified and any failing operation aborts the whole patch.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = structuredClone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new ContextEditError(`json_patch operation ${index} (${operation.op} ${operation.path}): ${message}`);
+    }
+  });
+
+  return result;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error('path must be empty or start with /');
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') {
+    return array.length;
+  }
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`invalid array index '${token}'`);
+  }
+  const index = parseInt(token, 10);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`array index ${index} out of bounds`);
+  }
+  return index;
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && Object.hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error('path does not exist');
+    }
+  }
+  return current;
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const parent = getValue(document, tokens.slice(0, -1));
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[last] = value;
+  } else {
+    throw new Error('parent is not an object or array');
+  }
+  return document;
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error('cannot remove the whole document');
+  }
+
+  const parent = getValue(document, tokens.slice(0, -1));
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, false), 1);
+  } else if (isObject(parent) && Object.hasOwn(parent, last)) {
+    delete parent[last];
+  } else {
+    throw new Error('path does not exist');
+  }
+  return document;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const tokens = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      if (operation.value === undefined) throw new Error('value is required');
+      return addValue(document, tokens, structuredClone(operation.value));
+    case 'remove':
+      return removeValue(document, tokens);
+    case 'replace':
+      if (operation.value === undefined) throw new Error('value is required');
+      if (tokens.length === 0) return structuredClone(operation.value);
+      getValue(document, tokens);
+      return addValue(removeValue(document, tokens), tokens, structuredClone(operation.value));
+    case 'move': {
+      if (operation.from === undefined) throw new Error('from is required');
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('cannot move a value into one of its children');
+      }
+      const fromTokens = parsePointer(operation.from);
+      const value = getValue(document, fromTokens);
+      return addValue(removeValue(document, fromTokens), tokens, value);
+    }
+    case 'copy': {
+      if (operation.from === undefined) throw new Error('from is required');
+      const value = getValue(document, parsePointer(operation.from));
+      return addValue(document, tokens, structuredClone(value));
+    }
+    case 'test':
+      if (!deepEqual(getValue(document, tokens), operation.value)) {
+        throw new Error('test failed');
+      }
+      return document;
+    default:
+      throw new Error(`unsupported op '${(operation as { op: string }).op}'`);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Change feed for context entries
+ *
+ * queries.ts emits an event after each committed write so other layers
+ * (e.g. MCP resource notifications) can react without the database layer
+ * depending on them.
+ */
+
+export type ContextChangeType = 'created' | 'updated' | 'deleted';
+
+export interface ContextChange {
+  userId: string;
+  namespace: string;
+  key: string;
+  type: ContextChangeType;
+}
+
+export type ContextChangeListener = (change: ContextChange) => void;
+
+const listeners = new Set<ContextChangeListener>();
+
+/**
+ * Listen for committed context changes
+ * @returns A function that removes the listener
+ */
+export function onContextChange(listener: ContextChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notify listeners of a committed change. Listener errors are logged and
+ * never propagate to the write that triggered them.
+ */
+export function emitContextChange(change: ContextChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('[events] Context change listener failed:', error);
+    }
+  }
+}
@@ -152,7 +152,7 @@ export async function runMigrations(): Promise<void> {
         BEGIN
           IF NOT EXISTS (
             SELECT 1 FROM pg_constraint
-            WHERE conname = 'shared_context_user_key_unique'
+            WHERE conname IN ('shared_context_user_key_unique', 'shared_context_user_namespace_key_unique')
           ) THEN
             ALTER TABLE shared_context
             ADD CONSTRAINT shared_context_user_key_unique UNIQUE (user_id, key);
@@ -230,6 +230,467 @@ export async function runMigrations(): Promise<void> {
       `);
       console.log('[migrations] users.clerk_id index ready');
 
+      // ============================================
+      // Namespace migrations
+      // ============================================
+
+      // Add namespace column to shared_context (existing rows land in 'default')
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'namespace'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default'
+              CHECK(length(namespace) <= 64);
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.namespace column ready');
+
+      // Add namespace column to context_history
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'context_history' AND column_name = 'namespace'
+          ) THEN
+            ALTER TABLE context_history ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] context_history.namespace column ready');
+
+      // Replace the (user_id, key) unique constraint with (user_id, namespace, key)
+      // so the same key can exist in several namespaces - required for ON CONFLICT
+      await client.query(`
+        DO $$
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM pg_constraint
+            WHERE conname = 'shared_context_user_key_unique'
+          ) THEN
+            ALTER TABLE shared_context DROP CONSTRAINT shared_context_user_key_unique;
+            RAISE NOTICE 'Dropped unique constraint on (user_id, key)';
+          END IF;
+
+          IF NOT EXISTS (
+            SELECT 1 FROM pg_constraint
+            WHERE conname = 'shared_context_user_namespace_key_unique'
+          ) THEN
+            ALTER TABLE shared_context
+            ADD CONSTRAINT shared_context_user_namespace_key_unique UNIQUE (user_id, namespace, key);
+            RAISE NOTICE 'Created unique constraint on (user_id, namespace, key)';
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context user_namespace_key unique constraint ready');
+
+      // Index history lookups by entry
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_context_history_user_namespace_key
+        ON context_history (user_id, namespace, key)
+      `);
+      console.log('[migrations] context_history entry index ready');
+
+      // ============================================
+      // Version history migrations
+      // ============================================
+
+      // Keep the allowed history actions in sync with ContextHistoryAction
+      // (dropped and re-added so new actions apply to existing databases)
+      await client.query(`
+        ALTER TABLE context_history DROP CONSTRAINT IF EXISTS context_history_action_check
+      `);
+      await client.query(`
+        ALTER TABLE context_history ADD CONSTRAINT context_history_action_check
+        CHECK(action IN ('create', 'update', 'delete', 'restore', 'rename', 'copy', 'expire'))
+      `);
+      console.log('[migrations] context_history action constraint ready');
+
+      // Link restore rows to the history version they restored
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'context_history' AND column_name = 'restored_from'
+          ) THEN
+            ALTER TABLE context_history ADD COLUMN restored_from INTEGER;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] context_history.restored_from column ready');
+
+      // Link rename/copy rows to the entry they came from
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'context_history' AND column_name = 'source_key'
+          ) THEN
+            ALTER TABLE context_history ADD COLUMN source_namespace TEXT;
+            ALTER TABLE context_history ADD COLUMN source_key TEXT;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] context_history source columns ready');
+
+      // ============================================
+      // Optimistic concurrency migrations
+      // ============================================
+
+      // Per-entry version counter, bumped on every write (exposed as ETag / expected_version)
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'version'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.version column ready');
+
+      // ============================================
+      // Tags and metadata migrations
+      // ============================================
+
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'tags'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.tags column ready');
+
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'metadata'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}';
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.metadata column ready');
+
+      // GIN indexes for tag (@>) and metadata containment filters
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_shared_context_tags
+        ON shared_context USING GIN (tags)
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_shared_context_metadata
+        ON shared_context USING GIN (metadata jsonb_path_ops)
+      `);
+      console.log('[migrations] shared_context tags/metadata indexes ready');
+
+      // ============================================
+      // Full-text search migrations
+      // ============================================
+
+      // Key words weigh more than content words; separators in keys are split
+      // so 'retry-policy' matches a search for "retry"
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'search_vector'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN search_vector TSVECTOR
+              GENERATED ALWAYS AS (
+                setweight(to_tsvector('english', regexp_replace(key, '[-_.]', ' ', 'g')), 'A') ||
+                setweight(to_tsvector('english', content), 'B')
+              ) STORED;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.search_vector column ready');
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_shared_context_search
+        ON shared_context USING GIN (search_vector)
+      `);
+      console.log('[migrations] shared_context search index ready');
+
+      // ============================================
+      // Semantic search migrations
+      // ============================================
+
+      // Normalized vector from the embedding provider, plus the model that made it
+      // (NULL model = needs (re-)embedding, done lazily by semantic search)
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'embedding'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN embedding REAL[];
+            ALTER TABLE shared_context ADD COLUMN embedding_model TEXT;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.embedding columns ready');
+
+      // ============================================
+      // Expiration (TTL) migrations
+      // ============================================
+
+      // Optional expiry; NULL means the entry never expires
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'shared_context' AND column_name = 'expires_at'
+          ) THEN
+            ALTER TABLE shared_context ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] shared_context.expires_at column ready');
+
+      // The sweeper only scans entries that have an expiry
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_shared_context_expires_at
+        ON shared_context (expires_at) WHERE expires_at IS NOT NULL
+      `);
+      console.log('[migrations] shared_context expiry index ready');
+
+      // ============================================
+      // Trash (soft delete) migrations
+      // ============================================
+
+      // Deleted entries are moved here until restored or purged after the
+      // retention window. Several trashed copies of one key can coexist.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS context_trash (
+          id SERIAL PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          content TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          tags TEXT[] NOT NULL DEFAULT '{}',
+          metadata JSONB NOT NULL DEFAULT '{}',
+          expires_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+          updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+          deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+        )
+      `);
+      console.log('[migrations] context_trash table ready');
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_context_trash_user_deleted_at
+        ON context_trash (user_id, deleted_at DESC)
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_context_trash_deleted_at
+        ON context_trash (deleted_at)
+      `);
+      console.log('[migrations] context_trash indexes ready');
+
+      // History of an entry replaced by an overwriting rename/copy is detached
+      // from its key and kept with the trash row (re-attached on restore)
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'context_history' AND column_name = 'trash_id'
+          ) THEN
+            ALTER TABLE context_history ADD COLUMN trash_id INTEGER;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] context_history.trash_id column ready');
+
+      // ============================================
+      // Team workspace migrations
+      // ============================================
+
+      // Team workspaces own context through a 'team:<id>' owner id in the
+      // user_id columns (user ids can't contain ':'), so the trash can't
+      // require user_id to reference a user
+      await client.query(`
+        ALTER TABLE context_trash DROP CONSTRAINT IF EXISTS context_trash_user_id_fkey
+      `);
+      console.log('[migrations] context_trash owner constraint ready');
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS teams (
+          id SERIAL PRIMARY KEY,
+          slug TEXT UNIQUE NOT NULL CHECK(length(slug) <= 64),
+          name TEXT NOT NULL CHECK(length(name) <= 100),
+          created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+      console.log('[migrations] teams table ready');
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS team_members (
+          team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'viewer')),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (team_id, user_id)
+        )
+      `);
+      console.log('[migrations] team_members table ready');
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id)
+      `);
+      console.log('[migrations] team_members index ready');
+
+      // ============================================
+      // Entry sharing migrations
+      // ============================================
+
+      // Per-entry grants to a user or a team. owner_id is the entry's user_id
+      // (a user id or team owner id); grants are removed with the entry.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS context_grants (
+          id SERIAL PRIMARY KEY,
+          owner_id TEXT NOT NULL,
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          grantee_user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+          grantee_team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+          permission TEXT NOT NULL CHECK(permission IN ('read', 'write')),
+          granted_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          CHECK((grantee_user_id IS NULL) <> (grantee_team_id IS NULL))
+        )
+      `);
+      console.log('[migrations] context_grants table ready');
+
+      // One grant per entry and grantee
+      await client.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_context_grants_entry_user
+        ON context_grants (owner_id, namespace, key, grantee_user_id)
+        WHERE grantee_user_id IS NOT NULL
+      `);
+      await client.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_context_grants_entry_team
+        ON context_grants (owner_id, namespace, key, grantee_team_id)
+        WHERE grantee_team_id IS NOT NULL
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_context_grants_grantee_user
+        ON context_grants (grantee_user_id)
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_context_grants_grantee_team
+        ON context_grants (grantee_team_id)
+      `);
+      console.log('[migrations] context_grants indexes ready');
+
+      // Public read-only links to an entry. Only the token's hash is stored;
+      // links are revoked (not deleted) so their audit trail stays around.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS share_links (
+          id SERIAL PRIMARY KEY,
+          token_hash TEXT UNIQUE NOT NULL,
+          owner_id TEXT NOT NULL,
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+          expires_at TIMESTAMP WITH TIME ZONE,
+          revoked_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+      console.log('[migrations] share_links table ready');
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_share_links_entry
+        ON share_links (owner_id, namespace, key)
+      `);
+      console.log('[migrations] share_links index ready');
+
+      // Audit trail of share link creation, access and revocation
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS share_link_events (
+          id SERIAL PRIMARY KEY,
+          link_id INTEGER NOT NULL REFERENCES share_links(id) ON DELETE CASCADE,
+          event TEXT NOT NULL CHECK(event IN ('create', 'access', 'revoke')),
+          user_id TEXT,
+          ip TEXT,
+          user_agent TEXT,
+          details JSONB,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `);
+      console.log('[migrations] share_link_events table ready');
+
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_share_link_events_link
+        ON share_link_events (link_id, created_at)
+      `);
+      console.log('[migrations] share_link_events index ready');
+
+      // ============================================
+      // API key scope migrations
+      // ============================================
+
+      // What a key may do, and the namespaces/key globs it is limited to
+      // (NULL = any). Keys that predate scopes keep full access, including
+      // admin tools for admins' keys.
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'api_keys' AND column_name = 'scopes'
+          ) THEN
+            ALTER TABLE api_keys ADD COLUMN scopes TEXT[] NOT NULL DEFAULT '{context:read,context:write}';
+            ALTER TABLE api_keys ADD COLUMN allowed_namespaces TEXT[];
+            ALTER TABLE api_keys ADD COLUMN allowed_keys TEXT[];
+            UPDATE api_keys SET scopes = scopes || '{admin}'
+            WHERE user_id IN (SELECT id FROM users WHERE is_admin = true);
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] api_keys scope columns ready');
+
+      // Optional expiry, usage statistics, and the secret a rotation replaced,
+      // which keeps working until previous_key_expires_at (the grace period)
+      await client.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'api_keys' AND column_name = 'expires_at'
+          ) THEN
+            ALTER TABLE api_keys ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+            ALTER TABLE api_keys ADD COLUMN request_count INTEGER NOT NULL DEFAULT 0;
+            ALTER TABLE api_keys ADD COLUMN last_used_ip TEXT;
+            ALTER TABLE api_keys ADD COLUMN previous_key_hash TEXT UNIQUE;
+            ALTER TABLE api_keys ADD COLUMN previous_key_expires_at TIMESTAMP WITH TIME ZONE;
+            ALTER TABLE api_keys ADD COLUMN rotated_at TIMESTAMP WITH TIME ZONE;
+          END IF;
+        END $$
+      `);
+      console.log('[migrations] api_keys expiry and usage columns ready');
+
       // ============================================
       // Waitlist migrations
       // ============================================
@@ -1,29 +1,306 @@
 import crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import type pg from 'pg';
 import { query, getClient } from './client.js';
+import { applyContextEdit, ContextEdit, ContextEditError } from './edits.js';
+import { embedContextEntry, embeddingModelId, embeddingText, getEmbeddingProvider } from '../embeddings/index.js';
+import { emitContextChange } from './events.js';
+import { DEFAULT_API_KEY_SCOPES, ApiKeyScope, KeyScopes, keyGlobToRegExp } from '../auth/scopes.js';
+
+// Namespace used when callers don't specify one (pre-namespace entries live here)
+export const DEFAULT_NAMESPACE = 'default';
+
+// Entries past their expires_at are hidden from reads until the sweeper purges them
+const NOT_EXPIRED = '(expires_at IS NULL OR expires_at > NOW())';
+
+// Characters of content shown for each trashed entry
+const TRASH_PREVIEW_LENGTH = 200;
+
+// History rows of the entry now at a key: rows not detached into the trash, plus, while
+// the key is free, those of the entry most recently deleted from it (so it can be restored)
+const CURRENT_HISTORY = `(trash_id IS NULL OR trash_id = (
+  SELECT t.id FROM context_trash t
+  WHERE t.user_id = context_history.user_id AND t.namespace = context_history.namespace AND t.key = context_history.key
+    AND NOT EXISTS (
+      SELECT 1 FROM shared_context c WHERE c.user_id = t.user_id AND c.namespace = t.namespace AND c.key = t.key
+    )
+  ORDER BY t.deleted_at DESC, t.id DESC
+  LIMIT 1
+))`;
+
+// Keys are at most 255 characters, including the suffix a renaming import adds
+const MAX_IMPORTED_KEY_LENGTH = 255;
 
 // Type definitions for query results
 export interface ContextEntry {
   key: string;
+  namespace: string;
   content: string;
   user_id: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  expires_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// Optional precondition for setContext (optimistic concurrency)
+// expectedVersion 0 means the entry must not exist yet; mustExist requires it to exist at any version
+export interface WritePrecondition {
+  expectedVersion?: number;
+  ifUpdatedAt?: Date;
+  mustExist?: boolean;
+}
+
+/**
+ * Thrown by setContext when a write precondition fails.
+ * Carries the entry as it currently exists (null if it doesn't).
+ */
+export class ContextConflictError extends Error {
+  public readonly current: ContextEntry | null;
+
+  constructor(current: ContextEntry | null) {
+    super('Context entry was modified by another writer');
+    this.current = current;
+    this.name = 'ContextConflictError';
+  }
+}
+
+/**
+ * Thrown by renameContext/copyContext when the target key is taken and
+ * overwriting wasn't requested, and by restoreTrashedContext when the key
+ * has been reused since the delete. Carries the existing target entry.
+ */
+export class ContextExistsError extends Error {
+  public readonly current: ContextEntry;
+
+  constructor(current: ContextEntry) {
+    super(`Context entry '${current.key}' already exists in namespace '${current.namespace}'`);
+    this.current = current;
+    this.name = 'ContextExistsError';
+  }
+}
+
+/**
+ * Thrown by setContext/editContext when a shared write's grantee no longer
+ * has a write grant on the entry (or the entry is gone)
+ */
+export class SharedWriteError extends Error {
+  constructor(key: string, namespace: string) {
+    super(`Context entry '${key}' in namespace '${namespace}' is no longer shared with you for writing`);
+    this.name = 'SharedWriteError';
+  }
+}
+
+/**
+ * Thrown by paginated queries when a cursor can't be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid or malformed cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Thrown by getUserByApiKey for a key past its expiry, or a rotated-out
+ * secret past its grace period
+ */
+export class ApiKeyExpiredError extends Error {
+  public readonly expiredAt: Date;
+  public readonly rotated: boolean;
+
+  constructor(expiredAt: Date, rotated: boolean) {
+    super(
+      rotated
+        ? `API key was rotated; the old key stopped working at ${expiredAt.toISOString()}`
+        : `API key expired at ${expiredAt.toISOString()}`
+    );
+    this.expiredAt = expiredAt;
+    this.rotated = rotated;
+    this.name = 'ApiKeyExpiredError';
+  }
+}
+
+// Options for setContext
+// tags/metadata/expiresAt replace the stored values when given and are kept when omitted
+// (expiresAt null removes the expiry)
+// grantee makes it a shared write by that user: their write grant is checked in the transaction
+export interface SetContextOptions {
+  precondition?: WritePrecondition;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  expiresAt?: Date | null;
+  grantee?: string;
+}
+
+// One entry of a batch write (tags/metadata as in SetContextOptions)
+export interface ContextWrite {
+  key: string;
+  content: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+// Options for batch writes and deletes
+// dryRun runs the batch and rolls it back; onProgress is called after each item
+export interface BatchOptions {
+  dryRun?: boolean;
+  onProgress?: (completed: number, total: number) => Promise<void> | void;
+}
+
+// Options for renameContext/copyContext
+// overwrite moves an existing entry at the target key to the trash (recorded as a delete in its history,
+// which goes with it); content/tags replace the source's in the same transaction, guarded by expectedVersion
+export interface RelocateOptions {
+  overwrite?: boolean;
+  expectedVersion?: number;
+  content?: string;
+  tags?: string[];
+}
+
+export interface RelocateResult {
+  entry: ContextEntry;
+  overwritten: boolean;
+}
+
+export interface BatchWriteResult {
+  entry: ContextEntry;
+  action: 'create' | 'update';
+}
+
+export interface BatchDeleteResult {
+  deleted: string[];
+  missing: string[];
+}
+
+// One entry of an import (expiresAt as in SetContextOptions, null = never)
+export interface ContextImport extends ContextWrite {
+  namespace: string;
+  expiresAt?: Date | null;
+}
+
+// What an import does when an entry's key is already taken:
+// skip it, overwrite the existing entry, or import it under a fresh key
+export type ImportStrategy = 'skip' | 'overwrite' | 'rename';
+
+// 'unchanged' = the key exists with identical content, tags and metadata;
+// 'expired' = the entry's expires_at has passed, so it isn't imported
+export type ImportAction = 'create' | 'overwrite' | 'rename' | 'skip' | 'unchanged' | 'expired';
+
+export interface ImportResult {
+  namespace: string;
+  key: string;
+  action: ImportAction;
+  // Key the entry was imported under ('rename' only)
+  newKey?: string;
+  // Fields that differ from the existing entry ('overwrite' and 'skip')
+  changes?: Array<'content' | 'tags' | 'metadata'>;
+  // Version after the import (absent for 'skip'/'unchanged'/'expired')
+  version?: number;
+}
+
+// Filters for listing entries: all tags must be present, metadata is matched by containment.
+// allowedNamespaces/allowedKeys (key globs) limit entries to an API key's scope; null for any
+export interface ContextFilter {
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  allowedNamespaces?: string[] | null;
+  allowedKeys?: string[] | null;
+}
+
+// Options for editContext
+export interface EditContextOptions {
+  precondition?: WritePrecondition;
+  // Shared write by this user (see SetContextOptions)
+  grantee?: string;
+  // Checked against the edited content before it is written (e.g. size limits)
+  validate?: (content: string) => { valid: boolean; error?: string };
+}
+
 export interface ContextKeyInfo {
   key: string;
+  tags: string[];
+  expires_at: Date | null;
+  updated_at: Date;
+}
+
+// One page of a cursor-paginated listing; nextCursor is null on the last page
+export interface ContextPage<T> {
+  entries: T[];
+  nextCursor: string | null;
+}
+
+export interface TagInfo {
+  tag: string;
+  entry_count: number;
+}
+
+// 'all' = every search term matched; 'any' = fallback where at least one did
+export type SearchMatchMode = 'all' | 'any';
+
+export interface ContextSearchHit {
+  key: string;
+  namespace: string;
+  tags: string[];
+  rank: number;
+  // Excerpt around the matches, with matched words wrapped in SEARCH_HIGHLIGHT
+  snippet: string;
+  updated_at: Date;
+}
+
+export interface ContextSearchResult {
+  hits: ContextSearchHit[];
+  match: SearchMatchMode;
+}
+
+// Marker placed on both sides of matched words in search snippets (markdown bold)
+export const SEARCH_HIGHLIGHT = '**';
+
+export interface SemanticSearchHit {
+  key: string;
+  namespace: string;
+  tags: string[];
+  // Cosine similarity between the query and the entry (higher is closer)
+  score: number;
+  preview: string;
   updated_at: Date;
 }
 
+export interface NamespaceInfo {
+  namespace: string;
+  entry_count: number;
+  updated_at: Date | null;
+}
+
+export type ContextHistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'rename' | 'copy' | 'expire';
+
 export interface ContextHistoryEntry {
   id: number;
   key: string;
+  namespace: string;
   content: string;
   user_id: string;
-  action: 'create' | 'update' | 'delete';
+  action: ContextHistoryAction;
+  restored_from: number | null;
+  source_namespace: string | null;
+  source_key: string | null;
   changed_at: Date;
 }
 
+// An entry in the trash (deleted, restorable until the retention window passes)
+export interface TrashedContextInfo {
+  id: number;
+  key: string;
+  namespace: string;
+  version: number;
+  tags: string[];
+  // Start of the deleted content
+  preview: string;
+  deleted_at: Date;
+}
+
 // User and API key types
 export interface User {
   id: string;
@@ -39,6 +316,33 @@ export interface ApiKey {
   key_hash: string;
   user_id: string;
   name: string;
+  scopes: ApiKeyScope[];
+  allowed_namespaces: string[] | null;
+  allowed_keys: string[] | null;
+  expires_at: Date | null;
+  request_count: number;
+  last_used_ip: string | null;
+  // Hash of the secret the last rotation replaced, valid until previous_key_expires_at
+  previous_key_hash: string | null;
+  previous_key_expires_at: Date | null;
+  rotated_at: Date | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+// An API key as listed to its owner or an admin (never the key itself)
+export interface ApiKeyInfo {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Namespaces and key globs the key is limited to (null = any)
+  namespaces: string[] | null;
+  keys: string[] | null;
+  expires_at: Date | null;
+  request_count: number;
+  last_used_ip: string | null;
+  rotated_at: Date | null;
+  // Until when the secret replaced by the last rotation still works (null once it doesn't)
+  previous_key_expires_at: Date | null;
   created_at: Date;
   last_used_at: Date | null;
 }
@@ -61,21 +365,34 @@ export function hashApiKey(plainKey: string): string {
 export interface UserByApiKeyResult {
   userId: string;
   isAdmin: boolean;
+  scopes: KeyScopes;
 }
 
 /**
  * Look up user ID and admin status by API key
- * Also updates last_used_at timestamp (fire-and-forget)
+ * The secret a rotation replaced is accepted until its grace period ends.
+ * Also records the use (last_used_at, request_count, last_used_ip; fire-and-forget)
+ * @param ip - Address the request came from
+ * @throws ApiKeyExpiredError if the key has expired or was rotated out
  * @returns user info if valid, null if not found
  */
-export async function getUserByApiKey(plainKey: string): Promise<UserByApiKeyResult | null> {
+export async function getUserByApiKey(plainKey: string, ip?: string): Promise<UserByApiKeyResult | null> {
   const keyHash = hashApiKey(plainKey);
 
-  const result = await query<{ user_id: string; is_admin: boolean }>(
-    `SELECT ak.user_id, COALESCE(u.is_admin, false) as is_admin
+  const result = await query<
+    Pick<ApiKey, 'key_hash' | 'user_id' | 'scopes' | 'allowed_namespaces' | 'allowed_keys' | 'expires_at' | 'previous_key_expires_at'> & {
+      is_admin: boolean;
+      expired: boolean;
+      rotated_out: boolean;
+    }
+  >(
+    `SELECT ak.key_hash, ak.user_id, COALESCE(u.is_admin, false) as is_admin, ak.scopes, ak.allowed_namespaces, ak.allowed_keys,
+            ak.expires_at, ak.previous_key_expires_at,
+            COALESCE(ak.expires_at <= NOW(), false) AS expired,
+            ak.key_hash <> $1 AND ak.previous_key_expires_at <= NOW() AS rotated_out
      FROM api_keys ak
      JOIN users u ON ak.user_id = u.id
-     WHERE ak.key_hash = $1`,
+     WHERE ak.key_hash = $1 OR ak.previous_key_hash = $1`,
     [keyHash]
   );
 
@@ -83,15 +400,30 @@ export async function getUserByApiKey(plainKey: string): Promise<UserByApiKeyRes
     return null;
   }
 
-  // Update last_used_at (fire-and-forget, don't await)
+  const row = result.rows[0];
+  if (row.rotated_out) {
+    throw new ApiKeyExpiredError(row.previous_key_expires_at!, true);
+  }
+  if (row.expired) {
+    throw new ApiKeyExpiredError(row.expires_at!, false);
+  }
+
+  // Record the use (fire-and-forget, don't await)
   query(
-    'UPDATE api_keys SET last_used_at = NOW() WHERE key_hash = $1',
-    [keyHash]
-  ).catch((err) => console.error('[queries] Failed to update last_used_at:', err));
+    `UPDATE api_keys
+     SET last_used_at = NOW(), request_count = request_count + 1, last_used_ip = COALESCE($2, last_used_ip)
+     WHERE key_hash = $1`,
+    [row.key_hash, ip ?? null]
+  ).catch((err) => console.error('[queries] Failed to record API key use:', err));
 
   return {
-    userId: result.rows[0].user_id,
-    isAdmin: result.rows[0].is_admin,
+    userId: row.user_id,
+    isAdmin: row.is_admin,
+    scopes: {
+      scopes: row.scopes,
+      keys: row.allowed_keys,
+      namespaces: row.allowed_namespaces,
+    },
   };
 }
 
@@ -126,26 +458,67 @@ export async function getUserById(id: string): Promise<User | null> {
 }
 
 /**
- * Create a new API key for a user (admin-only function)
+ * Create a new API key for a user
+ * @param scopes - What the key may do (default: read and write any context, no admin tools)
+ * @param expiresAt - When the key stops working (null: never)
  * @returns Object with plainKey (show once!) and keyHash
  */
 export async function createApiKey(
   userId: string,
-  name: string
+  name: string,
+  scopes?: KeyScopes,
+  expiresAt: Date | null = null
 ): Promise<{ plainKey: string; keyHash: string }> {
   // Generate secure random key (32 bytes = 256 bits)
   const plainKey = crypto.randomBytes(32).toString('base64url');
   const keyHash = hashApiKey(plainKey);
 
   await query(
-    `INSERT INTO api_keys (key_hash, user_id, name, created_at)
-     VALUES ($1, $2, $3, NOW())`,
-    [keyHash, userId, name]
+    `INSERT INTO api_keys (key_hash, user_id, name, scopes, allowed_namespaces, allowed_keys, expires_at, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+    [keyHash, userId, name, scopes?.scopes ?? DEFAULT_API_KEY_SCOPES, scopes?.namespaces ?? null, scopes?.keys ?? null, expiresAt]
   );
 
   return { plainKey, keyHash };
 }
 
+/**
+ * Issue a new secret for an API key, keeping its name, scopes, expiry and usage
+ * The old secret keeps working for the grace period (replacing the secret of
+ * any earlier rotation still in its grace period).
+ * @param graceSeconds - How long the old secret keeps working (0: stops now)
+ * @returns The new plain key (show once!) and when the old one stops working,
+ *          or null if the user has no key with this name
+ */
+export async function rotateApiKey(
+  userId: string,
+  name: string,
+  graceSeconds: number
+): Promise<{ plainKey: string; previousKeyExpiresAt: Date } | null> {
+  const plainKey = crypto.randomBytes(32).toString('base64url');
+
+  const result = await query<{ previous_key_expires_at: Date }>(
+    `UPDATE api_keys
+     SET previous_key_hash = key_hash,
+         previous_key_expires_at = NOW() + $4 * INTERVAL '1 second',
+         key_hash = $3,
+         rotated_at = NOW()
+     WHERE key_hash = (
+       SELECT key_hash FROM api_keys
+       WHERE user_id = $1 AND name = $2
+       ORDER BY created_at DESC
+       LIMIT 1
+     )
+     RETURNING previous_key_expires_at`,
+    [userId, name, hashApiKey(plainKey), graceSeconds]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+  return { plainKey, previousKeyExpiresAt: result.rows[0].previous_key_expires_at };
+}
+
 /**
  * Create a new user with an initial API key in a single transaction
  * This ensures we never have orphaned users without API keys
@@ -199,7 +572,8 @@ export async function createUserWithApiKey(
  */
 export async function listUserApiKeys(userId: string): Promise<Omit<ApiKey, 'key_hash'>[]> {
   const result = await query<ApiKey>(
-    `SELECT user_id, name, created_at, last_used_at
+    `SELECT user_id, name, scopes, allowed_namespaces, allowed_keys, expires_at, request_count, last_used_ip,
+            previous_key_hash, previous_key_expires_at, rotated_at, created_at, last_used_at
      FROM api_keys
      WHERE user_id = $1
      ORDER BY created_at DESC`,
@@ -364,60 +738,257 @@ export async function linkClerkId(userId: string, clerkId: string): Promise<bool
  * Get a single context entry by key for a specific user
  * @returns The context entry or null if not found
  */
-export async function getContext(userId: string, key: string): Promise<ContextEntry | null> {
+export async function getContext(
+  userId: string,
+  key: string,
+  namespace = DEFAULT_NAMESPACE
+): Promise<ContextEntry | null> {
   const result = await query<ContextEntry>(
-    `SELECT key, content, user_id, created_at, updated_at
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
      FROM shared_context
-     WHERE user_id = $1 AND key = $2`,
-    [userId, key]
+     WHERE user_id = $1 AND namespace = $2 AND key = $3 AND ${NOT_EXPIRED}`,
+    [userId, namespace, key]
   );
 
   return result.rows[0] || null;
 }
 
+/**
+ * Purge an entry whose expiry has passed (recorded as 'expire') so the
+ * caller's transaction treats it as absent instead of waiting for the sweeper
+ */
+async function purgeIfExpired(client: pg.PoolClient, userId: string, namespace: string, key: string): Promise<void> {
+  const expired = await client.query<{ content: string }>(
+    `DELETE FROM shared_context
+     WHERE user_id = $1 AND namespace = $2 AND key = $3 AND expires_at <= NOW()
+     RETURNING content`,
+    [userId, namespace, key]
+  );
+
+  if (expired.rows.length > 0) {
+    await client.query(
+      `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+       VALUES ($1, $2, $3, $4, 'expire', NOW())`,
+      [userId, namespace, key, expired.rows[0].content]
+    );
+    await removeEntrySharing(client, userId, namespace, key);
+  }
+}
+
+/**
+ * Check, with the entry locked, that a shared write's grantee still has a
+ * write grant on it (grants go when the entry does, so it must exist)
+ * @throws SharedWriteError if not
+ */
+async function requireWriteGrant(
+  client: pg.PoolClient,
+  granteeId: string,
+  existing: ContextEntry | null,
+  ownerId: string,
+  namespace: string,
+  key: string
+): Promise<void> {
+  const granted = existing && (await client.query(
+    `SELECT 1 FROM context_grants g
+     WHERE g.owner_id = $2 AND g.namespace = $3 AND g.key = $4 AND g.permission = 'write'
+       AND ${GRANTED_TO_USER}`,
+    [granteeId, ownerId, namespace, key]
+  )).rows.length > 0;
+
+  if (!granted) {
+    throw new SharedWriteError(key, namespace);
+  }
+}
+
+/**
+ * Remove the sharing grants and revoke the share links of an entry that no
+ * longer exists, so a later entry at the same key isn't shared by accident
+ */
+async function removeEntrySharing(client: pg.PoolClient, ownerId: string, namespace: string, key: string): Promise<void> {
+  await client.query(
+    `DELETE FROM context_grants WHERE owner_id = $1 AND namespace = $2 AND key = $3`,
+    [ownerId, namespace, key]
+  );
+  await client.query(
+    `UPDATE share_links SET revoked_at = NOW()
+     WHERE owner_id = $1 AND namespace = $2 AND key = $3 AND revoked_at IS NULL`,
+    [ownerId, namespace, key]
+  );
+}
+
+/**
+ * Move an entry to the trash and record the deletion in context_history
+ * The entry's history is detached with it (trash_id), so a later entry at the
+ * same key starts a history of its own
+ * @returns The trash row id, or null if the entry didn't exist
+ */
+async function trashContext(client: pg.PoolClient, userId: string, namespace: string, key: string): Promise<number | null> {
+  const deleted = await client.query<ContextEntry>(
+    `DELETE FROM shared_context
+     WHERE user_id = $1 AND namespace = $2 AND key = $3
+     RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+    [userId, namespace, key]
+  );
+
+  if (deleted.rows.length === 0) {
+    return null;
+  }
+
+  const entry = deleted.rows[0];
+  const trashed = await client.query<{ id: number }>(
+    `INSERT INTO context_trash (user_id, namespace, key, content, version, tags, metadata, expires_at, created_at, updated_at, deleted_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+     RETURNING id`,
+    [userId, namespace, key, entry.content, entry.version, entry.tags, entry.metadata, entry.expires_at, entry.created_at, entry.updated_at]
+  );
+  const trashId = trashed.rows[0].id;
+  await client.query(
+    `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+     VALUES ($1, $2, $3, $4, 'delete', NOW())`,
+    [userId, namespace, key, entry.content]
+  );
+  await client.query(
+    `UPDATE context_history SET trash_id = $4
+     WHERE user_id = $1 AND namespace = $2 AND key = $3 AND trash_id IS NULL`,
+    [userId, namespace, key, trashId]
+  );
+  await removeEntrySharing(client, userId, namespace, key);
+
+  return trashId;
+}
+
+/**
+ * Check a write precondition against the entry as it currently exists
+ */
+function preconditionHolds(existing: ContextEntry | null, precondition: WritePrecondition): boolean {
+  if (precondition.mustExist && !existing) {
+    return false;
+  }
+
+  if (precondition.expectedVersion !== undefined) {
+    const currentVersion = existing ? existing.version : 0;
+    if (currentVersion !== precondition.expectedVersion) {
+      return false;
+    }
+  }
+
+  if (precondition.ifUpdatedAt !== undefined) {
+    if (!existing || existing.updated_at.getTime() !== precondition.ifUpdatedAt.getTime()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
 /**
  * Create or update a context entry for a specific user (UPSERT)
  * Records the action in context_history within a transaction
+ * @param options.precondition - Optional optimistic concurrency check; the write
+ *        is rejected with ContextConflictError if the entry changed in the meantime
+ * @param options.tags / options.metadata - Replace the stored values when given
  * @returns The updated context entry
  */
-export async function setContext(userId: string, key: string, content: string): Promise<ContextEntry> {
+export async function setContext(
+  userId: string,
+  key: string,
+  content: string,
+  namespace = DEFAULT_NAMESPACE,
+  options: SetContextOptions = {}
+): Promise<ContextEntry> {
+  const { precondition } = options;
+  const tags = options.tags ?? null;
+  const metadata = options.metadata ? JSON.stringify(options.metadata) : null;
+  const setExpiry = options.expiresAt !== undefined;
+  const expiresAt = options.expiresAt ?? null;
+
+  // Embed before taking any locks (providers may be slow or remote)
+  const embedded = await embedContextEntry(key, content);
+  const embedding = embedded?.embedding ?? null;
+  const embeddingModel = embedded?.model ?? null;
+
   const client = await getClient();
 
   try {
     await client.query('BEGIN');
-
-    // Check if entry exists for this user to determine action type
-    const existingResult = await client.query<{ key: string }>(
-      'SELECT key FROM shared_context WHERE user_id = $1 AND key = $2',
-      [userId, key]
+    await purgeIfExpired(client, userId, namespace, key);
+
+    // Lock the existing entry (if any) so the precondition can't go stale before the write
+    const existingResult = await client.query<ContextEntry>(
+      `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+       FROM shared_context
+       WHERE user_id = $1 AND namespace = $2 AND key = $3
+       FOR UPDATE`,
+      [userId, namespace, key]
     );
-    const action = existingResult.rows.length > 0 ? 'update' : 'create';
+    const existing = existingResult.rows[0] || null;
+    const action = existing ? 'update' : 'create';
 
-    // Perform UPSERT (conflict on user_id + key combination)
-    const upsertResult = await client.query<ContextEntry>(
-      `INSERT INTO shared_context (user_id, key, content, created_at, updated_at)
-       VALUES ($1, $2, $3, NOW(), NOW())
-       ON CONFLICT (user_id, key) DO UPDATE SET
-         content = EXCLUDED.content,
-         updated_at = NOW()
-       RETURNING key, content, user_id, created_at, updated_at`,
-      [userId, key, content]
-    );
+    if (options.grantee !== undefined) {
+      await requireWriteGrant(client, options.grantee, existing, userId, namespace, key);
+    }
+
+    if (precondition && !preconditionHolds(existing, precondition)) {
+      throw new ContextConflictError(existing);
+    }
+
+    let upsertResult;
+    if (precondition && !existing) {
+      // Nothing to lock yet: a concurrent create must not be overwritten
+      upsertResult = await client.query<ContextEntry>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, tags, metadata, embedding, embedding_model, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, COALESCE($5, '{}'::TEXT[]), COALESCE($6::JSONB, '{}'::JSONB), $7, $8, $9, NOW(), NOW())
+         ON CONFLICT (user_id, namespace, key) DO NOTHING
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, key, content, tags, metadata, embedding, embeddingModel, expiresAt]
+      );
+
+      if (upsertResult.rows.length === 0) {
+        const currentResult = await client.query<ContextEntry>(
+          `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+           FROM shared_context
+           WHERE user_id = $1 AND namespace = $2 AND key = $3`,
+          [userId, namespace, key]
+        );
+        throw new ContextConflictError(currentResult.rows[0] || null);
+      }
+    } else {
+      // Perform UPSERT (conflict on user_id + namespace + key combination)
+      upsertResult = await client.query<ContextEntry>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, tags, metadata, embedding, embedding_model, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, COALESCE($5, '{}'::TEXT[]), COALESCE($6::JSONB, '{}'::JSONB), $7, $8, $9, NOW(), NOW())
+         ON CONFLICT (user_id, namespace, key) DO UPDATE SET
+           content = EXCLUDED.content,
+           tags = COALESCE($5, shared_context.tags),
+           metadata = COALESCE($6::JSONB, shared_context.metadata),
+           embedding = EXCLUDED.embedding,
+           embedding_model = EXCLUDED.embedding_model,
+           expires_at = CASE WHEN $10 THEN EXCLUDED.expires_at ELSE shared_context.expires_at END,
+           version = shared_context.version + 1,
+           updated_at = NOW()
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, key, content, tags, metadata, embedding, embeddingModel, expiresAt, setExpiry]
+      );
+    }
 
     // Record in history with user_id
     await client.query(
-      `INSERT INTO context_history (user_id, key, content, action, changed_at)
-       VALUES ($1, $2, $3, $4, NOW())`,
-      [userId, key, content, action]
+      `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())`,
+      [userId, namespace, key, content, action]
     );
 
     await client.query('COMMIT');
+    emitContextChange({ userId, namespace, key, type: action === 'create' ? 'created' : 'updated' });
 
     return upsertResult.rows[0];
   } catch (err) {
     await client.query('ROLLBACK');
+    if (err instanceof ContextConflictError || err instanceof SharedWriteError) {
+      throw err;
+    }
     const error = err instanceof Error ? err : new Error(String(err));
-    console.error('[queries] setContext failed:', { userId, key, error: error.message });
+    console.error('[queries] setContext failed:', { userId, namespace, key, error: error.message });
     throw error;
   } finally {
     client.release();
@@ -425,48 +996,111 @@ export async function setContext(userId: string, key: string, content: string):
 }
 
 /**
- * Delete a context entry by key for a specific user
- * Records the deletion in context_history within a transaction
- * @returns true if deleted, false if not found
+ * Apply an in-place edit (append, section/line replace, search/replace,
+ * JSON Patch) to a context entry for a specific user
+ * The entry is locked, edited and written back in one transaction, and the
+ * edit is recorded in context_history. Appends create missing entries.
+ * The stored embedding is cleared; semantic search re-embeds it on demand.
+ * @throws ContextEditError if the edit doesn't apply or the result is invalid
+ * @throws ContextConflictError if options.precondition fails
+ * @returns The edited context entry, or null if it doesn't exist
  */
-export async function deleteContext(userId: string, key: string): Promise<boolean> {
+export async function editContext(
+  userId: string,
+  key: string,
+  edit: ContextEdit,
+  namespace = DEFAULT_NAMESPACE,
+  options: EditContextOptions = {}
+): Promise<ContextEntry | null> {
   const client = await getClient();
 
+  const selectForUpdate = () => client.query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+     FROM shared_context
+     WHERE user_id = $1 AND namespace = $2 AND key = $3
+     FOR UPDATE`,
+    [userId, namespace, key]
+  );
+
   try {
     await client.query('BEGIN');
+    await purgeIfExpired(client, userId, namespace, key);
 
-    // Get the current content for history (if exists) - filter by user
-    const existingResult = await client.query<{ content: string }>(
-      'SELECT content FROM shared_context WHERE user_id = $1 AND key = $2',
-      [userId, key]
-    );
+    let existing = (await selectForUpdate()).rows[0] || null;
 
-    if (existingResult.rows.length === 0) {
-      await client.query('ROLLBACK');
-      return false;
+    if (options.grantee !== undefined) {
+      await requireWriteGrant(client, options.grantee, existing, userId, namespace, key);
     }
 
-    const content = existingResult.rows[0].content;
+    if (options.precondition && !preconditionHolds(existing, options.precondition)) {
+      throw new ContextConflictError(existing);
+    }
 
-    // Delete the entry (filter by user for security)
-    await client.query(
-      'DELETE FROM shared_context WHERE user_id = $1 AND key = $2',
-      [userId, key]
-    );
+    const editAndValidate = (current: string): string => {
+      const content = applyContextEdit(current, edit);
+      const validation = options.validate?.(content);
+      if (validation && !validation.valid) {
+        throw new ContextEditError(validation.error ?? 'Edited content is invalid');
+      }
+      return content;
+    };
+
+    let entry: ContextEntry | undefined;
+    let action: ContextHistoryAction = 'update';
+
+    if (!existing) {
+      // Only appends can start a new entry
+      if (edit.type !== 'append' && edit.type !== 'prepend') {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const createResult = await client.query<ContextEntry>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, NOW(), NOW())
+         ON CONFLICT (user_id, namespace, key) DO NOTHING
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, key, editAndValidate('')]
+      );
+
+      if (createResult.rows.length > 0) {
+        entry = createResult.rows[0];
+        action = 'create';
+      } else {
+        // Created concurrently since the first lookup: edit the committed row instead
+        existing = (await selectForUpdate()).rows[0];
+      }
+    }
+
+    if (!entry) {
+      const updateResult = await client.query<ContextEntry>(
+        `UPDATE shared_context
+         SET content = $4, embedding = NULL, embedding_model = NULL, version = version + 1, updated_at = NOW()
+         WHERE user_id = $1 AND namespace = $2 AND key = $3
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, key, editAndValidate(existing!.content)]
+      );
+      entry = updateResult.rows[0];
+    }
 
-    // Record deletion in history with user_id
+    // Record in history with user_id
     await client.query(
-      `INSERT INTO context_history (user_id, key, content, action, changed_at)
-       VALUES ($1, $2, $3, 'delete', NOW())`,
-      [userId, key, content]
+      `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())`,
+      [userId, namespace, key, entry.content, action]
     );
 
     await client.query('COMMIT');
-    return true;
+    emitContextChange({ userId, namespace, key, type: action === 'create' ? 'created' : 'updated' });
+
+    return entry;
   } catch (err) {
     await client.query('ROLLBACK');
+    if (err instanceof ContextEditError || err instanceof ContextConflictError || err instanceof SharedWriteError) {
+      throw err;
+    }
     const error = err instanceof Error ? err : new Error(String(err));
-    console.error('[queries] deleteContext failed:', { userId, key, error: error.message });
+    console.error('[queries] editContext failed:', { userId, namespace, key, type: edit.type, error: error.message });
     throw error;
   } finally {
     client.release();
@@ -474,99 +1108,2197 @@ export async function deleteContext(userId: string, key: string): Promise<boolea
 }
 
 /**
- * List context keys with metadata for a specific user
- * @param userId - The user ID
- * @param limit - Maximum number of results (default: 50, max: 200)
- * @param search - Optional search pattern (filters keys containing the search string)
- * @returns Array of key info objects sorted by updated_at DESC
+ * Delete a context entry by key for a specific user
+ * The entry moves to the trash (see restoreTrashedContext) and the deletion
+ * is recorded in context_history within a transaction
+ * @returns true if deleted, false if not found
  */
-export async function listContextKeys(
+export async function deleteContext(
   userId: string,
-  limit = 50,
-  search?: string
-): Promise<ContextKeyInfo[]> {
-  // Enforce limits
-  const safeLimit = Math.min(Math.max(1, limit), 200);
+  key: string,
+  namespace = DEFAULT_NAMESPACE
+): Promise<boolean> {
+  const client = await getClient();
 
-  let queryText: string;
-  let params: unknown[];
+  try {
+    await client.query('BEGIN');
+    await purgeIfExpired(client, userId, namespace, key);
 
-  if (search) {
-    // Escape LIKE wildcards in search string to prevent SQL injection
-    const escapedSearch = search
-      .replace(/\\/g, '\\\\')
-      .replace(/%/g, '\\%')
-      .replace(/_/g, '\\_');
+    // Move the entry to the trash (filter by user for security)
+    if (!(await trashContext(client, userId, namespace, key))) {
+      await client.query('ROLLBACK');
+      return false;
+    }
 
-    queryText = `
-      SELECT key, updated_at
-      FROM shared_context
-      WHERE user_id = $1 AND key ILIKE $2
-      ORDER BY updated_at DESC
-      LIMIT $3
-    `;
-    params = [userId, `%${escapedSearch}%`, safeLimit];
-  } else {
-    queryText = `
-      SELECT key, updated_at
-      FROM shared_context
-      WHERE user_id = $1
-      ORDER BY updated_at DESC
-      LIMIT $2
-    `;
-    params = [userId, safeLimit];
-  }
-
-  const result = await query<ContextKeyInfo>(queryText, params);
-  return result.rows;
+    await client.query('COMMIT');
+    emitContextChange({ userId, namespace, key, type: 'deleted' });
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] deleteContext failed:', { userId, namespace, key, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 /**
- * Get all context entries with content for a specific user
- * @param userId - The user ID
- * @param limit - Maximum number of results (default: 20, max: 50)
- * @returns Array of full context entries sorted by updated_at DESC
+ * Move or copy an entry to another key (and/or namespace) in one transaction
  */
-export async function getAllContext(userId: string, limit = 20): Promise<ContextEntry[]> {
-  // Enforce limits (lower than listContextKeys since we're returning content)
-  const safeLimit = Math.min(Math.max(1, limit), 50);
+async function relocateContext(
+  mode: 'rename' | 'copy',
+  userId: string,
+  key: string,
+  namespace: string,
+  newKey: string,
+  newNamespace: string,
+  options: RelocateOptions
+): Promise<RelocateResult | null> {
+  const client = await getClient();
 
-  const result = await query<ContextEntry>(
-    `SELECT key, content, user_id, created_at, updated_at
+  const selectForUpdate = (ns: string, k: string) => client.query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
      FROM shared_context
-     WHERE user_id = $1
-     ORDER BY updated_at DESC
-     LIMIT $2`,
-    [userId, safeLimit]
+     WHERE user_id = $1 AND namespace = $2 AND key = $3
+     FOR UPDATE`,
+    [userId, ns, k]
   );
 
-  return result.rows;
-}
+  try {
+    await client.query('BEGIN');
+    await purgeIfExpired(client, userId, namespace, key);
+    await purgeIfExpired(client, userId, newNamespace, newKey);
 
-/**
- * Get history entries for a specific key and user (useful for debugging)
- * @param userId - The user ID
- * @param key - The context key
- * @param limit - Maximum number of results (default: 10)
- * @returns Array of history entries sorted by changed_at DESC
- */
-export async function getContextHistory(
-  userId: string,
-  key: string,
-  limit = 10
-): Promise<ContextHistoryEntry[]> {
-  const result = await query<ContextHistoryEntry>(
-    `SELECT id, key, content, user_id, action, changed_at
-     FROM context_history
-     WHERE user_id = $1 AND key = $2
-     ORDER BY changed_at DESC
-     LIMIT $3`,
-    [userId, key, limit]
-  );
+    const source = (await selectForUpdate(namespace, key)).rows[0];
+    if (!source) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    if (options.expectedVersion !== undefined && source.version !== options.expectedVersion) {
+      throw new ContextConflictError(source);
+    }
+    const content = options.content ?? source.content;
+    const tags = options.tags ?? source.tags;
+
+    // Overwrite policy: a taken target is an error unless explicitly replaced
+    const target = (await selectForUpdate(newNamespace, newKey)).rows[0];
+    if (target) {
+      if (!options.overwrite) {
+        throw new ContextExistsError(target);
+      }
+      // The replaced entry's history goes to the trash with it instead of mixing into the new key's
+      await trashContext(client, userId, newNamespace, newKey);
+    }
+
+    let entryResult;
+    if (mode === 'rename') {
+      // The embedding covers the key, so it's cleared and re-created on demand
+      entryResult = await client.query<ContextEntry>(
+        `UPDATE shared_context
+         SET namespace = $4, key = $5, content = $6, tags = $7, embedding = NULL, embedding_model = NULL,
+             version = version + 1, updated_at = NOW()
+         WHERE user_id = $1 AND namespace = $2 AND key = $3
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, key, newNamespace, newKey, content, tags]
+      );
+
+      // The history chain, sharing grants and share links move with the entry
+      await client.query(
+        `UPDATE context_history SET namespace = $4, key = $5
+         WHERE user_id = $1 AND namespace = $2 AND key = $3 AND trash_id IS NULL`,
+        [userId, namespace, key, newNamespace, newKey]
+      );
+      await client.query(
+        `UPDATE context_grants SET namespace = $4, key = $5
+         WHERE owner_id = $1 AND namespace = $2 AND key = $3`,
+        [userId, namespace, key, newNamespace, newKey]
+      );
+      await client.query(
+        `UPDATE share_links SET namespace = $4, key = $5
+         WHERE owner_id = $1 AND namespace = $2 AND key = $3`,
+        [userId, namespace, key, newNamespace, newKey]
+      );
+    } else {
+      entryResult = await client.query<ContextEntry>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, tags, metadata, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, newNamespace, newKey, content, tags, source.metadata, source.expires_at]
+      );
+    }
+
+    // Record the rename/copy at the new key, linked to where it came from
+    await client.query(
+      `INSERT INTO context_history (user_id, namespace, key, content, action, source_namespace, source_key, changed_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+      [userId, newNamespace, newKey, content, mode, namespace, key]
+    );
+
+    await client.query('COMMIT');
+    if (mode === 'rename') {
+      emitContextChange({ userId, namespace, key, type: 'deleted' });
+    }
+    emitContextChange({ userId, namespace: newNamespace, key: newKey, type: target ? 'updated' : 'created' });
+
+    return { entry: entryResult.rows[0], overwritten: target !== undefined };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    if (err instanceof ContextExistsError || err instanceof ContextConflictError) {
+      throw err;
+    }
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error(`[queries] ${mode}Context failed:`, { userId, namespace, key, newNamespace, newKey, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rename (and/or move to another namespace) a context entry for a specific user
+ * The entry keeps its metadata, expiry and created_at (and its content and tags
+ * unless options replace them); its history moves to the new key and gains a
+ * 'rename' row naming the old key.
+ * @throws ContextExistsError if the target exists and options.overwrite isn't set
+ * @throws ContextConflictError if options.expectedVersion doesn't match the source
+ * @returns The renamed entry, or null if the source doesn't exist
+ */
+export async function renameContext(
+  userId: string,
+  key: string,
+  newKey: string,
+  namespace = DEFAULT_NAMESPACE,
+  newNamespace = namespace,
+  options: RelocateOptions = {}
+): Promise<RelocateResult | null> {
+  return relocateContext('rename', userId, key, namespace, newKey, newNamespace, options);
+}
+
+/**
+ * Copy a context entry (content, tags, metadata and expiry) to another key and/or namespace
+ * The copy starts a new history with a 'copy' row naming the source entry.
+ * @throws ContextExistsError if the target exists and options.overwrite isn't set
+ * @returns The new entry, or null if the source doesn't exist
+ */
+export async function copyContext(
+  userId: string,
+  key: string,
+  newKey: string,
+  namespace = DEFAULT_NAMESPACE,
+  newNamespace = namespace,
+  options: RelocateOptions = {}
+): Promise<RelocateResult | null> {
+  return relocateContext('copy', userId, key, namespace, newKey, newNamespace, options);
+}
+
+/**
+ * Create or update several context entries for a specific user in one transaction
+ * Either every write is applied or none is; each item gets its own
+ * context_history row. Stored embeddings are cleared and re-created on demand
+ * by semantic search, as for editContext.
+ * @param options.dryRun - Run the writes and roll back, reporting what would change
+ * @returns One result per write, in input order
+ */
+export async function writeManyContext(
+  userId: string,
+  writes: ContextWrite[],
+  namespace = DEFAULT_NAMESPACE,
+  options: BatchOptions = {}
+): Promise<BatchWriteResult[]> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const results: BatchWriteResult[] = [];
+    for (const write of writes) {
+      await purgeIfExpired(client, userId, namespace, write.key);
+      const tags = write.tags ?? null;
+      const metadata = write.metadata ? JSON.stringify(write.metadata) : null;
+
+      // xmax = 0 only for freshly inserted rows
+      const upsertResult = await client.query<ContextEntry & { inserted: boolean }>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, tags, metadata, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, COALESCE($5, '{}'::TEXT[]), COALESCE($6::JSONB, '{}'::JSONB), NOW(), NOW())
+         ON CONFLICT (user_id, namespace, key) DO UPDATE SET
+           content = EXCLUDED.content,
+           tags = COALESCE($5, shared_context.tags),
+           metadata = COALESCE($6::JSONB, shared_context.metadata),
+           embedding = NULL,
+           embedding_model = NULL,
+           version = shared_context.version + 1,
+           updated_at = NOW()
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at, (xmax = 0) AS inserted`,
+        [userId, namespace, write.key, write.content, tags, metadata]
+      );
+      const { inserted, ...entry } = upsertResult.rows[0];
+      const action = inserted ? 'create' : 'update';
+
+      await client.query(
+        `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())`,
+        [userId, namespace, write.key, write.content, action]
+      );
+
+      results.push({ entry, action });
+      await options.onProgress?.(results.length, writes.length);
+    }
+
+    if (options.dryRun) {
+      await client.query('ROLLBACK');
+      return results;
+    }
+
+    await client.query('COMMIT');
+    for (const { entry, action } of results) {
+      emitContextChange({ userId, namespace, key: entry.key, type: action === 'create' ? 'created' : 'updated' });
+    }
+
+    return results;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] writeManyContext failed:', { userId, namespace, count: writes.length, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fields of an existing entry that an import would change
+ */
+function importChanges(existing: ContextEntry, entry: ContextImport): Array<'content' | 'tags' | 'metadata'> {
+  const changes: Array<'content' | 'tags' | 'metadata'> = [];
+  if (existing.content !== entry.content) {
+    changes.push('content');
+  }
+  if (entry.tags !== undefined && JSON.stringify([...existing.tags].sort()) !== JSON.stringify([...entry.tags].sort())) {
+    changes.push('tags');
+  }
+  if (entry.metadata !== undefined && !isDeepStrictEqual(existing.metadata, entry.metadata)) {
+    changes.push('metadata');
+  }
+  return changes;
+}
+
+/**
+ * Import entries into a user's context (several namespaces at once) in one transaction
+ * Keys that are free are created. Keys that are taken are handled by the
+ * strategy: 'skip' leaves the existing entry alone, 'overwrite' updates it,
+ * 'rename' imports under "<key>-imported" (or "-imported-2", ...). Entries
+ * identical to the existing one are always left alone as 'unchanged', and
+ * entries past their expiry are left out as 'expired'.
+ * Every write gets its own context_history row.
+ * @param options.dryRun - Run the import and roll back, reporting what would change
+ * @returns One result per entry, in input order
+ */
+export async function importContext(
+  userId: string,
+  entries: ContextImport[],
+  strategy: ImportStrategy,
+  options: BatchOptions = {}
+): Promise<ImportResult[]> {
+  const client = await getClient();
+
+  const keyTaken = async (namespace: string, key: string) => (await client.query(
+    'SELECT 1 FROM shared_context WHERE user_id = $1 AND namespace = $2 AND key = $3',
+    [userId, namespace, key]
+  )).rows.length > 0;
+
+  // Keys of the import itself are reserved so a rename never lands on one of them
+  const claimed = new Set(entries.map((entry) => `${entry.namespace}/${entry.key}`));
+
+  try {
+    await client.query('BEGIN');
+
+    const results: ImportResult[] = [];
+    for (const entry of entries) {
+      const { namespace } = entry;
+      if (entry.expiresAt && entry.expiresAt.getTime() <= Date.now()) {
+        results.push({ namespace, key: entry.key, action: 'expired' });
+        await options.onProgress?.(results.length, entries.length);
+        continue;
+      }
+      await purgeIfExpired(client, userId, namespace, entry.key);
+
+      const existing = (await client.query<ContextEntry>(
+        `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+         FROM shared_context
+         WHERE user_id = $1 AND namespace = $2 AND key = $3
+         FOR UPDATE`,
+        [userId, namespace, entry.key]
+      )).rows[0];
+
+      let targetKey = entry.key;
+      let action: ImportAction = 'create';
+      let changes: ImportResult['changes'];
+      if (existing) {
+        changes = importChanges(existing, entry);
+        if (changes.length === 0) {
+          action = 'unchanged';
+        } else if (strategy === 'skip') {
+          action = 'skip';
+        } else if (strategy === 'overwrite') {
+          action = 'overwrite';
+        } else {
+          action = 'rename';
+          changes = undefined;
+          for (let attempt = 1; ; attempt++) {
+            const suffix = attempt === 1 ? '-imported' : `-imported-${attempt}`;
+            targetKey = entry.key.slice(0, MAX_IMPORTED_KEY_LENGTH - suffix.length) + suffix;
+            if (!claimed.has(`${namespace}/${targetKey}`)) {
+              await purgeIfExpired(client, userId, namespace, targetKey);
+              if (!(await keyTaken(namespace, targetKey))) {
+                break;
+              }
+            }
+          }
+          claimed.add(`${namespace}/${targetKey}`);
+        }
+      }
+
+      if (action === 'skip' || action === 'unchanged') {
+        results.push({ namespace, key: entry.key, action, ...(changes && changes.length > 0 && { changes }) });
+        await options.onProgress?.(results.length, entries.length);
+        continue;
+      }
+
+      const tags = entry.tags ?? null;
+      const metadata = entry.metadata ? JSON.stringify(entry.metadata) : null;
+      const keepExpiry = entry.expiresAt === undefined;
+      const written = await client.query<ContextEntry>(
+        `INSERT INTO shared_context (user_id, namespace, key, content, tags, metadata, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, COALESCE($5, '{}'::TEXT[]), COALESCE($6::JSONB, '{}'::JSONB), $7, NOW(), NOW())
+         ON CONFLICT (user_id, namespace, key) DO UPDATE SET
+           content = EXCLUDED.content,
+           tags = COALESCE($5, shared_context.tags),
+           metadata = COALESCE($6::JSONB, shared_context.metadata),
+           expires_at = CASE WHEN $8 THEN shared_context.expires_at ELSE EXCLUDED.expires_at END,
+           embedding = NULL,
+           embedding_model = NULL,
+           version = shared_context.version + 1,
+           updated_at = NOW()
+         RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+        [userId, namespace, targetKey, entry.content, tags, metadata, entry.expiresAt ?? null, keepExpiry]
+      );
+
+      await client.query(
+        `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())`,
+        [userId, namespace, targetKey, entry.content, action === 'overwrite' ? 'update' : 'create']
+      );
+
+      results.push({
+        namespace,
+        key: entry.key,
+        action,
+        ...(action === 'rename' && { newKey: targetKey }),
+        ...(changes && { changes }),
+        version: written.rows[0].version,
+      });
+      await options.onProgress?.(results.length, entries.length);
+    }
+
+    if (options.dryRun) {
+      await client.query('ROLLBACK');
+      return results;
+    }
+
+    await client.query('COMMIT');
+    for (const result of results) {
+      if (result.action === 'create' || result.action === 'overwrite' || result.action === 'rename') {
+        emitContextChange({
+          userId,
+          namespace: result.namespace,
+          key: result.newKey ?? result.key,
+          type: result.action === 'overwrite' ? 'updated' : 'created',
+        });
+      }
+    }
+
+    return results;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] importContext failed:', { userId, strategy, count: entries.length, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Every (unexpired) entry of a user, for export
+ * @param namespace - Only export this namespace (default: all)
+ * @returns Entries sorted by namespace, then key
+ */
+export async function exportContext(userId: string, namespace?: string): Promise<ContextEntry[]> {
+  const params: unknown[] = [userId];
+  let namespaceCondition = '';
+  if (namespace !== undefined) {
+    params.push(namespace);
+    namespaceCondition = 'AND namespace = $2';
+  }
+
+  const result = await query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+     FROM shared_context
+     WHERE user_id = $1 ${namespaceCondition} AND ${NOT_EXPIRED}
+     ORDER BY namespace, key`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * The full context history of a user, for export
+ * @param namespace - Only export this namespace (default: all)
+ * @returns History rows sorted by namespace, key, then oldest first
+ */
+export async function exportContextHistory(userId: string, namespace?: string): Promise<ContextHistoryEntry[]> {
+  const params: unknown[] = [userId];
+  let namespaceCondition = '';
+  if (namespace !== undefined) {
+    params.push(namespace);
+    namespaceCondition = 'AND namespace = $2';
+  }
+
+  const result = await query<ContextHistoryEntry>(
+    `SELECT id, key, namespace, content, user_id, action, restored_from, source_namespace, source_key, changed_at
+     FROM context_history
+     WHERE user_id = $1 AND ${CURRENT_HISTORY} ${namespaceCondition}
+     ORDER BY namespace, key, changed_at, id`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * Delete several context entries by key for a specific user in one transaction
+ * Each deleted entry moves to the trash and gets its own context_history row;
+ * keys that don't exist are reported as missing and don't fail the batch.
+ * @param options.dryRun - Run the deletes and roll back, reporting what would change
+ */
+export async function deleteManyContext(
+  userId: string,
+  keys: string[],
+  namespace = DEFAULT_NAMESPACE,
+  options: BatchOptions = {}
+): Promise<BatchDeleteResult> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const deleted: string[] = [];
+    const missing: string[] = [];
+    for (const [index, key] of keys.entries()) {
+      await purgeIfExpired(client, userId, namespace, key);
+      if (await trashContext(client, userId, namespace, key)) {
+        deleted.push(key);
+      } else {
+        missing.push(key);
+      }
+
+      await options.onProgress?.(index + 1, keys.length);
+    }
+
+    if (options.dryRun) {
+      await client.query('ROLLBACK');
+      return { deleted, missing };
+    }
+
+    await client.query('COMMIT');
+    for (const key of deleted) {
+      emitContextChange({ userId, namespace, key, type: 'deleted' });
+    }
+
+    return { deleted, missing };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] deleteManyContext failed:', { userId, namespace, count: keys.length, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Purge entries whose expiry has passed, across all users (used by the sweeper)
+ * Each purged entry gets an 'expire' context_history row. Rows locked by
+ * in-flight writes are skipped and picked up by a later run.
+ * @param limit - Maximum number of entries to purge in one run
+ * @returns The number of entries purged
+ */
+export async function purgeExpiredContext(limit = 500): Promise<number> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const expired = await client.query<{ user_id: string; namespace: string; key: string; content: string }>(
+      `DELETE FROM shared_context
+       WHERE ctid IN (
+         SELECT ctid FROM shared_context
+         WHERE expires_at <= NOW()
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING user_id, namespace, key, content`,
+      [limit]
+    );
+
+    if (expired.rows.length > 0) {
+      await client.query(
+        `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+         SELECT user_id, namespace, key, content, 'expire', NOW()
+         FROM UNNEST($1::TEXT[], $2::TEXT[], $3::TEXT[], $4::TEXT[]) AS t(user_id, namespace, key, content)`,
+        [
+          expired.rows.map(row => row.user_id),
+          expired.rows.map(row => row.namespace),
+          expired.rows.map(row => row.key),
+          expired.rows.map(row => row.content),
+        ]
+      );
+      await client.query(
+        `DELETE FROM context_grants g
+         USING UNNEST($1::TEXT[], $2::TEXT[], $3::TEXT[]) AS t(owner_id, namespace, key)
+         WHERE g.owner_id = t.owner_id AND g.namespace = t.namespace AND g.key = t.key`,
+        [
+          expired.rows.map(row => row.user_id),
+          expired.rows.map(row => row.namespace),
+          expired.rows.map(row => row.key),
+        ]
+      );
+      await client.query(
+        `UPDATE share_links l SET revoked_at = NOW()
+         FROM UNNEST($1::TEXT[], $2::TEXT[], $3::TEXT[]) AS t(owner_id, namespace, key)
+         WHERE l.owner_id = t.owner_id AND l.namespace = t.namespace AND l.key = t.key
+           AND l.revoked_at IS NULL`,
+        [
+          expired.rows.map(row => row.user_id),
+          expired.rows.map(row => row.namespace),
+          expired.rows.map(row => row.key),
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    for (const { user_id: userId, namespace, key } of expired.rows) {
+      emitContextChange({ userId, namespace, key, type: 'deleted' });
+    }
+
+    return expired.rows.length;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] purgeExpiredContext failed:', { error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================
+// Trash
+// ============================================
+
+/**
+ * List a user's trashed entries, most recently deleted first
+ * @param namespace - Only list entries deleted from this namespace (default: all)
+ * @param limit - Maximum number of results (default: 50, max: 200)
+ * @param filter - Optional tag/scope filter
+ */
+export async function listTrash(
+  userId: string,
+  namespace?: string,
+  limit = 50,
+  filter: ContextFilter = {}
+): Promise<TrashedContextInfo[]> {
+  const safeLimit = Math.min(Math.max(1, limit), 200);
+
+  const conditions = ['user_id = $1'];
+  const params: unknown[] = [userId];
+  if (namespace !== undefined) {
+    params.push(namespace);
+    conditions.push('namespace = $2');
+  }
+  addFilterConditions(filter, conditions, params);
+  params.push(safeLimit);
+
+  const result = await query<TrashedContextInfo>(
+    `SELECT id, key, namespace, version, tags, LEFT(content, ${TRASH_PREVIEW_LENGTH}) AS preview, deleted_at
+     FROM context_trash
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY deleted_at DESC, id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get a single trashed entry
+ * @returns The trash entry, or null if it doesn't exist for this user
+ */
+export async function getTrashedContext(userId: string, trashId: number): Promise<TrashedContextInfo | null> {
+  const result = await query<TrashedContextInfo>(
+    `SELECT id, key, namespace, version, tags, LEFT(content, ${TRASH_PREVIEW_LENGTH}) AS preview, deleted_at
+     FROM context_trash
+     WHERE id = $1 AND user_id = $2`,
+    [trashId, userId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Restore a trashed entry to the key it was deleted from
+ * The entry comes back with its tags, metadata and created_at (and its expiry,
+ * unless that has passed in the meantime); the restore is recorded in
+ * context_history and the trash row is removed.
+ * @throws ContextExistsError if the key has been taken again since the delete
+ * @returns The restored entry, or null if the trash entry doesn't exist for this user
+ */
+export async function restoreTrashedContext(userId: string, trashId: number): Promise<ContextEntry | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const trashedResult = await client.query<ContextEntry>(
+      `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+       FROM context_trash
+       WHERE id = $1 AND user_id = $2
+       FOR UPDATE`,
+      [trashId, userId]
+    );
+
+    if (trashedResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const trashed = trashedResult.rows[0];
+    await purgeIfExpired(client, userId, trashed.namespace, trashed.key);
+
+    const existingResult = await client.query<ContextEntry>(
+      `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+       FROM shared_context
+       WHERE user_id = $1 AND namespace = $2 AND key = $3
+       FOR UPDATE`,
+      [userId, trashed.namespace, trashed.key]
+    );
+    if (existingResult.rows.length > 0) {
+      throw new ContextExistsError(existingResult.rows[0]);
+    }
+
+    const entryResult = await client.query<ContextEntry>(
+      `INSERT INTO shared_context (user_id, namespace, key, content, version, tags, metadata, expires_at, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, CASE WHEN $8::TIMESTAMPTZ > NOW() THEN $8::TIMESTAMPTZ END, $9, NOW())
+       RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+      [
+        userId,
+        trashed.namespace,
+        trashed.key,
+        trashed.content,
+        trashed.version + 1,
+        trashed.tags,
+        trashed.metadata,
+        trashed.expires_at,
+        trashed.created_at,
+      ]
+    );
+
+    await client.query('DELETE FROM context_trash WHERE id = $1', [trashId]);
+
+    // The history detached by the delete comes back with the entry
+    await client.query(
+      'UPDATE context_history SET trash_id = NULL WHERE user_id = $1 AND trash_id = $2',
+      [userId, trashId]
+    );
+    await client.query(
+      `INSERT INTO context_history (user_id, namespace, key, content, action, changed_at)
+       VALUES ($1, $2, $3, $4, 'restore', NOW())`,
+      [userId, trashed.namespace, trashed.key, trashed.content]
+    );
+
+    await client.query('COMMIT');
+    emitContextChange({ userId, namespace: trashed.namespace, key: trashed.key, type: 'created' });
+
+    return entryResult.rows[0];
+  } catch (err) {
+    await client.query('ROLLBACK');
+    if (err instanceof ContextExistsError) {
+      throw err;
+    }
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] restoreTrashedContext failed:', { userId, trashId, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Deletes the trash rows chosen by the purged CTE together with the history
+// detached into them (see trashContext), counting the trash rows
+const DELETE_TRASH_WITH_HISTORY = `,
+  history AS (DELETE FROM context_history WHERE trash_id IN (SELECT id FROM purged))
+  SELECT COUNT(*)::INTEGER AS count FROM purged`;
+
+/**
+ * Permanently delete one trashed entry and its history
+ * @returns true if deleted, false if not found
+ */
+export async function deleteTrashedContext(userId: string, trashId: number): Promise<boolean> {
+  const result = await query<{ count: number }>(
+    `WITH purged AS (DELETE FROM context_trash WHERE id = $1 AND user_id = $2 RETURNING id)${DELETE_TRASH_WITH_HISTORY}`,
+    [trashId, userId]
+  );
+
+  return result.rows[0].count > 0;
+}
+
+/**
+ * Permanently delete everything in a user's trash, with its history
+ * @returns The number of entries deleted
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  const result = await query<{ count: number }>(
+    `WITH purged AS (DELETE FROM context_trash WHERE user_id = $1 RETURNING id)${DELETE_TRASH_WITH_HISTORY}`,
+    [userId]
+  );
+
+  return result.rows[0].count;
+}
+
+/**
+ * Permanently delete trashed entries older than the retention window, with
+ * their history, across all users (used by the trash purger)
+ * @param retentionDays - How long entries stay restorable
+ * @param limit - Maximum number of entries to purge in one run
+ * @returns The number of entries purged
+ */
+export async function purgeTrash(retentionDays: number, limit = 500): Promise<number> {
+  const result = await query<{ count: number }>(
+    `WITH purged AS (
+       DELETE FROM context_trash
+       WHERE id IN (
+         SELECT id FROM context_trash
+         WHERE deleted_at <= NOW() - make_interval(days => $1)
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id
+     )${DELETE_TRASH_WITH_HISTORY}`,
+    [retentionDays, limit]
+  );
+
+  return result.rows[0].count;
+}
+
+/**
+ * Append WHERE conditions for a ContextFilter to a query's conditions/params
+ */
+function addFilterConditions(filter: ContextFilter, conditions: string[], params: unknown[]): void {
+  if (filter.tags && filter.tags.length > 0) {
+    params.push(filter.tags);
+    conditions.push(`tags @> $${params.length}::TEXT[]`);
+  }
+  if (filter.metadata && Object.keys(filter.metadata).length > 0) {
+    params.push(JSON.stringify(filter.metadata));
+    conditions.push(`metadata @> $${params.length}::JSONB`);
+  }
+  if (filter.allowedNamespaces) {
+    params.push(filter.allowedNamespaces);
+    conditions.push(`namespace = ANY($${params.length})`);
+  }
+  if (filter.allowedKeys) {
+    params.push(filter.allowedKeys.map(globToLikePattern));
+    conditions.push(`key LIKE ANY($${params.length})`);
+  }
+}
+
+// Position of a row in (updated_at DESC, key ASC) order. updated_at is kept
+// as epoch microseconds because JS Dates would truncate it to milliseconds.
+interface CursorPosition {
+  updatedAtMicros: string;
+  key: string;
+}
+
+// Selected alongside listing columns to build the next cursor
+const CURSOR_POSITION_COLUMN = `(EXTRACT(EPOCH FROM updated_at) * 1000000)::BIGINT::TEXT AS cursor_position`;
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.updatedAtMicros, position.key])).toString('base64url');
+}
+
+/**
+ * @throws InvalidCursorError if the cursor wasn't produced by encodeCursor
+ */
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'string' &&
+      /^-?\d+$/.test(decoded[0]) &&
+      typeof decoded[1] === 'string'
+    ) {
+      return { updatedAtMicros: decoded[0], key: decoded[1] };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Append the WHERE condition that skips rows up to and including the cursor
+ */
+function addCursorCondition(cursor: string | undefined, conditions: string[], params: unknown[]): void {
+  if (!cursor) {
+    return;
+  }
+  const position = decodeCursor(cursor);
+  params.push(position.updatedAtMicros, position.key);
+  const at = `TIMESTAMPTZ 'epoch' + $${params.length - 1}::BIGINT * INTERVAL '1 microsecond'`;
+  conditions.push(`(updated_at < ${at} OR (updated_at = ${at} AND key > $${params.length}))`);
+}
+
+/**
+ * Split a limit+1 result into a page, building the cursor from the last row kept
+ */
+function toPage<T extends { key: string }>(
+  rows: Array<T & { cursor_position: string }>,
+  limit: number
+): ContextPage<T> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    entries: pageRows.map(({ cursor_position: _position, ...entry }) => entry as unknown as T),
+    nextCursor: hasMore ? encodeCursor({ updatedAtMicros: last.cursor_position, key: last.key }) : null,
+  };
+}
+
+/**
+ * List a page of context keys with metadata for a specific user
+ * @param userId - The user ID
+ * @param limit - Maximum number of results (default: 50, max: 200)
+ * @param search - Optional search term to filter keys (case-insensitive)
+ * @param namespace - Namespace to list (default: 'default')
+ * @param filter - Optional tag/metadata/scope filter
+ * @param cursor - nextCursor of the previous page (omit for the first page)
+ * @throws InvalidCursorError if the cursor is malformed
+ * @returns Key info sorted by updated_at DESC, then key, and the next page's cursor
+ */
+export async function listContextKeysPage(
+  userId: string,
+  limit = 50,
+  search?: string,
+  namespace = DEFAULT_NAMESPACE,
+  filter: ContextFilter = {},
+  cursor?: string
+): Promise<ContextPage<ContextKeyInfo>> {
+  // Enforce limits
+  const safeLimit = Math.min(Math.max(1, limit), 200);
+
+  const conditions = ['user_id = $1', 'namespace = $2', NOT_EXPIRED];
+  const params: unknown[] = [userId, namespace];
+
+  if (search) {
+    // Escape LIKE wildcards in search string to prevent SQL injection
+    const escapedSearch = search
+      .replace(/\\/g, '\\\\')
+      .replace(/%/g, '\\%')
+      .replace(/_/g, '\\_');
+
+    params.push(`%${escapedSearch}%`);
+    conditions.push(`key ILIKE $${params.length}`);
+  }
+
+  addFilterConditions(filter, conditions, params);
+  addCursorCondition(cursor, conditions, params);
+  // One extra row tells whether there is a next page
+  params.push(safeLimit + 1);
+
+  const result = await query<ContextKeyInfo & { cursor_position: string }>(
+    `SELECT key, tags, expires_at, updated_at, ${CURSOR_POSITION_COLUMN}
+     FROM shared_context
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY updated_at DESC, key
+     LIMIT $${params.length}`,
+    params
+  );
+  return toPage(result.rows, safeLimit);
+}
+
+/**
+ * List context keys with metadata for a specific user (first page only)
+ * @param userId - The user ID
+ * @param limit - Maximum number of results (default: 50, max: 200)
+ * @param search - Optional search term to filter keys (case-insensitive)
+ * @param namespace - Namespace to list (default: 'default')
+ * @param filter - Optional tag/metadata/scope filter
+ * @returns Array of key info sorted by updated_at DESC
+ */
+export async function listContextKeys(
+  userId: string,
+  limit = 50,
+  search?: string,
+  namespace = DEFAULT_NAMESPACE,
+  filter: ContextFilter = {}
+): Promise<ContextKeyInfo[]> {
+  return (await listContextKeysPage(userId, limit, search, namespace, filter)).entries;
+}
+
+/**
+ * Get a page of context entries with content for a specific user
+ * @param userId - The user ID
+ * @param limit - Maximum number of results (default: 20, max: 50)
+ * @param namespace - Namespace to read (default: 'default')
+ * @param filter - Optional tag/metadata/scope filter
+ * @param cursor - nextCursor of the previous page (omit for the first page)
+ * @throws InvalidCursorError if the cursor is malformed
+ * @returns Full context entries sorted by updated_at DESC, then key, and the next page's cursor
+ */
+export async function getAllContextPage(
+  userId: string,
+  limit = 20,
+  namespace = DEFAULT_NAMESPACE,
+  filter: ContextFilter = {},
+  cursor?: string
+): Promise<ContextPage<ContextEntry>> {
+  // Enforce limits (lower than listContextKeys since we're returning content)
+  const safeLimit = Math.min(Math.max(1, limit), 50);
+
+  const conditions = ['user_id = $1', 'namespace = $2', NOT_EXPIRED];
+  const params: unknown[] = [userId, namespace];
+  addFilterConditions(filter, conditions, params);
+  addCursorCondition(cursor, conditions, params);
+  params.push(safeLimit + 1);
+
+  const result = await query<ContextEntry & { cursor_position: string }>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at, ${CURSOR_POSITION_COLUMN}
+     FROM shared_context
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY updated_at DESC, key
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return toPage(result.rows, safeLimit);
+}
+
+/**
+ * Get all context entries with content for a specific user (first page only)
+ * @param userId - The user ID
+ * @param limit - Maximum number of results (default: 20, max: 50)
+ * @param namespace - Namespace to read (default: 'default')
+ * @param filter - Optional tag/metadata/scope filter
+ * @returns Array of full context entries sorted by updated_at DESC
+ */
+export async function getAllContext(
+  userId: string,
+  limit = 20,
+  namespace = DEFAULT_NAMESPACE,
+  filter: ContextFilter = {}
+): Promise<ContextEntry[]> {
+  return (await getAllContextPage(userId, limit, namespace, filter)).entries;
+}
+
+// Result of a batch read by keys and glob patterns
+export interface ManyContextResult {
+  // Found entries in request order (pattern matches sorted by key), within the byte budget
+  entries: ContextEntry[];
+  // Requested keys that don't exist and patterns that matched nothing
+  missing: string[];
+  // Keys that were found but left out because they didn't fit the byte budget
+  omitted: string[];
+  // Whether patterns matched more than MAX_BATCH_ROWS entries, so some matches were not read
+  truncated: boolean;
+  totalBytes: number;
+}
+
+// Upper bound on rows a batch read considers (patterns can match many entries;
+// exact keys are fetched first so they are never crowded out)
+const MAX_BATCH_ROWS = 500;
+
+function isKeyGlob(selector: string): boolean {
+  return /[*?]/.test(selector);
+}
+
+/**
+ * Translate a key glob (* and ?) into a LIKE pattern, escaping LIKE wildcards
+ */
+function globToLikePattern(glob: string): string {
+  return glob
+    .replace(/\\/g, '\\\\')
+    .replace(/%/g, '\\%')
+    .replace(/_/g, '\\_')
+    .replace(/\*/g, '%')
+    .replace(/\?/g, '_');
+}
+
+/**
+ * Read the entries named by a list of keys and glob patterns in one query
+ * Entries are returned in request order until the byte budget (UTF-8 bytes of
+ * content) is used up; later entries that don't fit are listed as omitted.
+ * Patterns match at most MAX_BATCH_ROWS entries; truncated is set when more exist.
+ * @param userId - The user ID
+ * @param selectors - Keys and glob patterns such as "arch.*"
+ * @param namespace - Namespace to read (default: 'default')
+ * @param maxBytes - Byte budget for the returned content
+ * @param filter - Optional scope filter; entries outside it are treated as missing
+ */
+export async function readManyContext(
+  userId: string,
+  selectors: string[],
+  namespace = DEFAULT_NAMESPACE,
+  maxBytes = 102400,
+  filter: ContextFilter = {}
+): Promise<ManyContextResult> {
+  const keys = selectors.filter(selector => !isKeyGlob(selector));
+  const globs = selectors.filter(isKeyGlob);
+
+  const conditions = ['user_id = $1', 'namespace = $3', NOT_EXPIRED, '(key = ANY($2) OR key LIKE ANY($4))'];
+  const params: unknown[] = [userId, keys, namespace, globs.map(globToLikePattern)];
+  addFilterConditions(filter, conditions, params);
+  params.push(MAX_BATCH_ROWS + 1);
+
+  const result = await query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+     FROM shared_context
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY key = ANY($2) DESC, key
+     LIMIT $${params.length}`,
+    params
+  );
+
+  // One row past the cap tells us matches were cut off
+  const truncated = result.rows.length > MAX_BATCH_ROWS;
+  const rows = result.rows.slice(0, MAX_BATCH_ROWS);
+  const byKey = new Map(rows.map(row => [row.key, row]));
+  const ordered: ContextEntry[] = [];
+  const seen = new Set<string>();
+  const missing: string[] = [];
+
+  for (const selector of selectors) {
+    const matches = isKeyGlob(selector)
+      ? rows.filter(row => keyGlobToRegExp(selector).test(row.key))
+      : [byKey.get(selector)].filter((row): row is ContextEntry => row !== undefined);
+
+    if (matches.length === 0) {
+      missing.push(selector);
+    }
+    for (const match of matches) {
+      if (!seen.has(match.key)) {
+        seen.add(match.key);
+        ordered.push(match);
+      }
+    }
+  }
+
+  // Fill the budget in order, skipping entries too large for what's left
+  const entries: ContextEntry[] = [];
+  const omitted: string[] = [];
+  let totalBytes = 0;
+  for (const entry of ordered) {
+    const size = Buffer.byteLength(entry.content, 'utf8');
+    if (totalBytes + size > maxBytes) {
+      omitted.push(entry.key);
+      continue;
+    }
+    entries.push(entry);
+    totalBytes += size;
+  }
+
+  return { entries, missing, omitted, truncated, totalBytes };
+}
+
+/**
+ * Get the most recently updated entries across all of a user's namespaces
+ * @param userId - The user ID
+ * @param limit - Maximum number of results (default: 100, max: 200)
+ * @param filter - Optional tag/metadata/scope filter
+ * @returns Array of full context entries sorted by updated_at DESC
+ */
+export async function listRecentContext(userId: string, limit = 100, filter: ContextFilter = {}): Promise<ContextEntry[]> {
+  const safeLimit = Math.min(Math.max(1, limit), 200);
+
+  const conditions = ['user_id = $1', NOT_EXPIRED];
+  const params: unknown[] = [userId];
+  addFilterConditions(filter, conditions, params);
+  params.push(safeLimit);
+
+  const result = await query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+     FROM shared_context
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY updated_at DESC, namespace, key
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get all entries with a tag across all of a user's namespaces
+ * @param userId - The user ID
+ * @param tag - The tag to match
+ * @param limit - Maximum number of results (default: 100, max: 200)
+ * @returns Array of full context entries sorted by namespace, then key
+ */
+export async function listContextByTag(userId: string, tag: string, limit = 100): Promise<ContextEntry[]> {
+  const safeLimit = Math.min(Math.max(1, limit), 200);
+
+  const result = await query<ContextEntry>(
+    `SELECT key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at
+     FROM shared_context
+     WHERE user_id = $1 AND $2 = ANY(tags) AND ${NOT_EXPIRED}
+     ORDER BY namespace, key
+     LIMIT $3`,
+    [userId, tag, safeLimit]
+  );
+
+  return result.rows;
+}
+
+// Strict query: websearch syntax ("quoted phrases", -exclusions, or), all terms required
+const SEARCH_QUERY_ALL = `websearch_to_tsquery('english', $3)`;
+// Fallback query: the same words, any of them may match
+const SEARCH_QUERY_ANY = `replace(plainto_tsquery('english', $3)::TEXT, ' & ', ' | ')::TSQUERY`;
+// Phrases, exclusions and explicit or are taken literally, so they never fall back
+const SEARCH_OPERATOR_PATTERN = /"|(^|\s)-\S|\sor\s/i;
+
+const HEADLINE_OPTIONS =
+  `StartSel=${SEARCH_HIGHLIGHT}, StopSel=${SEARCH_HIGHLIGHT}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+async function runContextSearch(
+  userId: string,
+  searchQuery: string,
+  tsquery: string,
+  namespace: string,
+  limit: number,
+  filter: ContextFilter
+): Promise<ContextSearchHit[]> {
+  const conditions = ['user_id = $1', 'namespace = $2', NOT_EXPIRED, 'search_vector @@ q.query'];
+  const params: unknown[] = [userId, namespace, searchQuery];
+  addFilterConditions(filter, conditions, params);
+  params.push(limit);
+
+  // Rank and limit first so snippets are only generated for the returned rows
+  const result = await query<ContextSearchHit>(
+    `SELECT key, namespace, tags, rank, updated_at,
+            ts_headline('english', content, query, '${HEADLINE_OPTIONS}') AS snippet
+     FROM (
+       SELECT key, namespace, tags, content, updated_at, q.query,
+              ts_rank_cd(search_vector, q.query, 32) AS rank
+       FROM shared_context, (SELECT ${tsquery} AS query) q
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY rank DESC, updated_at DESC
+       LIMIT $${params.length}
+     ) ranked
+     ORDER BY rank DESC, updated_at DESC`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * Full-text search over keys and content for a specific user
+ * Entries matching every term are preferred; if none do (and the query uses
+ * no phrases/exclusions/or), entries matching any term are returned instead (match = 'any').
+ * @param userId - The user ID
+ * @param searchQuery - Search text (supports "phrases", -exclusions and or)
+ * @param namespace - Namespace to search (default: 'default')
+ * @param limit - Maximum number of hits (default: 10, max: 50)
+ * @param filter - Optional tag/metadata/scope filter
+ * @returns Hits sorted by rank DESC, then updated_at DESC
+ */
+export async function searchContext(
+  userId: string,
+  searchQuery: string,
+  namespace = DEFAULT_NAMESPACE,
+  limit = 10,
+  filter: ContextFilter = {}
+): Promise<ContextSearchResult> {
+  const safeLimit = Math.min(Math.max(1, limit), 50);
+
+  const hits = await runContextSearch(userId, searchQuery, SEARCH_QUERY_ALL, namespace, safeLimit, filter);
+  if (hits.length > 0 || SEARCH_OPERATOR_PATTERN.test(searchQuery)) {
+    return { hits, match: 'all' };
+  }
+
+  return {
+    hits: await runContextSearch(userId, searchQuery, SEARCH_QUERY_ANY, namespace, safeLimit, filter),
+    match: 'any',
+  };
+}
+
+// Entries are (re-)embedded in batches of this size, up to the cap per search
+const EMBED_BATCH_SIZE = 50;
+const MAX_EMBEDS_PER_SEARCH = 1000;
+// Hits below this similarity are noise rather than related content
+const MIN_SEMANTIC_SCORE = 0.1;
+const SEMANTIC_PREVIEW_LENGTH = 240;
+
+/**
+ * Embed entries in a namespace whose vector is missing or from another model
+ * (edited/restored entries, rows from before semantic search, provider switches)
+ */
+async function embedStaleEntries(userId: string, namespace: string, model: string): Promise<void> {
+  const provider = getEmbeddingProvider();
+
+  for (let embedded = 0; embedded < MAX_EMBEDS_PER_SEARCH; embedded += EMBED_BATCH_SIZE) {
+    const stale = await query<{ key: string; content: string; version: number }>(
+      `SELECT key, content, version
+       FROM shared_context
+       WHERE user_id = $1 AND namespace = $2 AND ${NOT_EXPIRED} AND embedding_model IS DISTINCT FROM $3
+       ORDER BY updated_at DESC
+       LIMIT $4`,
+      [userId, namespace, model, EMBED_BATCH_SIZE]
+    );
+    if (stale.rows.length === 0) {
+      return;
+    }
+
+    const vectors = await provider.embed(stale.rows.map((row) => embeddingText(row.key, row.content)));
+
+    // Skip rows written since they were read; the writer stored (or cleared) their vector
+    for (const [i, row] of stale.rows.entries()) {
+      await query(
+        `UPDATE shared_context
+         SET embedding = $5, embedding_model = $6
+         WHERE user_id = $1 AND namespace = $2 AND key = $3 AND version = $4`,
+        [userId, namespace, row.key, row.version, vectors[i], model]
+      );
+    }
+  }
+}
+
+/**
+ * Semantic search: rank entries by embedding similarity to the query
+ * Entries without a current embedding are embedded first.
+ * @param userId - The user ID
+ * @param searchQuery - Natural language query
+ * @param namespace - Namespace to search (default: 'default')
+ * @param limit - Maximum number of hits (default: 10, max: 50)
+ * @param filter - Optional tag/metadata/scope filter
+ * @returns Hits sorted by score DESC, then updated_at DESC
+ */
+export async function semanticSearchContext(
+  userId: string,
+  searchQuery: string,
+  namespace = DEFAULT_NAMESPACE,
+  limit = 10,
+  filter: ContextFilter = {}
+): Promise<SemanticSearchHit[]> {
+  const safeLimit = Math.min(Math.max(1, limit), 50);
+  const provider = getEmbeddingProvider();
+  const model = embeddingModelId(provider);
+
+  await embedStaleEntries(userId, namespace, model);
+  const [queryVector] = await provider.embed([searchQuery]);
+
+  const conditions = ['user_id = $1', 'namespace = $2', NOT_EXPIRED, 'embedding_model = $3'];
+  const params: unknown[] = [userId, namespace, model, queryVector];
+  addFilterConditions(filter, conditions, params);
+  params.push(MIN_SEMANTIC_SCORE, safeLimit);
+
+  // Vectors are normalized, so the dot product is the cosine similarity
+  const result = await query<SemanticSearchHit>(
+    `SELECT key, namespace, tags, score, LEFT(content, ${SEMANTIC_PREVIEW_LENGTH}) AS preview, updated_at
+     FROM (
+       SELECT key, namespace, tags, content, updated_at,
+              (SELECT SUM(a * b) FROM UNNEST(embedding, $4::REAL[]) AS v(a, b)) AS score
+       FROM shared_context
+       WHERE ${conditions.join(' AND ')}
+     ) scored
+     WHERE score >= $${params.length - 1}
+     ORDER BY score DESC, updated_at DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows;
+}
+
+/**
+ * List the tags used in a namespace, with entry counts
+ * @returns Array of tag info sorted by count DESC, then name
+ */
+export async function listTags(
+  userId: string,
+  namespace = DEFAULT_NAMESPACE
+): Promise<TagInfo[]> {
+  const result = await query<TagInfo>(
+    `SELECT tag, COUNT(*)::INTEGER AS entry_count
+     FROM shared_context, UNNEST(tags) AS tag
+     WHERE user_id = $1 AND namespace = $2 AND ${NOT_EXPIRED}
+     GROUP BY tag
+     ORDER BY entry_count DESC, tag`,
+    [userId, namespace]
+  );
+
+  return result.rows;
+}
+
+/**
+ * List the namespaces a user has entries in, with entry counts
+ * The default namespace is always included so clients have somewhere to start
+ * @returns Array of namespace info sorted by name
+ */
+export async function listNamespaces(userId: string): Promise<NamespaceInfo[]> {
+  const result = await query<NamespaceInfo>(
+    `SELECT namespace, COUNT(*) as entry_count, MAX(updated_at) as updated_at
+     FROM shared_context
+     WHERE user_id = $1 AND ${NOT_EXPIRED}
+     GROUP BY namespace
+     ORDER BY namespace`,
+    [userId]
+  );
+
+  const namespaces = result.rows.map(row => ({
+    ...row,
+    entry_count: Number(row.entry_count),
+  }));
+
+  if (!namespaces.some(ns => ns.namespace === DEFAULT_NAMESPACE)) {
+    namespaces.unshift({ namespace: DEFAULT_NAMESPACE, entry_count: 0, updated_at: null });
+  }
+
+  return namespaces;
+}
+
+// Result of a key-name prefix lookup
+export interface KeyCompletion {
+  keys: string[];
+  total: number;
+}
+
+/**
+ * Find key names starting with a prefix (case-insensitive)
+ * @param userId - The user ID
+ * @param prefix - The typed prefix (may be empty)
+ * @param namespace - Restrict to one namespace; omit to search all of them
+ * @param limit - Maximum number of keys returned (default: 100, max: 100)
+ * @param filter - Optional scope filter
+ * @returns Matching keys sorted alphabetically, and the total match count
+ */
+export async function completeContextKeys(
+  userId: string,
+  prefix: string,
+  namespace?: string,
+  limit = 100,
+  filter: ContextFilter = {}
+): Promise<KeyCompletion> {
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+
+  const conditions = ['user_id = $1', NOT_EXPIRED, 'starts_with(lower(key), lower($2))'];
+  const params: unknown[] = [userId, prefix];
+  if (namespace !== undefined) {
+    params.push(namespace);
+    conditions.push(`namespace = $${params.length}`);
+  }
+  addFilterConditions(filter, conditions, params);
+  params.push(safeLimit);
+
+  // The same key may exist in several namespaces; count it once
+  const result = await query<{ key: string; total: string }>(
+    `SELECT key, COUNT(*) OVER() as total
+     FROM shared_context
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY key
+     ORDER BY key
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return {
+    keys: result.rows.map(row => row.key),
+    total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+  };
+}
+
+/**
+ * Get the key names in a namespace, e.g. to suggest alternatives for a mistyped key
+ * @param limit - Maximum number of keys (default: 5000)
+ * @returns Key names sorted by most recently updated first
+ */
+export async function listKeyNames(
+  userId: string,
+  namespace = DEFAULT_NAMESPACE,
+  limit = 5000
+): Promise<string[]> {
+  const result = await query<{ key: string }>(
+    `SELECT key
+     FROM shared_context
+     WHERE user_id = $1 AND namespace = $2 AND ${NOT_EXPIRED}
+     ORDER BY updated_at DESC
+     LIMIT $3`,
+    [userId, namespace, limit]
+  );
+
+  return result.rows.map(row => row.key);
+}
+
+/**
+ * Get history entries for a specific key and user
+ * @param userId - The user ID
+ * @param key - The context key
+ * @param limit - Maximum number of results (default: 10)
+ * @param namespace - Namespace of the entry (default: 'default')
+ * @returns Array of history entries sorted by changed_at DESC
+ */
+export async function getContextHistory(
+  userId: string,
+  key: string,
+  limit = 10,
+  namespace = DEFAULT_NAMESPACE
+): Promise<ContextHistoryEntry[]> {
+  const result = await query<ContextHistoryEntry>(
+    `SELECT id, key, namespace, content, user_id, action, restored_from, source_namespace, source_key, changed_at
+     FROM context_history
+     WHERE user_id = $1 AND namespace = $2 AND key = $3 AND ${CURRENT_HISTORY}
+     ORDER BY changed_at DESC, id DESC
+     LIMIT $4`,
+    [userId, namespace, key, limit]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Restore a context entry to the content of one of its history versions
+ * Works for deleted entries too (the delete row holds the final content);
+ * their trash row is removed.
+ * Records the restore in context_history within a transaction.
+ * @returns The restored context entry, or null if the history version doesn't
+ *          exist for this user, namespace and key
+ */
+export async function restoreContextVersion(
+  userId: string,
+  key: string,
+  historyId: number,
+  namespace = DEFAULT_NAMESPACE
+): Promise<ContextEntry | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await purgeIfExpired(client, userId, namespace, key);
+
+    // Look up the version, scoped to the same user and entry
+    const versionResult = await client.query<{ content: string }>(
+      `SELECT content FROM context_history
+       WHERE id = $1 AND user_id = $2 AND namespace = $3 AND key = $4 AND ${CURRENT_HISTORY}`,
+      [historyId, userId, namespace, key]
+    );
+
+    if (versionResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const content = versionResult.rows[0].content;
+
+    // Restoring a deleted entry re-creates it
+    const existingResult = await client.query(
+      'SELECT 1 FROM shared_context WHERE user_id = $1 AND namespace = $2 AND key = $3 FOR UPDATE',
+      [userId, namespace, key]
+    );
+
+    const upsertResult = await client.query<ContextEntry>(
+      `INSERT INTO shared_context (user_id, namespace, key, content, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, NOW(), NOW())
+       ON CONFLICT (user_id, namespace, key) DO UPDATE SET
+         content = EXCLUDED.content,
+         embedding = NULL,
+         embedding_model = NULL,
+         version = shared_context.version + 1,
+         updated_at = NOW()
+       RETURNING key, namespace, content, user_id, version, tags, metadata, expires_at, created_at, updated_at`,
+      [userId, namespace, key, content]
+    );
+
+    // A re-created entry is no longer in the trash (its latest delete put it there),
+    // and the history detached by that delete comes back with it
+    if (existingResult.rows.length === 0) {
+      const trashed = await client.query<{ id: number }>(
+        `DELETE FROM context_trash
+         WHERE id = (
+           SELECT id FROM context_trash
+           WHERE user_id = $1 AND namespace = $2 AND key = $3
+           ORDER BY deleted_at DESC, id DESC
+           LIMIT 1
+         )
+         RETURNING id`,
+        [userId, namespace, key]
+      );
+      if (trashed.rows.length > 0) {
+        await client.query(
+          'UPDATE context_history SET trash_id = NULL WHERE user_id = $1 AND trash_id = $2',
+          [userId, trashed.rows[0].id]
+        );
+      }
+    }
+
+    // Record the restore as its own history action, linked to the source version
+    await client.query(
+      `INSERT INTO context_history (user_id, namespace, key, content, action, restored_from, changed_at)
+       VALUES ($1, $2, $3, $4, 'restore', $5, NOW())`,
+      [userId, namespace, key, content, historyId]
+    );
+
+    await client.query('COMMIT');
+    emitContextChange({ userId, namespace, key, type: existingResult.rows.length > 0 ? 'updated' : 'created' });
+
+    return upsertResult.rows[0];
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] restoreContextVersion failed:', { userId, namespace, key, historyId, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================
+// Team Functions
+// ============================================
+
+export type TeamRole = 'owner' | 'editor' | 'viewer';
+
+export interface Team {
+  id: number;
+  slug: string;
+  name: string;
+  created_at: Date;
+}
+
+// A team as seen by one of its members
+export interface TeamMembership extends Team {
+  role: TeamRole;
+}
+
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  role: TeamRole;
+  joined_at: Date;
+}
+
+/**
+ * Thrown when a membership change is not allowed (already a member,
+ * or it would leave the team without an owner)
+ */
+export class TeamMembershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeamMembershipError';
+  }
+}
+
+/**
+ * Owner id under which a team's context, history and trash are stored
+ * (in place of a user id; user ids can't contain ':')
+ */
+export function teamOwnerId(teamId: number): string {
+  return `team:${teamId}`;
+}
+
+/**
+ * Create a team with the creating user as its owner
+ * @returns The new team, or null if the slug is taken
+ */
+export async function createTeam(userId: string, slug: string, name: string): Promise<TeamMembership | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query<Team>(
+      `INSERT INTO teams (slug, name, created_by)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (slug) DO NOTHING
+       RETURNING id, slug, name, created_at`,
+      [slug, name, userId]
+    );
+    const team = result.rows[0];
+    if (!team) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      `INSERT INTO team_members (team_id, user_id, role) VALUES ($1, $2, 'owner')`,
+      [team.id, userId]
+    );
+
+    await client.query('COMMIT');
+    return { ...team, role: 'owner' };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] createTeam failed:', { userId, slug, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * List the teams a user belongs to, by name
+ */
+export async function listTeamMemberships(userId: string): Promise<TeamMembership[]> {
+  const result = await query<TeamMembership>(
+    `SELECT t.id, t.slug, t.name, t.created_at, m.role
+     FROM team_members m
+     JOIN teams t ON t.id = m.team_id
+     WHERE m.user_id = $1
+     ORDER BY t.name, t.slug`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * List a team's members, owners first
+ */
+export async function listTeamMembers(teamId: number): Promise<TeamMember[]> {
+  const result = await query<TeamMember>(
+    `SELECT m.user_id, u.email, m.role, m.created_at AS joined_at
+     FROM team_members m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.team_id = $1
+     ORDER BY CASE m.role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, u.email`,
+    [teamId]
+  );
+  return result.rows;
+}
+
+/**
+ * The users whose workspace an owner id is: the user itself, or a team's members
+ */
+export async function listWorkspaceUserIds(ownerId: string): Promise<string[]> {
+  if (!ownerId.startsWith('team:')) {
+    return [ownerId];
+  }
+
+  const result = await query<{ user_id: string }>(
+    `SELECT user_id FROM team_members WHERE 'team:' || team_id = $1`,
+    [ownerId]
+  );
+  return result.rows.map((row) => row.user_id);
+}
+
+/**
+ * Add the user with the given email to a team
+ * @returns The new member, or null if no user has that email
+ * @throws TeamMembershipError if the user is already a member
+ */
+export async function addTeamMember(teamId: number, email: string, role: TeamRole): Promise<TeamMember | null> {
+  const user = await getUserByEmail(email);
+  if (!user) {
+    return null;
+  }
+
+  const result = await query<{ created_at: Date }>(
+    `INSERT INTO team_members (team_id, user_id, role)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (team_id, user_id) DO NOTHING
+     RETURNING created_at`,
+    [teamId, user.id, role]
+  );
+  if (result.rows.length === 0) {
+    throw new TeamMembershipError(`${user.email} is already a member of this team`);
+  }
+
+  return { user_id: user.id, email: user.email, role, joined_at: result.rows[0].created_at };
+}
+
+/**
+ * Change a member's role or remove them, keeping at least one owner
+ * @param role - The new role, or null to remove the member
+ * @returns false if the user isn't a member
+ */
+async function changeTeamMembership(teamId: number, userId: string, role: TeamRole | null): Promise<boolean> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the team so concurrent changes can't remove the last owner together
+    await client.query('SELECT 1 FROM teams WHERE id = $1 FOR UPDATE', [teamId]);
+
+    const current = await client.query<{ role: TeamRole }>(
+      'SELECT role FROM team_members WHERE team_id = $1 AND user_id = $2',
+      [teamId, userId]
+    );
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    if (current.rows[0].role === 'owner' && role !== 'owner') {
+      const owners = await client.query(
+        `SELECT 1 FROM team_members WHERE team_id = $1 AND role = 'owner'`,
+        [teamId]
+      );
+      if (owners.rows.length === 1) {
+        throw new TeamMembershipError('A team needs at least one owner; make someone else an owner first');
+      }
+    }
+
+    if (role === null) {
+      await client.query('DELETE FROM team_members WHERE team_id = $1 AND user_id = $2', [teamId, userId]);
+    } else {
+      await client.query(
+        'UPDATE team_members SET role = $3 WHERE team_id = $1 AND user_id = $2',
+        [teamId, userId, role]
+      );
+    }
+
+    await client.query('COMMIT');
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    if (!(err instanceof TeamMembershipError)) {
+      console.error('[queries] changeTeamMembership failed:', { teamId, userId, role, error: error.message });
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Change a member's role
+ * @returns false if the user isn't a member
+ * @throws TeamMembershipError if this would demote the last owner
+ */
+export async function updateTeamMemberRole(teamId: number, userId: string, role: TeamRole): Promise<boolean> {
+  return changeTeamMembership(teamId, userId, role);
+}
+
+/**
+ * Remove a member from a team
+ * @returns false if the user isn't a member
+ * @throws TeamMembershipError if they are the last owner
+ */
+export async function removeTeamMember(teamId: number, userId: string): Promise<boolean> {
+  return changeTeamMembership(teamId, userId, null);
+}
+
+/**
+ * Delete a team and its context, history and trash within the caller's transaction
+ * @returns true if deleted, false if not found
+ */
+async function deleteTeamData(client: pg.PoolClient, teamId: number): Promise<boolean> {
+  const ownerId = teamOwnerId(teamId);
+
+  await client.query('DELETE FROM context_history WHERE user_id = $1', [ownerId]);
+  await client.query('DELETE FROM shared_context WHERE user_id = $1', [ownerId]);
+  await client.query('DELETE FROM context_trash WHERE user_id = $1', [ownerId]);
+  await client.query('DELETE FROM context_grants WHERE owner_id = $1', [ownerId]);
+  await client.query('DELETE FROM share_links WHERE owner_id = $1', [ownerId]);
+
+  // Memberships and grants to the team go with it (ON DELETE CASCADE)
+  const result = await client.query('DELETE FROM teams WHERE id = $1', [teamId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Delete a team with all of its context, history and trash
+ * @returns true if deleted, false if not found
+ */
+export async function deleteTeam(teamId: number): Promise<boolean> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    const deleted = await deleteTeamData(client, teamId);
+    await client.query('COMMIT');
+    return deleted;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error('[queries] deleteTeam failed:', { teamId, error: error.message });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Look up a team by slug
+ * @returns The team or null if not found
+ */
+export async function getTeamBySlug(slug: string): Promise<Team | null> {
+  const result = await query<Team>(
+    'SELECT id, slug, name, created_at FROM teams WHERE slug = $1',
+    [slug]
+  );
+  return result.rows[0] || null;
+}
+
+// ============================================
+// Sharing Functions
+// ============================================
+
+export type GrantPermission = 'read' | 'write';
+
+// Who a grant is for: a user, or every member of a team
+export type ContextGrantee = { userId: string } | { teamId: number };
+
+export interface ContextGrant {
+  id: number;
+  grantee_type: 'user' | 'team';
+  // The user's email or the team's slug
+  grantee: string;
+  // The team's name (null for users)
+  grantee_name: string | null;
+  permission: GrantPermission;
+  created_at: Date;
+}
+
+// An entry shared with a user, directly or through one of their teams
+export interface SharedContextInfo {
+  // Who shared it: the owner's email, or 'team:<slug>' for team entries
+  owner: string;
+  namespace: string;
+  key: string;
+  permission: GrantPermission;
+  updated_at: Date;
+}
+
+export interface SharedEntryAccess {
+  // user_id value of the shared entry
+  ownerId: string;
+  permission: GrantPermission;
+}
+
+// Grants that apply to user $1: their own, and those of teams they are in
+const GRANTED_TO_USER = `(g.grantee_user_id = $1
+  OR g.grantee_team_id IN (SELECT team_id FROM team_members WHERE user_id = $1))`;
+
+// The strongest permission among the matching grants
+const STRONGEST_PERMISSION = `CASE WHEN bool_or(g.permission = 'write') THEN 'write' ELSE 'read' END`;
+
+const GRANT_COLUMNS = `g.id,
+  CASE WHEN g.grantee_user_id IS NOT NULL THEN 'user' ELSE 'team' END AS grantee_type,
+  COALESCE(u.email, t.slug) AS grantee,
+  t.name AS grantee_name,
+  g.permission,
+  g.created_at`;
+
+/**
+ * Share an entry with a user or team, or change the permission of an existing grant
+ * @returns The grant, or null if the entry doesn't exist
+ */
+export async function grantContextAccess(
+  ownerId: string,
+  key: string,
+  namespace: string,
+  grantee: ContextGrantee,
+  permission: GrantPermission,
+  grantedBy: string
+): Promise<ContextGrant | null> {
+  const granteeColumn = 'userId' in grantee ? 'grantee_user_id' : 'grantee_team_id';
+
+  const inserted = await query<{ id: number }>(
+    `INSERT INTO context_grants (owner_id, namespace, key, grantee_user_id, grantee_team_id, permission, granted_by)
+     SELECT user_id, namespace, key, $4::TEXT, $5::INTEGER, $6, $7
+     FROM shared_context
+     WHERE user_id = $1 AND namespace = $2 AND key = $3 AND ${NOT_EXPIRED}
+     ON CONFLICT (owner_id, namespace, key, ${granteeColumn}) WHERE ${granteeColumn} IS NOT NULL
+     DO UPDATE SET permission = EXCLUDED.permission
+     RETURNING id`,
+    [
+      ownerId,
+      namespace,
+      key,
+      'userId' in grantee ? grantee.userId : null,
+      'teamId' in grantee ? grantee.teamId : null,
+      permission,
+      grantedBy,
+    ]
+  );
+  if (inserted.rows.length === 0) {
+    return null;
+  }
+
+  const result = await query<ContextGrant>(
+    `SELECT ${GRANT_COLUMNS}
+     FROM context_grants g
+     LEFT JOIN users u ON u.id = g.grantee_user_id
+     LEFT JOIN teams t ON t.id = g.grantee_team_id
+     WHERE g.id = $1`,
+    [inserted.rows[0].id]
+  );
+  return result.rows[0];
+}
+
+/**
+ * List the grants on an entry, oldest first
+ */
+export async function listContextGrants(ownerId: string, key: string, namespace = DEFAULT_NAMESPACE): Promise<ContextGrant[]> {
+  const result = await query<ContextGrant>(
+    `SELECT ${GRANT_COLUMNS}
+     FROM context_grants g
+     LEFT JOIN users u ON u.id = g.grantee_user_id
+     LEFT JOIN teams t ON t.id = g.grantee_team_id
+     WHERE g.owner_id = $1 AND g.namespace = $2 AND g.key = $3
+     ORDER BY g.created_at, g.id`,
+    [ownerId, namespace, key]
+  );
+  return result.rows;
+}
+
+/**
+ * Revoke a grant on an entry. Access is checked against the grants on every
+ * call, so this applies to open sessions right away.
+ * @returns false if the grant doesn't exist on this entry
+ */
+export async function revokeContextGrant(
+  ownerId: string,
+  key: string,
+  namespace: string,
+  grantId: number
+): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM context_grants WHERE id = $1 AND owner_id = $2 AND namespace = $3 AND key = $4`,
+    [grantId, ownerId, namespace, key]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * List entries shared with a user, directly or through their teams, most
+ * recently updated first. Entries of the user's own teams are left out
+ * since those are in their team workspaces already.
+ */
+export async function listSharedWithUser(userId: string, limit = 100): Promise<SharedContextInfo[]> {
+  const result = await query<SharedContextInfo>(
+    `SELECT CASE WHEN g.owner_id LIKE 'team:%' THEN 'team:' || t.slug ELSE u.email END AS owner,
+            g.namespace, g.key, ${STRONGEST_PERMISSION} AS permission, c.updated_at
+     FROM context_grants g
+     JOIN shared_context c ON c.user_id = g.owner_id AND c.namespace = g.namespace AND c.key = g.key
+     LEFT JOIN users u ON u.id = g.owner_id
+     LEFT JOIN teams t ON 'team:' || t.id = g.owner_id
+     WHERE ${GRANTED_TO_USER}
+       AND g.owner_id <> $1
+       AND g.owner_id NOT IN (SELECT 'team:' || team_id FROM team_members WHERE user_id = $1)
+       AND ${NOT_EXPIRED}
+     GROUP BY g.owner_id, u.email, t.slug, g.namespace, g.key, c.updated_at
+     ORDER BY c.updated_at DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  return result.rows;
+}
+
+/**
+ * Check a user's grants on an entry someone else shared
+ * @param owner - The owner as listed by listSharedWithUser (email or 'team:<slug>')
+ * @returns The entry's owner id and the user's permission, or null if it isn't shared with them
+ */
+export async function resolveSharedEntry(
+  userId: string,
+  owner: string,
+  key: string,
+  namespace = DEFAULT_NAMESPACE
+): Promise<SharedEntryAccess | null> {
+  const result = await query<SharedEntryAccess>(
+    `SELECT g.owner_id AS "ownerId", ${STRONGEST_PERMISSION} AS permission
+     FROM context_grants g
+     WHERE g.owner_id = CASE
+         WHEN $2::TEXT LIKE 'team:%' THEN (SELECT 'team:' || id FROM teams WHERE slug = substr($2, 6))
+         ELSE (SELECT id FROM users WHERE email = $2)
+       END
+       AND g.namespace = $3 AND g.key = $4
+       AND ${GRANTED_TO_USER}
+     GROUP BY g.owner_id`,
+    [userId, owner, namespace, key]
+  );
+  return result.rows[0] || null;
+}
 
+// ============================================
+// Share Link Functions
+// ============================================
+
+export interface ShareLink {
+  id: number;
+  // Email of whoever created the link (null once they're deleted)
+  created_by: string | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+  access_count: number;
+  last_accessed_at: Date | null;
+}
+
+export interface CreatedShareLink {
+  link: ShareLink;
+  // The plaintext token - only available at creation, it is stored hashed
+  token: string;
+}
+
+// An entry as served through a share link
+export interface SharedLinkEntry {
+  key: string;
+  namespace: string;
+  content: string;
+  updated_at: Date;
+  // When the link (not the entry) expires
+  expires_at: Date | null;
+}
+
+// Who opened a share link, for the audit trail
+export interface ShareLinkAccess {
+  ip: string | null;
+  userAgent: string | null;
+  // The variant that was served, e.g. 'json' or 'raw'
+  format: string;
+}
+
+const SHARE_LINK_COLUMNS = `l.id,
+  u.email AS created_by,
+  l.expires_at,
+  l.revoked_at,
+  l.created_at,
+  COUNT(e.id)::INTEGER AS access_count,
+  MAX(e.created_at) AS last_accessed_at`;
+
+const SHARE_LINK_JOINS = `LEFT JOIN users u ON u.id = l.created_by
+  LEFT JOIN share_link_events e ON e.link_id = l.id AND e.event = 'access'`;
+
+/**
+ * Create a public read-only link to an entry. The token is random and only
+ * its SHA-256 hash is stored, like API keys.
+ * @returns The link and its token, or null if the entry doesn't exist
+ */
+export async function createShareLink(
+  ownerId: string,
+  key: string,
+  namespace: string,
+  expiresAt: Date | null,
+  createdBy: string
+): Promise<CreatedShareLink | null> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const inserted = await query<{ id: number }>(
+    `WITH link AS (
+       INSERT INTO share_links (token_hash, owner_id, namespace, key, created_by, expires_at)
+       SELECT $4, user_id, namespace, key, $5, $6
+       FROM shared_context
+       WHERE user_id = $1 AND namespace = $2 AND key = $3 AND ${NOT_EXPIRED}
+       RETURNING id
+     ), event AS (
+       INSERT INTO share_link_events (link_id, event, user_id, details)
+       SELECT id, 'create', $5, jsonb_build_object('expires_at', $6::TIMESTAMPTZ) FROM link
+     )
+     SELECT id FROM link`,
+    [ownerId, namespace, key, hashApiKey(token), createdBy, expiresAt]
+  );
+  if (inserted.rows.length === 0) {
+    return null;
+  }
+
+  const result = await query<ShareLink>(
+    `SELECT ${SHARE_LINK_COLUMNS}
+     FROM share_links l
+     ${SHARE_LINK_JOINS}
+     WHERE l.id = $1
+     GROUP BY l.id, u.email`,
+    [inserted.rows[0].id]
+  );
+  return { link: result.rows[0], token };
+}
+
+/**
+ * List the share links of an entry, including revoked and expired ones,
+ * newest first
+ */
+export async function listShareLinks(ownerId: string, key: string, namespace = DEFAULT_NAMESPACE): Promise<ShareLink[]> {
+  const result = await query<ShareLink>(
+    `SELECT ${SHARE_LINK_COLUMNS}
+     FROM share_links l
+     ${SHARE_LINK_JOINS}
+     WHERE l.owner_id = $1 AND l.namespace = $2 AND l.key = $3
+     GROUP BY l.id, u.email
+     ORDER BY l.created_at DESC, l.id DESC`,
+    [ownerId, namespace, key]
+  );
   return result.rows;
 }
 
+/**
+ * Revoke a share link; it stops working immediately
+ * @returns false if the link doesn't exist on this entry or is already revoked
+ */
+export async function revokeShareLink(
+  ownerId: string,
+  key: string,
+  namespace: string,
+  linkId: number,
+  revokedBy: string
+): Promise<boolean> {
+  const result = await query(
+    `WITH link AS (
+       UPDATE share_links SET revoked_at = NOW()
+       WHERE id = $1 AND owner_id = $2 AND namespace = $3 AND key = $4 AND revoked_at IS NULL
+       RETURNING id
+     ), event AS (
+       INSERT INTO share_link_events (link_id, event, user_id)
+       SELECT id, 'revoke', $5 FROM link
+     )
+     SELECT id FROM link`,
+    [linkId, ownerId, namespace, key, revokedBy]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Look up the entry behind a share link token and record the access
+ * @returns The entry, or null if the token is unknown, revoked or expired,
+ *          or the entry no longer exists
+ */
+export async function openShareLink(token: string, access: ShareLinkAccess): Promise<SharedLinkEntry | null> {
+  const result = await query<SharedLinkEntry>(
+    `WITH link AS (
+       SELECT l.id, c.key, c.namespace, c.content, c.updated_at, l.expires_at
+       FROM share_links l
+       JOIN shared_context c ON c.user_id = l.owner_id AND c.namespace = l.namespace AND c.key = l.key
+       WHERE l.token_hash = $1
+         AND l.revoked_at IS NULL
+         AND (l.expires_at IS NULL OR l.expires_at > NOW())
+         AND (c.expires_at IS NULL OR c.expires_at > NOW())
+     ), event AS (
+       INSERT INTO share_link_events (link_id, event, ip, user_agent, details)
+       SELECT id, 'access', $2, $3, jsonb_build_object('format', $4::TEXT) FROM link
+     )
+     SELECT key, namespace, content, updated_at, expires_at FROM link`,
+    [hashApiKey(token), access.ip, access.userAgent, access.format]
+  );
+  return result.rows[0] || null;
+}
+
 // ============================================
 // Admin Functions
 // ============================================
@@ -605,7 +3337,7 @@ export async function listAllUsers(): Promise<UserWithKeyCount[]> {
        u.created_at,
        u.updated_at,
        COUNT(DISTINCT ak.key_hash) as api_key_count,
-       COUNT(DISTINCT sc.key) as context_entry_count
+       COUNT(DISTINCT (sc.namespace, sc.key)) as context_entry_count
      FROM users u
      LEFT JOIN api_keys ak ON u.id = ak.user_id
      LEFT JOIN shared_context sc ON u.id = sc.user_id
@@ -622,8 +3354,10 @@ export async function listAllUsers(): Promise<UserWithKeyCount[]> {
 
 /**
  * Delete a user by ID (admin-only)
- * This will cascade delete their API keys and context entries
+ * This will cascade delete their API keys, context entries and team memberships.
+ * Teams the user is the only member of are deleted with them.
  * @returns true if deleted, false if not found
+ * @throws TeamMembershipError if they are the last owner of a team with other members
  */
 export async function deleteUser(userId: string): Promise<boolean> {
   const client = await getClient();
@@ -631,6 +3365,29 @@ export async function deleteUser(userId: string): Promise<boolean> {
   try {
     await client.query('BEGIN');
 
+    // Lock the user's teams so concurrent membership changes can't strand one without an owner
+    const teams = await client.query<{ id: number; slug: string; other_owners: number; other_members: number }>(
+      `SELECT t.id, t.slug,
+              (SELECT COUNT(*)::int FROM team_members o
+               WHERE o.team_id = t.id AND o.user_id <> $1 AND o.role = 'owner') AS other_owners,
+              (SELECT COUNT(*)::int FROM team_members o
+               WHERE o.team_id = t.id AND o.user_id <> $1) AS other_members
+       FROM teams t
+       JOIN team_members m ON m.team_id = t.id AND m.user_id = $1
+       ORDER BY t.id
+       FOR UPDATE OF t`,
+      [userId]
+    );
+    const stranded = teams.rows.filter((team) => team.other_owners === 0 && team.other_members > 0);
+    if (stranded.length > 0) {
+      throw new TeamMembershipError(
+        `User is the last owner of ${stranded.map((team) => team.slug).join(', ')}; make someone else an owner first`
+      );
+    }
+    for (const team of teams.rows.filter((team) => team.other_members === 0)) {
+      await deleteTeamData(client, team.id);
+    }
+
     // Delete context history entries for this user
     await client.query(
       'DELETE FROM context_history WHERE user_id = $1',
@@ -643,6 +3400,24 @@ export async function deleteUser(userId: string): Promise<boolean> {
       [userId]
     );
 
+    // Delete trashed entries (no soft delete here - the user is gone for good)
+    await client.query(
+      'DELETE FROM context_trash WHERE user_id = $1',
+      [userId]
+    );
+
+    // Delete grants on the user's entries (grants to the user cascade)
+    await client.query(
+      'DELETE FROM context_grants WHERE owner_id = $1',
+      [userId]
+    );
+
+    // Delete share links to the user's entries, with their audit trail
+    await client.query(
+      'DELETE FROM share_links WHERE owner_id = $1',
+      [userId]
+    );
+
     // Delete API keys (handled by CASCADE, but explicit for clarity)
     await client.query(
       'DELETE FROM api_keys WHERE user_id = $1',
@@ -660,7 +3435,9 @@ export async function deleteUser(userId: string): Promise<boolean> {
   } catch (err) {
     await client.query('ROLLBACK');
     const error = err instanceof Error ? err : new Error(String(err));
-    console.error('[queries] deleteUser failed:', { userId, error: error.message });
+    if (!(err instanceof TeamMembershipError)) {
+      console.error('[queries] deleteUser failed:', { userId, error: error.message });
+    }
     throw error;
   } finally {
     client.release();
@@ -761,11 +3538,14 @@ export async function createWaitlistEntry(
 }
 
 /**
- * List API keys for a user with their names (admin view)
+ * List API keys for a user with their names, scopes, expiry and usage
  */
-export async function listApiKeysForUser(userId: string): Promise<Array<{ name: string; created_at: Date; last_used_at: Date | null }>> {
-  const result = await query<{ name: string; created_at: Date; last_used_at: Date | null }>(
-    `SELECT name, created_at, last_used_at
+export async function listApiKeysForUser(userId: string): Promise<ApiKeyInfo[]> {
+  const result = await query<ApiKeyInfo>(
+    `SELECT name, scopes, allowed_namespaces AS namespaces, allowed_keys AS keys, expires_at,
+            request_count, last_used_ip, rotated_at,
+            CASE WHEN previous_key_expires_at > NOW() THEN previous_key_expires_at END AS previous_key_expires_at,
+            created_at, last_used_at
      FROM api_keys
      WHERE user_id = $1
      ORDER BY created_at DESC`,
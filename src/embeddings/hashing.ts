@@ -0,0 +1,121 @@
+/**
+ * Offline embedding provider using feature hashing
+ *
+ * Words, word bigrams and character trigrams are hashed into a fixed number
+ * of buckets with sublinear term frequency weighting. Trigrams let related
+ * word forms ("retry", "retries", "retrying") land close together without
+ * a stemmer. Needs no network or model files.
+ */
+
+import { EmbeddingProvider } from './provider.js';
+
+const DEFAULT_DIMENSIONS = 2048;
+
+// Words longer than this also count by their prefix, a crude stand-in for stemming
+const STEM_LENGTH = 5;
+
+// Relative weight of each feature type
+const WORD_WEIGHT = 1;
+const STEM_WEIGHT = 0.75;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// Common English words that carry no meaning on their own
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our',
+  'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Strip common English inflections so "retries", "retrying" and "retried"
+ * all become "retry". Deliberately conservative: no derivational suffixes.
+ */
+function lightStem(word: string): string {
+  let stem = word;
+  if (stem.length > 4 && stem.endsWith('ies')) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.length > 3 && stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.length > 5 && stem.endsWith('ing')) {
+    stem = stem.slice(0, -3);
+  } else if (stem.length > 4 && stem.endsWith('ied')) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.length > 4 && stem.endsWith('ed')) {
+    stem = stem.slice(0, -2);
+  }
+  return stem;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map(lightStem);
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing-ngram-v1';
+  readonly dimensions: number;
+
+  constructor(dimensions = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    // Count features first so repeated terms get sublinear (1 + log tf) weight
+    const features = new Map<string, { weight: number; count: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      addFeature(`w:${token}`, WORD_WEIGHT);
+      if (token.length > STEM_LENGTH) {
+        addFeature(`s:${token.slice(0, STEM_LENGTH)}`, STEM_WEIGHT);
+      }
+      if (i > 0) {
+        addFeature(`b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+      }
+      const padded = `^${token}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, { weight, count }] of features) {
+      const hash = fnv1a(feature);
+      // Signed hashing keeps bucket collisions from only ever adding up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
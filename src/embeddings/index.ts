@@ -0,0 +1,70 @@
+/**
+ * Embedding provider selection
+ *
+ * The provider is chosen with EMBEDDING_PROVIDER (default: 'hashing', the
+ * built-in offline provider). Additional providers register a factory here;
+ * the semantic_search_context tool contract doesn't depend on which is used.
+ */
+
+import { EmbeddingProvider, embeddingModelId } from './provider.js';
+import { HashingEmbeddingProvider } from './hashing.js';
+
+export type { EmbeddingProvider } from './provider.js';
+export { embeddingModelId } from './provider.js';
+
+const DEFAULT_PROVIDER = 'hashing';
+
+const providerFactories: Record<string, () => EmbeddingProvider> = {
+  hashing: () => new HashingEmbeddingProvider(),
+};
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider (created on first use)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    const name = process.env.EMBEDDING_PROVIDER || DEFAULT_PROVIDER;
+    const factory = providerFactories[name];
+    if (!factory) {
+      console.warn(`[embeddings] Unknown EMBEDDING_PROVIDER '${name}', using '${DEFAULT_PROVIDER}'`);
+    }
+    activeProvider = (factory ?? providerFactories[DEFAULT_PROVIDER])();
+    console.log('[embeddings] Using provider:', embeddingModelId(activeProvider));
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (e.g. a remote provider, or a stub in tests)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Text embedded for a context entry: the key (split into words) plus its content
+ */
+export function embeddingText(key: string, content: string): string {
+  return `${key.replace(/[-_.]/g, ' ')}\n${content}`;
+}
+
+/**
+ * Embed a context entry with the active provider
+ * Failures are logged and return null so writes never fail because of
+ * embeddings; semantic search re-embeds entries without a current vector.
+ */
+export async function embedContextEntry(
+  key: string,
+  content: string
+): Promise<{ embedding: number[]; model: string } | null> {
+  const provider = getEmbeddingProvider();
+  try {
+    const [embedding] = await provider.embed([embeddingText(key, content)]);
+    return { embedding, model: embeddingModelId(provider) };
+  } catch (error) {
+    console.error('[embeddings] Failed to embed entry:', { key, error: error instanceof Error ? error.message : error });
+    return null;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Embedding provider interface
+ *
+ * Providers turn text into fixed-length vectors for semantic search.
+ * Vectors must be L2-normalized so a dot product is the cosine similarity.
+ */
+
+export interface EmbeddingProvider {
+  // Stable identifier, stored with each vector so a provider switch re-embeds
+  readonly name: string;
+  readonly dimensions: number;
+
+  /**
+   * Embed a batch of texts
+   * @returns One vector of length `dimensions` per input text, in order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Model id stored alongside vectors: vectors from different models or
+ * sizes are not comparable
+ */
+export function embeddingModelId(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.dimensions}`;
+}
@@ -3,6 +3,8 @@ import http from 'http';
 import { testConnection, closePool } from './db/client.js';
 import { runMigrations } from './db/migrations.js';
 import { initializeServer, cleanupSessions } from './transport/http.js';
+import { startExpirySweeper, stopExpirySweeper } from './jobs/expiry-sweeper.js';
+import { startTrashPurger, stopTrashPurger } from './jobs/trash-purger.js';
 
 // Constants
 const DEFAULT_PORT = 3000;
@@ -62,11 +64,15 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  // Step 4: Initialize HTTP server with MCP tools
+  // Step 4: Start purging expired context entries and old trash
+  startExpirySweeper();
+  startTrashPurger();
+
+  // Step 5: Initialize HTTP server with MCP tools
   console.log('[startup] Initializing HTTP server...');
   const app = initializeServer();
 
-  // Step 5: Start listening
+  // Step 6: Start listening
   const port = parseInt(process.env.PORT || String(DEFAULT_PORT), 10);
   const server = http.createServer(app);
 
@@ -78,7 +84,7 @@ async function main(): Promise<void> {
     console.log('[startup] Ready to accept connections');
   });
 
-  // Step 6: Set up graceful shutdown
+  // Step 7: Set up graceful shutdown
   setupGracefulShutdown(server);
 }
 
@@ -118,6 +124,12 @@ function setupGracefulShutdown(server: http.Server): void {
         });
       });
 
+      // Stop background jobs
+      console.log('[shutdown] Stopping expiry sweeper...');
+      stopExpirySweeper();
+      console.log('[shutdown] Stopping trash purger...');
+      stopTrashPurger();
+
       // Clean up MCP sessions
       console.log('[shutdown] Cleaning up MCP sessions...');
       cleanupSessions();
@@ -0,0 +1,69 @@
+/**
+ * Background sweeper for expired context entries
+ *
+ * Expired entries are already hidden from reads; the sweeper deletes them
+ * (logging an 'expire' history row each) so they stop taking up space.
+ */
+
+import { purgeExpiredContext } from '../db/queries.js';
+
+// How often to sweep, and how many entries to purge per batch
+const SWEEP_INTERVAL_MS = 60 * 1000; // 1 minute
+const SWEEP_BATCH_SIZE = 500;
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let isSweeping = false;
+
+/**
+ * Purge all currently expired entries in batches
+ * @returns The number of entries purged
+ */
+export async function sweepExpiredContext(): Promise<number> {
+  let total = 0;
+  let purged: number;
+  do {
+    purged = await purgeExpiredContext(SWEEP_BATCH_SIZE);
+    total += purged;
+  } while (purged === SWEEP_BATCH_SIZE);
+  return total;
+}
+
+/**
+ * Start sweeping on an interval (no-op if already running)
+ */
+export function startExpirySweeper(intervalMs = SWEEP_INTERVAL_MS): void {
+  if (sweepInterval) {
+    return;
+  }
+
+  sweepInterval = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (isSweeping) {
+      return;
+    }
+    isSweeping = true;
+    try {
+      const purged = await sweepExpiredContext();
+      if (purged > 0) {
+        console.log(`[expiry] Purged ${purged} expired context entries`);
+      }
+    } catch (error) {
+      console.error('[expiry] Sweep failed:', error);
+    } finally {
+      isSweeping = false;
+    }
+  }, intervalMs);
+  sweepInterval.unref(); // Don't keep process alive for sweeping
+
+  console.log(`[expiry] Sweeper started (every ${Math.round(intervalMs / 1000)}s)`);
+}
+
+/**
+ * Stop the sweeper (for graceful shutdown)
+ */
+export function stopExpirySweeper(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Background purger for the trash
+ *
+ * Deleted entries stay restorable for TRASH_RETENTION_DAYS (default 30);
+ * the purger permanently deletes them once that window has passed.
+ */
+
+import { purgeTrash } from '../db/queries.js';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// How often to purge, and how many entries to delete per batch
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const PURGE_BATCH_SIZE = 500;
+
+let purgeInterval: NodeJS.Timeout | null = null;
+let isPurging = false;
+
+/**
+ * Days a deleted entry stays in the trash (TRASH_RETENTION_DAYS)
+ */
+export function trashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a trashed entry will be purged
+ */
+export function trashPurgeAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + trashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Permanently delete all trashed entries past the retention window, in batches
+ * @returns The number of entries purged
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const retentionDays = trashRetentionDays();
+  let total = 0;
+  let purged: number;
+  do {
+    purged = await purgeTrash(retentionDays, PURGE_BATCH_SIZE);
+    total += purged;
+  } while (purged === PURGE_BATCH_SIZE);
+  return total;
+}
+
+/**
+ * Start purging on an interval (no-op if already running)
+ */
+export function startTrashPurger(intervalMs = PURGE_INTERVAL_MS): void {
+  if (purgeInterval) {
+    return;
+  }
+
+  purgeInterval = setInterval(async () => {
+    // Skip a tick rather than overlap a slow purge
+    if (isPurging) {
+      return;
+    }
+    isPurging = true;
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`[trash] Purged ${purged} trashed context entries`);
+      }
+    } catch (error) {
+      console.error('[trash] Purge failed:', error);
+    } finally {
+      isPurging = false;
+    }
+  }, intervalMs);
+  purgeInterval.unref(); // Don't keep process alive for purging
+
+  console.log(`[trash] Purger started (retention ${trashRetentionDays()} days)`);
+}
+
+/**
+ * Stop the purger (for graceful shutdown)
+ */
+export function stopTrashPurger(): void {
+  if (purgeInterval) {
+    clearInterval(purgeInterval);
+    purgeInterval = null;
+  }
+}
@@ -0,0 +1,126 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListPromptsRequestSchema, GetPromptRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getContext, listContextByTag, ContextEntry, DEFAULT_NAMESPACE } from '../db/queries.js';
+import { resolveUserId, resolveKeyScopes } from '../auth/identity.js';
+import { hasScope, allowsEntry } from '../auth/scopes.js';
+import { validateKey, validateNamespace } from '../tools/validators.js';
+import { PROMPT_TAG, extractPromptArguments, renderPromptTemplate } from './template.js';
+
+// prompts/list returns at most this many templates
+const MAX_LISTED_PROMPTS = 200;
+
+/**
+ * Prompt name of a template entry: the key in the default namespace,
+ * namespace/key elsewhere (neither may contain a slash)
+ */
+export function promptName(namespace: string, key: string): string {
+  return namespace === DEFAULT_NAMESPACE ? key : `${namespace}/${key}`;
+}
+
+/**
+ * Parse a prompt name back into namespace and key
+ * @returns The namespace and key, or null if the name is invalid
+ */
+export function parsePromptName(name: string): { namespace: string; key: string } | null {
+  const parts = name.split('/');
+  if (parts.length > 2) {
+    return null;
+  }
+
+  const [namespace, key] = parts.length === 2 ? parts : [DEFAULT_NAMESPACE, parts[0]];
+  if (!validateNamespace(namespace).valid || !validateKey(key).valid) {
+    return null;
+  }
+  return { namespace, key };
+}
+
+function promptDescription(entry: ContextEntry): string {
+  const description = entry.metadata.description;
+  return typeof description === 'string' && description.trim()
+    ? description
+    : `Prompt template from context entry '${entry.namespace}/${entry.key}'`;
+}
+
+function toPrompt(entry: ContextEntry) {
+  return {
+    name: promptName(entry.namespace, entry.key),
+    title: entry.key,
+    description: promptDescription(entry),
+    arguments: extractPromptArguments(entry.content).map((name) => ({ name, required: true })),
+  };
+}
+
+/**
+ * Register prompts/list and prompts/get for context entries tagged as
+ * prompt templates. Must run before any transport connects.
+ */
+export function registerContextPrompts(server: McpServer): void {
+  server.server.registerCapabilities({
+    prompts: {},
+  });
+
+  server.server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    const userId = await resolveUserId(extra);
+    if (!userId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+    }
+
+    try {
+      const all = await listContextByTag(userId, PROMPT_TAG, MAX_LISTED_PROMPTS);
+      // Entries outside the API key's scope are left out
+      const scopes = resolveKeyScopes(extra);
+      const entries = hasScope(scopes, 'context:read')
+        ? all.filter((entry) => allowsEntry(scopes, entry.namespace, entry.key))
+        : [];
+      return { prompts: entries.map(toPrompt) };
+    } catch (error) {
+      console.error('[prompts] Database error listing prompts:', error);
+      throw new McpError(ErrorCode.InternalError, 'Failed to list prompts');
+    }
+  });
+
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const userId = await resolveUserId(extra);
+    if (!userId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+    }
+
+    const { name, arguments: args = {} } = request.params;
+    const parsed = parsePromptName(name);
+    if (!parsed) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid prompt name: ${name}`);
+    }
+
+    let entry: ContextEntry | null;
+    try {
+      entry = await getContext(userId, parsed.key, parsed.namespace);
+    } catch (error) {
+      console.error('[prompts] Database error reading prompt:', error);
+      throw new McpError(ErrorCode.InternalError, 'Failed to read prompt');
+    }
+
+    // Prompts outside the API key's scope read as missing
+    const scopes = resolveKeyScopes(extra);
+    const allowed = hasScope(scopes, 'context:read') && allowsEntry(scopes, parsed.namespace, parsed.key);
+    if (!entry || !entry.tags.includes(PROMPT_TAG) || !allowed) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' not found`);
+    }
+
+    let text: string;
+    try {
+      text = renderPromptTemplate(entry.content, args);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+
+    return {
+      description: promptDescription(entry),
+      messages: [
+        {
+          role: 'user' as const,
+          content: { type: 'text' as const, text },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Prompt registration hub
+ * Registers all MCP prompts with the server
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerContextPrompts } from './context-prompts.js';
+
+/**
+ * Register all MCP prompts with the server
+ */
+export function registerAllPrompts(server: McpServer): void {
+  console.log('[prompts] Registering MCP prompts...');
+
+  registerContextPrompts(server);
+  console.log('[prompts] Registered: prompts/list, prompts/get (entries tagged "prompt")');
+}
@@ -0,0 +1,36 @@
+/**
+ * Prompt templates
+ *
+ * Context entries tagged with PROMPT_TAG are served as MCP prompts. Their
+ * content may contain {{argument}} placeholders, which become the prompt's
+ * declared arguments and are substituted on prompts/get.
+ */
+
+// Tag that marks a context entry as a prompt template
+export const PROMPT_TAG = 'prompt';
+
+// {{name}} with optional inner whitespace; names are identifiers
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Argument names used by a template, in order of first appearance
+ */
+export function extractPromptArguments(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Substitute {{argument}} placeholders
+ * @throws Error naming the first argument without a value
+ */
+export function renderPromptTemplate(template: string, args: Record<string, string>): string {
+  const missing = extractPromptArguments(template).find((name) => !Object.hasOwn(args, name));
+  if (missing) {
+    throw new Error(`Missing required argument: ${missing}`);
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => args[name]);
+}
@@ -0,0 +1,43 @@
+/**
+ * Content type detection for context entries
+ * Mirrors frontend/src/utils/contentDetection.ts so MCP clients and the web UI
+ * agree on which entries are JSON.
+ */
+
+export type ContentType = 'json' | 'markdown';
+
+const MIME_TYPES: Record<ContentType, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+};
+
+/**
+ * Detects whether content is JSON or Markdown.
+ * Content is JSON only if it starts with { or [ and parses to an object or array.
+ */
+export function detectContentType(content: string): ContentType {
+  const trimmed = content.trim();
+
+  // JSON must start with { or [
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return 'markdown';
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    // Must be a non-null object or array
+    if (typeof parsed === 'object' && parsed !== null) {
+      return 'json';
+    }
+    return 'markdown';
+  } catch {
+    return 'markdown';
+  }
+}
+
+/**
+ * MIME type for an entry's content
+ */
+export function detectMimeType(content: string): string {
+  return MIME_TYPES[detectContentType(content)];
+}
@@ -0,0 +1,138 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getContext, listRecentContext, ContextEntry } from '../db/queries.js';
+import { resolveUserId, resolveKeyScopes } from '../auth/identity.js';
+import { hasScope, allowsEntry } from '../auth/scopes.js';
+import { validateKey, validateNamespace } from '../tools/validators.js';
+import { keyScopeFilter } from '../tools/workspace.js';
+import { detectMimeType } from './content-type.js';
+
+// URI scheme for context entries: context://{namespace}/{key}
+export const CONTEXT_URI_TEMPLATE = 'context://{namespace}/{key}';
+
+// resources/list returns the most recently updated entries across namespaces
+const MAX_LISTED_RESOURCES = 100;
+
+/**
+ * URI of a context entry resource
+ */
+export function contextResourceUri(namespace: string, key: string): string {
+  return `context://${namespace}/${key}`;
+}
+
+/**
+ * Parse a context entry resource URI
+ * @returns The namespace and key, or null if the URI isn't a valid context:// URI
+ */
+export function parseContextResourceUri(uri: string): { namespace: string; key: string } | null {
+  const match = /^context:\/\/([^/]+)\/([^/]+)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  let namespace: string;
+  let key: string;
+  try {
+    namespace = decodeURIComponent(match[1]);
+    key = decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+
+  if (!validateNamespace(namespace).valid || !validateKey(key).valid) {
+    return null;
+  }
+  return { namespace, key };
+}
+
+function toResource(entry: ContextEntry) {
+  return {
+    uri: contextResourceUri(entry.namespace, entry.key),
+    name: `${entry.namespace}/${entry.key}`,
+    title: entry.key,
+    description: entry.tags.length > 0
+      ? `Context entry in namespace '${entry.namespace}' (tags: ${entry.tags.join(', ')})`
+      : `Context entry in namespace '${entry.namespace}'`,
+    mimeType: detectMimeType(entry.content),
+    annotations: {
+      lastModified: entry.updated_at.toISOString(),
+    },
+  };
+}
+
+/**
+ * Register context entries as MCP resources (resources/list, resources/read
+ * and the context://{namespace}/{key} resource template)
+ */
+export function registerContextResource(server: McpServer): void {
+  server.registerResource(
+    'context-entry',
+    new ResourceTemplate(CONTEXT_URI_TEMPLATE, {
+      list: async (extra) => {
+        const userId = await resolveUserId(extra);
+        if (!userId) {
+          throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+        }
+
+        try {
+          // Entries outside the API key's scope are left out by the query, before the limit
+          const scopes = resolveKeyScopes(extra);
+          const entries = hasScope(scopes, 'context:read')
+            ? await listRecentContext(userId, MAX_LISTED_RESOURCES, keyScopeFilter(scopes))
+            : [];
+          return { resources: entries.map(toResource) };
+        } catch (error) {
+          console.error('[resources] Database error listing context:', error);
+          throw new McpError(ErrorCode.InternalError, 'Failed to list context entries');
+        }
+      },
+    }),
+    {
+      title: 'Context Entry',
+      description: 'A shared context entry, addressed by namespace and key',
+    },
+    async (uri, variables, extra) => {
+      const userId = await resolveUserId(extra);
+      if (!userId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+      }
+
+      const namespace = decodeURIComponent(String(variables.namespace));
+      const key = decodeURIComponent(String(variables.key));
+
+      const namespaceValidation = validateNamespace(namespace);
+      if (!namespaceValidation.valid) {
+        throw new McpError(ErrorCode.InvalidParams, namespaceValidation.error!);
+      }
+      const keyValidation = validateKey(key);
+      if (!keyValidation.valid) {
+        throw new McpError(ErrorCode.InvalidParams, keyValidation.error!);
+      }
+
+      let entry: ContextEntry | null;
+      try {
+        entry = await getContext(userId, key, namespace);
+      } catch (error) {
+        console.error('[resources] Database error reading context:', error);
+        throw new McpError(ErrorCode.InternalError, 'Failed to read context entry');
+      }
+
+      // Entries outside the API key's scope read as missing
+      const scopes = resolveKeyScopes(extra);
+      if (!entry || !hasScope(scopes, 'context:read') || !allowsEntry(scopes, namespace, key)) {
+        throw new McpError(ErrorCode.InvalidParams, `Context entry '${key}' not found in namespace '${namespace}'`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: detectMimeType(entry.content),
+            text: entry.content,
+          },
+        ],
+      };
+    }
+  );
+}
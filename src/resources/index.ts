@@ -0,0 +1,21 @@
+/**
+ * Resource registration hub
+ * Registers all MCP resources with the server
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerContextResource } from './context-resource.js';
+import { registerSubscriptionHandlers } from './subscriptions.js';
+
+/**
+ * Register all MCP resources with the server
+ */
+export function registerAllResources(server: McpServer): void {
+  console.log('[resources] Registering MCP resources...');
+
+  registerContextResource(server);
+  console.log('[resources] Registered: context://{namespace}/{key}');
+
+  registerSubscriptionHandlers(server);
+  console.log('[resources] Registered: resources/subscribe, resources/unsubscribe');
+}
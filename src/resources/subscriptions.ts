@@ -0,0 +1,85 @@
+/**
+ * Resource subscriptions
+ *
+ * Tracks which context:// URIs each MCP session has subscribed to via
+ * resources/subscribe. The transport layer consults this when sending
+ * notifications/resources/updated.
+ */
+
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { resolveUserId, resolveKeyScopes } from '../auth/identity.js';
+import { hasScope, allowsEntry } from '../auth/scopes.js';
+import { parseContextResourceUri } from './context-resource.js';
+
+// In-memory store (sessions are ephemeral)
+const subscriptionMap = new Map<string, Set<string>>();
+
+/**
+ * Whether a session is subscribed to a resource URI
+ */
+export function isSubscribed(sessionId: string, uri: string): boolean {
+  return subscriptionMap.get(sessionId)?.has(uri) ?? false;
+}
+
+/**
+ * Drop all subscriptions of a session (call when the session closes)
+ */
+export function clearSubscriptions(sessionId: string): void {
+  subscriptionMap.delete(sessionId);
+}
+
+/**
+ * Drop all subscriptions (for graceful shutdown)
+ */
+export function clearAllSubscriptions(): void {
+  subscriptionMap.clear();
+}
+
+/**
+ * Register resources/subscribe and resources/unsubscribe handlers and
+ * advertise the subscribe capability. Must run before any transport connects.
+ */
+export function registerSubscriptionHandlers(server: McpServer): void {
+  server.server.registerCapabilities({
+    resources: {
+      subscribe: true,
+      listChanged: true,
+    },
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const userId = await resolveUserId(extra);
+    if (!userId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated');
+    }
+    if (!extra.sessionId) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Subscriptions require a session');
+    }
+
+    const { uri } = request.params;
+    const entry = parseContextResourceUri(uri);
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `Not a context resource URI: ${uri}`);
+    }
+
+    // As with resources/read, entries outside the API key's scope can't be watched
+    const scopes = resolveKeyScopes(extra);
+    if (!hasScope(scopes, 'context:read') || !allowsEntry(scopes, entry.namespace, entry.key)) {
+      throw new McpError(ErrorCode.InvalidParams, `Context entry '${entry.key}' in namespace '${entry.namespace}' is outside this API key's scope`);
+    }
+
+    // Entries that don't exist yet can be subscribed to; the first write notifies
+    const uris = subscriptionMap.get(extra.sessionId) ?? new Set<string>();
+    uris.add(uri);
+    subscriptionMap.set(extra.sessionId, uris);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    if (extra.sessionId) {
+      subscriptionMap.get(extra.sessionId)?.delete(request.params.uri);
+    }
+    return {};
+  });
+}
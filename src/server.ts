@@ -1,10 +1,27 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerAllTools } from './tools/index.js';
+import { registerAllResources } from './resources/index.js';
+import { registerAllPrompts } from './prompts/index.js';
+import { registerAllCompletions } from './completions/index.js';
+import type { KeyScopes } from './auth/scopes.js';
 
-// Create and configure the MCP server instance
-export const server = new McpServer({
-  name: 'mcp-shared-context',
-  version: '1.0.0',
-});
+/**
+ * Create and configure an MCP server instance
+ * Each session gets its own server so responses and notifications are
+ * routed to the right transport.
+ * @param scopes - Scopes of the session's API key; tools they don't allow are
+ *                 left out of tools/list (null registers every tool)
+ */
+export function createMcpServer(scopes: KeyScopes | null = null): McpServer {
+  const server = new McpServer({
+    name: 'mcp-shared-context',
+    version: '1.0.0',
+  });
 
-// Re-export for use in transport layer
-export { server as mcpServer };
+  registerAllTools(server, scopes);
+  registerAllResources(server);
+  registerAllPrompts(server);
+  registerAllCompletions(server);
+
+  return server;
+}
@@ -3,9 +3,10 @@
  */
 
 import { z } from 'zod';
-import { server } from '../../server.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { createApiKey, userExists, logAdminAction } from '../../db/queries.js';
-import { validateUserId, validateApiKeyName } from '../validators.js';
+import { validateUserId, validateApiKeyName, validateApiKeyScopes, validateExpiry } from '../validators.js';
+import { API_KEY_SCOPES } from '../../auth/scopes.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from '../errors.js';
 import { requireAdmin } from './guards.js';
 import type { ToolHandlerExtra } from '../../auth/identity.js';
@@ -13,27 +14,49 @@ import type { ToolHandlerExtra } from '../../auth/identity.js';
 export const adminCreateApiKeyInputSchema = {
   user_id: z.string().describe('The user ID to create an API key for'),
   name: z.string().describe('A name/label for this API key (e.g., "laptop", "work-machine")'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).optional().describe('Operations the key allows (default: ["context:read", "context:write"])'),
+  keys: z.array(z.string()).optional().describe('Limit the key to entry keys matching these keys or glob patterns (e.g. "docs.*"); omit for any key'),
+  namespaces: z.array(z.string()).optional().describe('Limit the key to these namespaces; omit for any namespace'),
+  expires_at: z.string().optional().describe('ISO 8601 time after which the key stops working; omit for a key that never expires'),
+  ttl_seconds: z.number().int().optional().describe('Expire the key this many seconds from now (alternative to expires_at)'),
 };
 
 interface CreateApiKeyOutput {
   user_id: string;
   api_key: string;
   api_key_name: string;
+  scopes: string[];
+  keys: string[] | null;
+  namespaces: string[] | null;
+  expires_at: string | null;
   message: string;
 }
 
+// Output schema for admin_create_api_key tool
+export const adminCreateApiKeyOutputSchema = {
+  user_id: z.string(),
+  api_key: z.string(),
+  api_key_name: z.string(),
+  scopes: z.array(z.string()),
+  keys: z.array(z.string()).nullable(),
+  namespaces: z.array(z.string()).nullable(),
+  expires_at: z.string().nullable(),
+  message: z.string(),
+};
+
 /**
  * Register the admin_create_api_key tool
  */
-export function registerAdminCreateApiKeyTool(): void {
+export function registerAdminCreateApiKeyTool(server: McpServer): void {
   server.registerTool(
     'admin_create_api_key',
     {
       title: 'Create API Key (Admin)',
-      description: 'Create a new API key for an existing user. The API key is shown only once. Admin only.',
+      description: 'Create a new API key for an existing user, optionally limited to some scopes, keys and namespaces and expiring at a set time. The API key is shown only once. Admin only.',
       inputSchema: adminCreateApiKeyInputSchema,
+      outputSchema: adminCreateApiKeyOutputSchema,
     },
-    async ({ user_id, name }, extra: ToolHandlerExtra) => {
+    async ({ user_id, name, scopes, keys, namespaces, expires_at, ttl_seconds }, extra: ToolHandlerExtra) => {
       // Check admin authorization
       const adminCheck = await requireAdmin(extra);
       if (!adminCheck.authorized) {
@@ -56,6 +79,24 @@ export function registerAdminCreateApiKeyTool(): void {
         );
       }
 
+      // Validate scopes
+      const scopesValidation = validateApiKeyScopes(scopes, keys, namespaces);
+      if (!scopesValidation.valid) {
+        return createToolResponse(
+          formatError(new ToolError(ErrorCode.INVALID_INPUT, scopesValidation.error!))
+        );
+      }
+      const keyScopes = scopesValidation.keyScopes!;
+
+      // Validate expiry
+      const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+      if (!expiryValidation.valid) {
+        return createToolResponse(
+          formatError(new ToolError(ErrorCode.INVALID_INPUT, expiryValidation.error!))
+        );
+      }
+      const expiresAt = expiryValidation.expiresAt ?? null;
+
       try {
         // Check if user exists
         const exists = await userExists(user_id);
@@ -66,17 +107,25 @@ export function registerAdminCreateApiKeyTool(): void {
         }
 
         // Create API key
-        const { plainKey } = await createApiKey(user_id, name);
+        const { plainKey } = await createApiKey(user_id, name, keyScopes, expiresAt);
 
         // Log admin action
         await logAdminAction(adminCheck.adminUserId, 'create_api_key', user_id, {
           api_key_name: name,
+          scopes: keyScopes.scopes,
+          keys: keyScopes.keys,
+          namespaces: keyScopes.namespaces,
+          expires_at: expiresAt?.toISOString() ?? null,
         });
 
         const data: CreateApiKeyOutput = {
           user_id,
           api_key: plainKey,
           api_key_name: name,
+          scopes: keyScopes.scopes,
+          keys: keyScopes.keys,
+          namespaces: keyScopes.namespaces,
+          expires_at: expiresAt?.toISOString() ?? null,
           message: 'API key created successfully. Save it - it will not be shown again.',
         };
 
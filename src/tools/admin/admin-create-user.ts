@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import { server } from '../../server.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { createUser, createApiKey, getUserById, logAdminAction } from '../../db/queries.js';
 import { validateUserId, validateEmail, validateApiKeyName } from '../validators.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from '../errors.js';
@@ -24,16 +24,26 @@ interface CreateUserOutput {
   message: string;
 }
 
+// Output schema for admin_create_user tool
+export const adminCreateUserOutputSchema = {
+  user_id: z.string(),
+  email: z.string(),
+  api_key: z.string(),
+  api_key_name: z.string(),
+  message: z.string(),
+};
+
 /**
  * Register the admin_create_user tool
  */
-export function registerAdminCreateUserTool(): void {
+export function registerAdminCreateUserTool(server: McpServer): void {
   server.registerTool(
     'admin_create_user',
     {
       title: 'Create User (Admin)',
       description: 'Create a new user and generate their initial API key. The API key is shown only once. Admin only.',
       inputSchema: adminCreateUserInputSchema,
+      outputSchema: adminCreateUserOutputSchema,
     },
     async ({ user_id, email, api_key_name }, extra: ToolHandlerExtra) => {
       // Check admin authorization
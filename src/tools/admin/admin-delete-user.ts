@@ -3,8 +3,8 @@
  */
 
 import { z } from 'zod';
-import { server } from '../../server.js';
-import { deleteUser, getUserById, logAdminAction } from '../../db/queries.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { deleteUser, getUserById, logAdminAction, TeamMembershipError } from '../../db/queries.js';
 import { validateUserId } from '../validators.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from '../errors.js';
 import { requireAdmin } from './guards.js';
@@ -21,16 +21,24 @@ interface DeleteUserOutput {
   message: string;
 }
 
+// Output schema for admin_delete_user tool
+export const adminDeleteUserOutputSchema = {
+  user_id: z.string(),
+  email: z.string(),
+  message: z.string(),
+};
+
 /**
  * Register the admin_delete_user tool
  */
-export function registerAdminDeleteUserTool(): void {
+export function registerAdminDeleteUserTool(server: McpServer): void {
   server.registerTool(
     'admin_delete_user',
     {
       title: 'Delete User (Admin)',
       description: 'Permanently delete a user and all their data (API keys, context entries, history). This cannot be undone. Admin only.',
       inputSchema: adminDeleteUserInputSchema,
+      outputSchema: adminDeleteUserOutputSchema,
     },
     async ({ user_id, confirm }, extra: ToolHandlerExtra) => {
       // Check admin authorization
@@ -102,6 +110,9 @@ export function registerAdminDeleteUserTool(): void {
 
         return createToolResponse(formatSuccess(data));
       } catch (error) {
+        if (error instanceof TeamMembershipError) {
+          return createToolResponse(formatError(new ToolError(ErrorCode.CONFLICT, error.message)));
+        }
         console.error('[admin_delete_user] Database error:', error);
         return createToolResponse(
           formatError(new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to delete user'))
@@ -2,7 +2,8 @@
  * Admin tool: List all users
  */
 
-import { server } from '../../server.js';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { listAllUsers, logAdminAction } from '../../db/queries.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from '../errors.js';
 import { requireAdmin } from './guards.js';
@@ -24,16 +25,32 @@ interface ListUsersOutput {
   count: number;
 }
 
+// Output schema for admin_list_users tool
+export const adminListUsersOutputSchema = {
+  users: z.array(z.object({
+    id: z.string(),
+    email: z.string(),
+    auth_provider: z.string(),
+    is_admin: z.boolean(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    api_key_count: z.number(),
+    context_entry_count: z.number(),
+  })),
+  count: z.number(),
+};
+
 /**
  * Register the admin_list_users tool
  */
-export function registerAdminListUsersTool(): void {
+export function registerAdminListUsersTool(server: McpServer): void {
   server.registerTool(
     'admin_list_users',
     {
       title: 'List Users (Admin)',
       description: 'List all users with their metadata, API key counts, and context entry counts. Admin only.',
       inputSchema: {},
+      outputSchema: adminListUsersOutputSchema,
     },
     async (_args, extra: ToolHandlerExtra) => {
       // Check admin authorization
@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import { server } from '../../server.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { revokeApiKeyByName, userExists, listApiKeysForUser, logAdminAction } from '../../db/queries.js';
 import { validateUserId, validateApiKeyName } from '../validators.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from '../errors.js';
@@ -21,16 +21,24 @@ interface RevokeApiKeyOutput {
   message: string;
 }
 
+// Output schema for admin_revoke_api_key tool
+export const adminRevokeApiKeyOutputSchema = {
+  user_id: z.string(),
+  api_key_name: z.string(),
+  message: z.string(),
+};
+
 /**
  * Register the admin_revoke_api_key tool
  */
-export function registerAdminRevokeApiKeyTool(): void {
+export function registerAdminRevokeApiKeyTool(server: McpServer): void {
   server.registerTool(
     'admin_revoke_api_key',
     {
       title: 'Revoke API Key (Admin)',
       description: 'Revoke/delete an API key by name for a user. The key will immediately stop working. Admin only.',
       inputSchema: adminRevokeApiKeyInputSchema,
+      outputSchema: adminRevokeApiKeyOutputSchema,
     },
     async ({ user_id, api_key_name }, extra: ToolHandlerExtra) => {
       // Check admin authorization
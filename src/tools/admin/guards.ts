@@ -2,7 +2,8 @@
  * Admin authorization guards for MCP tools
  */
 
-import { resolveUser, ToolHandlerExtra } from '../../auth/identity.js';
+import { resolveUser, resolveKeyScopes, ToolHandlerExtra } from '../../auth/identity.js';
+import { hasScope } from '../../auth/scopes.js';
 import { ToolError, ErrorCode, formatError, createToolResponse } from '../errors.js';
 
 export interface AdminAuthResult {
@@ -18,7 +19,8 @@ export interface AdminAuthError {
 export type AdminCheck = AdminAuthResult | AdminAuthError;
 
 /**
- * Check if the current session belongs to an admin user.
+ * Check if the current session belongs to an admin user (and, with an API
+ * key, that the key has the admin scope).
  * Uses resolveUser() to perform a single DB query instead of
  * separate resolveUserId + resolveIsAdmin calls.
  */
@@ -43,6 +45,15 @@ export async function requireAdmin(extra: ToolHandlerExtra): Promise<AdminCheck>
     };
   }
 
+  if (!hasScope(resolveKeyScopes(extra), 'admin')) {
+    return {
+      authorized: false,
+      errorResponse: createToolResponse(
+        formatError(new ToolError(ErrorCode.FORBIDDEN, "This API key doesn't have the admin scope"))
+      ),
+    };
+  }
+
   return {
     authorized: true,
     adminUserId: user.id,
@@ -3,6 +3,7 @@
  * Exports registration functions for all admin MCP tools
  */
 
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerAdminListUsersTool } from './admin-list-users.js';
 import { registerAdminCreateUserTool } from './admin-create-user.js';
 import { registerAdminDeleteUserTool } from './admin-delete-user.js';
@@ -20,20 +21,23 @@ export {
 
 /**
  * Register all admin tools
+ * @returns The number of tools registered
  */
-export function registerAllAdminTools(): void {
-  registerAdminListUsersTool();
+export function registerAllAdminTools(server: McpServer): number {
+  registerAdminListUsersTool(server);
   console.log('[tools] Registered: admin_list_users');
 
-  registerAdminCreateUserTool();
+  registerAdminCreateUserTool(server);
   console.log('[tools] Registered: admin_create_user');
 
-  registerAdminDeleteUserTool();
+  registerAdminDeleteUserTool(server);
   console.log('[tools] Registered: admin_delete_user');
 
-  registerAdminCreateApiKeyTool();
+  registerAdminCreateApiKeyTool(server);
   console.log('[tools] Registered: admin_create_api_key');
 
-  registerAdminRevokeApiKeyTool();
+  registerAdminRevokeApiKeyTool(server);
   console.log('[tools] Registered: admin_revoke_api_key');
+
+  return 5;
 }
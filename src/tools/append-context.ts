@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { editContext, DEFAULT_NAMESPACE, SharedWriteError } from '../db/queries.js';
+import { ContextEditError } from '../db/edits.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema, ownerInputSchema } from './workspace.js';
+import { validateKey, validateContent, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Input schema for append_context tool
+export const appendContextInputSchema = {
+  key: z.string().describe('The key of the context entry to append to (created if it does not exist)'),
+  content: z.string().describe('The text to add'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  position: z.enum(['end', 'start']).optional().describe('Where to add the text: "end" appends, "start" prepends (default: "end")'),
+  separator: z.string().optional().describe('Inserted between the existing content and the new text (default: newline)'),
+  workspace: workspaceInputSchema,
+  owner: ownerInputSchema,
+};
+
+// Output type
+interface AppendContextOutput {
+  key: string;
+  namespace: string;
+  version: number;
+  size: number;
+  updated_at: string;
+  action: 'created' | 'updated';
+}
+
+// Output schema for append_context tool
+export const appendContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  version: z.number(),
+  size: z.number(),
+  updated_at: z.string(),
+  action: z.enum(['created', 'updated']),
+};
+
+/**
+ * Register the append_context tool
+ */
+export function registerAppendContextTool(server: McpServer): void {
+  server.registerTool(
+    'append_context',
+    {
+      title: 'Append Context',
+      description: 'Append (or prepend) text to a context entry without rewriting it, e.g. for running logs or decision journals. Creates the entry if it does not exist.',
+      inputSchema: appendContextInputSchema,
+      outputSchema: appendContextOutputSchema,
+    },
+    async ({ key, content, namespace, position, separator, workspace, owner }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) or shared entry and check access
+      const auth = await requireEntryAccess(extra, { workspace, owner, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate key
+      const keyValidation = validateKey(key);
+      if (!keyValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keyValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate the appended text on its own (the combined size is checked in the transaction)
+      const contentValidation = validateContent(content);
+      if (!contentValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, contentValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      try {
+        // Appends create missing entries, so there is always a result
+        const entry = (await editContext(
+          ownerId,
+          key,
+          { type: position === 'start' ? 'prepend' : 'append', text: content, separator: separator ?? '\n' },
+          ns,
+          { validate: validateContent, grantee: auth.shared ? auth.userId : undefined }
+        ))!;
+
+        const data: AppendContextOutput = {
+          key: entry.key,
+          namespace: entry.namespace,
+          version: entry.version,
+          size: Buffer.byteLength(entry.content, 'utf8'),
+          updated_at: entry.updated_at.toISOString(),
+          action: entry.version === 1 ? 'created' : 'updated',
+        };
+
+        const response = formatSuccess(data, entry.updated_at);
+        return createToolResponse(response);
+      } catch (error) {
+        if (error instanceof SharedWriteError) {
+          const response = formatError(new ToolError(ErrorCode.FORBIDDEN, error.message));
+          return createToolResponse(response);
+        }
+
+        if (error instanceof ContextEditError) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, error.message));
+          return createToolResponse(response);
+        }
+
+        console.error('[append_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to append to context entry')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
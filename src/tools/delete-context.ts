@@ -1,41 +1,51 @@
 import { z } from 'zod';
-import { server } from '../server.js';
-import { deleteContext } from '../db/queries.js';
-import { resolveUserId, ToolHandlerExtra } from '../auth/identity.js';
-import { validateKey } from './validators.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { deleteContext, DEFAULT_NAMESPACE } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema } from './workspace.js';
+import { validateKey, validateNamespace } from './validators.js';
 import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
 
 // Input schema for delete_context tool
 export const deleteContextInputSchema = {
   key: z.string().describe('The unique key identifying the context entry to delete'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  workspace: workspaceInputSchema,
 };
 
 // Output type
 interface DeleteContextOutput {
   key: string;
+  namespace: string;
   deleted: boolean;
 }
 
+// Output schema for delete_context tool
+export const deleteContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  deleted: z.boolean(),
+};
+
 /**
  * Register the delete_context tool
  */
-export function registerDeleteContextTool(): void {
+export function registerDeleteContextTool(server: McpServer): void {
   server.registerTool(
     'delete_context',
     {
       title: 'Delete Context',
-      description: 'Delete a context entry by its key',
+      description: 'Delete a context entry by its key. The entry moves to the trash, where list_trash and restore_context can bring it back until the retention window passes',
       inputSchema: deleteContextInputSchema,
+      outputSchema: deleteContextOutputSchema,
     },
-    async ({ key }, extra: ToolHandlerExtra) => {
-      // Get user ID from identity resolver
-      const userId = await resolveUserId(extra);
-      if (!userId) {
-        const response = formatError(
-          new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
-        );
-        return createToolResponse(response);
+    async ({ key, namespace, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access to the entry
+      const auth = await requireEntryAccess(extra, { workspace, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
       }
+      const ownerId = auth.ownerId;
 
       // Validate key
       const keyValidation = validateKey(key);
@@ -44,19 +54,28 @@ export function registerDeleteContextTool(): void {
         return createToolResponse(response);
       }
 
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
       try {
         // Attempt deletion (filtered by user)
-        const deleted = await deleteContext(userId, key);
+        const deleted = await deleteContext(ownerId, key, ns);
 
         if (!deleted) {
           const response = formatError(
-            new ToolError(ErrorCode.NOT_FOUND, `Context entry '${key}' not found`)
+            new ToolError(ErrorCode.NOT_FOUND, `Context entry '${key}' not found in namespace '${ns}'`)
           );
           return createToolResponse(response);
         }
 
         const data: DeleteContextOutput = {
           key,
+          namespace: ns,
           deleted: true,
         };
 
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { deleteManyContext, DEFAULT_NAMESPACE } from '../db/queries.js';
+import { requireWorkspace, keyScopeError, workspaceInputSchema } from './workspace.js';
+import { validateBatchKeys, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+import { createProgressReporter } from './progress.js';
+
+// Input schema for delete_many_context tool
+export const deleteManyContextInputSchema = {
+  keys: z.array(z.string()).describe('Keys of the entries to delete (up to 100, distinct)'),
+  namespace: z.string().optional().describe('Namespace (project) of the entries (default: "default")'),
+  dry_run: z.boolean().optional().describe('Report which entries would be deleted without deleting anything'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface DeleteManyContextOutput {
+  deleted: string[];
+  missing: string[];
+  namespace: string;
+  count: number;
+  dry_run: boolean;
+}
+
+// Output schema for delete_many_context tool
+export const deleteManyContextOutputSchema = {
+  deleted: z.array(z.string()),
+  missing: z.array(z.string()),
+  namespace: z.string(),
+  count: z.number(),
+  dry_run: z.boolean(),
+};
+
+/**
+ * Register the delete_many_context tool
+ */
+export function registerDeleteManyContextTool(server: McpServer): void {
+  server.registerTool(
+    'delete_many_context',
+    {
+      title: 'Delete Many Context',
+      description: 'Delete up to 100 context entries by key in one all-or-nothing transaction. Deleted entries move to the trash (see list_trash). Keys that don\'t exist are listed in missing. Use dry_run to preview. Sends progress notifications for large batches when a progressToken is given.',
+      inputSchema: deleteManyContextInputSchema,
+      outputSchema: deleteManyContextOutputSchema,
+    },
+    async ({ keys, namespace, dry_run, workspace }, extra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate every key before deleting any
+      const keysValidation = validateBatchKeys(keys);
+      if (!keysValidation.valid) {
+        const response = formatError(
+          new ToolError(ErrorCode.INVALID_INPUT, keysValidation.error!, keysValidation.itemErrors && {
+            errors: keysValidation.itemErrors,
+          })
+        );
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // The API key must allow every key in the batch
+      for (const key of keys) {
+        const scopeError = keyScopeError(auth.scopes, ns, key);
+        if (scopeError) {
+          return scopeError.errorResponse;
+        }
+      }
+
+      try {
+        const dryRun = dry_run ?? false;
+        const result = await deleteManyContext(ownerId, keys, ns, {
+          dryRun,
+          onProgress: createProgressReporter(extra, keys.length, 'Deleted'),
+        });
+
+        const data: DeleteManyContextOutput = {
+          deleted: result.deleted,
+          missing: result.missing,
+          namespace: ns,
+          count: result.deleted.length,
+          dry_run: dryRun,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[delete_many_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to delete context entries; no changes were made')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -10,6 +10,7 @@ export enum ErrorCode {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
+  CONFLICT = 'CONFLICT',
 }
 
 /**
@@ -17,10 +18,12 @@ export enum ErrorCode {
  */
 export class ToolError extends Error {
   public readonly code: ErrorCode;
+  public readonly details?: Record<string, unknown>;
 
-  constructor(code: ErrorCode, message: string) {
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
     super(message);
     this.code = code;
+    this.details = details;
     this.name = 'ToolError';
   }
 }
@@ -45,6 +48,7 @@ export function formatError(error: ToolError | Error): ToolErrorResponse {
       success: false,
       error: error.message,
       code: error.code,
+      ...(error.details && { details: error.details }),
     };
   }
 
@@ -70,17 +74,24 @@ export interface ToolErrorResponse {
   success: false;
   error: string;
   code: ErrorCode;
+  details?: Record<string, unknown>;
 }
 
 export type ToolResponse<T> = ToolSuccessResponse<T> | ToolErrorResponse;
 
 /**
  * Helper to create MCP tool content response
+ * Success data is returned as structuredContent (matching the tool's
+ * outputSchema); errors are flagged with isError. The JSON text block is
+ * kept for clients that don't read structured content.
  */
 export function createToolResponse<T>(response: ToolResponse<T>) {
-  return {
-    content: [{ type: 'text' as const, text: JSON.stringify(response, null, 2) }],
-  };
+  const content = [{ type: 'text' as const, text: JSON.stringify(response, null, 2) }];
+
+  if (!response.success) {
+    return { content, isError: true };
+  }
+  return { content, structuredContent: response.data as Record<string, unknown> };
 }
 
 /**
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getContextHistory, ContextHistoryAction, DEFAULT_NAMESPACE } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema } from './workspace.js';
+import { validateKey, validateLimit, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Constants for history limits
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Input schema for get_context_history tool
+export const getContextHistoryInputSchema = {
+  key: z.string().describe('The key of the context entry whose history to read'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  limit: z.number().optional().describe(`Maximum number of versions to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface GetContextHistoryOutput {
+  key: string;
+  namespace: string;
+  versions: Array<{
+    history_id: number;
+    action: ContextHistoryAction;
+    content: string;
+    restored_from: number | null;
+    source_namespace: string | null;
+    source_key: string | null;
+    changed_at: string;
+  }>;
+  count: number;
+  limit: number;
+}
+
+// Output schema for get_context_history tool
+export const getContextHistoryOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  versions: z.array(z.object({
+    history_id: z.number(),
+    action: z.enum(['create', 'update', 'delete', 'restore', 'rename', 'copy', 'expire']),
+    content: z.string(),
+    restored_from: z.number().nullable(),
+    source_namespace: z.string().nullable(),
+    source_key: z.string().nullable(),
+    changed_at: z.string(),
+  })),
+  count: z.number(),
+  limit: z.number(),
+};
+
+/**
+ * Register the get_context_history tool
+ */
+export function registerGetContextHistoryTool(server: McpServer): void {
+  server.registerTool(
+    'get_context_history',
+    {
+      title: 'Get Context History',
+      description: 'List previous versions of a context entry, most recent first. Use a history_id with restore_context_version to roll back.',
+      inputSchema: getContextHistoryInputSchema,
+      outputSchema: getContextHistoryOutputSchema,
+    },
+    async ({ key, namespace, limit, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access to the entry
+      const auth = await requireEntryAccess(extra, { workspace, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'read');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate key
+      const keyValidation = validateKey(key);
+      if (!keyValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keyValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      try {
+        // Validate and normalize limit
+        const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
+
+        // Fetch history from database (filtered by user)
+        const history = await getContextHistory(ownerId, key, safeLimit, ns);
+
+        if (history.length === 0) {
+          const response = formatError(
+            new ToolError(ErrorCode.NOT_FOUND, `No history found for '${key}' in namespace '${ns}'`)
+          );
+          return createToolResponse(response);
+        }
+
+        const data: GetContextHistoryOutput = {
+          key,
+          namespace: ns,
+          versions: history.map((version) => ({
+            history_id: version.id,
+            action: version.action,
+            content: version.content,
+            restored_from: version.restored_from,
+            source_namespace: version.source_namespace,
+            source_key: version.source_key,
+            changed_at: version.changed_at.toISOString(),
+          })),
+          count: history.length,
+          limit: safeLimit,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[get_context_history] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to read context history')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
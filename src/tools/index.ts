@@ -3,37 +3,79 @@
  * Registers all MCP tools with the server
  */
 
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerReadContextTool } from './read-context.js';
 import { registerWriteContextTool } from './write-context.js';
+import { registerAppendContextTool } from './append-context.js';
+import { registerPatchContextTool } from './patch-context.js';
 import { registerDeleteContextTool } from './delete-context.js';
+import { registerWriteManyContextTool } from './write-many-context.js';
+import { registerDeleteManyContextTool } from './delete-many-context.js';
+import { registerRenameContextTool } from './rename-context.js';
+import { registerCopyContextTool } from './copy-context.js';
 import { registerListContextTool } from './list-context.js';
 import { registerReadAllContextTool } from './read-all.js';
+import { registerReadManyContextTool } from './read-many-context.js';
+import { registerSearchContextTool } from './search-context.js';
+import { registerSemanticSearchContextTool } from './semantic-search-context.js';
+import { registerGetContextHistoryTool } from './get-context-history.js';
+import { registerRestoreContextVersionTool } from './restore-context-version.js';
+import { registerListTrashTool } from './list-trash.js';
+import { registerRestoreContextTool } from './restore-context.js';
+import { registerListWorkspacesTool } from './list-workspaces.js';
 import { registerAllAdminTools } from './admin/index.js';
+import { hasScope, ApiKeyScope, KeyScopes } from '../auth/scopes.js';
 
 /**
- * Register all MCP tools with the server
+ * Register the MCP tools with the server
+ * @param scopes - Scopes of the session's API key; tools needing a scope the
+ *                 key lacks are not registered, so they don't appear in
+ *                 tools/list (handlers check the scopes again on every call)
  */
-export function registerAllTools(): void {
+export function registerAllTools(server: McpServer, scopes: KeyScopes | null = null): void {
   console.log('[tools] Registering MCP tools...');
+  let registered = 0;
 
-  // Context tools
-  registerReadContextTool();
-  console.log('[tools] Registered: read_context');
+  const register = (name: string, scope: ApiKeyScope, registerTool: (server: McpServer) => void): void => {
+    if (!hasScope(scopes, scope)) {
+      return;
+    }
+    registerTool(server);
+    registered++;
+    console.log(`[tools] Registered: ${name}`);
+  };
 
-  registerWriteContextTool();
-  console.log('[tools] Registered: write_context');
+  // Context tools
+  register('read_context', 'context:read', registerReadContextTool);
+  register('write_context', 'context:write', registerWriteContextTool);
+  register('append_context', 'context:write', registerAppendContextTool);
+  register('patch_context', 'context:write', registerPatchContextTool);
+  register('delete_context', 'context:write', registerDeleteContextTool);
+  register('write_many_context', 'context:write', registerWriteManyContextTool);
+  register('delete_many_context', 'context:write', registerDeleteManyContextTool);
+  register('rename_context', 'context:write', registerRenameContextTool);
+  register('copy_context', 'context:write', registerCopyContextTool);
+  register('list_context', 'context:read', registerListContextTool);
+  register('read_all_context', 'context:read', registerReadAllContextTool);
+  register('read_many_context', 'context:read', registerReadManyContextTool);
+  register('search_context', 'context:read', registerSearchContextTool);
+  register('semantic_search_context', 'context:read', registerSemanticSearchContextTool);
 
-  registerDeleteContextTool();
-  console.log('[tools] Registered: delete_context');
+  // History tools
+  register('get_context_history', 'context:read', registerGetContextHistoryTool);
+  register('restore_context_version', 'context:write', registerRestoreContextVersionTool);
 
-  registerListContextTool();
-  console.log('[tools] Registered: list_context');
+  // Trash tools
+  register('list_trash', 'context:read', registerListTrashTool);
+  register('restore_context', 'context:write', registerRestoreContextTool);
 
-  registerReadAllContextTool();
-  console.log('[tools] Registered: read_all_context');
+  // Workspace tools
+  register('list_workspaces', 'context:read', registerListWorkspacesTool);
 
   // Admin tools
-  registerAllAdminTools();
+  if (hasScope(scopes, 'admin')) {
+    registered += registerAllAdminTools(server);
+  }
 
-  console.log('[tools] All 10 MCP tools registered successfully');
+  console.log(`[tools] ${registered} MCP tools registered successfully`);
 }
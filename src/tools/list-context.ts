@@ -1,8 +1,10 @@
 import { z } from 'zod';
-import { server } from '../server.js';
-import { listContextKeys } from '../db/queries.js';
-import { resolveUserId, ToolHandlerExtra } from '../auth/identity.js';
-import { validateLimit } from './validators.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { listContextKeysPage, listSharedWithUser, DEFAULT_NAMESPACE, InvalidCursorError } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { allowsEntry } from '../auth/scopes.js';
+import { validateLimit, validateNamespace, validateTags, validateMetadata } from './validators.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
 
 // Constants for list limits
@@ -13,60 +15,151 @@ const MAX_LIMIT = 200;
 export const listContextInputSchema = {
   limit: z.number().optional().describe(`Maximum number of entries to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
   search: z.string().optional().describe('Optional search pattern to filter keys (case-insensitive)'),
+  namespace: z.string().optional().describe('Namespace (project) to list (default: "default")'),
+  tags: z.array(z.string()).optional().describe('Only list entries that have all of these tags'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Only list entries whose metadata contains these fields, e.g. {"source": "meeting"}'),
+  cursor: z.string().optional().describe('next_cursor from a previous call, to fetch the following page (keep the other arguments the same)'),
+  workspace: workspaceInputSchema,
 };
 
 // Output type
 interface ListContextOutput {
   entries: Array<{
     key: string;
+    tags: string[];
+    expires_at: string | null;
     updated_at: string;
   }>;
+  namespace: string;
   count: number;
   limit: number;
+  next_cursor: string | null;
   search?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  shared_with_me?: Array<{
+    owner: string;
+    namespace: string;
+    key: string;
+    permission: string;
+    updated_at: string;
+  }>;
 }
 
+// Output schema for list_context tool
+export const listContextOutputSchema = {
+  entries: z.array(z.object({
+    key: z.string(),
+    tags: z.array(z.string()),
+    expires_at: z.string().nullable(),
+    updated_at: z.string(),
+  })),
+  namespace: z.string(),
+  count: z.number(),
+  limit: z.number(),
+  next_cursor: z.string().nullable(),
+  search: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  shared_with_me: z.array(z.object({
+    owner: z.string(),
+    namespace: z.string(),
+    key: z.string(),
+    permission: z.string(),
+    updated_at: z.string(),
+  })).optional(),
+};
+
 /**
  * Register the list_context tool
  */
-export function registerListContextTool(): void {
+export function registerListContextTool(server: McpServer): void {
   server.registerTool(
     'list_context',
     {
       title: 'List Context',
-      description: 'List all context keys with metadata, optionally filtered by search pattern',
+      description: 'List all context keys in a namespace with their tags, optionally filtered by search pattern, tags or metadata. Follow next_cursor to list further pages. The first page of your personal context also lists entries others shared with you under shared_with_me; pass their owner to read_context (or write_context, append_context, patch_context with write permission)',
       inputSchema: listContextInputSchema,
+      outputSchema: listContextOutputSchema,
     },
-    async ({ limit, search }, extra: ToolHandlerExtra) => {
-      // Get user ID from identity resolver
-      const userId = await resolveUserId(extra);
-      if (!userId) {
-        const response = formatError(
-          new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
-        );
+    async ({ limit, search, namespace, tags, metadata, cursor, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace ?? DEFAULT_NAMESPACE);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
         return createToolResponse(response);
       }
 
+      // Validate filters
+      if (tags !== undefined) {
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, tagsValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+      if (metadata !== undefined) {
+        const metadataValidation = validateMetadata(metadata);
+        if (!metadataValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, metadataValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
       try {
         // Validate and normalize limit
         const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
 
-        // Fetch keys from database (filtered by user)
-        const entries = await listContextKeys(userId, safeLimit, search);
+        // Fetch a page of keys from database (filtered by user and the API key's scope)
+        const filter = { tags, metadata, ...keyScopeFilter(auth.scopes) };
+        const { entries, nextCursor } = await listContextKeysPage(ownerId, safeLimit, search, ns, filter, cursor);
+
+        // Entries shared with the user, once, alongside their personal context
+        const sharedWithUser = !workspace && !cursor ? await listSharedWithUser(auth.userId) : [];
+
+        // Leave out shared entries outside the API key's scope
+        const shared = sharedWithUser.filter((entry) => allowsEntry(auth.scopes, entry.namespace, entry.key));
 
         const data: ListContextOutput = {
           entries: entries.map((entry) => ({
             key: entry.key,
+            tags: entry.tags,
+            expires_at: entry.expires_at?.toISOString() ?? null,
             updated_at: entry.updated_at.toISOString(),
           })),
+          namespace: ns,
           count: entries.length,
           limit: safeLimit,
+          next_cursor: nextCursor,
           ...(search && { search }),
+          ...(tags && tags.length > 0 && { tags }),
+          ...(metadata && { metadata }),
+          ...(shared.length > 0 && {
+            shared_with_me: shared.map((entry) => ({
+              owner: entry.owner,
+              namespace: entry.namespace,
+              key: entry.key,
+              permission: entry.permission,
+              updated_at: entry.updated_at.toISOString(),
+            })),
+          }),
         };
 
         const response = formatSuccess(data);
         return createToolResponse(response);
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, error.message));
+          return createToolResponse(response);
+        }
         console.error('[list_context] Database error:', error);
         const response = formatError(
           new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to list context entries')
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { listTrash } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { validateLimit, validateNamespace } from './validators.js';
+import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
+import { trashRetentionDays, trashPurgeAt } from '../jobs/trash-purger.js';
+
+// Constants for list limits
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Input schema for list_trash tool
+export const listTrashInputSchema = {
+  namespace: z.string().optional().describe('Only list entries deleted from this namespace (default: all namespaces)'),
+  limit: z.number().optional().describe(`Maximum number of entries to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface ListTrashOutput {
+  entries: Array<{
+    id: number;
+    key: string;
+    namespace: string;
+    version: number;
+    tags: string[];
+    preview: string;
+    deleted_at: string;
+    purge_at: string;
+  }>;
+  count: number;
+  retention_days: number;
+  namespace?: string;
+}
+
+// Output schema for list_trash tool
+export const listTrashOutputSchema = {
+  entries: z.array(z.object({
+    id: z.number(),
+    key: z.string(),
+    namespace: z.string(),
+    version: z.number(),
+    tags: z.array(z.string()),
+    preview: z.string(),
+    deleted_at: z.string(),
+    purge_at: z.string(),
+  })),
+  count: z.number(),
+  retention_days: z.number(),
+  namespace: z.string().optional(),
+};
+
+/**
+ * Register the list_trash tool
+ */
+export function registerListTrashTool(server: McpServer): void {
+  server.registerTool(
+    'list_trash',
+    {
+      title: 'List Trash',
+      description: 'List deleted context entries that can still be restored with restore_context, most recently deleted first. Entries are purged for good after the retention window (purge_at)',
+      inputSchema: listTrashInputSchema,
+      outputSchema: listTrashOutputSchema,
+    },
+    async ({ namespace, limit, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate namespace (when filtering by one)
+      if (namespace !== undefined) {
+        const namespaceValidation = validateNamespace(namespace);
+        if (!namespaceValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      try {
+        // Validate and normalize limit
+        const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
+
+        // Only entries within the API key's scope are listed
+        const entries = await listTrash(ownerId, namespace, safeLimit, keyScopeFilter(auth.scopes));
+
+        const data: ListTrashOutput = {
+          entries: entries.map((e) => ({
+            id: e.id,
+            key: e.key,
+            namespace: e.namespace,
+            version: e.version,
+            tags: e.tags,
+            preview: e.preview,
+            deleted_at: e.deleted_at.toISOString(),
+            purge_at: trashPurgeAt(e.deleted_at).toISOString(),
+          })),
+          count: entries.length,
+          retention_days: trashRetentionDays(),
+        };
+        if (namespace !== undefined) {
+          data.namespace = namespace;
+        }
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[list_trash] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to list trash')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
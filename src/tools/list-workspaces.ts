@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { resolvePrincipal, resolveKeyScopes, ToolHandlerExtra } from '../auth/identity.js';
+import { hasScope } from '../auth/scopes.js';
+import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
+
+// Input schema for list_workspaces tool
+export const listWorkspacesInputSchema = {};
+
+// Output type
+interface ListWorkspacesOutput {
+  workspaces: Array<{
+    slug: string;
+    name: string;
+    role: string;
+  }>;
+  count: number;
+}
+
+// Output schema for list_workspaces tool
+export const listWorkspacesOutputSchema = {
+  workspaces: z.array(z.object({
+    slug: z.string(),
+    name: z.string(),
+    role: z.string(),
+  })),
+  count: z.number(),
+};
+
+/**
+ * Register the list_workspaces tool
+ */
+export function registerListWorkspacesTool(server: McpServer): void {
+  server.registerTool(
+    'list_workspaces',
+    {
+      title: 'List Workspaces',
+      description: 'List the team workspaces you belong to and your role in each (owner, editor or viewer). Pass a slug as the workspace argument of the other tools to use team context instead of your personal context; viewers can only read',
+      inputSchema: listWorkspacesInputSchema,
+      outputSchema: listWorkspacesOutputSchema,
+    },
+    async (_args, extra: ToolHandlerExtra) => {
+      try {
+        const principal = await resolvePrincipal(extra);
+        if (!principal) {
+          const response = formatError(
+            new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
+          );
+          return createToolResponse(response);
+        }
+        if (!hasScope(resolveKeyScopes(extra), 'context:read')) {
+          const response = formatError(
+            new ToolError(ErrorCode.FORBIDDEN, "This API key doesn't have the context:read scope")
+          );
+          return createToolResponse(response);
+        }
+
+        const data: ListWorkspacesOutput = {
+          workspaces: principal.memberships.map((m) => ({
+            slug: m.slug,
+            name: m.name,
+            role: m.role,
+          })),
+          count: principal.memberships.length,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[list_workspaces] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to list workspaces')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { editContext, DEFAULT_NAMESPACE, ContextConflictError, SharedWriteError } from '../db/queries.js';
+import { buildPatchEdit, ContextEditError } from '../db/edits.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema, ownerInputSchema } from './workspace.js';
+import { validateKey, validateContent, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Input schema for patch_context tool
+export const patchContextInputSchema = {
+  key: z.string().describe('The key of the context entry to patch'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  section: z.string().optional().describe('Markdown heading whose section body is replaced with content (e.g. "## Decisions")'),
+  start_line: z.number().int().optional().describe('First line (1-based) of a line range replaced with content'),
+  end_line: z.number().int().optional().describe('Last line (inclusive) of the line range (default: start_line)'),
+  content: z.string().optional().describe('Replacement text for section or line-range edits'),
+  search: z.string().optional().describe('Exact text to find (must be unique unless replace_all is set)'),
+  replace: z.string().optional().describe('Text that replaces search'),
+  replace_all: z.boolean().optional().describe('Replace every occurrence of search (default: false)'),
+  json_patch: z.array(z.object({
+    op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+    path: z.string(),
+    from: z.string().optional(),
+    value: z.unknown().optional(),
+  })).optional().describe('RFC 6902 JSON Patch operations, for entries containing JSON'),
+  expected_version: z.number().int().min(1).optional().describe('Only patch if the entry is still at this version (from read_context)'),
+  workspace: workspaceInputSchema,
+  owner: ownerInputSchema,
+};
+
+// Output type
+interface PatchContextOutput {
+  key: string;
+  namespace: string;
+  version: number;
+  size: number;
+  updated_at: string;
+}
+
+// Output schema for patch_context tool
+export const patchContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  version: z.number(),
+  size: z.number(),
+  updated_at: z.string(),
+};
+
+/**
+ * Register the patch_context tool
+ */
+export function registerPatchContextTool(server: McpServer): void {
+  server.registerTool(
+    'patch_context',
+    {
+      title: 'Patch Context',
+      description: 'Edit part of a context entry in place. Use exactly one of: section + content (replace a markdown section), start_line/end_line + content (replace lines), search + replace, or json_patch (RFC 6902, JSON entries).',
+      inputSchema: patchContextInputSchema,
+      outputSchema: patchContextOutputSchema,
+    },
+    async ({ key, namespace, expected_version, workspace, owner, ...patch }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) or shared entry and check access
+      const auth = await requireEntryAccess(extra, { workspace, owner, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate key
+      const keyValidation = validateKey(key);
+      if (!keyValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keyValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate the patch arguments
+      const { edit, error: patchError } = buildPatchEdit(patch);
+      if (!edit) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, patchError!));
+        return createToolResponse(response);
+      }
+
+      try {
+        const entry = await editContext(ownerId, key, edit, ns, {
+          precondition: expected_version !== undefined ? { expectedVersion: expected_version } : undefined,
+          validate: validateContent,
+          grantee: auth.shared ? auth.userId : undefined,
+        });
+
+        if (!entry) {
+          const response = formatError(
+            new ToolError(ErrorCode.NOT_FOUND, `Context entry '${key}' not found in namespace '${ns}'`)
+          );
+          return createToolResponse(response);
+        }
+
+        const data: PatchContextOutput = {
+          key: entry.key,
+          namespace: entry.namespace,
+          version: entry.version,
+          size: Buffer.byteLength(entry.content, 'utf8'),
+          updated_at: entry.updated_at.toISOString(),
+        };
+
+        const response = formatSuccess(data, entry.updated_at);
+        return createToolResponse(response);
+      } catch (error) {
+        if (error instanceof SharedWriteError) {
+          const response = formatError(new ToolError(ErrorCode.FORBIDDEN, error.message));
+          return createToolResponse(response);
+        }
+
+        if (error instanceof ContextEditError) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, error.message));
+          return createToolResponse(response);
+        }
+
+        if (error instanceof ContextConflictError) {
+          const current = error.current;
+          const response = formatError(
+            new ToolError(
+              ErrorCode.CONFLICT,
+              current
+                ? `Context entry '${key}' was modified (now at version ${current.version}); re-read it and retry`
+                : `Context entry '${key}' no longer exists in namespace '${ns}'`,
+              {
+                current: current && {
+                  content: current.content,
+                  version: current.version,
+                  updated_at: current.updated_at.toISOString(),
+                },
+              }
+            )
+          );
+          return createToolResponse(response);
+        }
+
+        console.error('[patch_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to patch context entry')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Progress notifications for long-running tools
+ *
+ * Clients opt in by sending a progressToken in the request _meta; tools then
+ * emit notifications/progress as batch items complete.
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Batches smaller than this finish too quickly for progress to be useful
+const MIN_PROGRESS_BATCH = 10;
+
+// Report every N completed items (and always on the last one)
+const PROGRESS_INTERVAL = 10;
+
+export type ProgressReporter = (completed: number, total: number) => Promise<void>;
+
+/**
+ * Create a progress callback for a batch, or undefined if the client didn't
+ * ask for progress or the batch is small
+ */
+export function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  total: number,
+  label: string
+): ProgressReporter | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined || total < MIN_PROGRESS_BATCH) {
+    return undefined;
+  }
+
+  return async (completed, batchTotal) => {
+    if (completed % PROGRESS_INTERVAL !== 0 && completed !== batchTotal) {
+      return;
+    }
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: completed,
+        total: batchTotal,
+        message: `${label} ${completed}/${batchTotal}`,
+      },
+    });
+  };
+}
@@ -1,8 +1,9 @@
 import { z } from 'zod';
-import { server } from '../server.js';
-import { getAllContext } from '../db/queries.js';
-import { resolveUserId, ToolHandlerExtra } from '../auth/identity.js';
-import { validateLimit } from './validators.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getAllContextPage, DEFAULT_NAMESPACE, InvalidCursorError } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { validateLimit, validateNamespace } from './validators.js';
 import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
 
 // Constants for read_all limits (lower than list since we return content)
@@ -12,6 +13,9 @@ const MAX_LIMIT = 50;
 // Input schema for read_all_context tool
 export const readAllContextInputSchema = {
   limit: z.number().optional().describe(`Maximum number of entries to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+  namespace: z.string().optional().describe('Namespace (project) to read (default: "default")'),
+  cursor: z.string().optional().describe('next_cursor from a previous call, to fetch the following page'),
+  workspace: workspaceInputSchema,
 };
 
 // Output type
@@ -19,31 +23,60 @@ interface ReadAllContextOutput {
   entries: Array<{
     key: string;
     content: string;
+    tags: string[];
+    metadata: Record<string, unknown>;
     created_at: string;
+    expires_at: string | null;
     updated_at: string;
   }>;
+  namespace: string;
   count: number;
   limit: number;
+  next_cursor: string | null;
 }
 
+// Output schema for read_all_context tool
+export const readAllContextOutputSchema = {
+  entries: z.array(z.object({
+    key: z.string(),
+    content: z.string(),
+    tags: z.array(z.string()),
+    metadata: z.record(z.string(), z.unknown()),
+    created_at: z.string(),
+    expires_at: z.string().nullable(),
+    updated_at: z.string(),
+  })),
+  namespace: z.string(),
+  count: z.number(),
+  limit: z.number(),
+  next_cursor: z.string().nullable(),
+};
+
 /**
  * Register the read_all_context tool
  */
-export function registerReadAllContextTool(): void {
+export function registerReadAllContextTool(server: McpServer): void {
   server.registerTool(
     'read_all_context',
     {
       title: 'Read All Context',
-      description: 'Read all context entries with their content, ordered by most recently updated',
+      description: 'Read all context entries in a namespace with their content, ordered by most recently updated. Follow next_cursor to read further pages',
       inputSchema: readAllContextInputSchema,
+      outputSchema: readAllContextOutputSchema,
     },
-    async ({ limit }, extra: ToolHandlerExtra) => {
-      // Get user ID from identity resolver
-      const userId = await resolveUserId(extra);
-      if (!userId) {
-        const response = formatError(
-          new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
-        );
+    async ({ limit, namespace, cursor, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace ?? DEFAULT_NAMESPACE);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
         return createToolResponse(response);
       }
 
@@ -51,23 +84,32 @@ export function registerReadAllContextTool(): void {
         // Validate and normalize limit
         const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
 
-        // Fetch all entries from database (filtered by user)
-        const entries = await getAllContext(userId, safeLimit);
+        // Fetch a page of entries from database (filtered by user and the API key's scope)
+        const { entries, nextCursor } = await getAllContextPage(ownerId, safeLimit, ns, keyScopeFilter(auth.scopes), cursor);
 
         const data: ReadAllContextOutput = {
           entries: entries.map((entry) => ({
             key: entry.key,
             content: entry.content,
+            tags: entry.tags,
+            metadata: entry.metadata,
             created_at: entry.created_at.toISOString(),
+            expires_at: entry.expires_at?.toISOString() ?? null,
             updated_at: entry.updated_at.toISOString(),
           })),
+          namespace: ns,
           count: entries.length,
           limit: safeLimit,
+          next_cursor: nextCursor,
         };
 
         const response = formatSuccess(data);
         return createToolResponse(response);
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, error.message));
+          return createToolResponse(response);
+        }
         console.error('[read_all_context] Database error:', error);
         const response = formatError(
           new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to read context entries')
@@ -1,43 +1,65 @@
 import { z } from 'zod';
-import { server } from '../server.js';
-import { getContext } from '../db/queries.js';
-import { resolveUserId, ToolHandlerExtra } from '../auth/identity.js';
-import { validateKey } from './validators.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getContext, listKeyNames, DEFAULT_NAMESPACE } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema, ownerInputSchema } from './workspace.js';
+import { validateKey, validateNamespace } from './validators.js';
 import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+import { suggestKeys } from './suggestions.js';
 
 // Input schema for read_context tool
 export const readContextInputSchema = {
   key: z.string().describe('The unique key identifying the context entry to read'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  workspace: workspaceInputSchema,
+  owner: ownerInputSchema,
 };
 
 // Output type
 interface ReadContextOutput {
   key: string;
+  namespace: string;
   content: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
   created_at: string;
+  expires_at: string | null;
   updated_at: string;
 }
 
+// Output schema for read_context tool
+export const readContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  content: z.string(),
+  version: z.number(),
+  tags: z.array(z.string()),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string(),
+  expires_at: z.string().nullable(),
+  updated_at: z.string(),
+};
+
 /**
  * Register the read_context tool
  */
-export function registerReadContextTool(): void {
+export function registerReadContextTool(server: McpServer): void {
   server.registerTool(
     'read_context',
     {
       title: 'Read Context',
-      description: 'Read a single context entry by its key',
+      description: 'Read a single context entry by its key. Pass owner to read an entry someone shared with you',
       inputSchema: readContextInputSchema,
+      outputSchema: readContextOutputSchema,
     },
-    async ({ key }, extra: ToolHandlerExtra) => {
-      // Get user ID from identity resolver
-      const userId = await resolveUserId(extra);
-      if (!userId) {
-        const response = formatError(
-          new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
-        );
-        return createToolResponse(response);
+    async ({ key, namespace, workspace, owner }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) or shared entry and check access
+      const auth = await requireEntryAccess(extra, { workspace, owner, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'read');
+      if (!auth.authorized) {
+        return auth.errorResponse;
       }
+      const ownerId = auth.ownerId;
 
       // Validate key
       const keyValidation = validateKey(key);
@@ -46,21 +68,39 @@ export function registerReadContextTool(): void {
         return createToolResponse(response);
       }
 
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
       try {
         // Fetch from database (filtered by user)
-        const entry = await getContext(userId, key);
+        const entry = await getContext(ownerId, key, ns);
 
         if (!entry) {
+          // Point at similarly named keys in case of a typo (not in someone else's context)
+          const suggestions = auth.shared ? [] : suggestKeys(key, await listKeyNames(ownerId, ns));
+          const message = `Context entry '${key}' not found in namespace '${ns}'`;
           const response = formatError(
-            new ToolError(ErrorCode.NOT_FOUND, `Context entry '${key}' not found`)
+            suggestions.length > 0
+              ? new ToolError(ErrorCode.NOT_FOUND, `${message}. Did you mean: ${suggestions.join(', ')}?`, { suggestions })
+              : new ToolError(ErrorCode.NOT_FOUND, message)
           );
           return createToolResponse(response);
         }
 
         const data: ReadContextOutput = {
           key: entry.key,
+          namespace: entry.namespace,
           content: entry.content,
+          version: entry.version,
+          tags: entry.tags,
+          metadata: entry.metadata,
           created_at: entry.created_at.toISOString(),
+          expires_at: entry.expires_at?.toISOString() ?? null,
           updated_at: entry.updated_at.toISOString(),
         };
 
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { readManyContext, DEFAULT_NAMESPACE } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { validateKeySelectors, validateLimit, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Byte budget for returned content
+const DEFAULT_MAX_BYTES = 102400; // 100KB
+const MAX_MAX_BYTES = 1048576; // 1MB
+
+// Input schema for read_many_context tool
+export const readManyContextInputSchema = {
+  keys: z.array(z.string()).describe('Keys to read, or glob patterns with * and ? (e.g. ["api-design", "arch.*"]); up to 100'),
+  namespace: z.string().optional().describe('Namespace (project) to read from (default: "default")'),
+  max_bytes: z.number().int().optional().describe(`Total content budget in bytes (default: ${DEFAULT_MAX_BYTES}, max: ${MAX_MAX_BYTES}); entries that don't fit are listed in omitted`),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface ReadManyContextOutput {
+  entries: Array<{
+    key: string;
+    content: string;
+    version: number;
+    tags: string[];
+    metadata: Record<string, unknown>;
+    updated_at: string;
+  }>;
+  namespace: string;
+  count: number;
+  missing: string[];
+  omitted: string[];
+  truncated: boolean;
+  total_bytes: number;
+  max_bytes: number;
+}
+
+// Output schema for read_many_context tool
+export const readManyContextOutputSchema = {
+  entries: z.array(z.object({
+    key: z.string(),
+    content: z.string(),
+    version: z.number(),
+    tags: z.array(z.string()),
+    metadata: z.record(z.string(), z.unknown()),
+    updated_at: z.string(),
+  })),
+  namespace: z.string(),
+  count: z.number(),
+  missing: z.array(z.string()),
+  omitted: z.array(z.string()),
+  truncated: z.boolean(),
+  total_bytes: z.number(),
+  max_bytes: z.number(),
+};
+
+/**
+ * Register the read_many_context tool
+ */
+export function registerReadManyContextTool(server: McpServer): void {
+  server.registerTool(
+    'read_many_context',
+    {
+      title: 'Read Many Context',
+      description: 'Read specific context entries by key or glob pattern (e.g. "arch.*") in one call, within a byte budget. Returns the found entries, the keys/patterns that matched nothing (missing) and entries left out to stay within the budget (omitted). truncated is true when patterns matched more than 500 entries and the rest were not read.',
+      inputSchema: readManyContextInputSchema,
+      outputSchema: readManyContextOutputSchema,
+    },
+    async ({ keys, namespace, max_bytes, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace ?? DEFAULT_NAMESPACE);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate keys and patterns
+      const keysValidation = validateKeySelectors(keys);
+      if (!keysValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keysValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      try {
+        const maxBytes = validateLimit(max_bytes ?? DEFAULT_MAX_BYTES, MAX_MAX_BYTES, DEFAULT_MAX_BYTES);
+
+        // Fetch the requested entries in one query (filtered by user and the API key's scope)
+        const result = await readManyContext(ownerId, [...new Set(keys)], ns, maxBytes, keyScopeFilter(auth.scopes));
+
+        const data: ReadManyContextOutput = {
+          entries: result.entries.map((entry) => ({
+            key: entry.key,
+            content: entry.content,
+            version: entry.version,
+            tags: entry.tags,
+            metadata: entry.metadata,
+            updated_at: entry.updated_at.toISOString(),
+          })),
+          namespace: ns,
+          count: result.entries.length,
+          missing: result.missing,
+          omitted: result.omitted,
+          truncated: result.truncated,
+          total_bytes: result.totalBytes,
+          max_bytes: maxBytes,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[read_many_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to read context entries')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
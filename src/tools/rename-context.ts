@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { renameContext, DEFAULT_NAMESPACE, ContextExistsError } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, keyScopeError, workspaceInputSchema } from './workspace.js';
+import { validateKey, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Input schema for rename_context tool
+export const renameContextInputSchema = {
+  key: z.string().describe('The current key of the context entry'),
+  new_key: z.string().describe('The new key (alphanumeric, dash, underscore, dot)'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  new_namespace: z.string().optional().describe('Namespace to move the entry to (default: same namespace)'),
+  overwrite: z.boolean().optional().describe('Replace an existing entry at the new key (default: false, which fails with CONFLICT)'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface RenameContextOutput {
+  key: string;
+  namespace: string;
+  from_key: string;
+  from_namespace: string;
+  version: number;
+  overwritten: boolean;
+  updated_at: string;
+}
+
+// Output schema for rename_context tool
+export const renameContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  from_key: z.string(),
+  from_namespace: z.string(),
+  version: z.number(),
+  overwritten: z.boolean(),
+  updated_at: z.string(),
+};
+
+/**
+ * Register the rename_context tool
+ */
+export function registerRenameContextTool(server: McpServer): void {
+  server.registerTool(
+    'rename_context',
+    {
+      title: 'Rename Context',
+      description: 'Rename a context entry and/or move it to another namespace in one step. Content, tags, metadata and the full version history move with it. Fails with CONFLICT if the new key exists unless overwrite is true.',
+      inputSchema: renameContextInputSchema,
+      outputSchema: renameContextOutputSchema,
+    },
+    async ({ key, new_key, namespace, new_namespace, overwrite, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate both keys
+      for (const k of [key, new_key]) {
+        const keyValidation = validateKey(k);
+        if (!keyValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keyValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      // Validate both namespaces
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const newNs = new_namespace ?? ns;
+      for (const n of [ns, newNs]) {
+        const namespaceValidation = validateNamespace(n);
+        if (!namespaceValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      if (key === new_key && ns === newNs) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, 'New key and namespace must differ from the current ones'));
+        return createToolResponse(response);
+      }
+
+      // The API key must allow both the source entry and the target
+      for (const [n, k] of [[ns, key], [newNs, new_key]]) {
+        const scopeError = keyScopeError(auth.scopes, n, k);
+        if (scopeError) {
+          return scopeError.errorResponse;
+        }
+      }
+
+      try {
+        const result = await renameContext(ownerId, key, new_key, ns, newNs, { overwrite });
+
+        if (!result) {
+          const response = formatError(
+            new ToolError(ErrorCode.NOT_FOUND, `Context entry '${key}' not found in namespace '${ns}'`)
+          );
+          return createToolResponse(response);
+        }
+
+        const data: RenameContextOutput = {
+          key: result.entry.key,
+          namespace: result.entry.namespace,
+          from_key: key,
+          from_namespace: ns,
+          version: result.entry.version,
+          overwritten: result.overwritten,
+          updated_at: result.entry.updated_at.toISOString(),
+        };
+
+        const response = formatSuccess(data, result.entry.updated_at);
+        return createToolResponse(response);
+      } catch (error) {
+        if (error instanceof ContextExistsError) {
+          const response = formatError(
+            new ToolError(ErrorCode.CONFLICT, `${error.message}; pass overwrite: true to replace it`, {
+              current: {
+                version: error.current.version,
+                updated_at: error.current.updated_at.toISOString(),
+              },
+            })
+          );
+          return createToolResponse(response);
+        }
+
+        console.error('[rename_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to rename context entry')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
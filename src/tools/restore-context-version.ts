@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { restoreContextVersion, DEFAULT_NAMESPACE } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema } from './workspace.js';
+import { validateKey, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Input schema for restore_context_version tool
+export const restoreContextVersionInputSchema = {
+  key: z.string().describe('The key of the context entry to restore'),
+  history_id: z.number().int().describe('The history_id of the version to restore (from get_context_history)'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface RestoreContextVersionOutput {
+  key: string;
+  namespace: string;
+  restored_from: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Output schema for restore_context_version tool
+export const restoreContextVersionOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  restored_from: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+/**
+ * Register the restore_context_version tool
+ */
+export function registerRestoreContextVersionTool(server: McpServer): void {
+  server.registerTool(
+    'restore_context_version',
+    {
+      title: 'Restore Context Version',
+      description: 'Roll a context entry back to a previous version from its history. Also recovers deleted entries. The restore is recorded in history.',
+      inputSchema: restoreContextVersionInputSchema,
+      outputSchema: restoreContextVersionOutputSchema,
+    },
+    async ({ key, history_id, namespace, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access to the entry
+      const auth = await requireEntryAccess(extra, { workspace, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate key
+      const keyValidation = validateKey(key);
+      if (!keyValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, keyValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      try {
+        // Restore (filtered by user, namespace and key)
+        const entry = await restoreContextVersion(ownerId, key, history_id, ns);
+
+        if (!entry) {
+          const response = formatError(
+            new ToolError(ErrorCode.NOT_FOUND, `History version ${history_id} not found for '${key}' in namespace '${ns}'`)
+          );
+          return createToolResponse(response);
+        }
+
+        const data: RestoreContextVersionOutput = {
+          key: entry.key,
+          namespace: entry.namespace,
+          restored_from: history_id,
+          created_at: entry.created_at.toISOString(),
+          updated_at: entry.updated_at.toISOString(),
+        };
+
+        const response = formatSuccess(data, entry.updated_at);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[restore_context_version] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to restore context version')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { restoreTrashedContext, getTrashedContext, ContextExistsError } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, keyScopeError, workspaceInputSchema } from './workspace.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+
+// Input schema for restore_context tool
+export const restoreContextInputSchema = {
+  id: z.number().int().describe('The id of the trashed entry to restore (from list_trash)'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface RestoreContextOutput {
+  key: string;
+  namespace: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Output schema for restore_context tool
+export const restoreContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  version: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+/**
+ * Register the restore_context tool
+ */
+export function registerRestoreContextTool(server: McpServer): void {
+  server.registerTool(
+    'restore_context',
+    {
+      title: 'Restore Context',
+      description: 'Restore a deleted context entry from the trash (see list_trash) to the key it was deleted from, with its tags and metadata. Fails if that key has been reused since.',
+      inputSchema: restoreContextInputSchema,
+      outputSchema: restoreContextOutputSchema,
+    },
+    async ({ id, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      try {
+        // The API key must allow the key the entry comes back to
+        if (auth.scopes) {
+          const trashed = await getTrashedContext(ownerId, id);
+          const scopeError = trashed && keyScopeError(auth.scopes, trashed.namespace, trashed.key);
+          if (scopeError) {
+            return scopeError.errorResponse;
+          }
+        }
+
+        // Restore (filtered by user)
+        const entry = await restoreTrashedContext(ownerId, id);
+
+        if (!entry) {
+          const response = formatError(
+            new ToolError(ErrorCode.NOT_FOUND, `Trash entry ${id} not found`)
+          );
+          return createToolResponse(response);
+        }
+
+        const data: RestoreContextOutput = {
+          key: entry.key,
+          namespace: entry.namespace,
+          version: entry.version,
+          created_at: entry.created_at.toISOString(),
+          updated_at: entry.updated_at.toISOString(),
+        };
+
+        const response = formatSuccess(data, entry.updated_at);
+        return createToolResponse(response);
+      } catch (error) {
+        if (error instanceof ContextExistsError) {
+          const response = formatError(
+            new ToolError(ErrorCode.CONFLICT, `${error.message}; rename or delete it before restoring`, {
+              current: {
+                version: error.current.version,
+                updated_at: error.current.updated_at.toISOString(),
+              },
+            })
+          );
+          return createToolResponse(response);
+        }
+
+        console.error('[restore_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to restore context entry')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { searchContext, DEFAULT_NAMESPACE, SearchMatchMode } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { validateLimit, validateNamespace, validateSearchQuery, validateTags, validateMetadata } from './validators.js';
+import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
+
+// Constants for search limits
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Input schema for search_context tool
+export const searchContextInputSchema = {
+  query: z.string().describe('What to look for, e.g. "retry policy". Supports "quoted phrases", -excluded words and or'),
+  namespace: z.string().optional().describe('Namespace (project) to search (default: "default")'),
+  limit: z.number().optional().describe(`Maximum number of hits to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+  tags: z.array(z.string()).optional().describe('Only search entries that have all of these tags'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Only search entries whose metadata contains these fields'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface SearchContextOutput {
+  hits: Array<{
+    key: string;
+    tags: string[];
+    rank: number;
+    snippet: string;
+    updated_at: string;
+  }>;
+  query: string;
+  namespace: string;
+  match: SearchMatchMode;
+  count: number;
+}
+
+// Output schema for search_context tool
+export const searchContextOutputSchema = {
+  hits: z.array(z.object({
+    key: z.string(),
+    tags: z.array(z.string()),
+    rank: z.number(),
+    snippet: z.string(),
+    updated_at: z.string(),
+  })),
+  query: z.string(),
+  namespace: z.string(),
+  match: z.enum(['all', 'any']),
+  count: z.number(),
+};
+
+/**
+ * Register the search_context tool
+ */
+export function registerSearchContextTool(server: McpServer): void {
+  server.registerTool(
+    'search_context',
+    {
+      title: 'Search Context',
+      description:
+        'Full-text search over context keys and content. Returns ranked hits with highlighted excerpts ' +
+        '(matches wrapped in **), so you can find relevant entries without reading them all. ' +
+        'If no entry matches every word, entries matching any of them are returned (match: "any").',
+      inputSchema: searchContextInputSchema,
+      outputSchema: searchContextOutputSchema,
+    },
+    async ({ query, namespace, limit, tags, metadata, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace ?? DEFAULT_NAMESPACE);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate query
+      const queryValidation = validateSearchQuery(query);
+      if (!queryValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, queryValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate filters
+      if (tags !== undefined) {
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, tagsValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+      if (metadata !== undefined) {
+        const metadataValidation = validateMetadata(metadata);
+        if (!metadataValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, metadataValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      try {
+        const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
+
+        // Only entries within the API key's scope are searched
+        const result = await searchContext(ownerId, query, ns, safeLimit, { tags, metadata, ...keyScopeFilter(auth.scopes) });
+        const { hits } = result;
+
+        const data: SearchContextOutput = {
+          hits: hits.map((hit) => ({
+            key: hit.key,
+            tags: hit.tags,
+            rank: hit.rank,
+            snippet: hit.snippet,
+            updated_at: hit.updated_at.toISOString(),
+          })),
+          query,
+          namespace: ns,
+          match: result.match,
+          count: hits.length,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[search_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to search context entries')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { semanticSearchContext, DEFAULT_NAMESPACE } from '../db/queries.js';
+import { getEmbeddingProvider, embeddingModelId } from '../embeddings/index.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireWorkspace, workspaceInputSchema, keyScopeFilter } from './workspace.js';
+import { validateLimit, validateNamespace, validateSearchQuery, validateTags, validateMetadata } from './validators.js';
+import { formatSuccess, formatError, createToolResponse, ToolError, ErrorCode } from './errors.js';
+
+// Constants for search limits
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Input schema for semantic_search_context tool
+export const semanticSearchContextInputSchema = {
+  query: z.string().describe('Natural language description of what you are looking for, e.g. "how do we handle failed requests"'),
+  namespace: z.string().optional().describe('Namespace (project) to search (default: "default")'),
+  limit: z.number().optional().describe(`Maximum number of hits to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+  tags: z.array(z.string()).optional().describe('Only search entries that have all of these tags'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Only search entries whose metadata contains these fields'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface SemanticSearchContextOutput {
+  hits: Array<{
+    key: string;
+    tags: string[];
+    score: number;
+    preview: string;
+    updated_at: string;
+  }>;
+  query: string;
+  namespace: string;
+  model: string;
+  count: number;
+}
+
+// Output schema for semantic_search_context tool
+export const semanticSearchContextOutputSchema = {
+  hits: z.array(z.object({
+    key: z.string(),
+    tags: z.array(z.string()),
+    score: z.number(),
+    preview: z.string(),
+    updated_at: z.string(),
+  })),
+  query: z.string(),
+  namespace: z.string(),
+  model: z.string(),
+  count: z.number(),
+};
+
+/**
+ * Register the semantic_search_context tool
+ */
+export function registerSemanticSearchContextTool(server: McpServer): void {
+  server.registerTool(
+    'semantic_search_context',
+    {
+      title: 'Semantic Search Context',
+      description:
+        'Find context entries related in meaning to a query, even when they use different words. ' +
+        'Returns hits ranked by similarity score (0-1) with a short preview. ' +
+        'Use search_context instead for exact words or phrases.',
+      inputSchema: semanticSearchContextInputSchema,
+      outputSchema: semanticSearchContextOutputSchema,
+    },
+    async ({ query, namespace, limit, tags, metadata, workspace }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'read', namespace ?? DEFAULT_NAMESPACE);
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate query
+      const queryValidation = validateSearchQuery(query);
+      if (!queryValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, queryValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate filters
+      if (tags !== undefined) {
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, tagsValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+      if (metadata !== undefined) {
+        const metadataValidation = validateMetadata(metadata);
+        if (!metadataValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, metadataValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      try {
+        const safeLimit = validateLimit(limit ?? DEFAULT_LIMIT, MAX_LIMIT, DEFAULT_LIMIT);
+
+        // Only entries within the API key's scope are searched
+        const hits = await semanticSearchContext(ownerId, query, ns, safeLimit, { tags, metadata, ...keyScopeFilter(auth.scopes) });
+
+        const data: SemanticSearchContextOutput = {
+          hits: hits.map((hit) => ({
+            key: hit.key,
+            tags: hit.tags,
+            score: Math.round(hit.score * 1000) / 1000,
+            preview: hit.preview,
+            updated_at: hit.updated_at.toISOString(),
+          })),
+          query,
+          namespace: ns,
+          model: embeddingModelId(getEmbeddingProvider()),
+          count: hits.length,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[semantic_search_context] Search error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to search context entries')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * "Did you mean" suggestions for mistyped keys
+ */
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Levenshtein distance between two strings (case-insensitive)
+ */
+export function editDistance(a: string, b: string): number {
+  const s = a.toLowerCase();
+  const t = b.toLowerCase();
+
+  // Single-row dynamic programming table over t
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const substitution = previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[t.length];
+}
+
+/**
+ * Pick the candidates closest to a key that wasn't found
+ * Allows about one edit per three characters (at least two), closest first;
+ * ties keep the candidates' order.
+ */
+export function suggestKeys(key: string, candidates: string[], limit = MAX_SUGGESTIONS): string[] {
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+
+  return candidates
+    .filter((candidate) => Math.abs(candidate.length - key.length) <= maxDistance)
+    .map((candidate) => ({ candidate, distance: editDistance(key, candidate) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
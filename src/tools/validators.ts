@@ -2,9 +2,40 @@
  * Input validation utilities for MCP tools
  */
 
+import { DEFAULT_NAMESPACE } from '../db/queries.js';
+import { API_KEY_SCOPES, DEFAULT_API_KEY_SCOPES, ApiKeyScope, KeyScopes } from '../auth/scopes.js';
+
 // Key constraints
 const MAX_KEY_LENGTH = 255;
 const KEY_PATTERN = /^[a-zA-Z0-9_\-\.]+$/;
+// Path segments of REST routes that would shadow GET /api/context/:key (see isReservedRestKey)
+const RESERVED_REST_KEYS = new Set(['all', 'search', 'tags', 'namespaces', 'export', 'ns']);
+
+// Namespace constraints
+const MAX_NAMESPACE_LENGTH = 64;
+const NAMESPACE_PATTERN = /^[a-zA-Z0-9_\-]+$/;
+
+// Tag and metadata constraints
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const TAG_PATTERN = /^[a-zA-Z0-9_\-\.:\/]+$/;
+const MAX_METADATA_SIZE = 10240; // 10KB
+
+// Search query constraints
+const MAX_SEARCH_QUERY_LENGTH = 500;
+
+// Batch read constraints (keys or glob patterns such as "arch.*")
+const MAX_KEY_SELECTORS = 100;
+const KEY_GLOB_PATTERN = /^[a-zA-Z0-9_\-\.*?]+$/;
+
+// Expiry constraints
+const MAX_TTL_SECONDS = 10 * 365 * 24 * 60 * 60; // 10 years
+
+// Batch write/delete constraints
+const MAX_BATCH_OPERATIONS = 100;
+
+// Import constraints
+const MAX_IMPORT_ENTRIES = 5000;
 
 // User ID constraints
 const MAX_USER_ID_LENGTH = 50;
@@ -25,6 +56,22 @@ export interface ValidationResult {
   error?: string;
 }
 
+/**
+ * Validation error for one item of a batch
+ */
+export interface BatchItemError {
+  index: number;
+  key?: string;
+  error: string;
+}
+
+/**
+ * Validation result for a batch, with the errors of each invalid item
+ */
+export interface BatchValidationResult extends ValidationResult {
+  itemErrors?: BatchItemError[];
+}
+
 /**
  * Validate a context key
  * - Must be alphanumeric with dash, underscore, or dot
@@ -53,6 +100,240 @@ export function validateKey(key: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Whether a key is shadowed by a REST route, so REST can't create an entry
+ * with it (existing entries with such keys keep working, and tools can use them)
+ */
+export function isReservedRestKey(key: string): boolean {
+  return RESERVED_REST_KEYS.has(key);
+}
+
+/**
+ * Validate a namespace name
+ * - Must be alphanumeric with dash or underscore
+ * - Maximum 64 characters
+ */
+export function validateNamespace(namespace: string): ValidationResult {
+  if (!namespace || typeof namespace !== 'string') {
+    return { valid: false, error: 'Namespace is required and must be a string' };
+  }
+
+  if (namespace.length > MAX_NAMESPACE_LENGTH) {
+    return { valid: false, error: `Namespace exceeds maximum length of ${MAX_NAMESPACE_LENGTH} characters` };
+  }
+
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    return {
+      valid: false,
+      error: 'Namespace must contain only alphanumeric characters, dashes, or underscores',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a list of tags
+ * - At most 20 tags, each up to 50 characters
+ * - Alphanumeric with dash, underscore, dot, colon, or slash (e.g. "status:draft")
+ */
+export function validateTags(tags: string[]): ValidationResult {
+  if (!Array.isArray(tags)) {
+    return { valid: false, error: 'Tags must be an array of strings' };
+  }
+
+  if (tags.length > MAX_TAGS) {
+    return { valid: false, error: `At most ${MAX_TAGS} tags are allowed` };
+  }
+
+  for (const tag of tags) {
+    if (typeof tag !== 'string' || !tag) {
+      return { valid: false, error: 'Tags must be non-empty strings' };
+    }
+    if (tag.length > MAX_TAG_LENGTH) {
+      return { valid: false, error: `Tag '${tag}' exceeds maximum length of ${MAX_TAG_LENGTH} characters` };
+    }
+    if (!TAG_PATTERN.test(tag)) {
+      return {
+        valid: false,
+        error: `Tag '${tag}' must contain only alphanumeric characters, dashes, underscores, dots, colons, or slashes`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a metadata object
+ * - Must be a plain JSON object (not an array or primitive)
+ * - Maximum 10KB when serialized
+ */
+export function validateMetadata(metadata: unknown): ValidationResult {
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return { valid: false, error: 'Metadata must be a JSON object' };
+  }
+
+  const byteLength = Buffer.byteLength(JSON.stringify(metadata), 'utf8');
+  if (byteLength > MAX_METADATA_SIZE) {
+    return {
+      valid: false,
+      error: `Metadata exceeds maximum size of ${MAX_METADATA_SIZE} bytes (${Math.round(MAX_METADATA_SIZE / 1024)}KB)`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a full-text search query
+ * - Must be a non-empty string
+ * - Maximum 500 characters
+ */
+export function validateSearchQuery(searchQuery: unknown): ValidationResult {
+  if (typeof searchQuery !== 'string' || !searchQuery.trim()) {
+    return { valid: false, error: 'Search query is required' };
+  }
+
+  if (searchQuery.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { valid: false, error: `Search query exceeds maximum length of ${MAX_SEARCH_QUERY_LENGTH} characters` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a list of keys and glob patterns for a batch read
+ * - 1 to 100 entries
+ * - Each is a valid key, or a key with * (any run of characters) or ? (one character)
+ */
+export function validateKeySelectors(selectors: unknown): ValidationResult {
+  if (!Array.isArray(selectors) || selectors.length === 0) {
+    return { valid: false, error: 'Keys must be a non-empty array of keys or glob patterns' };
+  }
+
+  if (selectors.length > MAX_KEY_SELECTORS) {
+    return { valid: false, error: `At most ${MAX_KEY_SELECTORS} keys or patterns are allowed` };
+  }
+
+  for (const selector of selectors) {
+    if (typeof selector !== 'string' || !selector) {
+      return { valid: false, error: 'Keys must be non-empty strings' };
+    }
+    if (selector.length > MAX_KEY_LENGTH) {
+      return { valid: false, error: `Key '${selector}' exceeds maximum length of ${MAX_KEY_LENGTH} characters` };
+    }
+    if (!KEY_GLOB_PATTERN.test(selector)) {
+      return {
+        valid: false,
+        error: `Key '${selector}' must contain only alphanumeric characters, dashes, underscores, dots, or the wildcards * and ?`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check the size of a batch and collect per-item errors
+ */
+function validateBatch(
+  items: unknown,
+  validateItem: (item: unknown) => ValidationResult & { key?: string },
+  maxItems = MAX_BATCH_OPERATIONS
+): BatchValidationResult {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { valid: false, error: 'Batch must be a non-empty array' };
+  }
+
+  if (items.length > maxItems) {
+    return { valid: false, error: `At most ${maxItems} operations are allowed per batch` };
+  }
+
+  const itemErrors: BatchItemError[] = [];
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const result = validateItem(item);
+    if (!result.valid) {
+      itemErrors.push({ index, key: result.key, error: result.error! });
+    } else if (result.key !== undefined && seen.has(result.key)) {
+      itemErrors.push({ index, key: result.key, error: `Key '${result.key}' appears more than once in the batch` });
+    } else if (result.key !== undefined) {
+      seen.add(result.key);
+    }
+  });
+
+  if (itemErrors.length > 0) {
+    return { valid: false, error: `${itemErrors.length} of ${items.length} batch items are invalid`, itemErrors };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the entries of a batch write
+ * - 1 to 100 entries with distinct keys
+ * - Each entry is checked like write_context (key, content, tags, metadata)
+ */
+export function validateBatchWrites(entries: unknown): BatchValidationResult {
+  return validateBatch(entries, (entry) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return { valid: false, error: 'Entry must be an object with key and content' };
+    }
+
+    const { key, content, tags, metadata } = entry as Record<string, unknown>;
+    const itemKey = typeof key === 'string' ? key : undefined;
+    const checks = [
+      validateKey(key as string),
+      validateContent(content as string),
+      tags !== undefined ? validateTags(tags as string[]) : { valid: true },
+      metadata !== undefined ? validateMetadata(metadata) : { valid: true },
+    ];
+    const failed = checks.find((check) => !check.valid);
+    return failed ? { ...failed, key: itemKey } : { valid: true, key: itemKey };
+  });
+}
+
+/**
+ * Validate the entries of an import
+ * - 1 to 5000 entries, each namespace/key at most once
+ * - Each entry is checked like write_context (namespace, key, content, tags, metadata, expires_at)
+ * @param namespace - Namespace that overrides the entries' own (if given)
+ */
+export function validateImportEntries(entries: unknown, namespace?: string): BatchValidationResult {
+  return validateBatch(entries, (entry) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return { valid: false, error: 'Entry must be an object with key and content' };
+    }
+
+    const { key, content, tags, metadata, expires_at } = entry as Record<string, unknown>;
+    const ns = namespace ?? (entry as Record<string, unknown>).namespace ?? DEFAULT_NAMESPACE;
+    const itemKey = typeof key === 'string' && typeof ns === 'string' ? `${ns}/${key}` : undefined;
+    const checks = [
+      validateNamespace(ns as string),
+      validateKey(key as string),
+      validateContent(content as string),
+      tags !== undefined ? validateTags(tags as string[]) : { valid: true },
+      metadata !== undefined ? validateMetadata(metadata) : { valid: true },
+      // Entries that expired since the export are reported as 'expired', not rejected
+      validateExpiry(expires_at, undefined, true),
+    ];
+    const failed = checks.find((check) => !check.valid);
+    return failed ? { ...failed, key: itemKey } : { valid: true, key: itemKey };
+  }, MAX_IMPORT_ENTRIES);
+}
+
+/**
+ * Validate the keys of a batch delete
+ * - 1 to 100 distinct, valid keys
+ */
+export function validateBatchKeys(keys: unknown): BatchValidationResult {
+  return validateBatch(keys, (key) => {
+    const itemKey = typeof key === 'string' ? key : undefined;
+    return { ...validateKey(key as string), key: itemKey };
+  });
+}
+
 /**
  * Validate content size
  * - Maximum 100KB
@@ -77,6 +358,46 @@ export function validateContent(content: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Expiry validation result, with the resolved expiry when valid
+ * (undefined: keep the current expiry, null: remove it)
+ */
+export interface ExpiryValidationResult extends ValidationResult {
+  expiresAt?: Date | null;
+}
+
+/**
+ * Validate an entry expiry given as expires_at or ttl_seconds (not both)
+ * - expires_at: ISO 8601 timestamp in the future (past too with allowPast), or null to remove the expiry
+ * - ttl_seconds: positive integer, at most 10 years
+ */
+export function validateExpiry(expiresAt: unknown, ttlSeconds: unknown, allowPast = false): ExpiryValidationResult {
+  if (expiresAt !== undefined && ttlSeconds !== undefined) {
+    return { valid: false, error: 'Use either expires_at or ttl_seconds, not both' };
+  }
+
+  if (ttlSeconds !== undefined) {
+    if (typeof ttlSeconds !== 'number' || !Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MAX_TTL_SECONDS) {
+      return { valid: false, error: `ttl_seconds must be an integer between 1 and ${MAX_TTL_SECONDS}` };
+    }
+    return { valid: true, expiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+  }
+
+  if (expiresAt === undefined || expiresAt === null) {
+    return { valid: true, expiresAt };
+  }
+
+  const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+  if (!date || isNaN(date.getTime())) {
+    return { valid: false, error: 'expires_at must be an ISO 8601 timestamp' };
+  }
+  if (!allowPast && date.getTime() <= Date.now()) {
+    return { valid: false, error: 'expires_at must be in the future' };
+  }
+
+  return { valid: true, expiresAt: date };
+}
+
 /**
  * Validate limit parameter
  * - Must be a positive integer within bounds
@@ -161,6 +482,77 @@ export function validateEmail(email: string): ValidationResult {
   return { valid: true };
 }
 
+// Team constraints
+const MAX_TEAM_SLUG_LENGTH = 64;
+const TEAM_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const MAX_TEAM_NAME_LENGTH = 100;
+const TEAM_ROLES = ['owner', 'editor', 'viewer'];
+
+/**
+ * Validate a team slug (the workspace argument of tools)
+ * - Lowercase letters, numbers and dashes, starting with a letter or number
+ * - Maximum 64 characters
+ */
+export function validateTeamSlug(slug: string): ValidationResult {
+  if (!slug || typeof slug !== 'string') {
+    return { valid: false, error: 'Team slug is required and must be a string' };
+  }
+
+  if (slug.length > MAX_TEAM_SLUG_LENGTH) {
+    return { valid: false, error: `Team slug exceeds maximum length of ${MAX_TEAM_SLUG_LENGTH} characters` };
+  }
+
+  if (!TEAM_SLUG_PATTERN.test(slug)) {
+    return {
+      valid: false,
+      error: 'Team slug must contain only lowercase letters, numbers, or dashes, and start with a letter or number',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a team's display name
+ * - 1 to 100 characters (after trimming)
+ */
+export function validateTeamName(name: string): ValidationResult {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return { valid: false, error: 'Team name is required and must be a string' };
+  }
+
+  if (name.trim().length > MAX_TEAM_NAME_LENGTH) {
+    return { valid: false, error: `Team name exceeds maximum length of ${MAX_TEAM_NAME_LENGTH} characters` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a team role
+ */
+export function validateTeamRole(role: unknown): ValidationResult {
+  if (typeof role !== 'string' || !TEAM_ROLES.includes(role)) {
+    return { valid: false, error: `Role must be one of: ${TEAM_ROLES.join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
+// Permissions for per-entry sharing grants
+const GRANT_PERMISSIONS = ['read', 'write'];
+
+/**
+ * Validate a sharing grant permission
+ */
+export function validateGrantPermission(permission: unknown): ValidationResult {
+  if (typeof permission !== 'string' || !GRANT_PERMISSIONS.includes(permission)) {
+    return { valid: false, error: `Permission must be one of: ${GRANT_PERMISSIONS.join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
 // Name constraints (for waitlist)
 const MAX_NAME_LENGTH = 100;
 const NAME_PATTERN = /^[a-zA-ZÀ-ÖØ-öø-ÿ\s\-']+$/;
@@ -247,3 +639,69 @@ export function validateApiKeyName(name: string): ValidationResult {
 
   return { valid: true };
 }
+
+// API key scope constraints
+const MAX_API_KEY_RESTRICTIONS = 20;
+
+/**
+ * API key scope validation result, with the resolved scopes when valid
+ */
+export interface ApiKeyScopesValidationResult extends ValidationResult {
+  keyScopes?: KeyScopes;
+}
+
+/**
+ * Validate the scopes of a new API key
+ * - scopes: non-empty array of context:read, context:write, admin (default: read and write)
+ * - keys: up to 20 keys or glob patterns the key is limited to (omit or null for any key)
+ * - namespaces: up to 20 namespaces the key is limited to (omit or null for any namespace)
+ */
+export function validateApiKeyScopes(scopes: unknown, keys: unknown, namespaces: unknown): ApiKeyScopesValidationResult {
+  let keyScopes: ApiKeyScope[] = [...DEFAULT_API_KEY_SCOPES];
+  if (scopes !== undefined) {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return { valid: false, error: 'scopes must be a non-empty array' };
+    }
+    for (const scope of scopes) {
+      if (!API_KEY_SCOPES.includes(scope)) {
+        return { valid: false, error: `Scopes must be one of: ${API_KEY_SCOPES.join(', ')}` };
+      }
+    }
+    keyScopes = [...new Set(scopes as ApiKeyScope[])];
+  }
+
+  for (const [field, list] of [['keys', keys], ['namespaces', namespaces]] as const) {
+    if (list === undefined || list === null) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.length === 0 || list.length > MAX_API_KEY_RESTRICTIONS) {
+      return { valid: false, error: `${field} must be an array of 1 to ${MAX_API_KEY_RESTRICTIONS} entries, or null` };
+    }
+  }
+
+  if (Array.isArray(keys)) {
+    const keysValidation = validateKeySelectors(keys);
+    if (!keysValidation.valid) {
+      return keysValidation;
+    }
+  }
+  if (Array.isArray(namespaces)) {
+    for (const namespace of namespaces) {
+      const namespaceValidation = typeof namespace === 'string'
+        ? validateNamespace(namespace)
+        : { valid: false, error: 'Namespaces must be strings' };
+      if (!namespaceValidation.valid) {
+        return namespaceValidation;
+      }
+    }
+  }
+
+  return {
+    valid: true,
+    keyScopes: {
+      scopes: keyScopes,
+      keys: Array.isArray(keys) ? [...new Set(keys as string[])] : null,
+      namespaces: Array.isArray(namespaces) ? [...new Set(namespaces as string[])] : null,
+    },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Workspace, shared-entry and API key scope guards for MCP tools
+ */
+
+import { z } from 'zod';
+import { resolvePrincipal, resolveKeyScopes, ToolHandlerExtra } from '../auth/identity.js';
+import { resolveWorkspace, WorkspaceAccess, WorkspaceAccessError } from '../auth/workspace.js';
+import { hasScope, allowsNamespace, allowsEntry, describeKeyRestrictions, KeyScopes } from '../auth/scopes.js';
+import { resolveSharedEntry, GrantPermission, ContextFilter } from '../db/queries.js';
+import { ToolError, ErrorCode, formatError, createToolResponse } from './errors.js';
+
+// The `workspace` argument shared by every context tool
+export const workspaceInputSchema = z
+  .string()
+  .optional()
+  .describe('Team workspace slug (see list_workspaces); omit for your personal context');
+
+// The `owner` argument of tools that can use a single entry shared with the caller
+export const ownerInputSchema = z
+  .string()
+  .optional()
+  .describe('Owner of an entry someone shared with you, as listed under shared_with_me by list_context; omit for your own or team context');
+
+export interface WorkspaceAuthResult {
+  authorized: true;
+  // user_id value of the workspace's context (the user's id, or the team's owner id)
+  ownerId: string;
+  userId: string;
+  // Scopes of the caller's API key (null when unrestricted); filter listed
+  // entries with allowsEntry
+  scopes: KeyScopes | null;
+}
+
+export interface WorkspaceAuthError {
+  authorized: false;
+  errorResponse: ReturnType<typeof createToolResponse>;
+}
+
+export type WorkspaceCheck = WorkspaceAuthResult | WorkspaceAuthError;
+
+export interface EntryAuthResult extends WorkspaceAuthResult {
+  // True when access comes from a grant on the entry rather than a workspace
+  shared: boolean;
+}
+
+export type EntryCheck = EntryAuthResult | WorkspaceAuthError;
+
+export interface EntryTarget {
+  workspace?: string;
+  owner?: string;
+  key: string;
+  namespace: string;
+}
+
+function denied(code: ErrorCode, message: string): WorkspaceAuthError {
+  return {
+    authorized: false,
+    errorResponse: createToolResponse(formatError(new ToolError(code, message))),
+  };
+}
+
+/**
+ * The ContextFilter fields that limit a query to an API key's scope, so
+ * listings and searches leave out entries the key can't use before paging
+ */
+export function keyScopeFilter(scopes: KeyScopes | null): Pick<ContextFilter, 'allowedNamespaces' | 'allowedKeys'> {
+  return { allowedNamespaces: scopes?.namespaces ?? null, allowedKeys: scopes?.keys ?? null };
+}
+
+/**
+ * Check that an API key's scopes allow an entry
+ * @returns The error to return, or null if allowed
+ */
+export function keyScopeError(scopes: KeyScopes | null, namespace: string, key: string): WorkspaceAuthError | null {
+  if (allowsEntry(scopes, namespace, key)) {
+    return null;
+  }
+  return denied(
+    ErrorCode.FORBIDDEN,
+    `Context entry '${key}' in namespace '${namespace}' is outside this API key's scope (${describeKeyRestrictions(scopes!)})`
+  );
+}
+
+/**
+ * Authenticate the caller and check their access to the requested workspace,
+ * and that their API key has the scope for the access (and the namespace, if given)
+ */
+export async function requireWorkspace(
+  extra: ToolHandlerExtra,
+  workspace: string | undefined,
+  access: WorkspaceAccess,
+  namespace?: string
+): Promise<WorkspaceCheck> {
+  const principal = await resolvePrincipal(extra);
+
+  if (!principal) {
+    return denied(ErrorCode.UNAUTHORIZED, 'Not authenticated');
+  }
+
+  const scopes = resolveKeyScopes(extra);
+  const scope = access === 'read' ? 'context:read' : 'context:write';
+  if (!hasScope(scopes, scope)) {
+    return denied(ErrorCode.FORBIDDEN, `This API key doesn't have the ${scope} scope`);
+  }
+  if (namespace !== undefined && !allowsNamespace(scopes, namespace)) {
+    return denied(
+      ErrorCode.FORBIDDEN,
+      `Namespace '${namespace}' is outside this API key's scope (${describeKeyRestrictions(scopes!)})`
+    );
+  }
+
+  try {
+    const { ownerId } = resolveWorkspace(principal, workspace, access);
+    return { authorized: true, ownerId, userId: principal.userId, scopes };
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      return denied(ErrorCode[error.code], error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check access to a single entry: one shared with the caller when `owner` is
+ * given (checked against its grants on every call), otherwise one in the
+ * caller's personal or team workspace. Either way the caller's API key must
+ * allow the entry.
+ */
+export async function requireEntryAccess(
+  extra: ToolHandlerExtra,
+  target: EntryTarget,
+  access: GrantPermission
+): Promise<EntryCheck> {
+  const { workspace, owner, key, namespace } = target;
+
+  if (owner === undefined) {
+    const auth = await requireWorkspace(extra, workspace, access);
+    if (!auth.authorized) {
+      return auth;
+    }
+    return keyScopeError(auth.scopes, namespace, key) ?? { ...auth, shared: false };
+  }
+
+  if (workspace !== undefined) {
+    return denied(ErrorCode.INVALID_INPUT, 'Pass either workspace or owner, not both');
+  }
+
+  const principal = await resolvePrincipal(extra);
+  if (!principal) {
+    return denied(ErrorCode.UNAUTHORIZED, 'Not authenticated');
+  }
+
+  const scopes = resolveKeyScopes(extra);
+  if (!hasScope(scopes, `context:${access}`)) {
+    return denied(ErrorCode.FORBIDDEN, `This API key doesn't have the context:${access} scope`);
+  }
+  const scopeError = keyScopeError(scopes, namespace, key);
+  if (scopeError) {
+    return scopeError;
+  }
+
+  const grant = await resolveSharedEntry(principal.userId, owner, key, namespace);
+  if (!grant) {
+    return denied(ErrorCode.NOT_FOUND, `Context entry '${key}' in namespace '${namespace}' is not shared with you by ${owner}`);
+  }
+  if (access === 'write' && grant.permission !== 'write') {
+    return denied(ErrorCode.FORBIDDEN, `Context entry '${key}' is shared with you read-only`);
+  }
+
+  return { authorized: true, ownerId: grant.ownerId, userId: principal.userId, scopes, shared: true };
+}
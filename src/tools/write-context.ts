@@ -1,41 +1,79 @@
 import { z } from 'zod';
-import { server } from '../server.js';
-import { setContext, getContext } from '../db/queries.js';
-import { resolveUserId, ToolHandlerExtra } from '../auth/identity.js';
-import { validateKey, validateContent } from './validators.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { setContext, getContext, DEFAULT_NAMESPACE, ContextConflictError, SharedWriteError, WritePrecondition } from '../db/queries.js';
+import type { ToolHandlerExtra } from '../auth/identity.js';
+import { requireEntryAccess, workspaceInputSchema, ownerInputSchema } from './workspace.js';
+import { validateKey, validateContent, validateNamespace, validateTags, validateMetadata, validateExpiry } from './validators.js';
 import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+import { PROMPT_TAG, extractPromptArguments } from '../prompts/template.js';
 
 // Input schema for write_context tool
 export const writeContextInputSchema = {
   key: z.string().describe('The unique key for the context entry (alphanumeric, dash, underscore, dot)'),
   content: z.string().describe('The content to store (max 100KB)'),
+  namespace: z.string().optional().describe('Namespace (project) the entry belongs to (default: "default")'),
+  tags: z.array(z.string()).optional().describe('Tags for filtering, e.g. ["architecture", "status:draft"] (replaces existing tags; omit to keep them). Tag "prompt" to publish the entry as an MCP prompt whose {{argument}} placeholders become prompt arguments'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Free-form JSON metadata such as source, author session or project (replaces existing metadata; omit to keep it)'),
+  expected_version: z.number().int().min(0).optional().describe('Only write if the entry is still at this version (from read_context); use 0 to require that the key does not exist yet'),
+  if_updated_at: z.string().optional().describe('Only write if the entry was last updated at this ISO 8601 timestamp (from read_context)'),
+  expires_at: z.string().nullable().optional().describe('ISO 8601 time after which the entry is deleted automatically (null removes an expiry; omit to keep it)'),
+  ttl_seconds: z.number().int().optional().describe('Delete the entry automatically this many seconds from now (alternative to expires_at), e.g. 86400 for scratch notes'),
+  workspace: workspaceInputSchema,
+  owner: ownerInputSchema,
 };
 
 // Output type
 interface WriteContextOutput {
   key: string;
+  namespace: string;
+  version: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  expires_at: string | null;
   created_at: string;
   updated_at: string;
   action: 'created' | 'updated';
+  prompt_arguments?: string[];
 }
 
+// Output schema for write_context tool
+export const writeContextOutputSchema = {
+  key: z.string(),
+  namespace: z.string(),
+  version: z.number(),
+  tags: z.array(z.string()),
+  metadata: z.record(z.string(), z.unknown()),
+  expires_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  action: z.enum(['created', 'updated']),
+  prompt_arguments: z.array(z.string()).optional(),
+};
+
 /**
  * Register the write_context tool
  */
-export function registerWriteContextTool(): void {
+export function registerWriteContextTool(server: McpServer): void {
   server.registerTool(
     'write_context',
     {
       title: 'Write Context',
-      description: 'Create or update a context entry. If the key exists, it will be updated.',
+      description: 'Create or update a context entry. If the key exists, it will be updated. Pass expected_version or if_updated_at to fail with a CONFLICT error (including the current content) instead of overwriting concurrent changes. Set ttl_seconds or expires_at for scratch entries that should delete themselves.',
       inputSchema: writeContextInputSchema,
+      outputSchema: writeContextOutputSchema,
     },
-    async ({ key, content }, extra: ToolHandlerExtra) => {
-      // Get user ID from identity resolver
-      const userId = await resolveUserId(extra);
-      if (!userId) {
+    async ({ key, content, namespace, tags, metadata, expected_version, if_updated_at, expires_at, ttl_seconds, workspace, owner }, extra: ToolHandlerExtra) => {
+      // Resolve the workspace (personal or team) or shared entry and check access
+      const auth = await requireEntryAccess(extra, { workspace, owner, key, namespace: namespace ?? DEFAULT_NAMESPACE }, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Someone else's entry: only its content can be changed
+      if (auth.shared && (tags !== undefined || metadata !== undefined || expires_at !== undefined || ttl_seconds !== undefined)) {
         const response = formatError(
-          new ToolError(ErrorCode.UNAUTHORIZED, 'Not authenticated')
+          new ToolError(ErrorCode.FORBIDDEN, 'Entries shared with you can only have their content changed (omit tags, metadata, expires_at and ttl_seconds)')
         );
         return createToolResponse(response);
       }
@@ -54,24 +92,108 @@ export function registerWriteContextTool(): void {
         return createToolResponse(response);
       }
 
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Validate tags and metadata
+      if (tags !== undefined) {
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, tagsValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+      if (metadata !== undefined) {
+        const metadataValidation = validateMetadata(metadata);
+        if (!metadataValidation.valid) {
+          const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, metadataValidation.error!));
+          return createToolResponse(response);
+        }
+      }
+
+      // Validate expiry
+      const expiryValidation = validateExpiry(expires_at, ttl_seconds);
+      if (!expiryValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, expiryValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // Build optional concurrency precondition
+      let precondition: WritePrecondition | undefined;
+      if (expected_version !== undefined || if_updated_at !== undefined) {
+        precondition = { expectedVersion: expected_version };
+        if (if_updated_at !== undefined) {
+          const ifUpdatedAt = new Date(if_updated_at);
+          if (isNaN(ifUpdatedAt.getTime())) {
+            const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, 'if_updated_at must be an ISO 8601 timestamp'));
+            return createToolResponse(response);
+          }
+          precondition.ifUpdatedAt = ifUpdatedAt;
+        }
+      }
+
       try {
         // Get existing entry to determine action type (filtered by user)
-        const existing = await getContext(userId, key);
+        const existing = await getContext(ownerId, key, ns);
         const action = existing ? 'updated' : 'created';
 
         // Perform upsert (with user isolation)
-        const entry = await setContext(userId, key, content);
+        const entry = await setContext(ownerId, key, content, ns, {
+          precondition,
+          tags: tags && [...new Set(tags)],
+          metadata,
+          expiresAt: expiryValidation.expiresAt,
+          grantee: auth.shared ? auth.userId : undefined,
+        });
 
         const data: WriteContextOutput = {
           key: entry.key,
+          namespace: entry.namespace,
+          version: entry.version,
+          tags: entry.tags,
+          metadata: entry.metadata,
+          expires_at: entry.expires_at?.toISOString() ?? null,
           created_at: entry.created_at.toISOString(),
           updated_at: entry.updated_at.toISOString(),
           action,
         };
+        if (entry.tags.includes(PROMPT_TAG)) {
+          data.prompt_arguments = extractPromptArguments(entry.content);
+        }
 
         const response = formatSuccess(data, entry.updated_at);
         return createToolResponse(response);
       } catch (error) {
+        if (error instanceof SharedWriteError) {
+          const response = formatError(new ToolError(ErrorCode.FORBIDDEN, error.message));
+          return createToolResponse(response);
+        }
+
+        if (error instanceof ContextConflictError) {
+          const current = error.current;
+          const response = formatError(
+            new ToolError(
+              ErrorCode.CONFLICT,
+              current
+                ? `Context entry '${key}' was modified (now at version ${current.version}); re-read it and retry`
+                : `Context entry '${key}' no longer exists in namespace '${ns}'`,
+              {
+                current: current && {
+                  content: current.content,
+                  version: current.version,
+                  updated_at: current.updated_at.toISOString(),
+                },
+              }
+            )
+          );
+          return createToolResponse(response);
+        }
+
         console.error('[write_context] Database error:', error);
         const response = formatError(
           new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to write context entry')
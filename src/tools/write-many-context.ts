@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { writeManyContext, DEFAULT_NAMESPACE } from '../db/queries.js';
+import { requireWorkspace, keyScopeError, workspaceInputSchema } from './workspace.js';
+import { validateBatchWrites, validateNamespace } from './validators.js';
+import { ToolError, ErrorCode, formatSuccess, formatError, createToolResponse } from './errors.js';
+import { createProgressReporter } from './progress.js';
+
+// Input schema for write_many_context tool
+export const writeManyContextInputSchema = {
+  entries: z.array(z.object({
+    key: z.string().describe('The unique key for the context entry (alphanumeric, dash, underscore, dot)'),
+    content: z.string().describe('The content to store (max 100KB)'),
+    tags: z.array(z.string()).optional().describe('Tags for filtering (replaces existing tags; omit to keep them)'),
+    metadata: z.record(z.string(), z.unknown()).optional().describe('Free-form JSON metadata (replaces existing metadata; omit to keep it)'),
+  })).describe('Entries to create or update (up to 100, distinct keys)'),
+  namespace: z.string().optional().describe('Namespace (project) the entries belong to (default: "default")'),
+  dry_run: z.boolean().optional().describe('Validate and report what would be created or updated without writing anything'),
+  workspace: workspaceInputSchema,
+};
+
+// Output type
+interface WriteManyContextOutput {
+  results: Array<{
+    key: string;
+    action: 'created' | 'updated';
+    version: number;
+  }>;
+  namespace: string;
+  count: number;
+  dry_run: boolean;
+}
+
+// Output schema for write_many_context tool
+export const writeManyContextOutputSchema = {
+  results: z.array(z.object({
+    key: z.string(),
+    action: z.enum(['created', 'updated']),
+    version: z.number(),
+  })),
+  namespace: z.string(),
+  count: z.number(),
+  dry_run: z.boolean(),
+};
+
+/**
+ * Register the write_many_context tool
+ */
+export function registerWriteManyContextTool(server: McpServer): void {
+  server.registerTool(
+    'write_many_context',
+    {
+      title: 'Write Many Context',
+      description: 'Create or update up to 100 context entries in one all-or-nothing transaction (e.g. to seed a project). Every entry is validated first; if any is invalid nothing is written and the error lists each failing item. Use dry_run to preview. Sends progress notifications for large batches when a progressToken is given.',
+      inputSchema: writeManyContextInputSchema,
+      outputSchema: writeManyContextOutputSchema,
+    },
+    async ({ entries, namespace, dry_run, workspace }, extra) => {
+      // Resolve the workspace (personal or team) and check access
+      const auth = await requireWorkspace(extra, workspace, 'write');
+      if (!auth.authorized) {
+        return auth.errorResponse;
+      }
+      const ownerId = auth.ownerId;
+
+      // Validate every entry before writing any
+      const entriesValidation = validateBatchWrites(entries);
+      if (!entriesValidation.valid) {
+        const response = formatError(
+          new ToolError(ErrorCode.INVALID_INPUT, entriesValidation.error!, entriesValidation.itemErrors && {
+            errors: entriesValidation.itemErrors,
+          })
+        );
+        return createToolResponse(response);
+      }
+
+      // Validate namespace
+      const ns = namespace ?? DEFAULT_NAMESPACE;
+      const namespaceValidation = validateNamespace(ns);
+      if (!namespaceValidation.valid) {
+        const response = formatError(new ToolError(ErrorCode.INVALID_INPUT, namespaceValidation.error!));
+        return createToolResponse(response);
+      }
+
+      // The API key must allow every key in the batch
+      for (const key of entries.map((entry) => entry.key)) {
+        const scopeError = keyScopeError(auth.scopes, ns, key);
+        if (scopeError) {
+          return scopeError.errorResponse;
+        }
+      }
+
+      try {
+        const dryRun = dry_run ?? false;
+        const results = await writeManyContext(
+          ownerId,
+          entries.map((entry) => ({ ...entry, tags: entry.tags && [...new Set(entry.tags)] })),
+          ns,
+          { dryRun, onProgress: createProgressReporter(extra, entries.length, 'Wrote') }
+        );
+
+        const data: WriteManyContextOutput = {
+          results: results.map(({ entry, action }) => ({
+            key: entry.key,
+            action: action === 'create' ? 'created' : 'updated',
+            version: entry.version,
+          })),
+          namespace: ns,
+          count: results.length,
+          dry_run: dryRun,
+        };
+
+        const response = formatSuccess(data);
+        return createToolResponse(response);
+      } catch (error) {
+        console.error('[write_many_context] Database error:', error);
+        const response = formatError(
+          new ToolError(ErrorCode.DATABASE_ERROR, 'Failed to write context entries; no changes were made')
+        );
+        return createToolResponse(response);
+      }
+    }
+  );
+}
@@ -4,20 +4,23 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import { server as mcpServer } from '../server.js';
+import { createMcpServer } from '../server.js';
 import { testConnection } from '../db/client.js';
-import { getUserByApiKey, hashApiKey } from '../db/queries.js';
+import { getUserByApiKey, getUserByClerkId, hashApiKey, listWorkspaceUserIds, ApiKeyExpiredError } from '../db/queries.js';
+import { onContextChange, ContextChange } from '../db/events.js';
 import { setSessionContext, clearSessionContext, clearAllSessionContexts } from '../auth/session-context.js';
 import { provisionClerkUser } from '../auth/provision.js';
-import { registerAllTools } from '../tools/index.js';
-import apiRouter from '../api/index.js';
+import { hasScope, allowsEntry, type KeyScopes } from '../auth/scopes.js';
+import { contextResourceUri } from '../resources/context-resource.js';
+import { isSubscribed, clearSubscriptions, clearAllSubscriptions } from '../resources/subscriptions.js';
+import apiRouter, { shareLinkRouter } from '../api/index.js';
 import { clerkMiddleware, getAuth } from '@clerk/express';
 import {
   mcpAuthClerk,
   protectedResourceHandlerClerk,
   authServerMetadataHandlerClerk,
-  streamableHttpHandler,
 } from '@clerk/mcp-tools/express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 // ES module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -29,7 +32,11 @@ declare global {
     interface Request {
       authenticatedUserId?: string;
       apiKeyHash?: string;
+      // Scopes of the API key a request authenticated with (see auth/scopes.ts)
+      apiKeyScopes?: KeyScopes;
       isAdmin?: boolean;
+      // user_id value of the workspace a REST request targets (see api workspaceMiddleware)
+      workspaceOwnerId?: string;
     }
   }
 }
@@ -59,8 +66,17 @@ const rateLimitCleanupInterval = setInterval(() => {
 }, RATE_LIMIT_CLEANUP_INTERVAL_MS);
 rateLimitCleanupInterval.unref(); // Don't keep process alive for cleanup
 
-// Session storage for MCP transports (API key path)
-const transports: Map<string, StreamableHTTPServerTransport> = new Map();
+// An MCP session and the user it belongs to (both the Clerk and API key paths),
+// with the hash and scopes of the API key that created it (none for Clerk sessions)
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  userId: string;
+  apiKeyHash?: string;
+  scopes: KeyScopes | null;
+}
+
+// Session storage for MCP transports
+const transports: Map<string, McpSession> = new Map();
 
 /**
  * Create and configure the Express application
@@ -71,8 +87,15 @@ export function createApp(): express.Application {
   // Trust proxy for accurate IP detection behind Railway
   app.set('trust proxy', 1);
 
-  // Body parsing with size limit
-  app.use(express.json({ limit: MAX_BODY_SIZE }));
+  // Body parsing with size limit; imports are parsed by their route, after auth, with a larger limit
+  const jsonParser = express.json({ limit: MAX_BODY_SIZE });
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.path === '/api/context/import') {
+      next();
+      return;
+    }
+    jsonParser(req, res, next);
+  });
 
   // Clerk middleware (global, must be before routes)
   app.use(clerkMiddleware());
@@ -86,6 +109,9 @@ export function createApp(): express.Application {
   // REST API routes (before static files, after CORS)
   app.use('/api', apiRouter);
 
+  // Public share links (no auth required); /s/:token itself falls through to the SPA
+  app.use('/s', shareLinkRouter);
+
   // Health check endpoint (no auth required)
   app.get('/health', healthCheckHandler);
 
@@ -96,10 +122,10 @@ export function createApp(): express.Application {
   app.get('/.well-known/oauth-protected-resource', protectedResourceHandlerClerk());
   app.get('/.well-known/oauth-authorization-server', authServerMetadataHandlerClerk);
 
-  // Clerk OAuth-protected MCP endpoint
-  app.post('/mcp', mcpAuthClerk, clerkAutoProvision, streamableHttpHandler(mcpServer));
-  app.get('/mcp', mcpAuthClerk, streamableHttpHandler(mcpServer));
-  app.delete('/mcp', mcpAuthClerk, streamableHttpHandler(mcpServer));
+  // Clerk OAuth-protected MCP endpoint (stateful sessions so notifications can be delivered)
+  app.post('/mcp', mcpAuthClerk, clerkAutoProvision, resolveClerkUser, mcpPostHandler);
+  app.get('/mcp', mcpAuthClerk, resolveClerkUser, mcpGetHandler);
+  app.delete('/mcp', mcpAuthClerk, resolveClerkUser, mcpDeleteHandler);
 
   // API key authenticated MCP endpoint for Claude Code CLI
   app.post('/claude-code/mcp', validateApiKeyHeader, rateLimiter, mcpPostHandler);
@@ -148,9 +174,62 @@ async function clerkAutoProvision(req: Request, _res: Response, next: NextFuncti
   }
 }
 
+/**
+ * Resolve the database user for a Clerk-authenticated MCP request
+ * Sets req.authenticatedUserId so sessions can be tied to their user
+ */
+async function resolveClerkUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const authInfo = (req as unknown as { auth?: AuthInfo }).auth;
+  const clerkUserId = authInfo?.extra?.userId;
+
+  try {
+    const user = typeof clerkUserId === 'string' ? await getUserByClerkId(clerkUserId) : null;
+    if (!user) {
+      res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32002,
+          message: 'User not provisioned',
+        },
+        id: null,
+      });
+      return;
+    }
+
+    req.authenticatedUserId = user.id;
+    req.isAdmin = user.is_admin;
+    next();
+  } catch (error) {
+    console.error('[auth] Error resolving Clerk user:', error);
+    res.status(500).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32603,
+        message: 'Authentication error',
+      },
+      id: null,
+    });
+  }
+}
+
+/**
+ * Look up the session named in the mcp-session-id header
+ * Sessions are only usable by the user and with the API key that created them,
+ * so another (e.g. narrower-scoped) key of the same user can't borrow one
+ */
+function getOwnSession(req: Request): McpSession | null {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const session = sessionId ? transports.get(sessionId) : undefined;
+  if (!session || session.userId !== req.authenticatedUserId || session.apiKeyHash !== req.apiKeyHash) {
+    return null;
+  }
+  return session;
+}
+
 /**
  * Validate API key from Authorization header
  * Extracts Bearer token, validates via getUserByApiKey(), sets req properties
+ * Expired keys get a 401 with their own error code (-32003), unlike unknown keys (403)
  */
 async function validateApiKeyHeader(
   req: Request,
@@ -186,7 +265,7 @@ async function validateApiKeyHeader(
   }
 
   try {
-    const userInfo = await getUserByApiKey(providedKey);
+    const userInfo = await getUserByApiKey(providedKey, req.ip);
 
     if (!userInfo) {
       console.warn('[auth] Invalid API key in header', {
@@ -208,10 +287,29 @@ async function validateApiKeyHeader(
     // Attach user info to request for use in handlers
     req.authenticatedUserId = userInfo.userId;
     req.apiKeyHash = hashApiKey(providedKey);
+    req.apiKeyScopes = userInfo.scopes;
     req.isAdmin = userInfo.isAdmin;
 
     next();
   } catch (error) {
+    if (error instanceof ApiKeyExpiredError) {
+      console.warn('[auth] Expired API key in header', {
+        path: req.path,
+        method: req.method,
+        ip: req.ip,
+        rotated: error.rotated,
+      });
+      res.status(401).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32003,
+          message: error.message,
+          data: { expired_at: error.expiredAt.toISOString() },
+        },
+        id: null,
+      });
+      return;
+    }
     console.error('[auth] Error validating API key:', error);
     res.status(500).json({
       jsonrpc: '2.0',
@@ -225,34 +323,37 @@ async function validateApiKeyHeader(
 }
 
 /**
- * Handle POST requests to /claude-code/mcp endpoint
+ * Handle POST requests to /mcp and /claude-code/mcp endpoints
  */
 async function mcpPostHandler(req: Request, res: Response): Promise<void> {
   const sessionId = req.headers['mcp-session-id'] as string | undefined;
-  const authenticatedUserId = req.authenticatedUserId;
+  const authenticatedUserId = req.authenticatedUserId!;
   const apiKeyHash = req.apiKeyHash;
+  const apiKeyScopes = req.apiKeyScopes;
   const isAdmin = req.isAdmin ?? false;
 
   try {
     let transport: StreamableHTTPServerTransport;
+    const session = getOwnSession(req);
 
-    if (sessionId && transports.has(sessionId)) {
+    if (session) {
       // Reuse existing session
-      transport = transports.get(sessionId)!;
+      transport = session.transport;
     } else if (!sessionId && isInitializeRequest(req.body)) {
       // New session initialization
       transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
         onsessioninitialized: (id) => {
-          transports.set(id, transport);
+          transports.set(id, { transport, userId: authenticatedUserId, apiKeyHash, scopes: apiKeyScopes ?? null });
 
           // Associate user with this session for tool handlers
-          if (authenticatedUserId && apiKeyHash) {
+          if (authenticatedUserId && apiKeyHash && apiKeyScopes) {
             setSessionContext(id, {
               userId: authenticatedUserId,
               apiKeyHash: apiKeyHash,
               authenticatedAt: new Date(),
               isAdmin: isAdmin,
+              scopes: apiKeyScopes,
             });
           }
 
@@ -265,12 +366,14 @@ async function mcpPostHandler(req: Request, res: Response): Promise<void> {
         if (transport.sessionId) {
           transports.delete(transport.sessionId);
           clearSessionContext(transport.sessionId);
+          clearSubscriptions(transport.sessionId);
           console.log('[transport] Session closed:', transport.sessionId.substring(0, 8) + '...');
         }
       };
 
-      // Connect MCP server to this transport
-      await mcpServer.connect(transport);
+      // Connect a dedicated MCP server to this transport, with only the
+      // tools the API key's scopes allow (all of them for OAuth sessions)
+      await createMcpServer(apiKeyScopes ?? null).connect(transport);
     } else if (!sessionId) {
       // No session ID and not an initialize request
       res.status(400).json({
@@ -312,12 +415,12 @@ async function mcpPostHandler(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Handle GET requests to /claude-code/mcp endpoint (SSE)
+ * Handle GET requests to /mcp and /claude-code/mcp endpoints (SSE)
  */
 async function mcpGetHandler(req: Request, res: Response): Promise<void> {
-  const sessionId = req.headers['mcp-session-id'] as string;
+  const session = getOwnSession(req);
 
-  if (!sessionId || !transports.has(sessionId)) {
+  if (!session) {
     res.status(400).json({
       jsonrpc: '2.0',
       error: {
@@ -329,17 +432,16 @@ async function mcpGetHandler(req: Request, res: Response): Promise<void> {
     return;
   }
 
-  const transport = transports.get(sessionId)!;
-  await transport.handleRequest(req, res);
+  await session.transport.handleRequest(req, res);
 }
 
 /**
- * Handle DELETE requests to /claude-code/mcp endpoint (session cleanup)
+ * Handle DELETE requests to /mcp and /claude-code/mcp endpoints (session cleanup)
  */
 async function mcpDeleteHandler(req: Request, res: Response): Promise<void> {
-  const sessionId = req.headers['mcp-session-id'] as string;
+  const session = getOwnSession(req);
 
-  if (!sessionId || !transports.has(sessionId)) {
+  if (!session) {
     res.status(400).json({
       jsonrpc: '2.0',
       error: {
@@ -351,8 +453,7 @@ async function mcpDeleteHandler(req: Request, res: Response): Promise<void> {
     return;
   }
 
-  const transport = transports.get(sessionId)!;
-  await transport.handleRequest(req, res);
+  await session.transport.handleRequest(req, res);
 }
 
 /**
@@ -491,13 +592,54 @@ function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunct
   }
 }
 
+/**
+ * Push resource notifications for a committed context change to the
+ * sessions of the owning user (or of the owning team's members) whose API
+ * key can read the entry: resources/updated to sessions subscribed to it,
+ * and resources/list_changed when an entry was created or deleted
+ */
+async function notifyContextChange(change: ContextChange): Promise<void> {
+  const uri = contextResourceUri(change.namespace, change.key);
+
+  let userIds: string[];
+  try {
+    userIds = await listWorkspaceUserIds(change.userId);
+  } catch (error) {
+    console.error('[transport] Failed to resolve notification recipients:', change.userId, error);
+    return;
+  }
+
+  for (const [sessionId, session] of transports) {
+    if (!userIds.includes(session.userId)) {
+      continue;
+    }
+    if (!hasScope(session.scopes, 'context:read') || !allowsEntry(session.scopes, change.namespace, change.key)) {
+      continue;
+    }
+
+    const notifications = [];
+    if (isSubscribed(sessionId, uri)) {
+      notifications.push({ jsonrpc: '2.0' as const, method: 'notifications/resources/updated', params: { uri } });
+    }
+    if (change.type !== 'updated') {
+      notifications.push({ jsonrpc: '2.0' as const, method: 'notifications/resources/list_changed' });
+    }
+
+    for (const notification of notifications) {
+      session.transport.send(notification).catch((error) => {
+        console.error('[transport] Failed to send notification:', sessionId.substring(0, 8) + '...', error);
+      });
+    }
+  }
+}
+
 /**
  * Initialize the HTTP server
- * Must be called after tools are registered
+ * MCP tools and resources are registered per session (see createMcpServer)
  */
 export function initializeServer(): express.Application {
-  // Register all MCP tools before creating the app
-  registerAllTools();
+  // Tell open sessions about changes made through any path (tools, REST API)
+  onContextChange((change) => void notifyContextChange(change));
 
   return createApp();
 }
@@ -507,7 +649,7 @@ export function initializeServer(): express.Application {
  */
 export function cleanupSessions(): void {
   console.log(`[transport] Cleaning up ${transports.size} active sessions...`);
-  for (const [sessionId, transport] of transports) {
+  for (const [sessionId, { transport }] of transports) {
     try {
       transport.close();
       transports.delete(sessionId);
@@ -515,8 +657,9 @@ export function cleanupSessions(): void {
       console.error(`[transport] Error closing session ${sessionId}:`, error);
     }
   }
-  // Clear all session contexts
+  // Clear all session contexts and subscriptions
   clearAllSessionContexts();
+  clearAllSubscriptions();
 
   // Stop rate limit cleanup interval
   clearInterval(rateLimitCleanupInterval);
@@ -1,4 +1,9 @@
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { getPool } from '../src/db/client.js';
+import { createMcpServer } from '../src/server.js';
+import { setSessionContext, clearSessionContext } from '../src/auth/session-context.js';
+import { API_KEY_SCOPES, type KeyScopes } from '../src/auth/scopes.js';
 import {
   getContext,
   setContext,
@@ -86,9 +91,10 @@ export async function getAllEntries(limit?: number): Promise<ContextEntry[]> {
  */
 export async function getHistory(
   key: string,
-  limit?: number
+  limit?: number,
+  namespace?: string
 ): Promise<ContextHistoryEntry[]> {
-  return getContextHistory(TEST_USER_ID, key, limit);
+  return getContextHistory(TEST_USER_ID, key, limit, namespace);
 }
 
 /**
@@ -142,3 +148,57 @@ export async function createMultipleEntries(
 export function wait(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * Scopes of an unrestricted API key
+ */
+export function fullScopes(): KeyScopes {
+  return { scopes: [...API_KEY_SCOPES], keys: null, namespaces: null };
+}
+
+/**
+ * Helper to connect an MCP client to a fresh server over an in-memory
+ * transport, authenticated like an API key session
+ * @param scopes - Scopes of the session's API key (default: every scope, any key)
+ * @returns The client and a function that disconnects it
+ */
+export async function connectTestClient(
+  sessionId: string,
+  userId = TEST_USER_ID,
+  isAdmin = false,
+  scopes: KeyScopes = fullScopes()
+): Promise<{ client: Client; disconnect: () => Promise<void> }> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  (serverTransport as { sessionId?: string }).sessionId = sessionId;
+  setSessionContext(sessionId, {
+    userId,
+    apiKeyHash: 'test',
+    authenticatedAt: new Date(),
+    isAdmin,
+    scopes,
+  });
+
+  await createMcpServer(scopes).connect(serverTransport);
+  const client = new Client({ name: 'integration-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  return {
+    client,
+    disconnect: async () => {
+      await client.close();
+      clearSessionContext(sessionId);
+    },
+  };
+}
+
+/**
+ * Result of a tool call made through the test client
+ */
+export type ToolResult = { isError?: boolean; content: { text: string }[]; structuredContent?: Record<string, unknown> };
+
+/**
+ * Helper to read the error code from a failed tool call's JSON text
+ */
+export function errorCode(result: ToolResult): string {
+  return JSON.parse(result.content[0].text).code;
+}
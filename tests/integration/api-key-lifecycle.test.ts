@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { queryDatabase, wait } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  createApiKey,
+  rotateApiKey,
+  getUserByApiKey,
+  listApiKeysForUser,
+  ApiKeyExpiredError,
+} from '../../src/db/queries.js';
+
+afterEach(async () => {
+  await queryDatabase(`DELETE FROM api_keys WHERE name LIKE 'lifecycle-%'`);
+});
+
+describe('API key expiry, rotation and usage', () => {
+  it('rejects expired keys with a distinct error', async () => {
+    const { plainKey } = await createApiKey(TEST_USER_ID, 'lifecycle-expiring', undefined, new Date(Date.now() + 60_000));
+    expect(await getUserByApiKey(plainKey)).toMatchObject({ userId: TEST_USER_ID });
+
+    await queryDatabase(`UPDATE api_keys SET expires_at = NOW() - INTERVAL '1 second' WHERE name = 'lifecycle-expiring'`);
+    await expect(getUserByApiKey(plainKey)).rejects.toBeInstanceOf(ApiKeyExpiredError);
+    expect(await getUserByApiKey('not-a-key')).toBeNull();
+  });
+
+  it('counts requests and records the last IP', async () => {
+    const { plainKey } = await createApiKey(TEST_USER_ID, 'lifecycle-used');
+
+    await getUserByApiKey(plainKey, '203.0.113.7');
+    await getUserByApiKey(plainKey, '203.0.113.8');
+    // Usage is recorded without blocking the request
+    await wait(100);
+
+    const keys = await listApiKeysForUser(TEST_USER_ID);
+    expect(keys.find((key) => key.name === 'lifecycle-used')).toMatchObject({
+      request_count: 2,
+      last_used_ip: '203.0.113.8',
+      last_used_at: expect.any(Date),
+    });
+  });
+
+  it('rotates a key, accepting the old secret until the grace period ends', async () => {
+    const { plainKey: oldKey } = await createApiKey(TEST_USER_ID, 'lifecycle-rotated', {
+      scopes: ['context:read'],
+      keys: null,
+      namespaces: null,
+    });
+
+    expect(await rotateApiKey(TEST_USER_ID, 'lifecycle-missing', 60)).toBeNull();
+    const rotated = (await rotateApiKey(TEST_USER_ID, 'lifecycle-rotated', 60))!;
+    expect(rotated.plainKey).not.toBe(oldKey);
+
+    // Both secrets work during the grace period, with the key's scopes
+    expect(await getUserByApiKey(rotated.plainKey)).toMatchObject({ scopes: { scopes: ['context:read'] } });
+    expect(await getUserByApiKey(oldKey)).toMatchObject({ userId: TEST_USER_ID });
+    const [listed] = (await listApiKeysForUser(TEST_USER_ID)).filter((key) => key.name === 'lifecycle-rotated');
+    expect(listed).toMatchObject({ rotated_at: expect.any(Date), previous_key_expires_at: expect.any(Date) });
+
+    await queryDatabase(
+      `UPDATE api_keys SET previous_key_expires_at = NOW() - INTERVAL '1 second' WHERE name = 'lifecycle-rotated'`
+    );
+    await expect(getUserByApiKey(oldKey)).rejects.toMatchObject({ rotated: true });
+    expect(await getUserByApiKey(rotated.plainKey)).not.toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient, errorCode, type ToolResult } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext, getContext, deleteContext, createApiKey, getUserByApiKey, revokeApiKeyByName } from '../../src/db/queries.js';
+import { allowsEntry, hasScope, KeyScopes } from '../../src/auth/scopes.js';
+import { resolveKeyScopes } from '../../src/auth/identity.js';
+import { validateApiKeyScopes } from '../../src/tools/validators.js';
+
+const READ_ONLY: KeyScopes = { scopes: ['context:read'], keys: null, namespaces: null };
+
+describe('API key scopes', () => {
+  it('matches entries against key globs and namespaces', () => {
+    const scopes: KeyScopes = { scopes: ['context:read'], keys: ['docs.*', 'readme'], namespaces: ['project-a'] };
+
+    expect(allowsEntry(scopes, 'project-a', 'docs.setup')).toBe(true);
+    expect(allowsEntry(scopes, 'project-a', 'readme')).toBe(true);
+    expect(allowsEntry(scopes, 'project-a', 'secrets')).toBe(false);
+    expect(allowsEntry(scopes, 'default', 'docs.setup')).toBe(false);
+    expect(allowsEntry(null, 'default', 'anything')).toBe(true);
+  });
+
+  it('validates scopes and defaults to read and write', () => {
+    expect(validateApiKeyScopes(undefined, undefined, undefined).keyScopes).toEqual({
+      scopes: ['context:read', 'context:write'],
+      keys: null,
+      namespaces: null,
+    });
+    expect(validateApiKeyScopes(['context:delete'], undefined, undefined).valid).toBe(false);
+    expect(validateApiKeyScopes(['context:read'], ['bad key'], undefined).valid).toBe(false);
+    expect(validateApiKeyScopes(['context:read'], [], undefined).valid).toBe(false);
+  });
+
+  it('stores scopes with the key and returns them on lookup', async () => {
+    const { plainKey } = await createApiKey(TEST_USER_ID, 'ci', {
+      scopes: ['context:read'],
+      keys: ['docs.*'],
+      namespaces: null,
+    });
+
+    const user = await getUserByApiKey(plainKey);
+    expect(user?.scopes).toEqual({ scopes: ['context:read'], keys: ['docs.*'], namespaces: null });
+    await revokeApiKeyByName(TEST_USER_ID, 'ci');
+  });
+
+  it('hides tools the key has no scope for and rejects writes', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'v1');
+    const { client, disconnect } = await connectTestClient('scopes-read-only-session', TEST_USER_ID, true, READ_ONLY);
+
+    try {
+      const { tools } = await client.listTools();
+      const names = tools.map((tool) => tool.name);
+      expect(names).toContain('read_context');
+      expect(names).not.toContain('write_context');
+      expect(names).not.toContain('admin_list_users');
+
+      const read = await client.callTool({ name: 'read_context', arguments: { key: 'notes' } }) as ToolResult;
+      expect(read.structuredContent).toMatchObject({ content: 'v1' });
+
+      const written = await client.callTool({
+        name: 'write_context',
+        arguments: { key: 'notes', content: 'v2' },
+      }) as ToolResult;
+      expect(written.isError).toBe(true);
+      expect((await getContext(TEST_USER_ID, 'notes'))?.content).toBe('v1');
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('limits tools to the keys and namespaces the key allows', async () => {
+    await setContext(TEST_USER_ID, 'docs.setup', 'Install it');
+    await setContext(TEST_USER_ID, 'secrets', 'hunter2');
+    await setContext(TEST_USER_ID, 'docs.other', 'Elsewhere', 'project-b');
+    const scopes: KeyScopes = { scopes: ['context:read', 'context:write'], keys: ['docs.*'], namespaces: ['default'] };
+    const { client, disconnect } = await connectTestClient('scopes-restricted-session', TEST_USER_ID, false, scopes);
+
+    try {
+      const listed = await client.callTool({ name: 'list_context', arguments: {} }) as ToolResult;
+      expect(listed.structuredContent).toMatchObject({ entries: [{ key: 'docs.setup' }], count: 1 });
+
+      const secret = await client.callTool({ name: 'read_context', arguments: { key: 'secrets' } }) as ToolResult;
+      expect(errorCode(secret)).toBe('FORBIDDEN');
+
+      const otherNamespace = await client.callTool({
+        name: 'read_all_context',
+        arguments: { namespace: 'project-b' },
+      }) as ToolResult;
+      expect(errorCode(otherNamespace)).toBe('FORBIDDEN');
+
+      const renamed = await client.callTool({
+        name: 'rename_context',
+        arguments: { key: 'docs.setup', new_key: 'setup' },
+      }) as ToolResult;
+      expect(errorCode(renamed)).toBe('FORBIDDEN');
+
+      const batch = await client.callTool({
+        name: 'write_many_context',
+        arguments: { entries: [{ key: 'docs.new', content: 'a' }, { key: 'secrets', content: 'b' }] },
+      }) as ToolResult;
+      expect(errorCode(batch)).toBe('FORBIDDEN');
+      expect((await getContext(TEST_USER_ID, 'secrets'))?.content).toBe('hunter2');
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('leaves out entries outside the scope before paging', async () => {
+    await setContext(TEST_USER_ID, 'docs.setup', 'Install it');
+    await setContext(TEST_USER_ID, 'secrets', 'hunter2');
+    await setContext(TEST_USER_ID, 'docs.gone', 'Old');
+    await deleteContext(TEST_USER_ID, 'docs.gone');
+    await deleteContext(TEST_USER_ID, 'secrets');
+    await setContext(TEST_USER_ID, 'secrets', 'hunter3');
+    const scopes: KeyScopes = { scopes: ['context:read'], keys: ['docs.*'], namespaces: ['default'] };
+    const { client, disconnect } = await connectTestClient('scopes-paging-session', TEST_USER_ID, false, scopes);
+
+    try {
+      // The newest entry is out of scope, so filtering after the limit would return nothing
+      const listed = await client.callTool({ name: 'list_context', arguments: { limit: 1 } }) as ToolResult;
+      expect(listed.structuredContent).toMatchObject({ entries: [{ key: 'docs.setup' }], count: 1 });
+
+      const all = await client.callTool({ name: 'read_all_context', arguments: { limit: 1 } }) as ToolResult;
+      expect(all.structuredContent).toMatchObject({ entries: [{ key: 'docs.setup' }], count: 1 });
+
+      const trash = await client.callTool({ name: 'list_trash', arguments: { limit: 1 } }) as ToolResult;
+      expect(trash.structuredContent).toMatchObject({ entries: [{ key: 'docs.gone' }], count: 1 });
+
+      const many = await client.callTool({ name: 'read_many_context', arguments: { keys: ['*'] } }) as ToolResult;
+      expect(many.structuredContent).toMatchObject({ entries: [{ key: 'docs.setup' }], missing: [] });
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('leaves out resources and key completions outside the scope before the limit', async () => {
+    await setContext(TEST_USER_ID, 'docs.setup', 'Install it');
+    for (let i = 0; i < 100; i++) {
+      await setContext(TEST_USER_ID, `a-note-${i}`, 'Out of scope');
+    }
+    const scopes: KeyScopes = { scopes: ['context:read'], keys: ['docs.*'], namespaces: null };
+    const { client, disconnect } = await connectTestClient('scopes-listing-session', TEST_USER_ID, false, scopes);
+
+    try {
+      // The 100 newest entries, and the first 100 keys alphabetically, are all out of scope
+      const { resources } = await client.listResources();
+      expect(resources.map((resource) => resource.uri)).toEqual(['context://default/docs.setup']);
+
+      const result = await client.complete({
+        ref: { type: 'ref/resource', uri: 'context://{namespace}/{key}' },
+        argument: { name: 'key', value: '' },
+      });
+      expect(result.completion).toEqual({ values: ['docs.setup'], total: 1, hasMore: false });
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('rejects resource subscriptions outside the scope', async () => {
+    const scopes: KeyScopes = { scopes: ['context:read'], keys: ['docs.*'], namespaces: null };
+    const { client, disconnect } = await connectTestClient('scopes-subscribe-session', TEST_USER_ID, false, scopes);
+
+    try {
+      await client.subscribeResource({ uri: 'context://default/docs.setup' });
+      await expect(client.subscribeResource({ uri: 'context://default/secrets' })).rejects.toThrow(/outside this API key's scope/);
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('allows nothing for requests without OAuth or an API key session', () => {
+    expect(resolveKeyScopes({ authInfo: { token: 't', clientId: 'c', scopes: [], extra: { userId: 'clerk-user' } } })).toBeNull();
+    for (const extra of [{}, { sessionId: 'unknown-session' }]) {
+      const scopes = resolveKeyScopes(extra);
+      expect(scopes).not.toBeNull();
+      expect(hasScope(scopes, 'context:read')).toBe(false);
+      expect(allowsEntry(scopes, 'default', 'notes')).toBe(false);
+    }
+  });
+});
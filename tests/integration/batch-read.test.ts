@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient, queryDatabase } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext, readManyContext } from '../../src/db/queries.js';
+import { validateKeySelectors } from '../../src/tools/validators.js';
+
+describe('readManyContext', () => {
+  it('returns entries in request order and lists missing keys', async () => {
+    await setContext(TEST_USER_ID, 'b', 'B');
+    await setContext(TEST_USER_ID, 'a', 'A');
+
+    const result = await readManyContext(TEST_USER_ID, ['b', 'nope', 'a']);
+
+    expect(result.entries.map((e) => e.key)).toEqual(['b', 'a']);
+    expect(result.missing).toEqual(['nope']);
+    expect(result.omitted).toEqual([]);
+    expect(result.totalBytes).toBe(2);
+  });
+
+  it('expands glob patterns and de-duplicates overlapping matches', async () => {
+    await setContext(TEST_USER_ID, 'arch.api', 'x');
+    await setContext(TEST_USER_ID, 'arch.db', 'x');
+    await setContext(TEST_USER_ID, 'archive', 'x');
+    await setContext(TEST_USER_ID, 'arch_old', 'x');
+
+    const result = await readManyContext(TEST_USER_ID, ['arch.db', 'arch.*', 'team.*']);
+
+    expect(result.entries.map((e) => e.key)).toEqual(['arch.db', 'arch.api']);
+    expect(result.missing).toEqual(['team.*']);
+  });
+
+  it('treats LIKE wildcards in patterns literally', async () => {
+    await setContext(TEST_USER_ID, 'a_b', 'x');
+    await setContext(TEST_USER_ID, 'axb', 'x');
+
+    const result = await readManyContext(TEST_USER_ID, ['a_?']);
+
+    expect(result.entries.map((e) => e.key)).toEqual(['a_b']);
+  });
+
+  it('only reads from the requested namespace', async () => {
+    await setContext(TEST_USER_ID, 'shared', 'default');
+    await setContext(TEST_USER_ID, 'shared', 'project', 'project-a');
+
+    const result = await readManyContext(TEST_USER_ID, ['shared'], 'project-a');
+
+    expect(result.entries.map((e) => e.content)).toEqual(['project']);
+  });
+
+  it('omits entries that exceed the byte budget', async () => {
+    await setContext(TEST_USER_ID, 'big', 'x'.repeat(80));
+    await setContext(TEST_USER_ID, 'small', 'é'.repeat(10));
+    await setContext(TEST_USER_ID, 'medium', 'x'.repeat(30));
+
+    const result = await readManyContext(TEST_USER_ID, ['big', 'medium', 'small'], 'default', 100);
+
+    expect(result.entries.map((e) => e.key)).toEqual(['big', 'small']);
+    expect(result.omitted).toEqual(['medium']);
+    expect(result.totalBytes).toBe(100);
+  });
+
+  it('flags pattern matches beyond the row cap as truncated', async () => {
+    await queryDatabase(
+      `INSERT INTO shared_context (user_id, namespace, key, content)
+       SELECT $1, 'default', 'bulk.' || lpad(i::text, 3, '0'), 'x' FROM generate_series(1, 501) AS i`,
+      [TEST_USER_ID]
+    );
+
+    const result = await readManyContext(TEST_USER_ID, ['bulk.*'], 'default', 1000);
+
+    expect(result.truncated).toBe(true);
+    expect(result.entries.length + result.omitted.length).toBe(500);
+    expect((await readManyContext(TEST_USER_ID, ['bulk.00?'])).truncated).toBe(false);
+  });
+});
+
+describe('validateKeySelectors', () => {
+  it('accepts keys and glob patterns', () => {
+    expect(validateKeySelectors(['api-design', 'arch.*', 'v?'])).toEqual({ valid: true });
+  });
+
+  it('rejects empty, oversized and malformed lists', () => {
+    expect(validateKeySelectors([]).valid).toBe(false);
+    expect(validateKeySelectors('arch.*').valid).toBe(false);
+    expect(validateKeySelectors(Array.from({ length: 101 }, (_, i) => `k${i}`)).valid).toBe(false);
+    expect(validateKeySelectors(['bad key']).valid).toBe(false);
+  });
+});
+
+describe('read_many_context tool', () => {
+  it('returns found entries, missing keys and the byte budget', async () => {
+    await setContext(TEST_USER_ID, 'arch.api', 'REST');
+    await setContext(TEST_USER_ID, 'notes', 'hello');
+    const { client, disconnect } = await connectTestClient('batch-read-test-session');
+
+    try {
+      const result = await client.callTool({
+        name: 'read_many_context',
+        arguments: { keys: ['notes', 'arch.*', 'missing'], max_bytes: 1000 },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        entries: [{ key: 'notes', content: 'hello' }, { key: 'arch.api', content: 'REST' }],
+        namespace: 'default',
+        count: 2,
+        missing: ['missing'],
+        omitted: [],
+        truncated: false,
+        total_bytes: 9,
+        max_bytes: 1000,
+      });
+
+      const invalid = await client.callTool({ name: 'read_many_context', arguments: { keys: [] } });
+      expect(invalid.isError).toBe(true);
+    } finally {
+      await disconnect();
+    }
+  });
+});
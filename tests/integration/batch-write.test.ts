@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient, queryDatabase } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  getContext,
+  getContextHistory,
+  writeManyContext,
+  deleteManyContext,
+} from '../../src/db/queries.js';
+import { validateBatchWrites, validateBatchKeys } from '../../src/tools/validators.js';
+
+describe('writeManyContext', () => {
+  it('creates and updates entries with one history row each', async () => {
+    await setContext(TEST_USER_ID, 'existing', 'old', 'default', { tags: ['keep'] });
+
+    const results = await writeManyContext(TEST_USER_ID, [
+      { key: 'existing', content: 'new' },
+      { key: 'fresh', content: 'hello', tags: ['seed'], metadata: { source: 'test' } },
+    ]);
+
+    expect(results.map((r) => [r.entry.key, r.action, r.entry.version])).toEqual([
+      ['existing', 'update', 2],
+      ['fresh', 'create', 1],
+    ]);
+    expect(await getContext(TEST_USER_ID, 'existing')).toMatchObject({ content: 'new', tags: ['keep'] });
+    expect(await getContext(TEST_USER_ID, 'fresh')).toMatchObject({ tags: ['seed'], metadata: { source: 'test' } });
+    expect((await getContextHistory(TEST_USER_ID, 'existing')).map((h) => h.action)).toEqual(['update', 'create']);
+    expect((await getContextHistory(TEST_USER_ID, 'fresh')).map((h) => h.action)).toEqual(['create']);
+  });
+
+  it('applies nothing if any write fails', async () => {
+    await setContext(TEST_USER_ID, 'existing', 'old');
+
+    await expect(
+      writeManyContext(TEST_USER_ID, [
+        { key: 'existing', content: 'new' },
+        { key: 'broken', content: 'nul \u0000 byte' },
+      ])
+    ).rejects.toThrow();
+
+    expect((await getContext(TEST_USER_ID, 'existing'))!.content).toBe('old');
+    expect(await getContext(TEST_USER_ID, 'broken')).toBeNull();
+    expect(await getContextHistory(TEST_USER_ID, 'existing')).toHaveLength(1);
+  });
+
+  it('reports without writing in dry-run mode', async () => {
+    await setContext(TEST_USER_ID, 'existing', 'old');
+
+    const results = await writeManyContext(
+      TEST_USER_ID,
+      [{ key: 'existing', content: 'new' }, { key: 'fresh', content: 'x' }],
+      'default',
+      { dryRun: true }
+    );
+
+    expect(results.map((r) => r.action)).toEqual(['update', 'create']);
+    expect((await getContext(TEST_USER_ID, 'existing'))!.content).toBe('old');
+    expect(await getContext(TEST_USER_ID, 'fresh')).toBeNull();
+    const history = await queryDatabase('SELECT 1 FROM context_history WHERE user_id = $1', [TEST_USER_ID]);
+    expect(history).toHaveLength(1);
+  });
+});
+
+describe('deleteManyContext', () => {
+  it('deletes existing entries and reports missing keys', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+    await setContext(TEST_USER_ID, 'b', 'B');
+
+    const result = await deleteManyContext(TEST_USER_ID, ['a', 'missing', 'b']);
+
+    expect(result).toEqual({ deleted: ['a', 'b'], missing: ['missing'] });
+    expect(await getContext(TEST_USER_ID, 'a')).toBeNull();
+    expect((await getContextHistory(TEST_USER_ID, 'b'))[0]).toMatchObject({ action: 'delete', content: 'B' });
+  });
+
+  it('keeps entries in dry-run mode', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+
+    const result = await deleteManyContext(TEST_USER_ID, ['a'], 'default', { dryRun: true });
+
+    expect(result.deleted).toEqual(['a']);
+    expect(await getContext(TEST_USER_ID, 'a')).not.toBeNull();
+  });
+});
+
+describe('batch validation', () => {
+  it('reports every invalid item', () => {
+    const result = validateBatchWrites([
+      { key: 'ok', content: 'x' },
+      { key: 'bad key', content: 'x' },
+      { key: 'ok', content: 'y' },
+      { key: 'tagged', content: 'x', tags: ['bad tag'] },
+      'not an object',
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.itemErrors!.map((e) => [e.index, e.key])).toEqual([
+      [1, 'bad key'],
+      [2, 'ok'],
+      [3, 'tagged'],
+      [4, undefined],
+    ]);
+  });
+
+  it('limits batch size', () => {
+    expect(validateBatchKeys([]).valid).toBe(false);
+    expect(validateBatchKeys(Array.from({ length: 101 }, (_, i) => `k${i}`)).valid).toBe(false);
+    expect(validateBatchKeys(['a', 'b'])).toEqual({ valid: true });
+  });
+});
+
+describe('batch tools', () => {
+  it('writes a large batch with progress notifications', async () => {
+    const { client, disconnect } = await connectTestClient('batch-write-test-session');
+
+    try {
+      const progress: number[] = [];
+      const entries = Array.from({ length: 12 }, (_, i) => ({ key: `seed-${i}`, content: `Seed ${i}` }));
+      const result = await client.callTool(
+        { name: 'write_many_context', arguments: { entries } },
+        undefined,
+        { onprogress: (p) => progress.push(p.progress) }
+      );
+
+      expect(result.structuredContent).toMatchObject({ count: 12, dry_run: false });
+      expect(progress).toEqual([10, 12]);
+
+      const deleted = await client.callTool({
+        name: 'delete_many_context',
+        arguments: { keys: ['seed-0', 'seed-1', 'nope'] },
+      });
+      expect(deleted.structuredContent).toMatchObject({ deleted: ['seed-0', 'seed-1'], missing: ['nope'], count: 2 });
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('rejects the whole batch with per-item errors', async () => {
+    const { client, disconnect } = await connectTestClient('batch-write-test-session');
+
+    try {
+      const result = await client.callTool({
+        name: 'write_many_context',
+        arguments: { entries: [{ key: 'fine', content: 'x' }, { key: 'bad key', content: 'x' }] },
+      });
+
+      expect(result.isError).toBe(true);
+      const body = JSON.parse((result.content as { text: string }[])[0].text);
+      expect(body.details.errors).toEqual([
+        { index: 1, key: 'bad key', error: expect.stringContaining('alphanumeric') },
+      ]);
+      expect(await getContext(TEST_USER_ID, 'fine')).toBeNull();
+    } finally {
+      await disconnect();
+    }
+  });
+});
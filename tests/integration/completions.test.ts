@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext, completeContextKeys } from '../../src/db/queries.js';
+import { createMcpServer } from '../../src/server.js';
+import { editDistance, suggestKeys } from '../../src/tools/suggestions.js';
+import { setSessionContext, clearSessionContext } from '../../src/auth/session-context.js';
+import { fullScopes } from '../helpers.js';
+
+const SESSION_ID = 'completions-test-session';
+
+describe('key suggestions', () => {
+  it('computes edit distance case-insensitively', () => {
+    expect(editDistance('deploy-notes', 'deploy-notes')).toBe(0);
+    expect(editDistance('deploy-ntoes', 'deploy-notes')).toBe(2);
+    expect(editDistance('Config', 'config')).toBe(0);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  it('suggests close keys, closest first', () => {
+    const candidates = ['api-design', 'deploy-notes', 'deploy-note', 'roadmap'];
+
+    expect(suggestKeys('deploy-nots', candidates)).toEqual(['deploy-notes', 'deploy-note']);
+    expect(suggestKeys('unrelated', candidates)).toEqual([]);
+  });
+});
+
+describe('completeContextKeys', () => {
+  it('matches prefixes case-insensitively and counts keys once', async () => {
+    await setContext(TEST_USER_ID, 'deploy-notes', 'a');
+    await setContext(TEST_USER_ID, 'Deploy-checklist', 'b');
+    await setContext(TEST_USER_ID, 'deploy-notes', 'c', 'project-a');
+    await setContext(TEST_USER_ID, 'roadmap', 'd');
+
+    expect(await completeContextKeys(TEST_USER_ID, 'dep')).toEqual({
+      keys: ['Deploy-checklist', 'deploy-notes'],
+      total: 2,
+    });
+    expect(await completeContextKeys(TEST_USER_ID, 'dep', 'project-a')).toEqual({ keys: ['deploy-notes'], total: 1 });
+    expect(await completeContextKeys(TEST_USER_ID, 'dep', 'default', 1)).toEqual({ keys: ['Deploy-checklist'], total: 2 });
+  });
+
+  it('treats LIKE wildcards literally', async () => {
+    await setContext(TEST_USER_ID, 'a_b', 'x');
+    await setContext(TEST_USER_ID, 'axb', 'y');
+
+    expect((await completeContextKeys(TEST_USER_ID, 'a_')).keys).toEqual(['a_b']);
+  });
+});
+
+describe('MCP completions and suggestions', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    (serverTransport as { sessionId?: string }).sessionId = SESSION_ID;
+    setSessionContext(SESSION_ID, {
+      userId: TEST_USER_ID,
+      apiKeyHash: 'test',
+      authenticatedAt: new Date(),
+      isAdmin: false,
+      scopes: fullScopes(),
+    });
+
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: 'completions-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    clearSessionContext(SESSION_ID);
+  });
+
+  it('completes resource template keys within the chosen namespace', async () => {
+    await setContext(TEST_USER_ID, 'deploy-notes', 'a');
+    await setContext(TEST_USER_ID, 'deploy-plan', 'b', 'project-a');
+
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'context://{namespace}/{key}' },
+      argument: { name: 'key', value: 'dep' },
+      context: { arguments: { namespace: 'project-a' } },
+    });
+
+    expect(result.completion).toEqual({ values: ['deploy-plan'], total: 1, hasMore: false });
+  });
+
+  it('completes namespaces', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'a', 'project-a');
+    await setContext(TEST_USER_ID, 'notes', 'b', 'project-b');
+
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'context://{namespace}/{key}' },
+      argument: { name: 'namespace', value: 'proj' },
+    });
+
+    expect(result.completion.values).toEqual(['project-a', 'project-b']);
+  });
+
+  it('completes key arguments of prompts', async () => {
+    await setContext(TEST_USER_ID, 'summarize', 'Summarize {{key}}', 'default', { tags: ['prompt'] });
+
+    const result = await client.complete({
+      ref: { type: 'ref/prompt', name: 'summarize' },
+      argument: { name: 'key', value: 'summ' },
+    });
+
+    expect(result.completion.values).toEqual(['summarize']);
+  });
+
+  it('suggests similar keys when read_context misses', async () => {
+    await setContext(TEST_USER_ID, 'deploy-notes', 'a');
+
+    const result = await client.callTool({ name: 'read_context', arguments: { key: 'deploy-ntoes' } });
+    const response = JSON.parse((result.content as { text: string }[])[0].text);
+
+    expect(response).toMatchObject({
+      success: false,
+      code: 'NOT_FOUND',
+      error: "Context entry 'deploy-ntoes' not found in namespace 'default'. Did you mean: deploy-notes?",
+      details: { suggestions: ['deploy-notes'] },
+    });
+  });
+});
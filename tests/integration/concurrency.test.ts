@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { fixtures, getHistory, wait } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  getContext,
+  setContext,
+  ContextConflictError,
+} from '../../src/db/queries.js';
+
+describe('optimistic concurrency', () => {
+  it('starts new entries at version 1 and bumps on every write', async () => {
+    const created = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+    const updated = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+    expect(created.version).toBe(1);
+    expect(updated.version).toBe(2);
+  });
+
+  it('writes when expected_version matches', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+
+    const entry = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2', undefined, { precondition: { expectedVersion: 1 } });
+
+    expect(entry.version).toBe(2);
+    expect(entry.content).toBe('Version 2');
+  });
+
+  it('rejects a stale expected_version with the current entry', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+    const error = await setContext(TEST_USER_ID, fixtures.validKey, 'Stale write', undefined, { precondition: { expectedVersion: 1 } })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ContextConflictError);
+    expect((error as ContextConflictError).current?.content).toBe('Version 2');
+    expect((error as ContextConflictError).current?.version).toBe(2);
+  });
+
+  it('requires an existing entry for a must-exist precondition (If-Match: *)', async () => {
+    await expect(
+      setContext(TEST_USER_ID, fixtures.validKey, 'Created', undefined, { precondition: { mustExist: true } })
+    ).rejects.toThrow(ContextConflictError);
+    expect(await getContext(TEST_USER_ID, fixtures.validKey)).toBeNull();
+
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+    const entry = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2', undefined, { precondition: { mustExist: true } });
+    expect(entry.version).toBe(2);
+  });
+
+  it('does not modify the entry or history when the precondition fails', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+    await expect(
+      setContext(TEST_USER_ID, fixtures.validKey, 'Stale write', undefined, { precondition: { expectedVersion: 1 } })
+    ).rejects.toThrow(ContextConflictError);
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+    const history = await getHistory(fixtures.validKey);
+    expect(entry?.content).toBe('Version 2');
+    expect(history.length).toBe(2);
+  });
+
+  it('expected_version 0 only creates new entries', async () => {
+    const entry = await setContext(TEST_USER_ID, fixtures.validKey, 'First', undefined, { precondition: { expectedVersion: 0 } });
+    expect(entry.version).toBe(1);
+
+    await expect(
+      setContext(TEST_USER_ID, fixtures.validKey, 'Second', undefined, { precondition: { expectedVersion: 0 } })
+    ).rejects.toThrow(ContextConflictError);
+  });
+
+  it('rejects expected_version for a missing entry with no current entry', async () => {
+    const error = await setContext(TEST_USER_ID, fixtures.validKey, 'Content', undefined, { precondition: { expectedVersion: 3 } })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ContextConflictError);
+    expect((error as ContextConflictError).current).toBeNull();
+    expect(await getContext(TEST_USER_ID, fixtures.validKey)).toBeNull();
+  });
+
+  it('checks if_updated_at against the last update timestamp', async () => {
+    const initial = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+    await wait(10);
+
+    const updated = await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2', undefined, {
+      precondition: { ifUpdatedAt: initial.updated_at },
+    });
+    expect(updated.content).toBe('Version 2');
+
+    await expect(
+      setContext(TEST_USER_ID, fixtures.validKey, 'Stale write', undefined, { precondition: { ifUpdatedAt: initial.updated_at } })
+    ).rejects.toThrow(ContextConflictError);
+  });
+
+  it('lets only one of two concurrent writers with the same version win', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+
+    const results = await Promise.allSettled([
+      setContext(TEST_USER_ID, fixtures.validKey, 'Writer A', undefined, { precondition: { expectedVersion: 1 } }),
+      setContext(TEST_USER_ID, fixtures.validKey, 'Writer B', undefined, { precondition: { expectedVersion: 1 } }),
+    ]);
+
+    const fulfilled = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter((r) => r.status === 'rejected');
+    expect(fulfilled.length).toBe(1);
+    expect(rejected.length).toBe(1);
+    expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(ContextConflictError);
+  });
+});
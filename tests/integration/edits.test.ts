@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { fixtures, getHistory } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  getContext,
+  setContext,
+  editContext,
+  ContextConflictError,
+} from '../../src/db/queries.js';
+import { buildPatchEdit, ContextEditError } from '../../src/db/edits.js';
+import { validateContent } from '../../src/tools/validators.js';
+
+describe('append_context', () => {
+  it('creates the entry when it does not exist', async () => {
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: 'First line', separator: '\n' });
+
+    expect(entry?.content).toBe('First line');
+    expect(entry?.version).toBe(1);
+
+    const history = await getHistory(fixtures.validKey);
+    expect(history.length).toBe(1);
+    expect(history[0].action).toBe('create');
+  });
+
+  it('appends and prepends with the separator', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'middle');
+
+    await editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: 'end', separator: '\n' });
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, { type: 'prepend', text: 'start', separator: ' | ' });
+
+    expect(entry?.content).toBe('start | middle\nend');
+    expect(entry?.version).toBe(3);
+  });
+
+  it('records each append in history', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Log');
+    await editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: '- entry 1', separator: '\n' });
+    await editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: '- entry 2', separator: '\n' });
+
+    const history = await getHistory(fixtures.validKey);
+
+    expect(history.length).toBe(3);
+    expect(history[0].action).toBe('update');
+    expect(history[0].content).toBe('Log\n- entry 1\n- entry 2');
+  });
+
+  it('rejects appends that push the entry over the size limit', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, fixtures.largeContent);
+
+    await expect(
+      editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: 'y'.repeat(60000), separator: '\n' }, undefined, {
+        validate: validateContent,
+      })
+    ).rejects.toThrow(ContextEditError);
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+    expect(entry?.content).toBe(fixtures.largeContent);
+  });
+});
+
+describe('patch_context', () => {
+  const notes = ['# Notes', '', '## Decisions', 'Use REST', '', '## Open questions', 'None yet'].join('\n');
+
+  it('returns null for a missing entry', async () => {
+    const result = await editContext(TEST_USER_ID, fixtures.validKey, {
+      type: 'search_replace', search: 'a', replace: 'b', replaceAll: false,
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('replaces a markdown section up to the next heading', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, notes);
+
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, {
+      type: 'replace_section', heading: '## Decisions', content: 'Use MCP\nUse Postgres',
+    });
+
+    expect(entry?.content).toBe(['# Notes', '', '## Decisions', 'Use MCP', 'Use Postgres', '', '## Open questions', 'None yet'].join('\n'));
+  });
+
+  it('replaces a line range', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'one\ntwo\nthree\nfour');
+
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, {
+      type: 'replace_lines', startLine: 2, endLine: 3, content: 'TWO-THREE',
+    });
+
+    expect(entry?.content).toBe('one\nTWO-THREE\nfour');
+  });
+
+  it('requires a unique match for search/replace unless replace_all is set', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'foo bar foo');
+
+    await expect(
+      editContext(TEST_USER_ID, fixtures.validKey, { type: 'search_replace', search: 'foo', replace: 'baz', replaceAll: false })
+    ).rejects.toThrow('matches 2 times');
+
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, {
+      type: 'search_replace', search: 'foo', replace: 'baz', replaceAll: true,
+    });
+    expect(entry?.content).toBe('baz bar baz');
+  });
+
+  it('applies a JSON Patch to JSON entries', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, JSON.stringify({ name: 'app', tags: ['a'], old: true }));
+
+    const entry = await editContext(TEST_USER_ID, fixtures.validKey, {
+      type: 'json_patch',
+      operations: [
+        { op: 'test', path: '/name', value: 'app' },
+        { op: 'replace', path: '/name', value: 'service' },
+        { op: 'add', path: '/tags/-', value: 'b' },
+        { op: 'remove', path: '/old' },
+        { op: 'copy', from: '/name', path: '/alias' },
+      ],
+    });
+
+    expect(JSON.parse(entry!.content)).toEqual({ name: 'service', tags: ['a', 'b'], alias: 'service' });
+  });
+
+  it('applies no JSON Patch operations when one fails', async () => {
+    const original = JSON.stringify({ count: 1 });
+    await setContext(TEST_USER_ID, fixtures.validKey, original);
+
+    await expect(
+      editContext(TEST_USER_ID, fixtures.validKey, {
+        type: 'json_patch',
+        operations: [
+          { op: 'replace', path: '/count', value: 2 },
+          { op: 'test', path: '/count', value: 1 },
+        ],
+      })
+    ).rejects.toThrow(ContextEditError);
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+    expect(entry?.content).toBe(original);
+    expect((await getHistory(fixtures.validKey)).length).toBe(1);
+  });
+
+  it('rejects JSON Patch on non-JSON entries', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, notes);
+
+    await expect(
+      editContext(TEST_USER_ID, fixtures.validKey, { type: 'json_patch', operations: [{ op: 'remove', path: '/a' }] })
+    ).rejects.toThrow('valid JSON');
+  });
+
+  it('honors the expected version', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'v1');
+    await setContext(TEST_USER_ID, fixtures.validKey, 'v2');
+
+    await expect(
+      editContext(TEST_USER_ID, fixtures.validKey, { type: 'append', text: 'x', separator: '' }, undefined, {
+        precondition: { expectedVersion: 1 },
+      })
+    ).rejects.toThrow(ContextConflictError);
+  });
+
+  it('requires exactly one patch mode', () => {
+    expect(buildPatchEdit({}).error).toBeDefined();
+    expect(buildPatchEdit({ search: 'a', replace: 'b', section: 'x', content: 'y' }).error).toBeDefined();
+    expect(buildPatchEdit({ start_line: 3, end_line: 2, content: 'x' }).error).toBeDefined();
+    expect(buildPatchEdit({ start_line: 2, content: 'x' }).edit).toEqual({
+      type: 'replace_lines', startLine: 2, endLine: 2, content: 'x',
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient, queryDatabase } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  getContext,
+  getContextHistory,
+  listContextKeysPage,
+  listNamespaces,
+} from '../../src/db/queries.js';
+import { validateExpiry } from '../../src/tools/validators.js';
+import { sweepExpiredContext } from '../../src/jobs/expiry-sweeper.js';
+
+// Backdate an entry's expiry so it counts as expired
+async function expire(key: string, namespace = 'default'): Promise<void> {
+  await queryDatabase(
+    `UPDATE shared_context SET expires_at = NOW() - interval '1 second'
+     WHERE user_id = $1 AND namespace = $2 AND key = $3`,
+    [TEST_USER_ID, namespace, key]
+  );
+}
+
+describe('validateExpiry', () => {
+  it('accepts a ttl, a future timestamp or null', () => {
+    const ttl = validateExpiry(undefined, 60);
+    expect(ttl.valid).toBe(true);
+    expect(ttl.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const future = new Date(Date.now() + 3600_000).toISOString();
+    expect(validateExpiry(future, undefined)).toEqual({ valid: true, expiresAt: new Date(future) });
+    expect(validateExpiry(null, undefined)).toEqual({ valid: true, expiresAt: null });
+    expect(validateExpiry(undefined, undefined)).toEqual({ valid: true, expiresAt: undefined });
+  });
+
+  it('rejects both at once, bad ttls and past or malformed timestamps', () => {
+    expect(validateExpiry(new Date().toISOString(), 60).valid).toBe(false);
+    expect(validateExpiry(undefined, 0).valid).toBe(false);
+    expect(validateExpiry(undefined, 1.5).valid).toBe(false);
+    expect(validateExpiry('2000-01-01T00:00:00Z', undefined).valid).toBe(false);
+    expect(validateExpiry('tomorrow', undefined).valid).toBe(false);
+  });
+});
+
+describe('expiring entries', () => {
+  it('hides expired entries from reads and lists', async () => {
+    await setContext(TEST_USER_ID, 'keep', 'x');
+    await setContext(TEST_USER_ID, 'gone', 'y', 'scratch');
+    await expire('gone', 'scratch');
+
+    expect(await getContext(TEST_USER_ID, 'gone', 'scratch')).toBeNull();
+    expect((await listContextKeysPage(TEST_USER_ID, 50, undefined, 'scratch')).entries).toEqual([]);
+    expect((await listNamespaces(TEST_USER_ID)).map((n) => n.namespace)).not.toContain('scratch');
+  });
+
+  it('keeps the expiry on later writes unless it is cleared', async () => {
+    const expiresAt = new Date(Date.now() + 3600_000);
+    await setContext(TEST_USER_ID, 'temp', 'v1', 'default', { expiresAt });
+
+    const updated = await setContext(TEST_USER_ID, 'temp', 'v2');
+    expect(updated.expires_at).toEqual(expiresAt);
+
+    const cleared = await setContext(TEST_USER_ID, 'temp', 'v3', 'default', { expiresAt: null });
+    expect(cleared.expires_at).toBeNull();
+  });
+
+  it('recreates an expired key from scratch on write', async () => {
+    await setContext(TEST_USER_ID, 'temp', 'old');
+    await setContext(TEST_USER_ID, 'temp', 'older');
+    await expire('temp');
+
+    const entry = await setContext(TEST_USER_ID, 'temp', 'new');
+
+    expect(entry).toMatchObject({ content: 'new', version: 1, expires_at: null });
+    expect((await getContextHistory(TEST_USER_ID, 'temp')).map((h) => h.action)).toEqual([
+      'create',
+      'expire',
+      'update',
+      'create',
+    ]);
+  });
+
+  it('purges expired entries and logs an expire action', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+    await setContext(TEST_USER_ID, 'b', 'B');
+    await expire('a');
+
+    expect(await sweepExpiredContext()).toBe(1);
+
+    const rows = await queryDatabase<{ key: string }>('SELECT key FROM shared_context WHERE user_id = $1', [TEST_USER_ID]);
+    expect(rows.map((r) => r.key)).toEqual(['b']);
+    const history = await getContextHistory(TEST_USER_ID, 'a');
+    expect(history[0]).toMatchObject({ action: 'expire', content: 'A' });
+  });
+});
+
+describe('write_context expiry', () => {
+  it('sets expires_at from ttl_seconds', async () => {
+    const { client, disconnect } = await connectTestClient('expiry-test-session');
+
+    try {
+      const before = Date.now();
+      const result = await client.callTool({
+        name: 'write_context',
+        arguments: { key: 'session-notes', content: 'x', ttl_seconds: 3600 },
+      });
+      const expiresAt = Date.parse((result.structuredContent as { expires_at: string }).expires_at);
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 3600_000);
+
+      const invalid = await client.callTool({
+        name: 'write_context',
+        arguments: { key: 'session-notes', content: 'x', ttl_seconds: 60, expires_at: null },
+      });
+      expect(invalid.isError).toBe(true);
+    } finally {
+      await disconnect();
+    }
+  });
+});
@@ -7,8 +7,10 @@ import {
 } from '../helpers.js';
 import { TEST_USER_ID } from '../setup.js';
 import {
+  getContext,
   setContext,
   deleteContext,
+  restoreContextVersion,
 } from '../../src/db/queries.js';
 
 describe('context_history', () => {
@@ -206,4 +208,68 @@ describe('context_history', () => {
       expect(history[3].action).toBe('create');
     });
   });
+
+  describe('restore action', () => {
+    it('restores content from a previous version', async () => {
+      await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+      await wait(10);
+      await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+      const [, original] = await getHistory(fixtures.validKey);
+      const restored = await restoreContextVersion(TEST_USER_ID, fixtures.validKey, original.id);
+
+      expect(restored?.content).toBe('Version 1');
+      const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+      expect(entry?.content).toBe('Version 1');
+    });
+
+    it('records restore action with the source version', async () => {
+      await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1');
+      await wait(10);
+      await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+      const [, original] = await getHistory(fixtures.validKey);
+      await restoreContextVersion(TEST_USER_ID, fixtures.validKey, original.id);
+
+      const history = await getHistory(fixtures.validKey);
+
+      expect(history.length).toBe(3);
+      expect(history[0].action).toBe('restore');
+      expect(history[0].content).toBe('Version 1');
+      expect(history[0].restored_from).toBe(original.id);
+    });
+
+    it('recovers a deleted entry', async () => {
+      await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent);
+      await deleteContext(TEST_USER_ID, fixtures.validKey);
+
+      const history = await getHistory(fixtures.validKey);
+      const created = history.find((h) => h.action === 'create')!;
+      await restoreContextVersion(TEST_USER_ID, fixtures.validKey, created.id);
+
+      const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+      expect(entry?.content).toBe(fixtures.validContent);
+    });
+
+    it('returns null for a version belonging to another key', async () => {
+      await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent);
+      await setContext(TEST_USER_ID, fixtures.validKey2, fixtures.validContent2);
+
+      const [other] = await getHistory(fixtures.validKey2);
+      const result = await restoreContextVersion(TEST_USER_ID, fixtures.validKey, other.id);
+
+      expect(result).toBeNull();
+      expect(await countHistoryEntries()).toBe(2);
+    });
+
+    it('returns null for a version belonging to another namespace', async () => {
+      await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent, 'work');
+
+      const [other] = await getHistory(fixtures.validKey, undefined, 'work');
+      const result = await restoreContextVersion(TEST_USER_ID, fixtures.validKey, other.id);
+
+      expect(result).toBeNull();
+      expect(await getContext(TEST_USER_ID, fixtures.validKey)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  getContext,
+  getContextHistory,
+  listContextKeys,
+  importContext,
+  exportContext,
+  exportContextHistory,
+  ContextImport,
+} from '../../src/db/queries.js';
+import { validateImportEntries } from '../../src/tools/validators.js';
+import { buildExport, parseImport, ImportFormatError } from '../../src/archive/formats.js';
+import { createTar, readTar } from '../../src/archive/tar.js';
+
+describe('tar archives', () => {
+  it('round-trips files, including paths longer than 100 bytes', () => {
+    const longPath = `notes/${'k'.repeat(150)}.md`;
+    const archive = createTar([
+      { path: 'manifest.json', content: Buffer.from('{}') },
+      { path: longPath, content: Buffer.from('# long') },
+      { path: 'empty.md', content: Buffer.alloc(0) },
+    ]);
+
+    expect(archive.length % 512).toBe(0);
+    expect(readTar(archive).map((f) => [f.path, f.content.toString()])).toEqual([
+      ['manifest.json', '{}'],
+      [longPath, '# long'],
+      ['empty.md', ''],
+    ]);
+  });
+
+  it('rejects corrupted headers', () => {
+    const archive = createTar([{ path: 'a.md', content: Buffer.from('a') }]);
+    archive[0] = 'b'.charCodeAt(0);
+
+    expect(() => readTar(archive)).toThrow('checksum');
+  });
+});
+
+describe('export formats', () => {
+  it('round-trips entries through json, ndjson and tar exports', async () => {
+    await setContext(TEST_USER_ID, 'notes', '# Notes', 'default', { tags: ['a'], metadata: { m: 1 } });
+    await setContext(TEST_USER_ID, 'config', '{"x":1}', 'project-a');
+    await setContext(TEST_USER_ID, 'notes', '# Notes v2');
+    const entries = await exportContext(TEST_USER_ID);
+    const history = await exportContextHistory(TEST_USER_ID);
+
+    const expected = [
+      { namespace: 'default', key: 'notes', content: '# Notes v2', tags: ['a'], metadata: { m: 1 } },
+      { namespace: 'project-a', key: 'config', content: '{"x":1}', tags: [], metadata: {} },
+    ];
+    const json = JSON.parse(buildExport('json', entries).toString());
+    expect(parseImport(json, 'application/json')).toMatchObject(expected);
+    expect(parseImport(buildExport('ndjson', entries, history), 'application/x-ndjson')).toMatchObject(expected);
+    expect(parseImport(buildExport('tar', entries), 'application/x-tar')).toMatchObject(expected);
+  });
+
+  it('writes history after each entry in ndjson exports', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'v1');
+    await setContext(TEST_USER_ID, 'notes', 'v2');
+
+    const lines = buildExport(
+      'ndjson',
+      await exportContext(TEST_USER_ID),
+      await exportContextHistory(TEST_USER_ID)
+    ).toString().trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(lines.map((l) => [l.type, l.action ?? null])).toEqual([
+      ['header', null],
+      ['entry', null],
+      ['history', 'create'],
+      ['history', 'update'],
+    ]);
+  });
+
+  it('stores tar entries as .md or .json files and reads tars without a manifest', () => {
+    const archive = createTar([
+      { path: 'project-a/plan.md', content: Buffer.from('# Plan') },
+      { path: 'readme.md', content: Buffer.from('hi') },
+      { path: 'image.png', content: Buffer.from('x') },
+    ]);
+
+    expect(parseImport(archive, 'application/x-tar')).toEqual([
+      { namespace: 'project-a', key: 'plan', content: '# Plan' },
+      { namespace: 'default', key: 'readme', content: 'hi' },
+    ]);
+  });
+
+  it('rejects unsupported or malformed bodies', () => {
+    expect(() => parseImport({ foo: 1 }, 'application/json')).toThrow(ImportFormatError);
+    expect(() => parseImport(Buffer.from('{nope'), 'application/x-ndjson')).toThrow(ImportFormatError);
+    expect(() => parseImport(Buffer.from('x'), 'text/plain')).toThrow(ImportFormatError);
+  });
+});
+
+describe('importContext', () => {
+  const entry = (key: string, content: string, extra: Partial<ContextImport> = {}): ContextImport => ({
+    namespace: 'default',
+    key,
+    content,
+    ...extra,
+  });
+
+  it('creates new entries and reports existing ones as unchanged', async () => {
+    await setContext(TEST_USER_ID, 'same', 'same content', 'default', { tags: ['t'] });
+
+    const results = await importContext(TEST_USER_ID, [
+      entry('same', 'same content', { tags: ['t'] }),
+      entry('fresh', 'new', { namespace: 'project-a' }),
+    ], 'skip');
+
+    expect(results).toMatchObject([
+      { key: 'same', action: 'unchanged' },
+      { key: 'fresh', namespace: 'project-a', action: 'create', version: 1 },
+    ]);
+    expect((await getContext(TEST_USER_ID, 'fresh', 'project-a'))!.content).toBe('new');
+  });
+
+  it('skips, overwrites or renames entries that differ', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'local');
+
+    const [skipped] = await importContext(TEST_USER_ID, [entry('notes', 'imported')], 'skip');
+    expect(skipped).toMatchObject({ action: 'skip', changes: ['content'] });
+    expect((await getContext(TEST_USER_ID, 'notes'))!.content).toBe('local');
+
+    const [renamed] = await importContext(TEST_USER_ID, [entry('notes', 'imported')], 'rename');
+    expect(renamed).toMatchObject({ action: 'rename', newKey: 'notes-imported' });
+    const [renamedAgain] = await importContext(TEST_USER_ID, [entry('notes', 'imported again')], 'rename');
+    expect(renamedAgain).toMatchObject({ action: 'rename', newKey: 'notes-imported-2' });
+    expect((await getContext(TEST_USER_ID, 'notes-imported'))!.content).toBe('imported');
+
+    const [overwritten] = await importContext(TEST_USER_ID, [entry('notes', 'imported', { tags: ['x'] })], 'overwrite');
+    expect(overwritten).toMatchObject({ action: 'overwrite', changes: ['content', 'tags'], version: 2 });
+    expect(await getContext(TEST_USER_ID, 'notes')).toMatchObject({ content: 'imported', tags: ['x'] });
+    expect((await getContextHistory(TEST_USER_ID, 'notes')).map((h) => h.action)).toEqual(['update', 'create']);
+  });
+
+  it('leaves out entries whose expiry has passed', async () => {
+    const results = await importContext(TEST_USER_ID, [
+      entry('scratch', 'old', { expiresAt: new Date(Date.now() - 1000) }),
+      entry('kept', 'new'),
+    ], 'skip');
+
+    expect(results.map((r) => r.action)).toEqual(['expired', 'create']);
+    expect(await getContext(TEST_USER_ID, 'scratch')).toBeNull();
+    expect(validateImportEntries([{ key: 'scratch', content: 'x', expires_at: '2020-01-01T00:00:00Z' }]).valid).toBe(true);
+  });
+
+  it('changes nothing in a dry run', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'local');
+
+    const results = await importContext(
+      TEST_USER_ID,
+      [entry('notes', 'imported'), entry('other', 'x')],
+      'overwrite',
+      { dryRun: true }
+    );
+
+    expect(results.map((r) => r.action)).toEqual(['overwrite', 'create']);
+    expect((await getContext(TEST_USER_ID, 'notes'))!.content).toBe('local');
+    expect((await listContextKeys(TEST_USER_ID)).map((e) => e.key)).toEqual(['notes']);
+  });
+});
+
+describe('validateImportEntries', () => {
+  it('checks entries like write_context and rejects duplicates', () => {
+    expect(validateImportEntries([{ key: 'a', content: 'x' }]).valid).toBe(true);
+
+    const result = validateImportEntries([
+      { key: 'a', content: 'x' },
+      { key: 'a', content: 'y', namespace: 'default' },
+      { key: 'bad key!', content: 'x' },
+      { key: 'b' },
+      { key: 'c', content: 'x', tags: 'nope' },
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.itemErrors!.map((e) => e.index)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('applies the namespace override before checking for duplicates', () => {
+    const entries = [
+      { key: 'a', content: 'x', namespace: 'one' },
+      { key: 'a', content: 'y', namespace: 'two' },
+    ];
+
+    expect(validateImportEntries(entries).valid).toBe(true);
+    expect(validateImportEntries(entries, 'merged').valid).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { fixtures, getHistory } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  getContext,
+  setContext,
+  deleteContext,
+  listContextKeys,
+  getAllContext,
+  listNamespaces,
+  DEFAULT_NAMESPACE,
+} from '../../src/db/queries.js';
+import { validateKey, validateNamespace, isReservedRestKey } from '../../src/tools/validators.js';
+
+describe('namespaces', () => {
+  it('stores entries in the default namespace when none is given', async () => {
+    const entry = await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent);
+
+    expect(entry.namespace).toBe(DEFAULT_NAMESPACE);
+
+    const retrieved = await getContext(TEST_USER_ID, fixtures.validKey, DEFAULT_NAMESPACE);
+    expect(retrieved!.content).toBe(fixtures.validContent);
+  });
+
+  it('allows the same key in different namespaces', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Project A notes', 'project-a');
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Project B notes', 'project-b');
+
+    const a = await getContext(TEST_USER_ID, fixtures.validKey, 'project-a');
+    const b = await getContext(TEST_USER_ID, fixtures.validKey, 'project-b');
+    const missing = await getContext(TEST_USER_ID, fixtures.validKey);
+
+    expect(a!.content).toBe('Project A notes');
+    expect(b!.content).toBe('Project B notes');
+    expect(missing).toBeNull();
+  });
+
+  it('scopes listing and read_all to one namespace', async () => {
+    await setContext(TEST_USER_ID, 'shared-name', 'A', 'project-a');
+    await setContext(TEST_USER_ID, 'only-a', 'A only', 'project-a');
+    await setContext(TEST_USER_ID, 'only-b', 'B only', 'project-b');
+
+    const keysA = await listContextKeys(TEST_USER_ID, 50, undefined, 'project-a');
+    const allB = await getAllContext(TEST_USER_ID, 20, 'project-b');
+
+    expect(keysA.map((e) => e.key).sort()).toEqual(['only-a', 'shared-name']);
+    expect(allB.map((e) => e.key)).toEqual(['only-b']);
+  });
+
+  it('deletes only from the given namespace', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'A', 'project-a');
+    await setContext(TEST_USER_ID, fixtures.validKey, 'B', 'project-b');
+
+    const deleted = await deleteContext(TEST_USER_ID, fixtures.validKey, 'project-a');
+
+    expect(deleted).toBe(true);
+    expect(await getContext(TEST_USER_ID, fixtures.validKey, 'project-a')).toBeNull();
+    expect(await getContext(TEST_USER_ID, fixtures.validKey, 'project-b')).not.toBeNull();
+  });
+
+  it('records namespace in history', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'A', 'project-a');
+
+    const history = await getHistory(fixtures.validKey, 10, 'project-a');
+    const defaultHistory = await getHistory(fixtures.validKey);
+
+    expect(history.length).toBe(1);
+    expect(history[0].namespace).toBe('project-a');
+    expect(defaultHistory.length).toBe(0);
+  });
+
+  it('lists namespaces with entry counts, always including default', async () => {
+    await setContext(TEST_USER_ID, 'one', 'A', 'project-a');
+    await setContext(TEST_USER_ID, 'two', 'A', 'project-a');
+
+    const namespaces = await listNamespaces(TEST_USER_ID);
+
+    expect(namespaces.map((ns) => ns.namespace)).toEqual([DEFAULT_NAMESPACE, 'project-a']);
+    expect(namespaces[0].entry_count).toBe(0);
+    expect(namespaces[1].entry_count).toBe(2);
+  });
+
+  it('validates namespace names', () => {
+    expect(validateNamespace('project-a').valid).toBe(true);
+    expect(validateNamespace('my_project').valid).toBe(true);
+    expect(validateNamespace('has.dot').valid).toBe(false);
+    expect(validateNamespace('has space').valid).toBe(false);
+    expect(validateNamespace('a'.repeat(65)).valid).toBe(false);
+  });
+
+  it('reserves key names of REST routes for REST only', () => {
+    expect(validateKey('search').valid).toBe(true);
+    expect(isReservedRestKey('search')).toBe(true);
+    expect(isReservedRestKey('ns')).toBe(true);
+    expect(isReservedRestKey('search-notes')).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createMultipleEntries, queryDatabase, connectTestClient } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  listContextKeysPage,
+  getAllContextPage,
+  InvalidCursorError,
+} from '../../src/db/queries.js';
+
+describe('listContextKeysPage', () => {
+  it('walks every entry exactly once, most recent first', async () => {
+    await createMultipleEntries(7, 'page');
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await listContextKeysPage(TEST_USER_ID, 3, undefined, 'default', {}, cursor);
+      seen.push(...page.entries.map((e) => e.key));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen).toEqual(['page-6', 'page-5', 'page-4', 'page-3', 'page-2', 'page-1', 'page-0']);
+  });
+
+  it('returns no cursor when the last page is exactly full', async () => {
+    await createMultipleEntries(3, 'exact');
+
+    const page = await listContextKeysPage(TEST_USER_ID, 3);
+
+    expect(page.entries).toHaveLength(3);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('orders entries with the same updated_at by key across page boundaries', async () => {
+    for (const key of ['d', 'b', 'a', 'c']) {
+      await setContext(TEST_USER_ID, key, key);
+    }
+    // Sub-millisecond timestamps must survive the cursor round trip
+    await queryDatabase(
+      `UPDATE shared_context SET updated_at = '2024-01-01 12:00:00.123456+00' WHERE user_id = $1`,
+      [TEST_USER_ID]
+    );
+
+    const first = await listContextKeysPage(TEST_USER_ID, 2);
+    const second = await listContextKeysPage(TEST_USER_ID, 2, undefined, 'default', {}, first.nextCursor!);
+
+    expect(first.entries.map((e) => e.key)).toEqual(['a', 'b']);
+    expect(second.entries.map((e) => e.key)).toEqual(['c', 'd']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps search and filters applied on later pages', async () => {
+    await setContext(TEST_USER_ID, 'api-1', 'x', 'default', { tags: ['api'] });
+    await setContext(TEST_USER_ID, 'other', 'x', 'default', { tags: ['api'] });
+    await setContext(TEST_USER_ID, 'api-2', 'x', 'default', { tags: ['api'] });
+    await setContext(TEST_USER_ID, 'api-3', 'x');
+
+    const first = await listContextKeysPage(TEST_USER_ID, 1, 'api', 'default', { tags: ['api'] });
+    const second = await listContextKeysPage(TEST_USER_ID, 1, 'api', 'default', { tags: ['api'] }, first.nextCursor!);
+
+    expect(first.entries.map((e) => e.key)).toEqual(['api-2']);
+    expect(second.entries.map((e) => e.key)).toEqual(['api-1']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(listContextKeysPage(TEST_USER_ID, 10, undefined, 'default', {}, 'not-a-cursor')).rejects.toThrow(
+      InvalidCursorError
+    );
+    const forged = Buffer.from(JSON.stringify(['1; DROP TABLE', 'k'])).toString('base64url');
+    await expect(getAllContextPage(TEST_USER_ID, 10, 'default', {}, forged)).rejects.toThrow(InvalidCursorError);
+  });
+});
+
+describe('getAllContextPage', () => {
+  it('pages through entries with content', async () => {
+    await createMultipleEntries(3, 'full');
+
+    const first = await getAllContextPage(TEST_USER_ID, 2);
+    const second = await getAllContextPage(TEST_USER_ID, 2, 'default', {}, first.nextCursor!);
+
+    expect(first.entries.map((e) => e.content)).toEqual(['Content for entry 2', 'Content for entry 1']);
+    expect(first.entries[0]).not.toHaveProperty('cursor_position');
+    expect(second.entries.map((e) => e.key)).toEqual(['full-0']);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe('paginated tools', () => {
+  it('returns next_cursor from list_context and read_all_context', async () => {
+    await createMultipleEntries(3, 'tool');
+    const { client, disconnect } = await connectTestClient('pagination-test-session');
+
+    try {
+      const list = await client.callTool({ name: 'list_context', arguments: { limit: 2 } });
+      const listed = list.structuredContent as { entries: { key: string }[]; next_cursor: string | null };
+      expect(listed.entries.map((e) => e.key)).toEqual(['tool-2', 'tool-1']);
+
+      const rest = await client.callTool({ name: 'read_all_context', arguments: { limit: 2, cursor: listed.next_cursor } });
+      expect(rest.structuredContent).toMatchObject({ entries: [{ key: 'tool-0' }], next_cursor: null });
+
+      const invalid = await client.callTool({ name: 'list_context', arguments: { cursor: 'garbage' } });
+      expect(invalid.isError).toBe(true);
+    } finally {
+      await disconnect();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext } from '../../src/db/queries.js';
+import { createMcpServer } from '../../src/server.js';
+import { extractPromptArguments, renderPromptTemplate } from '../../src/prompts/template.js';
+import { parsePromptName, promptName } from '../../src/prompts/context-prompts.js';
+import { setSessionContext, clearSessionContext } from '../../src/auth/session-context.js';
+import { fullScopes } from '../helpers.js';
+
+const SESSION_ID = 'prompts-test-session';
+
+describe('prompt templates', () => {
+  it('extracts arguments in order without duplicates', () => {
+    expect(extractPromptArguments('Review {{ file }} for {{concern}}, then {{file}} again')).toEqual(['file', 'concern']);
+    expect(extractPromptArguments('No placeholders {here} or {{ not valid }}')).toEqual([]);
+  });
+
+  it('substitutes arguments', () => {
+    expect(renderPromptTemplate('Hi {{name}}, {{ name }}!', { name: 'Ada' })).toBe('Hi Ada, Ada!');
+  });
+
+  it('does not expand placeholders inside argument values', () => {
+    expect(renderPromptTemplate('{{a}} {{b}}', { a: '{{b}}', b: 'x' })).toBe('{{b}} x');
+  });
+
+  it('requires every argument', () => {
+    expect(() => renderPromptTemplate('{{a}} {{b}}', { a: '1' })).toThrow('Missing required argument: b');
+  });
+});
+
+describe('prompt names', () => {
+  it('uses the bare key in the default namespace', () => {
+    expect(promptName('default', 'review')).toBe('review');
+    expect(promptName('project-a', 'review')).toBe('project-a/review');
+  });
+
+  it('parses names back', () => {
+    expect(parsePromptName('review')).toEqual({ namespace: 'default', key: 'review' });
+    expect(parsePromptName('project-a/review')).toEqual({ namespace: 'project-a', key: 'review' });
+    expect(parsePromptName('a/b/c')).toBeNull();
+    expect(parsePromptName('bad key')).toBeNull();
+  });
+});
+
+describe('context prompts', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    (serverTransport as { sessionId?: string }).sessionId = SESSION_ID;
+    setSessionContext(SESSION_ID, {
+      userId: TEST_USER_ID,
+      apiKeyHash: 'test',
+      authenticatedAt: new Date(),
+      isAdmin: false,
+      scopes: fullScopes(),
+    });
+
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: 'prompts-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    clearSessionContext(SESSION_ID);
+  });
+
+  it('lists only entries tagged as prompts', async () => {
+    await setContext(TEST_USER_ID, 'review', 'Review {{file}} for {{concern}}', 'default', {
+      tags: ['prompt'],
+      metadata: { description: 'Code review checklist' },
+    });
+    await setContext(TEST_USER_ID, 'standup', 'Summarize today', 'project-a', { tags: ['prompt', 'daily'] });
+    await setContext(TEST_USER_ID, 'notes', 'Not a {{prompt}}');
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts).toEqual([
+      {
+        name: 'review',
+        title: 'review',
+        description: 'Code review checklist',
+        arguments: [
+          { name: 'file', required: true },
+          { name: 'concern', required: true },
+        ],
+      },
+      {
+        name: 'project-a/standup',
+        title: 'standup',
+        description: "Prompt template from context entry 'project-a/standup'",
+        arguments: [],
+      },
+    ]);
+  });
+
+  it('renders a prompt with arguments', async () => {
+    await setContext(TEST_USER_ID, 'review', 'Review {{file}} for {{concern}}', 'default', { tags: ['prompt'] });
+
+    const result = await client.getPrompt({ name: 'review', arguments: { file: 'api.ts', concern: 'security' } });
+
+    expect(result.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Review api.ts for security' } }]);
+  });
+
+  it('rejects missing arguments', async () => {
+    await setContext(TEST_USER_ID, 'review', 'Review {{file}}', 'default', { tags: ['prompt'] });
+
+    await expect(client.getPrompt({ name: 'review', arguments: {} })).rejects.toThrow(/Missing required argument: file/);
+  });
+
+  it('does not serve untagged entries', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'Plain notes');
+
+    await expect(client.getPrompt({ name: 'notes' })).rejects.toThrow(/not found/);
+  });
+});
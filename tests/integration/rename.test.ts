@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  getContext,
+  deleteContext,
+  getContextHistory,
+  renameContext,
+  copyContext,
+  restoreContextVersion,
+  listTrash,
+  restoreTrashedContext,
+  ContextExistsError,
+  ContextConflictError,
+} from '../../src/db/queries.js';
+
+describe('renameContext', () => {
+  it('moves the entry and its history to the new key', async () => {
+    const created = await setContext(TEST_USER_ID, 'old-name', 'v1', 'default', { tags: ['keep'], metadata: { a: 1 } });
+    await setContext(TEST_USER_ID, 'old-name', 'v2');
+
+    const result = await renameContext(TEST_USER_ID, 'old-name', 'new-name');
+
+    expect(result).toMatchObject({ overwritten: false, entry: { key: 'new-name', content: 'v2', version: 3, tags: ['keep'] } });
+    expect(result!.entry.created_at).toEqual(created.created_at);
+    expect(await getContext(TEST_USER_ID, 'old-name')).toBeNull();
+    expect(await getContextHistory(TEST_USER_ID, 'old-name')).toEqual([]);
+
+    const history = await getContextHistory(TEST_USER_ID, 'new-name');
+    expect(history.map((h) => h.action)).toEqual(['rename', 'update', 'create']);
+    expect(history[0]).toMatchObject({ source_namespace: 'default', source_key: 'old-name' });
+  });
+
+  it('keeps earlier versions restorable after a rename', async () => {
+    await setContext(TEST_USER_ID, 'doc', 'first');
+    await setContext(TEST_USER_ID, 'doc', 'second');
+    await renameContext(TEST_USER_ID, 'doc', 'doc-v2');
+
+    const first = (await getContextHistory(TEST_USER_ID, 'doc-v2')).find((h) => h.content === 'first')!;
+    const restored = await restoreContextVersion(TEST_USER_ID, 'doc-v2', first.id);
+
+    expect(restored!.content).toBe('first');
+  });
+
+  it('moves entries across namespaces', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'x');
+
+    await renameContext(TEST_USER_ID, 'notes', 'notes', 'default', 'project-a');
+
+    expect(await getContext(TEST_USER_ID, 'notes')).toBeNull();
+    expect((await getContext(TEST_USER_ID, 'notes', 'project-a'))!.content).toBe('x');
+  });
+
+  it('refuses to overwrite an existing key unless asked', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+    await setContext(TEST_USER_ID, 'b', 'B');
+
+    await expect(renameContext(TEST_USER_ID, 'a', 'b')).rejects.toThrow(ContextExistsError);
+    expect((await getContext(TEST_USER_ID, 'a'))!.content).toBe('A');
+
+    const result = await renameContext(TEST_USER_ID, 'a', 'b', 'default', 'default', { overwrite: true });
+
+    expect(result).toMatchObject({ overwritten: true, entry: { content: 'A' } });
+    const actions = (await getContextHistory(TEST_USER_ID, 'b')).map((h) => h.action);
+    expect(actions).toEqual(['rename', 'create']);
+  });
+
+  it('keeps the history of an overwritten entry with it in the trash', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+    await setContext(TEST_USER_ID, 'b', 'B1');
+    await setContext(TEST_USER_ID, 'b', 'B2');
+
+    await renameContext(TEST_USER_ID, 'a', 'b', 'default', 'default', { overwrite: true });
+    expect((await getContextHistory(TEST_USER_ID, 'b')).map((h) => h.content)).toEqual(['A', 'A']);
+
+    // Once the key is free again, restoring the replaced entry brings its history back
+    await renameContext(TEST_USER_ID, 'b', 'c');
+    const [trashed] = await listTrash(TEST_USER_ID);
+    await restoreTrashedContext(TEST_USER_ID, trashed.id);
+
+    const history = await getContextHistory(TEST_USER_ID, 'b');
+    expect(history.map((h) => h.action)).toEqual(['restore', 'delete', 'update', 'create']);
+    expect(history.map((h) => h.content)).toEqual(['B2', 'B2', 'B2', 'B1']);
+  });
+
+  it('leaves the history of a deleted entry behind when a new entry at its key is renamed', async () => {
+    await setContext(TEST_USER_ID, 'a', 'Old');
+    await deleteContext(TEST_USER_ID, 'a');
+    // While the key is free, the deleted entry's history can still be read
+    expect((await getContextHistory(TEST_USER_ID, 'a')).map((h) => h.action)).toEqual(['delete', 'create']);
+
+    await setContext(TEST_USER_ID, 'a', 'New');
+    expect((await getContextHistory(TEST_USER_ID, 'a')).map((h) => h.content)).toEqual(['New']);
+
+    await renameContext(TEST_USER_ID, 'a', 'b');
+    const history = await getContextHistory(TEST_USER_ID, 'b');
+    expect(history.map((h) => h.action)).toEqual(['rename', 'create']);
+    expect(history.map((h) => h.content)).toEqual(['New', 'New']);
+
+    // The deleted entry takes its own history back when restored from the trash
+    const [trashed] = await listTrash(TEST_USER_ID);
+    await restoreTrashedContext(TEST_USER_ID, trashed.id);
+    expect((await getContextHistory(TEST_USER_ID, 'a')).map((h) => h.action)).toEqual(['restore', 'delete', 'create']);
+  });
+
+  it('applies new content and tags with the rename, guarded by the expected version', async () => {
+    await setContext(TEST_USER_ID, 'draft', 'v1');
+
+    await expect(
+      renameContext(TEST_USER_ID, 'draft', 'final', 'default', 'default', { expectedVersion: 2, content: 'v2' })
+    ).rejects.toThrow(ContextConflictError);
+
+    const result = await renameContext(TEST_USER_ID, 'draft', 'final', 'default', 'default', {
+      expectedVersion: 1,
+      content: 'v2',
+      tags: ['done'],
+    });
+
+    expect(result!.entry).toMatchObject({ key: 'final', content: 'v2', tags: ['done'], version: 2 });
+    expect((await getContextHistory(TEST_USER_ID, 'final')).map((h) => [h.action, h.content])).toEqual([
+      ['rename', 'v2'],
+      ['create', 'v1'],
+    ]);
+  });
+
+  it('returns null for a missing source', async () => {
+    expect(await renameContext(TEST_USER_ID, 'missing', 'other')).toBeNull();
+  });
+});
+
+describe('copyContext', () => {
+  it('copies content, tags, metadata and expiry and links the history to the source', async () => {
+    const expiresAt = new Date(Date.now() + 3600_000);
+    await setContext(TEST_USER_ID, 'template', 'body', 'default', { tags: ['t'], metadata: { m: true }, expiresAt });
+
+    const result = await copyContext(TEST_USER_ID, 'template', 'instance', 'default', 'project-a');
+
+    expect(result!.entry).toMatchObject({ key: 'instance', namespace: 'project-a', version: 1, tags: ['t'], metadata: { m: true } });
+    expect(result!.entry.expires_at!.getTime()).toBe(expiresAt.getTime());
+    expect((await getContext(TEST_USER_ID, 'template'))!.version).toBe(1);
+    expect(await getContextHistory(TEST_USER_ID, 'instance', 10, 'project-a')).toEqual([
+      expect.objectContaining({ action: 'copy', source_namespace: 'default', source_key: 'template' }),
+    ]);
+  });
+});
+
+describe('rename_context and copy_context tools', () => {
+  it('renames and copies, reporting conflicts', async () => {
+    await setContext(TEST_USER_ID, 'draft', 'x');
+    await setContext(TEST_USER_ID, 'taken', 'y');
+    const { client, disconnect } = await connectTestClient('rename-test-session');
+
+    try {
+      const renamed = await client.callTool({ name: 'rename_context', arguments: { key: 'draft', new_key: 'final' } });
+      expect(renamed.structuredContent).toMatchObject({ key: 'final', from_key: 'draft', overwritten: false });
+
+      const conflict = await client.callTool({ name: 'copy_context', arguments: { key: 'final', new_key: 'taken' } });
+      expect(conflict.isError).toBe(true);
+      expect(JSON.parse((conflict.content as { text: string }[])[0].text).code).toBe('CONFLICT');
+
+      const copied = await client.callTool({
+        name: 'copy_context',
+        arguments: { key: 'final', new_key: 'taken', overwrite: true },
+      });
+      expect(copied.structuredContent).toMatchObject({ key: 'taken', overwritten: true });
+
+      const same = await client.callTool({ name: 'rename_context', arguments: { key: 'final', new_key: 'final' } });
+      expect(same.isError).toBe(true);
+    } finally {
+      await disconnect();
+    }
+  });
+});
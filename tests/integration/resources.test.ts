@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext, listRecentContext } from '../../src/db/queries.js';
+import { createMcpServer } from '../../src/server.js';
+import { detectMimeType } from '../../src/resources/content-type.js';
+import { setSessionContext, clearSessionContext } from '../../src/auth/session-context.js';
+import { fullScopes } from '../helpers.js';
+
+const SESSION_ID = 'resources-test-session';
+
+describe('content type detection', () => {
+  it('detects JSON objects and arrays', () => {
+    expect(detectMimeType('{"port": 8080}')).toBe('application/json');
+    expect(detectMimeType('  [1, 2, 3]\n')).toBe('application/json');
+  });
+
+  it('treats everything else as markdown', () => {
+    expect(detectMimeType('# Notes')).toBe('text/markdown');
+    expect(detectMimeType('{not json')).toBe('text/markdown');
+    expect(detectMimeType('"just a string"')).toBe('text/markdown');
+    expect(detectMimeType('```json\n{"a": 1}\n```')).toBe('text/markdown');
+  });
+});
+
+describe('listRecentContext', () => {
+  it('lists entries across namespaces, most recent first', async () => {
+    await setContext(TEST_USER_ID, 'first', 'a');
+    await setContext(TEST_USER_ID, 'second', 'b', 'project-a');
+
+    const entries = await listRecentContext(TEST_USER_ID);
+
+    expect(entries.map((e) => `${e.namespace}/${e.key}`)).toEqual(['project-a/second', 'default/first']);
+  });
+});
+
+describe('context resources', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // Authenticate the in-memory session like an API key session
+    (serverTransport as { sessionId?: string }).sessionId = SESSION_ID;
+    setSessionContext(SESSION_ID, {
+      userId: TEST_USER_ID,
+      apiKeyHash: 'test',
+      authenticatedAt: new Date(),
+      isAdmin: false,
+      scopes: fullScopes(),
+    });
+
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: 'resources-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    clearSessionContext(SESSION_ID);
+  });
+
+  it('lists entries as context:// resources with detected MIME types', async () => {
+    await setContext(TEST_USER_ID, 'notes', '# Notes');
+    await setContext(TEST_USER_ID, 'config', '{"port": 8080}', 'project-a');
+
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ uri: 'context://default/notes', mimeType: 'text/markdown' }),
+        expect.objectContaining({ uri: 'context://project-a/config', mimeType: 'application/json' }),
+      ])
+    );
+  });
+
+  it('exposes the resource template', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toContain('context://{namespace}/{key}');
+  });
+
+  it('reads an entry by URI', async () => {
+    await setContext(TEST_USER_ID, 'config', '{"port": 8080}', 'project-a');
+
+    const result = await client.readResource({ uri: 'context://project-a/config' });
+
+    expect(result.contents).toEqual([
+      { uri: 'context://project-a/config', mimeType: 'application/json', text: '{"port": 8080}' },
+    ]);
+  });
+
+  it('fails for missing entries', async () => {
+    await expect(client.readResource({ uri: 'context://default/missing' })).rejects.toThrow(/not found/);
+  });
+});
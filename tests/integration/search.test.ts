@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { TEST_USER_ID } from '../setup.js';
+import { setContext, searchContext, SEARCH_HIGHLIGHT } from '../../src/db/queries.js';
+import { validateSearchQuery } from '../../src/tools/validators.js';
+
+describe('full-text search', () => {
+  it('finds entries by words in their content', async () => {
+    await setContext(TEST_USER_ID, 'retry-notes', 'We decided to use exponential backoff for retries.');
+    await setContext(TEST_USER_ID, 'unrelated', 'Nothing to see here.');
+
+    const result = await searchContext(TEST_USER_ID, 'what did we decide about retries');
+
+    expect(result.match).toBe('all');
+    expect(result.hits.map((hit) => hit.key)).toEqual(['retry-notes']);
+  });
+
+  it('highlights matched words in the snippet', async () => {
+    await setContext(TEST_USER_ID, 'retry-notes', 'We decided to use exponential backoff for retries.');
+
+    const { hits } = await searchContext(TEST_USER_ID, 'backoff');
+
+    expect(hits[0].snippet).toContain(`${SEARCH_HIGHLIGHT}backoff${SEARCH_HIGHLIGHT}`);
+  });
+
+  it('ranks key matches above content-only matches', async () => {
+    await setContext(TEST_USER_ID, 'general-notes', 'We should revisit caching at some point.');
+    await setContext(TEST_USER_ID, 'caching-strategy', 'Use a write-through cache in front of Postgres.');
+
+    const { hits } = await searchContext(TEST_USER_ID, 'caching');
+
+    expect(hits.map((hit) => hit.key)).toEqual(['caching-strategy', 'general-notes']);
+    expect(hits[0].rank).toBeGreaterThan(hits[1].rank);
+  });
+
+  it('falls back to matching any term when no entry matches all', async () => {
+    await setContext(TEST_USER_ID, 'retry-notes', 'Exponential backoff for retries.');
+    await setContext(TEST_USER_ID, 'db-notes', 'We decided against an ORM.');
+
+    const result = await searchContext(TEST_USER_ID, 'retries ORM');
+
+    expect(result.match).toBe('any');
+    expect(result.hits.map((hit) => hit.key).sort()).toEqual(['db-notes', 'retry-notes']);
+  });
+
+  it('supports phrases and exclusions', async () => {
+    await setContext(TEST_USER_ID, 'a', 'Exponential backoff with jitter.');
+    await setContext(TEST_USER_ID, 'b', 'Backoff that is exponential, no jitter.');
+
+    const phrase = await searchContext(TEST_USER_ID, '"exponential backoff"');
+    const excluded = await searchContext(TEST_USER_ID, 'backoff -jitter');
+
+    expect(phrase.hits.map((hit) => hit.key)).toEqual(['a']);
+    expect(excluded.hits).toEqual([]);
+  });
+
+  it('reflects updated content', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'Original wording about queues.');
+    await setContext(TEST_USER_ID, 'notes', 'Rewritten to talk about streams.');
+
+    expect((await searchContext(TEST_USER_ID, 'queues')).hits).toEqual([]);
+    expect((await searchContext(TEST_USER_ID, 'streams')).hits).toHaveLength(1);
+  });
+
+  it('is scoped to the namespace and respects tag filters', async () => {
+    await setContext(TEST_USER_ID, 'plan', 'Migration plan for the database.', 'project-a', { tags: ['plan'] });
+    await setContext(TEST_USER_ID, 'notes', 'Database notes.', 'project-a');
+    await setContext(TEST_USER_ID, 'plan', 'Migration plan for the database.', 'project-b');
+
+    const all = await searchContext(TEST_USER_ID, 'database', 'project-a');
+    const tagged = await searchContext(TEST_USER_ID, 'database', 'project-a', 10, { tags: ['plan'] });
+
+    expect(all.hits).toHaveLength(2);
+    expect(all.hits.every((hit) => hit.namespace === 'project-a')).toBe(true);
+    expect(tagged.hits.map((hit) => hit.key)).toEqual(['plan']);
+  });
+
+  it('validates search queries', () => {
+    expect(validateSearchQuery('retries').valid).toBe(true);
+    expect(validateSearchQuery('   ').valid).toBe(false);
+    expect(validateSearchQuery(undefined).valid).toBe(false);
+    expect(validateSearchQuery('x'.repeat(501)).valid).toBe(false);
+  });
+});
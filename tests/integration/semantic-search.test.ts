@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { TEST_USER_ID } from '../setup.js';
+import { query } from '../../src/db/client.js';
+import { setContext, editContext, semanticSearchContext } from '../../src/db/queries.js';
+import { HashingEmbeddingProvider } from '../../src/embeddings/hashing.js';
+import { setEmbeddingProvider, EmbeddingProvider } from '../../src/embeddings/index.js';
+
+async function getEmbeddingModel(key: string): Promise<string | null> {
+  const result = await query<{ embedding_model: string | null }>(
+    'SELECT embedding_model FROM shared_context WHERE user_id = $1 AND key = $2',
+    [TEST_USER_ID, key]
+  );
+  return result.rows[0]?.embedding_model ?? null;
+}
+
+describe('hashing embedding provider', () => {
+  it('produces deterministic unit-length vectors', async () => {
+    const provider = new HashingEmbeddingProvider(256);
+    const [a, b] = await provider.embed(['exponential backoff', 'exponential backoff']);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it('places related word forms closer than unrelated words', async () => {
+    const provider = new HashingEmbeddingProvider();
+    const [retry, retrying, banana] = await provider.embed(['retry', 'retrying', 'banana']);
+    const dot = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0);
+
+    expect(dot(retry, retrying)).toBeGreaterThan(dot(retry, banana));
+  });
+});
+
+describe('semantic search', () => {
+  afterEach(() => {
+    setEmbeddingProvider(new HashingEmbeddingProvider());
+  });
+
+  it('ranks entries by similarity to a paraphrased query', async () => {
+    await setContext(TEST_USER_ID, 'retry-policy', 'We decided to use exponential backoff when retrying failed requests.');
+    await setContext(TEST_USER_ID, 'frontend-stack', 'React with Vite and Tailwind for styling.');
+    await setContext(TEST_USER_ID, 'deploy', 'Deployments go through Railway; the Dockerfile builds the app.');
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'how do we handle retries');
+
+    expect(hits[0].key).toBe('retry-policy');
+    expect(hits[0].score).toBeGreaterThan(0);
+    expect(hits[0].preview).toContain('exponential backoff');
+  });
+
+  it('returns nothing for unrelated queries', async () => {
+    await setContext(TEST_USER_ID, 'retry-policy', 'We decided to use exponential backoff when retrying failed requests.');
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'banana smoothie recipe');
+
+    expect(hits).toEqual([]);
+  });
+
+  it('re-embeds on setContext', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'Message queues with RabbitMQ.');
+    await setContext(TEST_USER_ID, 'notes', 'Styling with Tailwind utility classes.');
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'tailwind styling');
+
+    expect(hits.map((hit) => hit.key)).toEqual(['notes']);
+    expect(await getEmbeddingModel('notes')).toBe('hashing-ngram-v1:2048');
+  });
+
+  it('embeds edited and pre-existing entries on demand', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'Message queues with RabbitMQ.');
+    await editContext(TEST_USER_ID, 'notes', { type: 'append', text: 'Tailwind styling.', separator: '\n' });
+    await query(
+      `INSERT INTO shared_context (user_id, namespace, key, content) VALUES ($1, 'default', 'legacy', 'Authentication with Clerk')`,
+      [TEST_USER_ID]
+    );
+
+    expect(await getEmbeddingModel('notes')).toBeNull();
+    expect(await getEmbeddingModel('legacy')).toBeNull();
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'authentication');
+
+    expect(hits.map((hit) => hit.key)).toEqual(['legacy']);
+    expect(await getEmbeddingModel('notes')).toBe('hashing-ngram-v1:2048');
+  });
+
+  it('re-embeds entries when the provider changes', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'Anything at all');
+
+    const constant: EmbeddingProvider = {
+      name: 'constant',
+      dimensions: 2,
+      embed: async (texts) => texts.map(() => [1, 0]),
+    };
+    setEmbeddingProvider(constant);
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'unrelated words');
+
+    expect(hits.map((hit) => hit.key)).toEqual(['notes']);
+    expect(await getEmbeddingModel('notes')).toBe('constant:2');
+  });
+
+  it('is scoped to the namespace', async () => {
+    await setContext(TEST_USER_ID, 'retry-policy', 'Exponential backoff for retries.', 'project-a');
+    await setContext(TEST_USER_ID, 'retry-policy', 'Exponential backoff for retries.', 'project-b');
+
+    const hits = await semanticSearchContext(TEST_USER_ID, 'retries', 'project-a');
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].namespace).toBe('project-a');
+  });
+});
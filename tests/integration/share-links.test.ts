@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { queryDatabase } from '../helpers.js';
+import { TEST_USER_ID, TEST_USER_EMAIL } from '../setup.js';
+import {
+  setContext,
+  deleteContext,
+  renameContext,
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  openShareLink,
+  DEFAULT_NAMESPACE,
+} from '../../src/db/queries.js';
+
+const ACCESS = { ip: '203.0.113.7', userAgent: 'curl/8.0', format: 'raw' };
+
+describe('share links', () => {
+  it('serves an entry by token and records creation and access', async () => {
+    await setContext(TEST_USER_ID, 'api-conventions', 'Use kebab-case URLs');
+
+    expect(await createShareLink(TEST_USER_ID, 'missing', DEFAULT_NAMESPACE, null, TEST_USER_ID)).toBeNull();
+
+    const created = (await createShareLink(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, null, TEST_USER_ID))!;
+    expect(created.link).toMatchObject({ created_by: TEST_USER_EMAIL, expires_at: null, revoked_at: null, access_count: 0 });
+
+    // Only the hash is stored
+    const stored = await queryDatabase<{ token_hash: string }>('SELECT token_hash FROM share_links');
+    expect(stored[0].token_hash).not.toBe(created.token);
+
+    expect(await openShareLink(created.token, ACCESS)).toMatchObject({ key: 'api-conventions', content: 'Use kebab-case URLs' });
+    expect(await openShareLink('not-a-token', ACCESS)).toBeNull();
+
+    expect(await listShareLinks(TEST_USER_ID, 'api-conventions')).toMatchObject([{ id: created.link.id, access_count: 1 }]);
+    const events = await queryDatabase<{ event: string; ip: string | null }>(
+      'SELECT event, ip FROM share_link_events ORDER BY id'
+    );
+    expect(events).toEqual([
+      { event: 'create', ip: null },
+      { event: 'access', ip: ACCESS.ip },
+    ]);
+  });
+
+  it('stops serving revoked and expired links', async () => {
+    await setContext(TEST_USER_ID, 'runbook', 'Restart the thing');
+    const revoked = (await createShareLink(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, null, TEST_USER_ID))!;
+    const expiring = (await createShareLink(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, new Date(Date.now() + 60_000), TEST_USER_ID))!;
+
+    expect(await revokeShareLink(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, revoked.link.id, TEST_USER_ID)).toBe(true);
+    expect(await revokeShareLink(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, revoked.link.id, TEST_USER_ID)).toBe(false);
+    expect(await openShareLink(revoked.token, ACCESS)).toBeNull();
+
+    expect(await openShareLink(expiring.token, ACCESS)).not.toBeNull();
+    await queryDatabase(`UPDATE share_links SET expires_at = NOW() - INTERVAL '1 second' WHERE id = $1`, [expiring.link.id]);
+    expect(await openShareLink(expiring.token, ACCESS)).toBeNull();
+  });
+
+  it('follows the entry on rename and is revoked when the entry is deleted', async () => {
+    await setContext(TEST_USER_ID, 'draft', 'v1');
+    const { token } = (await createShareLink(TEST_USER_ID, 'draft', DEFAULT_NAMESPACE, null, TEST_USER_ID))!;
+
+    await renameContext(TEST_USER_ID, 'draft', 'final');
+    expect(await openShareLink(token, ACCESS)).toMatchObject({ key: 'final', content: 'v1' });
+
+    await deleteContext(TEST_USER_ID, 'final');
+    await setContext(TEST_USER_ID, 'final', 'a new entry at the same key');
+    expect(await openShareLink(token, ACCESS)).toBeNull();
+    expect(await listShareLinks(TEST_USER_ID, 'final')).toMatchObject([{ revoked_at: expect.any(Date) }]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { connectTestClient, queryDatabase, errorCode, type ToolResult } from '../helpers.js';
+import { TEST_USER_ID, TEST_USER_EMAIL } from '../setup.js';
+import {
+  setContext,
+  editContext,
+  deleteContext,
+  renameContext,
+  createTeam,
+  grantContextAccess,
+  listContextGrants,
+  revokeContextGrant,
+  listSharedWithUser,
+  resolveSharedEntry,
+  teamOwnerId,
+  DEFAULT_NAMESPACE,
+  SharedWriteError,
+} from '../../src/db/queries.js';
+
+const COLLEAGUE_ID = 'colleague-user';
+const COLLEAGUE_EMAIL = 'colleague@example.com';
+
+beforeAll(async () => {
+  await queryDatabase(
+    `INSERT INTO users (id, email, auth_provider) VALUES ($1, $2, 'test') ON CONFLICT (id) DO NOTHING`,
+    [COLLEAGUE_ID, COLLEAGUE_EMAIL]
+  );
+});
+
+describe('entry grants', () => {
+  it('shares an existing entry with a user and lists it for them', async () => {
+    await setContext(TEST_USER_ID, 'api-conventions', 'Use kebab-case URLs');
+
+    expect(await grantContextAccess(TEST_USER_ID, 'missing', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'read', TEST_USER_ID)).toBeNull();
+
+    const grant = await grantContextAccess(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'read', TEST_USER_ID);
+    expect(grant).toMatchObject({ grantee_type: 'user', grantee: COLLEAGUE_EMAIL, permission: 'read' });
+
+    // Granting again updates the permission instead of adding a grant
+    await grantContextAccess(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'write', TEST_USER_ID);
+    expect(await listContextGrants(TEST_USER_ID, 'api-conventions')).toMatchObject([{ id: grant!.id, permission: 'write' }]);
+
+    expect(await listSharedWithUser(COLLEAGUE_ID)).toMatchObject([
+      { owner: TEST_USER_EMAIL, namespace: 'default', key: 'api-conventions', permission: 'write' },
+    ]);
+    expect(await listSharedWithUser(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('grants team members access and picks the strongest permission', async () => {
+    const team = (await createTeam(COLLEAGUE_ID, 'platform', 'Platform'))!;
+    await setContext(TEST_USER_ID, 'runbook', 'Restart the thing');
+    await grantContextAccess(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, { teamId: team.id }, 'write', TEST_USER_ID);
+    await grantContextAccess(TEST_USER_ID, 'runbook', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'read', TEST_USER_ID);
+
+    expect(await resolveSharedEntry(COLLEAGUE_ID, TEST_USER_EMAIL, 'runbook')).toEqual({ ownerId: TEST_USER_ID, permission: 'write' });
+    expect(await resolveSharedEntry(COLLEAGUE_ID, 'someone@example.com', 'runbook')).toBeNull();
+
+    // Team entries are addressed as team:<slug>
+    await setContext(teamOwnerId(team.id), 'oncall', 'Alice this week');
+    await grantContextAccess(teamOwnerId(team.id), 'oncall', DEFAULT_NAMESPACE, { userId: TEST_USER_ID }, 'read', COLLEAGUE_ID);
+    expect(await listSharedWithUser(TEST_USER_ID)).toMatchObject([{ owner: 'team:platform', key: 'oncall', permission: 'read' }]);
+  });
+
+  it('moves grants on rename and drops them on delete', async () => {
+    await setContext(TEST_USER_ID, 'draft', 'v1');
+    await grantContextAccess(TEST_USER_ID, 'draft', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'read', TEST_USER_ID);
+
+    await renameContext(TEST_USER_ID, 'draft', 'final');
+    expect(await listContextGrants(TEST_USER_ID, 'final')).toHaveLength(1);
+
+    await deleteContext(TEST_USER_ID, 'final');
+    await setContext(TEST_USER_ID, 'final', 'a new entry at the same key');
+    expect(await listContextGrants(TEST_USER_ID, 'final')).toEqual([]);
+    expect(await resolveSharedEntry(COLLEAGUE_ID, TEST_USER_EMAIL, 'final')).toBeNull();
+  });
+});
+
+describe('shared entries in tools', () => {
+  it('lets grantees read shared entries, write with a write grant, and stops on revoke', async () => {
+    await setContext(TEST_USER_ID, 'api-conventions', 'Use kebab-case URLs');
+    const grant = (await grantContextAccess(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'read', TEST_USER_ID))!;
+    const { client, disconnect } = await connectTestClient('sharing-colleague-session', COLLEAGUE_ID);
+
+    try {
+      const listed = await client.callTool({ name: 'list_context', arguments: {} }) as ToolResult;
+      expect(listed.structuredContent?.shared_with_me).toMatchObject([
+        { owner: TEST_USER_EMAIL, key: 'api-conventions', permission: 'read' },
+      ]);
+
+      const read = await client.callTool({
+        name: 'read_context',
+        arguments: { key: 'api-conventions', owner: TEST_USER_EMAIL },
+      }) as ToolResult;
+      expect(read.structuredContent).toMatchObject({ content: 'Use kebab-case URLs' });
+
+      const denied = await client.callTool({
+        name: 'append_context',
+        arguments: { key: 'api-conventions', content: 'More', owner: TEST_USER_EMAIL },
+      }) as ToolResult;
+      expect(errorCode(denied)).toBe('FORBIDDEN');
+
+      await grantContextAccess(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'write', TEST_USER_ID);
+      const appended = await client.callTool({
+        name: 'append_context',
+        arguments: { key: 'api-conventions', content: 'Plural nouns', owner: TEST_USER_EMAIL },
+      }) as ToolResult;
+      expect(appended.isError).toBeFalsy();
+
+      // Revoking applies to the already open session on its next call
+      expect(await revokeContextGrant(TEST_USER_ID, 'api-conventions', DEFAULT_NAMESPACE, grant.id)).toBe(true);
+      const revoked = await client.callTool({
+        name: 'read_context',
+        arguments: { key: 'api-conventions', owner: TEST_USER_EMAIL },
+      }) as ToolResult;
+      expect(errorCode(revoked)).toBe('NOT_FOUND');
+
+      const both = await client.callTool({
+        name: 'read_context',
+        arguments: { key: 'api-conventions', owner: TEST_USER_EMAIL, workspace: 'acme' },
+      }) as ToolResult;
+      expect(errorCode(both)).toBe('INVALID_INPUT');
+    } finally {
+      await disconnect();
+    }
+  });
+
+  it('limits shared writes to content and checks the grant when writing', async () => {
+    await setContext(TEST_USER_ID, 'release-notes', 'v1', DEFAULT_NAMESPACE, { tags: ['docs'], metadata: { team: 'core' } });
+    const grant = (await grantContextAccess(TEST_USER_ID, 'release-notes', DEFAULT_NAMESPACE, { userId: COLLEAGUE_ID }, 'write', TEST_USER_ID))!;
+    const { client, disconnect } = await connectTestClient('sharing-content-session', COLLEAGUE_ID);
+
+    try {
+      for (const extra of [{ tags: ['prompt'] }, { metadata: { team: 'other' } }, { ttl_seconds: 60 }, { expires_at: null }]) {
+        const rejected = await client.callTool({
+          name: 'write_context',
+          arguments: { key: 'release-notes', content: 'v2', owner: TEST_USER_EMAIL, ...extra },
+        }) as ToolResult;
+        expect(errorCode(rejected)).toBe('FORBIDDEN');
+      }
+
+      const written = await client.callTool({
+        name: 'write_context',
+        arguments: { key: 'release-notes', content: 'v2', owner: TEST_USER_EMAIL },
+      }) as ToolResult;
+      expect(written.structuredContent).toMatchObject({ version: 2, tags: ['docs'], metadata: { team: 'core' } });
+    } finally {
+      await disconnect();
+    }
+
+    // A grant revoked after the tool's check still stops the write
+    await revokeContextGrant(TEST_USER_ID, 'release-notes', DEFAULT_NAMESPACE, grant.id);
+    await expect(
+      setContext(TEST_USER_ID, 'release-notes', 'v3', DEFAULT_NAMESPACE, { grantee: COLLEAGUE_ID })
+    ).rejects.toBeInstanceOf(SharedWriteError);
+    await expect(
+      editContext(TEST_USER_ID, 'release-notes', { type: 'append', text: 'v3', separator: '\n' }, DEFAULT_NAMESPACE, { grantee: COLLEAGUE_ID })
+    ).rejects.toBeInstanceOf(SharedWriteError);
+    await expect(
+      editContext(TEST_USER_ID, 'missing-notes', { type: 'append', text: 'v3', separator: '\n' }, DEFAULT_NAMESPACE, { grantee: COLLEAGUE_ID })
+    ).rejects.toBeInstanceOf(SharedWriteError);
+  });
+});
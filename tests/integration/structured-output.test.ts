@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { connectTestClient, queryDatabase } from '../helpers.js';
+import { setContext } from '../../src/db/queries.js';
+
+const ADMIN_USER_ID = 'structured-output-admin';
+const CREATED_USER_ID = 'structured-output-user';
+
+type ToolResult = Awaited<ReturnType<Client['callTool']>>;
+
+async function removeTestUsers(): Promise<void> {
+  await queryDatabase('DELETE FROM admin_audit_log WHERE admin_user_id = $1', [ADMIN_USER_ID]);
+  await queryDatabase('DELETE FROM users WHERE id = ANY($1)', [[ADMIN_USER_ID, CREATED_USER_ID]]);
+}
+
+// The text block still carries the full { success, data } envelope
+function textPayload(result: ToolResult) {
+  return JSON.parse((result.content as { text: string }[])[0].text);
+}
+
+describe('structured tool output', () => {
+  let client: Client;
+  let disconnect: () => Promise<void>;
+
+  beforeAll(async () => {
+    await removeTestUsers();
+    await queryDatabase(
+      `INSERT INTO users (id, email, auth_provider, is_admin, created_at, updated_at)
+       VALUES ($1, 'admin@structured.test', 'test', true, NOW(), NOW())`,
+      [ADMIN_USER_ID]
+    );
+    ({ client, disconnect } = await connectTestClient('structured-output-session', ADMIN_USER_ID, true));
+  });
+
+  afterAll(async () => {
+    await disconnect();
+    await removeTestUsers();
+  });
+
+  it('declares an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: 'object' });
+    }
+  });
+
+  it('returns structuredContent matching the text block for every context tool', async () => {
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ['write_context', { key: 'notes', content: '# Notes\n\nfirst', tags: ['prompt'] }],
+      ['append_context', { key: 'notes', content: 'second' }],
+      ['patch_context', { key: 'notes', search: 'first', replace: 'one' }],
+      ['read_context', { key: 'notes' }],
+      ['list_context', { search: 'no' }],
+      ['read_all_context', {}],
+      ['search_context', { query: 'notes' }],
+      ['semantic_search_context', { query: 'notes' }],
+      ['get_context_history', { key: 'notes' }],
+    ];
+
+    for (const [name, args] of calls) {
+      const result = await client.callTool({ name, arguments: args });
+
+      expect(result.isError, name).toBeFalsy();
+      expect(result.structuredContent, name).toEqual(textPayload(result).data);
+    }
+
+    const history = await client.callTool({ name: 'get_context_history', arguments: { key: 'notes' } });
+    const [latest] = (history.structuredContent as { versions: { history_id: number }[] }).versions;
+    for (const [name, args] of [
+      ['restore_context_version', { key: 'notes', history_id: latest.history_id }],
+      ['delete_context', { key: 'notes' }],
+    ] as const) {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.structuredContent, name).toEqual(textPayload(result).data);
+    }
+  });
+
+  it('returns structuredContent for admin tools', async () => {
+    const created = await client.callTool({
+      name: 'admin_create_user',
+      arguments: { user_id: CREATED_USER_ID, email: 'user@structured.test' },
+    });
+    expect(created.structuredContent).toMatchObject({ user_id: CREATED_USER_ID });
+
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ['admin_list_users', {}],
+      ['admin_create_api_key', { user_id: CREATED_USER_ID, name: 'second' }],
+      ['admin_revoke_api_key', { user_id: CREATED_USER_ID, api_key_name: 'second' }],
+      ['admin_delete_user', { user_id: CREATED_USER_ID, confirm: true }],
+    ];
+    for (const [name, args] of calls) {
+      const result = await client.callTool({ name, arguments: args });
+
+      expect(result.isError, name).toBeFalsy();
+      expect(result.structuredContent, name).toEqual(textPayload(result).data);
+    }
+  });
+
+  it('flags errors with isError and keeps the error text block', async () => {
+    await setContext(ADMIN_USER_ID, 'other', 'x');
+
+    const result = await client.callTool({ name: 'read_context', arguments: { key: 'missing' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(textPayload(result)).toMatchObject({ success: false, code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { TEST_USER_ID } from '../setup.js';
+import { getHistory, fullScopes, queryDatabase } from '../helpers.js';
+import {
+  setContext,
+  editContext,
+  deleteContext,
+  restoreContextVersion,
+  createTeam,
+  addTeamMember,
+  teamOwnerId,
+  listWorkspaceUserIds,
+} from '../../src/db/queries.js';
+import { onContextChange, ContextChange } from '../../src/db/events.js';
+import { createMcpServer } from '../../src/server.js';
+import { isSubscribed } from '../../src/resources/subscriptions.js';
+import { parseContextResourceUri } from '../../src/resources/context-resource.js';
+import { setSessionContext, clearSessionContext } from '../../src/auth/session-context.js';
+
+const SESSION_ID = 'subscriptions-test-session';
+
+describe('context change events', () => {
+  const changes: ContextChange[] = [];
+  let unsubscribe: () => void;
+
+  beforeAll(() => {
+    unsubscribe = onContextChange((change) => changes.push(change));
+  });
+
+  afterEach(() => {
+    changes.length = 0;
+  });
+
+  afterAll(() => {
+    unsubscribe();
+  });
+
+  it('emits created, updated and deleted for committed writes', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'v1', 'project-a');
+    await setContext(TEST_USER_ID, 'notes', 'v2', 'project-a');
+    await editContext(TEST_USER_ID, 'notes', { type: 'append', text: 'v3', separator: '\n' }, 'project-a');
+    await deleteContext(TEST_USER_ID, 'notes', 'project-a');
+
+    expect(changes).toEqual([
+      { userId: TEST_USER_ID, namespace: 'project-a', key: 'notes', type: 'created' },
+      { userId: TEST_USER_ID, namespace: 'project-a', key: 'notes', type: 'updated' },
+      { userId: TEST_USER_ID, namespace: 'project-a', key: 'notes', type: 'updated' },
+      { userId: TEST_USER_ID, namespace: 'project-a', key: 'notes', type: 'deleted' },
+    ]);
+  });
+
+  it('emits created when restoring a deleted entry', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'v1');
+    await deleteContext(TEST_USER_ID, 'notes');
+    const [deleted] = await getHistory('notes');
+    changes.length = 0;
+
+    await restoreContextVersion(TEST_USER_ID, 'notes', deleted.id);
+
+    expect(changes).toEqual([{ userId: TEST_USER_ID, namespace: 'default', key: 'notes', type: 'created' }]);
+  });
+
+  it('resolves changes to team entries to the team members', async () => {
+    await queryDatabase(
+      `INSERT INTO users (id, email, auth_provider) VALUES ('subscriptions-teammate', 'sub-teammate@example.com', 'test')
+       ON CONFLICT (id) DO NOTHING`
+    );
+    const team = (await createTeam(TEST_USER_ID, 'notify', 'Notify'))!;
+    await addTeamMember(team.id, 'sub-teammate@example.com', 'viewer');
+
+    await setContext(teamOwnerId(team.id), 'runbook', 'v1');
+
+    expect(changes).toEqual([{ userId: teamOwnerId(team.id), namespace: 'default', key: 'runbook', type: 'created' }]);
+    expect((await listWorkspaceUserIds(changes[0].userId)).sort()).toEqual(['subscriptions-teammate', TEST_USER_ID].sort());
+    expect(await listWorkspaceUserIds(TEST_USER_ID)).toEqual([TEST_USER_ID]);
+  });
+
+  it('does not emit for deletes of missing entries', async () => {
+    await deleteContext(TEST_USER_ID, 'missing');
+
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('parseContextResourceUri', () => {
+  it('parses namespace and key', () => {
+    expect(parseContextResourceUri('context://project-a/config')).toEqual({ namespace: 'project-a', key: 'config' });
+  });
+
+  it('rejects other URIs', () => {
+    expect(parseContextResourceUri('https://example.com/a')).toBeNull();
+    expect(parseContextResourceUri('context://default')).toBeNull();
+    expect(parseContextResourceUri('context://default/a/b')).toBeNull();
+    expect(parseContextResourceUri('context://default/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('resource subscriptions', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    (serverTransport as { sessionId?: string }).sessionId = SESSION_ID;
+    setSessionContext(SESSION_ID, {
+      userId: TEST_USER_ID,
+      apiKeyHash: 'test',
+      authenticatedAt: new Date(),
+      isAdmin: false,
+      scopes: fullScopes(),
+    });
+
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: 'subscriptions-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    clearSessionContext(SESSION_ID);
+  });
+
+  it('advertises subscribe and listChanged', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+  });
+
+  it('subscribes and unsubscribes per session', async () => {
+    await client.subscribeResource({ uri: 'context://default/notes' });
+    expect(isSubscribed(SESSION_ID, 'context://default/notes')).toBe(true);
+    expect(isSubscribed('other-session', 'context://default/notes')).toBe(false);
+
+    await client.unsubscribeResource({ uri: 'context://default/notes' });
+    expect(isSubscribed(SESSION_ID, 'context://default/notes')).toBe(false);
+  });
+
+  it('rejects non-context URIs', async () => {
+    await expect(client.subscribeResource({ uri: 'https://example.com' })).rejects.toThrow(/Not a context resource URI/);
+  });
+});
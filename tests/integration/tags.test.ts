@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { fixtures } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  getContext,
+  setContext,
+  listContextKeys,
+  getAllContext,
+  listTags,
+} from '../../src/db/queries.js';
+import { validateTags, validateMetadata } from '../../src/tools/validators.js';
+
+describe('tags and metadata', () => {
+  it('defaults to no tags and empty metadata', async () => {
+    const entry = await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent);
+
+    expect(entry.tags).toEqual([]);
+    expect(entry.metadata).toEqual({});
+  });
+
+  it('stores tags and metadata on write', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, fixtures.validContent, undefined, {
+      tags: ['architecture', 'status:draft'],
+      metadata: { source: 'meeting', project: 'api' },
+    });
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+
+    expect(entry?.tags).toEqual(['architecture', 'status:draft']);
+    expect(entry?.metadata).toEqual({ source: 'meeting', project: 'api' });
+  });
+
+  it('keeps tags and metadata when an update omits them', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1', undefined, {
+      tags: ['keep-me'],
+      metadata: { source: 'cli' },
+    });
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2');
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+
+    expect(entry?.tags).toEqual(['keep-me']);
+    expect(entry?.metadata).toEqual({ source: 'cli' });
+  });
+
+  it('replaces tags when an update provides them', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 1', undefined, { tags: ['old'] });
+    await setContext(TEST_USER_ID, fixtures.validKey, 'Version 2', undefined, { tags: [] });
+
+    const entry = await getContext(TEST_USER_ID, fixtures.validKey);
+    expect(entry?.tags).toEqual([]);
+  });
+
+  it('filters listings by tags (all must match)', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'a', undefined, { tags: ['api', 'draft'] });
+    await setContext(TEST_USER_ID, fixtures.validKey2, 'b', undefined, { tags: ['api'] });
+    await setContext(TEST_USER_ID, fixtures.validKey3, 'c', undefined, { tags: ['ui'] });
+
+    const api = await listContextKeys(TEST_USER_ID, 50, undefined, undefined, { tags: ['api'] });
+    const apiDrafts = await listContextKeys(TEST_USER_ID, 50, undefined, undefined, { tags: ['api', 'draft'] });
+
+    expect(api.map((e) => e.key).sort()).toEqual([fixtures.validKey2, fixtures.validKey].sort());
+    expect(apiDrafts.map((e) => e.key)).toEqual([fixtures.validKey]);
+    expect(apiDrafts[0].tags).toEqual(['api', 'draft']);
+  });
+
+  it('filters listings by metadata containment', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'a', undefined, { metadata: { source: 'meeting', team: 'core' } });
+    await setContext(TEST_USER_ID, fixtures.validKey2, 'b', undefined, { metadata: { source: 'chat' } });
+
+    const entries = await getAllContext(TEST_USER_ID, 20, undefined, { metadata: { source: 'meeting' } });
+
+    expect(entries.map((e) => e.key)).toEqual([fixtures.validKey]);
+  });
+
+  it('combines tag filters with key search', async () => {
+    await setContext(TEST_USER_ID, 'notes-api', 'a', undefined, { tags: ['api'] });
+    await setContext(TEST_USER_ID, 'spec-api', 'b', undefined, { tags: ['api'] });
+
+    const entries = await listContextKeys(TEST_USER_ID, 50, 'notes', undefined, { tags: ['api'] });
+
+    expect(entries.map((e) => e.key)).toEqual(['notes-api']);
+  });
+
+  it('lists tags with entry counts', async () => {
+    await setContext(TEST_USER_ID, fixtures.validKey, 'a', undefined, { tags: ['api', 'draft'] });
+    await setContext(TEST_USER_ID, fixtures.validKey2, 'b', undefined, { tags: ['api'] });
+    await setContext(TEST_USER_ID, fixtures.validKey3, 'c', undefined, { tags: ['draft'] });
+    await setContext(TEST_USER_ID, 'other-ns-key', 'd', 'other', { tags: ['elsewhere'] });
+
+    const tags = await listTags(TEST_USER_ID);
+
+    expect(tags).toEqual([
+      { tag: 'api', entry_count: 2 },
+      { tag: 'draft', entry_count: 2 },
+    ]);
+  });
+
+  it('validates tags and metadata', () => {
+    expect(validateTags(['ok', 'status:draft', 'team/core']).valid).toBe(true);
+    expect(validateTags(['has space']).valid).toBe(false);
+    expect(validateTags(Array.from({ length: 21 }, (_, i) => `t${i}`)).valid).toBe(false);
+    expect(validateMetadata({ source: 'x' }).valid).toBe(true);
+    expect(validateMetadata(['not', 'an', 'object']).valid).toBe(false);
+    expect(validateMetadata({ blob: 'x'.repeat(11000) }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { connectTestClient, queryDatabase, errorCode, type ToolResult } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  createTeam,
+  listTeamMemberships,
+  listTeamMembers,
+  addTeamMember,
+  updateTeamMemberRole,
+  removeTeamMember,
+  deleteTeam,
+  deleteUser,
+  getTeamBySlug,
+  setContext,
+  getContext,
+  deleteContext,
+  listTrash,
+  teamOwnerId,
+  TeamMembershipError,
+} from '../../src/db/queries.js';
+import { resolveWorkspace, WorkspaceAccessError } from '../../src/auth/workspace.js';
+
+const TEAMMATE_ID = 'teammate-user';
+const TEAMMATE_EMAIL = 'teammate@example.com';
+
+beforeAll(async () => {
+  await queryDatabase(
+    `INSERT INTO users (id, email, auth_provider) VALUES ($1, $2, 'test') ON CONFLICT (id) DO NOTHING`,
+    [TEAMMATE_ID, TEAMMATE_EMAIL]
+  );
+});
+
+describe('teams', () => {
+  it('creates a team owned by its creator', async () => {
+    const team = await createTeam(TEST_USER_ID, 'acme', 'Acme');
+
+    expect(team).toMatchObject({ slug: 'acme', name: 'Acme', role: 'owner' });
+    expect(await createTeam(TEAMMATE_ID, 'acme', 'Other')).toBeNull();
+    expect(await listTeamMemberships(TEST_USER_ID)).toMatchObject([{ slug: 'acme', role: 'owner' }]);
+    expect(await listTeamMemberships(TEAMMATE_ID)).toEqual([]);
+  });
+
+  it('adds members by email and keeps at least one owner', async () => {
+    const team = (await createTeam(TEST_USER_ID, 'acme', 'Acme'))!;
+
+    expect(await addTeamMember(team.id, 'nobody@example.com', 'editor')).toBeNull();
+    expect(await addTeamMember(team.id, TEAMMATE_EMAIL, 'viewer')).toMatchObject({ user_id: TEAMMATE_ID, role: 'viewer' });
+    await expect(addTeamMember(team.id, TEAMMATE_EMAIL, 'editor')).rejects.toThrow(TeamMembershipError);
+
+    await expect(removeTeamMember(team.id, TEST_USER_ID)).rejects.toThrow(TeamMembershipError);
+    await expect(updateTeamMemberRole(team.id, TEST_USER_ID, 'editor')).rejects.toThrow(TeamMembershipError);
+
+    expect(await updateTeamMemberRole(team.id, TEAMMATE_ID, 'owner')).toBe(true);
+    expect(await removeTeamMember(team.id, TEST_USER_ID)).toBe(true);
+    expect(await removeTeamMember(team.id, TEST_USER_ID)).toBe(false);
+    expect(await listTeamMembers(team.id)).toMatchObject([{ email: TEAMMATE_EMAIL, role: 'owner' }]);
+  });
+
+  it('deletes a team with its context, history and trash', async () => {
+    const team = (await createTeam(TEST_USER_ID, 'acme', 'Acme'))!;
+    const ownerId = teamOwnerId(team.id);
+    await setContext(ownerId, 'decisions', 'Use Postgres');
+    await setContext(ownerId, 'old', 'x');
+    await deleteContext(ownerId, 'old');
+
+    expect(await listTrash(ownerId)).toHaveLength(1);
+    expect(await deleteTeam(team.id)).toBe(true);
+
+    const rows = await queryDatabase<{ count: string }>(
+      `SELECT (SELECT COUNT(*) FROM shared_context WHERE user_id = $1)
+            + (SELECT COUNT(*) FROM context_history WHERE user_id = $1)
+            + (SELECT COUNT(*) FROM context_trash WHERE user_id = $1) AS count`,
+      [ownerId]
+    );
+    expect(rows[0].count).toBe('0');
+    expect(await listTeamMemberships(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('refuses to delete the last owner of a team, and deletes teams nobody else is in', async () => {
+    await queryDatabase(
+      `INSERT INTO users (id, email, auth_provider) VALUES ('leaving-user', 'leaving@example.com', 'test') ON CONFLICT (id) DO NOTHING`
+    );
+    const shared = (await createTeam('leaving-user', 'shared', 'Shared'))!;
+    await createTeam('leaving-user', 'solo', 'Solo');
+    await addTeamMember(shared.id, TEAMMATE_EMAIL, 'viewer');
+
+    await expect(deleteUser('leaving-user')).rejects.toThrow(TeamMembershipError);
+    expect(await getTeamBySlug('solo')).not.toBeNull();
+
+    await updateTeamMemberRole(shared.id, TEAMMATE_ID, 'owner');
+    expect(await deleteUser('leaving-user')).toBe(true);
+    expect(await getTeamBySlug('solo')).toBeNull();
+    expect(await listTeamMembers(shared.id)).toMatchObject([{ user_id: TEAMMATE_ID, role: 'owner' }]);
+  });
+});
+
+describe('resolveWorkspace', () => {
+  const principal = {
+    userId: TEST_USER_ID,
+    isAdmin: false,
+    memberships: [
+      { id: 1, slug: 'acme', name: 'Acme', created_at: new Date(), role: 'viewer' as const },
+    ],
+  };
+
+  it('resolves the personal workspace and team workspaces by role', () => {
+    expect(resolveWorkspace(principal, undefined, 'write')).toEqual({ ownerId: TEST_USER_ID, team: null });
+    expect(resolveWorkspace(principal, 'acme', 'read').ownerId).toBe('team:1');
+    expect(() => resolveWorkspace(principal, 'acme', 'write')).toThrow(WorkspaceAccessError);
+    expect(() => resolveWorkspace(principal, 'other', 'read')).toThrow(/not found/);
+  });
+});
+
+describe('team workspaces in tools', () => {
+  it('shares team context between members and enforces roles', async () => {
+    const team = (await createTeam(TEST_USER_ID, 'acme', 'Acme'))!;
+    await addTeamMember(team.id, TEAMMATE_EMAIL, 'viewer');
+    const owner = await connectTestClient('teams-owner-session');
+    const teammate = await connectTestClient('teams-teammate-session', TEAMMATE_ID);
+
+    try {
+      const written = await owner.client.callTool({
+        name: 'write_context',
+        arguments: { key: 'decisions', content: 'Use Postgres', workspace: 'acme' },
+      }) as ToolResult;
+      expect(written.isError).toBeFalsy();
+      expect(await getContext(teamOwnerId(team.id), 'decisions')).toMatchObject({ content: 'Use Postgres' });
+      expect(await getContext(TEST_USER_ID, 'decisions')).toBeNull();
+
+      const read = await teammate.client.callTool({
+        name: 'read_context',
+        arguments: { key: 'decisions', workspace: 'acme' },
+      }) as ToolResult;
+      expect(read.structuredContent).toMatchObject({ content: 'Use Postgres' });
+
+      const denied = await teammate.client.callTool({
+        name: 'write_context',
+        arguments: { key: 'decisions', content: 'Use SQLite', workspace: 'acme' },
+      }) as ToolResult;
+      expect(errorCode(denied)).toBe('FORBIDDEN');
+
+      const listed = await teammate.client.callTool({ name: 'list_workspaces', arguments: {} }) as ToolResult;
+      expect(listed.structuredContent).toEqual({ workspaces: [{ slug: 'acme', name: 'Acme', role: 'viewer' }], count: 1 });
+    } finally {
+      await owner.disconnect();
+      await teammate.disconnect();
+    }
+  });
+
+  it('reports team workspaces the caller is not in as not found', async () => {
+    await createTeam(TEAMMATE_ID, 'private', 'Private');
+    const { client, disconnect } = await connectTestClient('teams-outsider-session');
+
+    try {
+      const result = await client.callTool({
+        name: 'read_context',
+        arguments: { key: 'anything', workspace: 'private' },
+      }) as ToolResult;
+      expect(errorCode(result)).toBe('NOT_FOUND');
+    } finally {
+      await disconnect();
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { connectTestClient, queryDatabase } from '../helpers.js';
+import { TEST_USER_ID } from '../setup.js';
+import {
+  setContext,
+  getContext,
+  getContextHistory,
+  deleteContext,
+  deleteManyContext,
+  renameContext,
+  listTrash,
+  restoreTrashedContext,
+  deleteTrashedContext,
+  emptyTrash,
+  purgeTrash,
+  restoreContextVersion,
+  ContextExistsError,
+} from '../../src/db/queries.js';
+
+describe('trash', () => {
+  it('moves deleted entries to the trash', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'some notes', 'default', { tags: ['a'] });
+    await setContext(TEST_USER_ID, 'plan', 'the plan', 'project-a');
+
+    await deleteContext(TEST_USER_ID, 'notes');
+    await deleteManyContext(TEST_USER_ID, ['plan'], 'project-a');
+
+    const trash = await listTrash(TEST_USER_ID);
+    expect(trash).toMatchObject([
+      { key: 'plan', namespace: 'project-a', preview: 'the plan' },
+      { key: 'notes', namespace: 'default', tags: ['a'], preview: 'some notes' },
+    ]);
+    expect(await listTrash(TEST_USER_ID, 'project-a')).toHaveLength(1);
+    expect((await getContextHistory(TEST_USER_ID, 'notes'))[0].action).toBe('delete');
+  });
+
+  it('trashes the entry an overwriting rename replaces', async () => {
+    await setContext(TEST_USER_ID, 'a', 'A');
+    await setContext(TEST_USER_ID, 'b', 'B');
+
+    await renameContext(TEST_USER_ID, 'a', 'b', 'default', 'default', { overwrite: true });
+
+    expect(await listTrash(TEST_USER_ID)).toMatchObject([{ key: 'b', preview: 'B' }]);
+  });
+
+  it('removes the trash entry when a deleted entry is restored from its history', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'v1');
+    await deleteContext(TEST_USER_ID, 'notes');
+
+    const [deleted] = await getContextHistory(TEST_USER_ID, 'notes');
+    await restoreContextVersion(TEST_USER_ID, 'notes', deleted.id);
+
+    expect((await getContext(TEST_USER_ID, 'notes'))!.content).toBe('v1');
+    expect(await listTrash(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('restores an entry with its tags, metadata and created_at', async () => {
+    const created = await setContext(TEST_USER_ID, 'notes', 'v1', 'default', { tags: ['t'], metadata: { m: 1 } });
+    await setContext(TEST_USER_ID, 'notes', 'v2');
+    await deleteContext(TEST_USER_ID, 'notes');
+    const [trashed] = await listTrash(TEST_USER_ID);
+
+    const restored = await restoreTrashedContext(TEST_USER_ID, trashed.id);
+
+    expect(restored).toMatchObject({ content: 'v2', version: 3, tags: ['t'], metadata: { m: 1 } });
+    expect(restored!.created_at).toEqual(created.created_at);
+    expect((await getContext(TEST_USER_ID, 'notes'))!.content).toBe('v2');
+    expect(await listTrash(TEST_USER_ID)).toEqual([]);
+    expect((await getContextHistory(TEST_USER_ID, 'notes')).map((h) => h.action)).toEqual([
+      'restore',
+      'delete',
+      'update',
+      'create',
+    ]);
+  });
+
+  it('refuses to restore over a key that was reused', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'old');
+    await deleteContext(TEST_USER_ID, 'notes');
+    await setContext(TEST_USER_ID, 'notes', 'new');
+    const [trashed] = await listTrash(TEST_USER_ID);
+
+    await expect(restoreTrashedContext(TEST_USER_ID, trashed.id)).rejects.toThrow(ContextExistsError);
+    expect((await getContext(TEST_USER_ID, 'notes'))!.content).toBe('new');
+    expect(await listTrash(TEST_USER_ID)).toHaveLength(1);
+  });
+
+  it('returns null for trash entries of other users', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'x');
+    await deleteContext(TEST_USER_ID, 'notes');
+    const [trashed] = await listTrash(TEST_USER_ID);
+
+    expect(await restoreTrashedContext('someone-else', trashed.id)).toBeNull();
+    expect(await deleteTrashedContext('someone-else', trashed.id)).toBe(false);
+  });
+
+  it('deletes trash entries for good', async () => {
+    for (const key of ['a', 'b', 'c']) {
+      await setContext(TEST_USER_ID, key, key);
+      await deleteContext(TEST_USER_ID, key);
+    }
+    const [latest] = await listTrash(TEST_USER_ID);
+
+    expect(await deleteTrashedContext(TEST_USER_ID, latest.id)).toBe(true);
+    expect(await getContextHistory(TEST_USER_ID, 'c')).toEqual([]);
+    expect(await emptyTrash(TEST_USER_ID)).toBe(2);
+    expect(await listTrash(TEST_USER_ID)).toEqual([]);
+
+    // The history that went to the trash with the entries goes with them
+    const history = await queryDatabase(`SELECT id FROM context_history WHERE user_id = $1`, [TEST_USER_ID]);
+    expect(history).toEqual([]);
+  });
+
+  it('purges entries past the retention window', async () => {
+    await setContext(TEST_USER_ID, 'old', 'x');
+    await setContext(TEST_USER_ID, 'recent', 'y');
+    await deleteManyContext(TEST_USER_ID, ['old', 'recent']);
+    await queryDatabase(
+      `UPDATE context_trash SET deleted_at = NOW() - interval '31 days' WHERE key = 'old'`
+    );
+
+    expect(await purgeTrash(30)).toBe(1);
+    expect((await listTrash(TEST_USER_ID)).map((e) => e.key)).toEqual(['recent']);
+    const history = await queryDatabase<{ key: string }>(
+      `SELECT DISTINCT key FROM context_history WHERE user_id = $1`,
+      [TEST_USER_ID]
+    );
+    expect(history.map((row) => row.key)).toEqual(['recent']);
+  });
+});
+
+describe('list_trash and restore_context tools', () => {
+  it('lists and restores trashed entries', async () => {
+    await setContext(TEST_USER_ID, 'notes', 'x');
+    await deleteContext(TEST_USER_ID, 'notes');
+    const { client, disconnect } = await connectTestClient('trash-test-session');
+
+    try {
+      const listed = await client.callTool({ name: 'list_trash', arguments: {} });
+      const { entries, retention_days } = listed.structuredContent as {
+        entries: Array<{ id: number; key: string; deleted_at: string; purge_at: string }>;
+        retention_days: number;
+      };
+      expect(entries).toMatchObject([{ key: 'notes' }]);
+      expect(Date.parse(entries[0].purge_at) - Date.parse(entries[0].deleted_at)).toBe(retention_days * 86400000);
+
+      const restored = await client.callTool({ name: 'restore_context', arguments: { id: entries[0].id } });
+      expect(restored.structuredContent).toMatchObject({ key: 'notes', namespace: 'default', version: 2 });
+
+      const missing = await client.callTool({ name: 'restore_context', arguments: { id: entries[0].id } });
+      expect(missing.isError).toBe(true);
+      expect(JSON.parse((missing.content as { text: string }[])[0].text).code).toBe('NOT_FOUND');
+    } finally {
+      await disconnect();
+    }
+  });
+});
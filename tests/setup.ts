@@ -69,7 +69,7 @@ beforeEach(async () => {
 
   // Truncate context tables to ensure clean state (keep users and api_keys)
   // Using TRUNCATE with CASCADE to handle foreign key constraints
-  await pool.query('TRUNCATE TABLE shared_context, context_history RESTART IDENTITY CASCADE');
+  await pool.query('TRUNCATE TABLE shared_context, context_history, context_trash, context_grants, share_links, teams RESTART IDENTITY CASCADE');
 });
 
 /**